@@ -0,0 +1,51 @@
+-- Migration 001: Row-level security for tenant isolation
+-- Second isolation layer beneath the application's tenant-scoped Prisma client.
+-- Every tenant-owned table only exposes rows whose tenant_id matches the
+-- per-transaction setting app.current_tenant_id. Cross-tenant system lookups
+-- (e.g. resolving a user at login) must explicitly set app.bypass_rls = 'on'.
+--
+-- Note: superusers and roles with BYPASSRLS ignore these policies, so the
+-- application must connect as an ordinary role.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION app_current_tenant_id() RETURNS UUID AS $$
+    SELECT NULLIF(current_setting('app.current_tenant_id', true), '')::UUID;
+$$ LANGUAGE SQL STABLE;
+
+CREATE OR REPLACE FUNCTION app_rls_bypassed() RETURNS BOOLEAN AS $$
+    SELECT COALESCE(current_setting('app.bypass_rls', true), '') = 'on';
+$$ LANGUAGE SQL STABLE;
+
+-- Tenants are visible only to themselves
+ALTER TABLE tenants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tenants FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON tenants;
+CREATE POLICY tenant_isolation ON tenants
+    USING (id = app_current_tenant_id() OR app_rls_bypassed())
+    WITH CHECK (id = app_current_tenant_id() OR app_rls_bypassed());
+
+-- Tenant-owned tables
+DO $$
+DECLARE
+    table_name TEXT;
+BEGIN
+    FOREACH table_name IN ARRAY ARRAY[
+        'users', 'roles', 'accounts', 'contacts', 'leads', 'sales_stages',
+        'opportunities', 'activities', 'tasks', 'notes', 'custom_fields',
+        'audit_logs', 'integrations', 'webhooks', 'workflow_rules'
+    ]
+    LOOP
+        EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', table_name);
+        EXECUTE format('ALTER TABLE %I FORCE ROW LEVEL SECURITY', table_name);
+        EXECUTE format('DROP POLICY IF EXISTS tenant_isolation ON %I', table_name);
+        EXECUTE format(
+            'CREATE POLICY tenant_isolation ON %I
+                USING (tenant_id = app_current_tenant_id() OR app_rls_bypassed())
+                WITH CHECK (tenant_id = app_current_tenant_id() OR app_rls_bypassed())',
+            table_name
+        );
+    END LOOP;
+END $$;
+
+COMMIT;
@@ -0,0 +1,34 @@
+-- Migration 002: Server-side sessions for rotating refresh tokens
+-- Each login starts a token family (family_id). Refreshing rotates the row
+-- (rotated_at) and inserts a successor; presenting a rotated token again
+-- revokes the whole family.
+
+BEGIN;
+
+CREATE TABLE sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    family_id UUID NOT NULL,
+    refresh_token_hash VARCHAR(64) NOT NULL UNIQUE,
+    ip_address VARCHAR(255),
+    user_agent TEXT,
+    expires_at TIMESTAMP NOT NULL,
+    rotated_at TIMESTAMP,
+    revoked_at TIMESTAMP,
+    revoked_reason VARCHAR(50),
+    last_used_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_sessions_tenant_id ON sessions(tenant_id);
+CREATE INDEX idx_sessions_family_id ON sessions(family_id);
+CREATE INDEX idx_sessions_user_id ON sessions(user_id);
+
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sessions FORCE ROW LEVEL SECURITY;
+CREATE POLICY tenant_isolation ON sessions
+    USING (tenant_id = app_current_tenant_id() OR app_rls_bypassed())
+    WITH CHECK (tenant_id = app_current_tenant_id() OR app_rls_bypassed());
+
+COMMIT;
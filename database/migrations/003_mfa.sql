@@ -0,0 +1,30 @@
+-- Migration 003: TOTP multi-factor authentication
+-- Users hold an encrypted TOTP secret; recovery codes are stored hashed and
+-- can each be used once. Tenant MFA requirements live in tenants.settings->'mfa'.
+
+BEGIN;
+
+ALTER TABLE users ADD COLUMN mfa_enabled BOOLEAN DEFAULT false;
+ALTER TABLE users ADD COLUMN mfa_secret TEXT;
+ALTER TABLE users ADD COLUMN mfa_enrolled_at TIMESTAMP;
+ALTER TABLE users ADD COLUMN mfa_last_used_step INTEGER;
+
+CREATE TABLE mfa_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code_hash VARCHAR(64) NOT NULL,
+    used_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_mfa_recovery_codes_tenant_id ON mfa_recovery_codes(tenant_id);
+CREATE INDEX idx_mfa_recovery_codes_user_id ON mfa_recovery_codes(user_id);
+
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mfa_recovery_codes FORCE ROW LEVEL SECURITY;
+CREATE POLICY tenant_isolation ON mfa_recovery_codes
+    USING (tenant_id = app_current_tenant_id() OR app_rls_bypassed())
+    WITH CHECK (tenant_id = app_current_tenant_id() OR app_rls_bypassed());
+
+COMMIT;
@@ -0,0 +1,31 @@
+-- Migration 004: Tenant slugs for tenant-aware login
+-- Users can name their tenant explicitly at login (e.g. ?tenant=acme) when the
+-- request host does not match tenants.domain. Existing tenants get a slug
+-- derived from their name, suffixed with part of the id when names collide.
+
+BEGIN;
+
+-- Backfilling reads every tenant, so bypass row-level security for this transaction
+SELECT set_config('app.bypass_rls', 'on', true);
+
+ALTER TABLE tenants ADD COLUMN slug VARCHAR(100) UNIQUE;
+
+UPDATE tenants t
+SET slug = s.slug
+FROM (
+    SELECT
+        id,
+        base || CASE
+            WHEN row_number() OVER (PARTITION BY base ORDER BY created_at, id) > 1
+                THEN '-' || left(id::text, 8)
+            ELSE ''
+        END AS slug
+    FROM (
+        SELECT id, created_at, trim(both '-' from lower(regexp_replace(name, '[^a-zA-Z0-9]+', '-', 'g'))) AS base
+        FROM tenants
+        WHERE slug IS NULL
+    ) names
+) s
+WHERE t.id = s.id;
+
+COMMIT;
@@ -0,0 +1,26 @@
+-- Migration 005: SAML 2.0 service provider
+-- Tracks outstanding AuthnRequest IDs (InResponseTo validation) and consumed
+-- assertion IDs so a captured SAML response cannot be replayed. SAML IdP
+-- settings are stored as integrations with type = 'saml'.
+
+BEGIN;
+
+CREATE TABLE saml_messages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    kind VARCHAR(20) NOT NULL,
+    message_id VARCHAR(255) NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(tenant_id, kind, message_id)
+);
+
+CREATE INDEX idx_saml_messages_expires_at ON saml_messages(expires_at);
+
+ALTER TABLE saml_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saml_messages FORCE ROW LEVEL SECURITY;
+CREATE POLICY tenant_isolation ON saml_messages
+    USING (tenant_id = app_current_tenant_id() OR app_rls_bypassed())
+    WITH CHECK (tenant_id = app_current_tenant_id() OR app_rls_bypassed());
+
+COMMIT;
@@ -0,0 +1,26 @@
+-- Migration 006: Login brute-force protection
+-- Failure counters for the Postgres-backed login limiter, keyed by account
+-- (email) or client IP. The table is global, not tenant data, so it has no RLS.
+-- A reserved, inactive "system" tenant receives audit events that cannot be
+-- attributed to a real tenant, such as failed logins for unknown emails.
+
+BEGIN;
+
+SELECT set_config('app.bypass_rls', 'on', true);
+
+CREATE TABLE login_attempts (
+    key VARCHAR(320) PRIMARY KEY,
+    failures INTEGER NOT NULL DEFAULT 0,
+    window_started_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    blocked_until TIMESTAMP,
+    locked_until TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_login_attempts_updated_at ON login_attempts(updated_at);
+
+INSERT INTO tenants (id, name, slug, plan, is_active)
+VALUES ('00000000-0000-0000-0000-000000000000', 'System', 'system', 'system', false)
+ON CONFLICT (id) DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,30 @@
+-- Migration 007: Password reset and forced password change
+-- Reset tokens are stored as SHA-256 hashes, expire, and can be used once.
+-- Admins can require a user to choose a new password at their next login.
+
+BEGIN;
+
+ALTER TABLE users ADD COLUMN must_change_password BOOLEAN DEFAULT false;
+ALTER TABLE users ADD COLUMN password_changed_at TIMESTAMP;
+
+CREATE TABLE password_reset_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    expires_at TIMESTAMP NOT NULL,
+    used_at TIMESTAMP,
+    ip_address VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_password_reset_tokens_tenant_id ON password_reset_tokens(tenant_id);
+CREATE INDEX idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
+
+ALTER TABLE password_reset_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE password_reset_tokens FORCE ROW LEVEL SECURITY;
+CREATE POLICY tenant_isolation ON password_reset_tokens
+    USING (tenant_id = app_current_tenant_id() OR app_rls_bypassed())
+    WITH CHECK (tenant_id = app_current_tenant_id() OR app_rls_bypassed());
+
+COMMIT;
@@ -0,0 +1,24 @@
+-- Migration 008: Per-tenant password policy
+-- The policy itself lives in tenants.settings.passwordPolicy; this table keeps
+-- previous password hashes so the policy's history depth can block reuse.
+
+BEGIN;
+
+CREATE TABLE password_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    password_hash VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_password_history_tenant_id ON password_history(tenant_id);
+CREATE INDEX idx_password_history_user_id ON password_history(user_id, created_at);
+
+ALTER TABLE password_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE password_history FORCE ROW LEVEL SECURITY;
+CREATE POLICY tenant_isolation ON password_history
+    USING (tenant_id = app_current_tenant_id() OR app_rls_bypassed())
+    WITH CHECK (tenant_id = app_current_tenant_id() OR app_rls_bypassed());
+
+COMMIT;
@@ -0,0 +1,13 @@
+-- Migration 009: Request context on audit log entries
+-- Each API request carries a correlation ID (x-correlation-id) that is stored
+-- with its audit entries. ip_address becomes text so the raw forwarded-for
+-- value, or 'unknown', can be recorded like the other request-context columns.
+
+BEGIN;
+
+ALTER TABLE audit_logs ADD COLUMN correlation_id VARCHAR(64);
+ALTER TABLE audit_logs ALTER COLUMN ip_address TYPE VARCHAR(255) USING ip_address::text;
+
+CREATE INDEX idx_audit_logs_correlation_id ON audit_logs(correlation_id);
+
+COMMIT;
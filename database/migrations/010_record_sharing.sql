@@ -0,0 +1,70 @@
+-- Migration 010: Record-level ownership and sharing
+-- Org-wide defaults live in tenants.settings.sharing. Roles form a hierarchy
+-- (a role sees records owned by users in the roles below it), and individual
+-- records can be shared with a user or a team.
+
+BEGIN;
+
+ALTER TABLE roles ADD COLUMN parent_role_id UUID REFERENCES roles(id) ON DELETE SET NULL;
+CREATE INDEX idx_roles_parent_role_id ON roles(parent_role_id);
+
+CREATE TABLE teams (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(tenant_id, name)
+);
+
+CREATE TABLE team_members (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(team_id, user_id)
+);
+
+CREATE TABLE record_shares (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    entity_type VARCHAR(50) NOT NULL,
+    record_id UUID NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+    access_level VARCHAR(20) NOT NULL DEFAULT 'read',
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    -- Exactly one grantee
+    CHECK ((user_id IS NULL) <> (team_id IS NULL)),
+    CHECK (access_level IN ('read', 'read_write'))
+);
+
+CREATE INDEX idx_teams_tenant_id ON teams(tenant_id);
+CREATE INDEX idx_team_members_tenant_id ON team_members(tenant_id);
+CREATE INDEX idx_team_members_user_id ON team_members(user_id);
+CREATE INDEX idx_record_shares_tenant_id ON record_shares(tenant_id);
+CREATE INDEX idx_record_shares_record ON record_shares(entity_type, record_id);
+CREATE INDEX idx_record_shares_user_id ON record_shares(user_id);
+CREATE INDEX idx_record_shares_team_id ON record_shares(team_id);
+
+DO $$
+DECLARE
+    table_name TEXT;
+BEGIN
+    FOREACH table_name IN ARRAY ARRAY['teams', 'team_members', 'record_shares']
+    LOOP
+        EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', table_name);
+        EXECUTE format('ALTER TABLE %I FORCE ROW LEVEL SECURITY', table_name);
+        EXECUTE format(
+            'CREATE POLICY tenant_isolation ON %I
+                USING (tenant_id = app_current_tenant_id() OR app_rls_bypassed())
+                WITH CHECK (tenant_id = app_current_tenant_id() OR app_rls_bypassed())',
+            table_name
+        );
+    END LOOP;
+END $$;
+
+COMMIT;
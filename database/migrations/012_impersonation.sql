@@ -0,0 +1,13 @@
+-- Migration 012: Admin impersonation
+-- An impersonation session belongs to the impersonated user and records the
+-- Super Admin who started it. Audit entries written during such a session name
+-- both users.
+
+BEGIN;
+
+ALTER TABLE sessions ADD COLUMN impersonator_id UUID REFERENCES users(id) ON DELETE CASCADE;
+ALTER TABLE audit_logs ADD COLUMN impersonator_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_audit_logs_impersonator_id ON audit_logs(impersonator_id);
+
+COMMIT;
@@ -0,0 +1,35 @@
+-- Migration 014: Duplicate detection and merging
+-- Likely duplicates found on create or by the background scan are kept as
+-- candidate pairs until a user merges or dismisses them. Merged records are
+-- soft-deleted, so leads get the is_active flag the other entities have.
+
+BEGIN;
+
+ALTER TABLE leads ADD COLUMN is_active BOOLEAN DEFAULT true;
+
+CREATE TABLE duplicate_candidates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    entity_type VARCHAR(50) NOT NULL,
+    record_id UUID NOT NULL,
+    duplicate_id UUID NOT NULL,
+    matched_on TEXT[] DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'open',
+    detected_by VARCHAR(20) NOT NULL,
+    resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (tenant_id, entity_type, record_id, duplicate_id),
+    CHECK (record_id < duplicate_id)
+);
+
+CREATE INDEX idx_duplicate_candidates_tenant_status ON duplicate_candidates(tenant_id, entity_type, status);
+CREATE INDEX idx_duplicate_candidates_duplicate_id ON duplicate_candidates(duplicate_id);
+
+ALTER TABLE duplicate_candidates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE duplicate_candidates FORCE ROW LEVEL SECURITY;
+CREATE POLICY tenant_isolation ON duplicate_candidates
+    USING (tenant_id = app_current_tenant_id() OR app_rls_bypassed())
+    WITH CHECK (tenant_id = app_current_tenant_id() OR app_rls_bypassed());
+
+COMMIT;
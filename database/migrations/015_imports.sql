@@ -0,0 +1,62 @@
+-- Migration 015: Bulk imports
+-- An uploaded CSV or XLSX file becomes an import job with one row per data
+-- line. Each row records what the import did with it (created or updated
+-- record, skipped duplicate, validation error), so a rollback can undo
+-- exactly what the import changed.
+
+BEGIN;
+
+CREATE TABLE import_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    entity_type VARCHAR(50) NOT NULL,
+    file_name VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'uploaded',
+    headers TEXT[] DEFAULT '{}',
+    mapping JSONB DEFAULT '{}',
+    duplicate_mode VARCHAR(20) NOT NULL DEFAULT 'skip',
+    total_rows INTEGER NOT NULL DEFAULT 0,
+    processed_rows INTEGER NOT NULL DEFAULT 0,
+    created_count INTEGER NOT NULL DEFAULT 0,
+    updated_count INTEGER NOT NULL DEFAULT 0,
+    skipped_count INTEGER NOT NULL DEFAULT 0,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    validation JSONB,
+    error TEXT,
+    started_at TIMESTAMP,
+    completed_at TIMESTAMP,
+    rolled_back_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE import_rows (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    job_id UUID NOT NULL REFERENCES import_jobs(id) ON DELETE CASCADE,
+    row_number INTEGER NOT NULL,
+    data JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    record_id UUID,
+    previous JSONB,
+    error TEXT,
+    UNIQUE (job_id, row_number)
+);
+
+CREATE INDEX idx_import_jobs_tenant_id ON import_jobs(tenant_id);
+CREATE INDEX idx_import_rows_job_status ON import_rows(job_id, status);
+
+ALTER TABLE import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_jobs FORCE ROW LEVEL SECURITY;
+CREATE POLICY tenant_isolation ON import_jobs
+    USING (tenant_id = app_current_tenant_id() OR app_rls_bypassed())
+    WITH CHECK (tenant_id = app_current_tenant_id() OR app_rls_bypassed());
+
+ALTER TABLE import_rows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_rows FORCE ROW LEVEL SECURITY;
+CREATE POLICY tenant_isolation ON import_rows
+    USING (tenant_id = app_current_tenant_id() OR app_rls_bypassed())
+    WITH CHECK (tenant_id = app_current_tenant_id() OR app_rls_bypassed());
+
+COMMIT;
@@ -0,0 +1,25 @@
+-- Migration 016: Default tenant_id to the row-level security context
+-- Rows inserted inside a tenant context (app.current_tenant_id) belong to that
+-- tenant without naming it. Outside a context the default is NULL and the
+-- insert fails on NOT NULL, so a row can never land in the wrong tenant.
+
+BEGIN;
+
+DO $$
+DECLARE
+    target TEXT;
+BEGIN
+    FOR target IN
+        SELECT c.table_name
+        FROM information_schema.columns c
+        JOIN information_schema.tables t
+            ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+        WHERE c.table_schema = current_schema()
+            AND c.column_name = 'tenant_id'
+            AND t.table_type = 'BASE TABLE'
+    LOOP
+        EXECUTE format('ALTER TABLE %I ALTER COLUMN tenant_id SET DEFAULT app_current_tenant_id()', target);
+    END LOOP;
+END $$;
+
+COMMIT;
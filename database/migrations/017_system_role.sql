@@ -0,0 +1,39 @@
+-- Migration 017: Cross-tenant access through a dedicated role
+-- Row-level security could be switched off by any session that set
+-- app.bypass_rls, including raw SQL on the application's connection. The
+-- policies no longer honour that setting; cross-tenant lookups (login, token
+-- refresh, background jobs) connect as a separate role with BYPASSRLS through
+-- SYSTEM_DATABASE_URL instead. Create it once per database, e.g.:
+--
+--   CREATE ROLE crm_system LOGIN BYPASSRLS PASSWORD '...';
+--   GRANT USAGE ON SCHEMA public TO crm_system;
+--   GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA public TO crm_system;
+--
+-- The application role itself must not have BYPASSRLS (nor be a superuser).
+
+BEGIN;
+
+DO $$
+DECLARE
+    target RECORD;
+    tenant_column TEXT;
+BEGIN
+    FOR target IN
+        SELECT tablename FROM pg_policies
+        WHERE schemaname = current_schema() AND policyname = 'tenant_isolation'
+    LOOP
+        tenant_column := CASE WHEN target.tablename = 'tenants' THEN 'id' ELSE 'tenant_id' END;
+
+        EXECUTE format('DROP POLICY tenant_isolation ON %I', target.tablename);
+        EXECUTE format(
+            'CREATE POLICY tenant_isolation ON %I
+                USING (%I = app_current_tenant_id())
+                WITH CHECK (%I = app_current_tenant_id())',
+            target.tablename, tenant_column, tenant_column
+        );
+    END LOOP;
+END $$;
+
+DROP FUNCTION IF EXISTS app_rls_bypassed();
+
+COMMIT;
@@ -0,0 +1,25 @@
+-- Migration 018: Export permission for administrators and managers
+-- Account, contact and lead exports need the `export` action, which no default
+-- role below Super Admin had. Grant it to the existing Admin and Sales Manager
+-- system roles on each of those resources they can already read. Sales Rep
+-- and custom roles are left as they are. Run it as the migration owner, like
+-- the others, so row-level security does not hide the roles.
+
+BEGIN;
+
+DO $$
+DECLARE
+    resource TEXT;
+BEGIN
+    FOREACH resource IN ARRAY ARRAY['accounts', 'contacts', 'leads']
+    LOOP
+        UPDATE roles
+        SET permissions = jsonb_set(permissions, ARRAY[resource], (permissions -> resource) || '["export"]'::jsonb)
+        WHERE is_system_role
+            AND name IN ('Admin', 'Sales Manager')
+            AND (permissions -> resource) ? 'read'
+            AND NOT (permissions -> resource) ? 'export';
+    END LOOP;
+END $$;
+
+COMMIT;
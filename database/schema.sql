@@ -320,8 +320,8 @@ INSERT INTO tenants (id, name, domain, plan) VALUES
 -- Insert default roles
 INSERT INTO roles (id, tenant_id, name, description, permissions, is_system_role) VALUES
     ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001', 'Super Admin', 'Full system access', '{"*": ["*"]}', true),
-    ('10000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-000000000001', 'Admin', 'Tenant administration', '{"users": ["read", "write"], "accounts": ["read", "write"], "contacts": ["read", "write"], "leads": ["read", "write"], "opportunities": ["read", "write"]}', true),
-    ('10000000-0000-0000-0000-000000000003', '00000000-0000-0000-0000-000000000001', 'Sales Manager', 'Sales team management', '{"accounts": ["read", "write"], "contacts": ["read", "write"], "leads": ["read", "write"], "opportunities": ["read", "write"], "reports": ["read"]}', true),
+    ('10000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-000000000001', 'Admin', 'Tenant administration', '{"users": ["read", "write"], "accounts": ["read", "write", "export"], "contacts": ["read", "write", "export"], "leads": ["read", "write", "export"], "opportunities": ["read", "write"]}', true),
+    ('10000000-0000-0000-0000-000000000003', '00000000-0000-0000-0000-000000000001', 'Sales Manager', 'Sales team management', '{"accounts": ["read", "write", "export"], "contacts": ["read", "write", "export"], "leads": ["read", "write", "export"], "opportunities": ["read", "write"], "reports": ["read"]}', true),
     ('10000000-0000-0000-0000-000000000004', '00000000-0000-0000-0000-000000000001', 'Sales Rep', 'Sales operations', '{"accounts": ["read", "write"], "contacts": ["read", "write"], "leads": ["read", "write"], "opportunities": ["read", "write"]}', true);
 
 -- Insert default sales stages
@@ -331,4 +331,23 @@ INSERT INTO sales_stages (id, tenant_id, name, probability, stage_order, is_clos
     ('20000000-0000-0000-0000-000000000003', '00000000-0000-0000-0000-000000000001', 'Proposal', 50, 3, false, false),
     ('20000000-0000-0000-0000-000000000004', '00000000-0000-0000-0000-000000000001', 'Negotiation', 75, 4, false, false),
     ('20000000-0000-0000-0000-000000000005', '00000000-0000-0000-0000-000000000001', 'Closed Won', 100, 5, true, false),
-    ('20000000-0000-0000-0000-000000000006', '00000000-0000-0000-0000-000000000001', 'Closed Lost', 0, 6, false, true);
\ No newline at end of file
+    ('20000000-0000-0000-0000-000000000006', '00000000-0000-0000-0000-000000000001', 'Closed Lost', 0, 6, false, true);
+
+-- Apply migrations (run after the default data above is inserted)
+\ir migrations/001_row_level_security.sql
+\ir migrations/002_sessions.sql
+\ir migrations/003_mfa.sql
+\ir migrations/004_tenant_slug.sql
+\ir migrations/005_saml.sql
+\ir migrations/006_login_throttling.sql
+\ir migrations/007_password_reset.sql
+\ir migrations/008_password_policy.sql
+\ir migrations/009_audit_request_context.sql
+\ir migrations/010_record_sharing.sql
+\ir migrations/011_user_invitations.sql
+\ir migrations/012_impersonation.sql
+\ir migrations/013_api_keys.sql
+\ir migrations/014_duplicates.sql
+\ir migrations/015_imports.sql
+\ir migrations/016_tenant_id_default.sql
+\ir migrations/017_system_role.sql
@@ -1,6 +1,9 @@
 -- Seed data for Enterprise Sales CRM
 -- Sample data for demonstration and testing
 
+-- Seeding spans tenants, so bypass row-level security for this session
+SELECT set_config('app.bypass_rls', 'on', false);
+
 -- Insert demo users (password: 'demo123' hashed with bcrypt)
 INSERT INTO users (id, tenant_id, email, password_hash, first_name, last_name, role_id, phone, is_active) VALUES
     ('30000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001', 'admin@demo.crm.com', '$2b$10$rQZ9uJ7mPqJlVxKXNj3YP.eJ9X1WZoYd8qNcVxJlFzxLnF2HgYr4G', 'Admin', 'User', '10000000-0000-0000-0000-000000000002', '+1-555-0001', true),
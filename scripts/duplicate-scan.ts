@@ -0,0 +1,51 @@
+// Duplicate scan for every active tenant, for a nightly cron job
+//
+//   npm run duplicates:scan                  scan all active tenants
+//   npm run duplicates:scan -- --tenant <id> scan one tenant
+//
+// Each tenant's matching rules come from Settings > Duplicates; new candidate
+// pairs show up in GET /api/duplicates.
+import { createAuditLog, prisma, withSystemContext, SYSTEM_TENANT_ID } from '../src/lib/database';
+import { scanForDuplicates, DUPLICATE_ENTITIES } from '../src/lib/duplicates';
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const tenantId = option(process.argv.slice(2), 'tenant');
+  const tenants: { id: string; name: string }[] = await withSystemContext((tx) =>
+    tx.tenant.findMany({
+      where: { isActive: true, id: tenantId ? tenantId : { not: SYSTEM_TENANT_ID } },
+      select: { id: true, name: true },
+    })
+  );
+
+  let failed = 0;
+  for (const tenant of tenants) {
+    try {
+      const result = await scanForDuplicates(tenant.id);
+      await createAuditLog({
+        tenantId: tenant.id,
+        action: 'DUPLICATE_SCAN',
+        resourceType: 'duplicate_candidate',
+        afterData: result,
+      });
+
+      const summary = DUPLICATE_ENTITIES.flatMap((entity) => {
+        const counts = result[entity];
+        return counts ? [`${entity}: ${counts.flagged} new of ${counts.scanned}`] : [];
+      }).join(', ');
+      console.log(`${tenant.name} (${tenant.id}): ${summary || 'duplicate detection disabled'}`);
+    } catch (error) {
+      failed++;
+      console.error(`${tenant.name} (${tenant.id}): scan failed`, error);
+    }
+  }
+
+  await prisma.$disconnect();
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,87 @@
+// JWT signing key management
+//
+//   npm run jwt:keys                       list the keys in the key set file
+//   npm run jwt:rotate -- [options]        add a new signing key
+//
+// Rotation options:
+//   --alg ES256|RS256     algorithm of the new key (default ES256)
+//   --activate-in <min>   publish the key now but only sign with it after this
+//                         many minutes, so every server and JWKS consumer has
+//                         seen it first (default 0)
+//   --keep <n>            keys to keep, newest first; older ones are removed
+//                         and tokens they signed stop verifying (default 3)
+//   --file <path>         key set file (default JWT_SIGNING_KEYS_FILE or
+//                         .keys/jwt-signing-keys.json)
+import {
+  keySetFilePath,
+  readKeySetFile,
+  rotateKeySet,
+  writeKeySetFile,
+  SigningAlgorithm,
+  SIGNING_ALGORITHMS,
+} from '../src/lib/signing-keys';
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const file = option(args, 'file') || keySetFilePath();
+  const keySet = readKeySetFile(file) || { keys: [] };
+
+  if (command === 'list') {
+    if (keySet.keys.length === 0) {
+      console.log(`No keys in ${file}`);
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const signing = keySet.keys
+      .filter((key) => key.activatesAt <= now)
+      .sort((a, b) => b.activatesAt.localeCompare(a.activatesAt))[0];
+
+    for (const key of keySet.keys) {
+      const state = key === signing ? 'signing' : key.activatesAt > now ? 'pending' : 'verify-only';
+      console.log(`${key.kid}  ${key.alg}  ${state.padEnd(11)}  activates ${key.activatesAt}`);
+    }
+    return;
+  }
+
+  if (command === 'rotate') {
+    const alg = (option(args, 'alg') || 'ES256').toUpperCase() as SigningAlgorithm;
+    if (!SIGNING_ALGORITHMS.includes(alg)) {
+      fail(`Unsupported algorithm ${alg}; use ${SIGNING_ALGORITHMS.join(' or ')}`);
+    }
+
+    const activateIn = Number(option(args, 'activate-in') || '0');
+    const keep = Number(option(args, 'keep') || '3');
+    if (!Number.isFinite(activateIn) || activateIn < 0 || !Number.isInteger(keep) || keep < 1) {
+      fail('--activate-in must be a non-negative number and --keep a positive integer');
+    }
+
+    const result = rotateKeySet(keySet, {
+      alg,
+      activatesAt: new Date(Date.now() + activateIn * 60 * 1000),
+      keep,
+    });
+    writeKeySetFile(result.keySet, file);
+
+    console.log(`Added ${result.added.kid} (${alg}), signing from ${result.added.activatesAt}`);
+    for (const key of result.removed) {
+      console.log(`Removed ${key.kid}`);
+    }
+    console.log(`Key set written to ${file}`);
+    return;
+  }
+
+  fail('Usage: tsx scripts/jwt-keys.ts list | rotate [--alg ES256|RS256] [--activate-in <minutes>] [--keep <n>] [--file <path>]');
+}
+
+main();
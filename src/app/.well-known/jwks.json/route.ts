@@ -0,0 +1,9 @@
+// JWKS - Public keys that verify the access tokens this server issues
+import { NextResponse } from 'next/server';
+import { getJwks } from '@/lib/signing-keys';
+
+export async function GET() {
+  return NextResponse.json(getJwks(), {
+    headers: { 'Cache-Control': 'public, max-age=300' },
+  });
+}
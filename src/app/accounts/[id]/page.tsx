@@ -0,0 +1,213 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AccountTree, AccountTreeNode } from '@/components/account-tree';
+import { apiFetch } from '@/lib/api-client';
+
+interface AccountDetail {
+  id: string;
+  name?: string;
+  website?: string | null;
+  industry?: string | null;
+  accountType?: string;
+  phone?: string | null;
+  city?: string | null;
+  country?: string | null;
+  owner: { firstName: string | null; lastName: string | null; email: string } | null;
+  parentAccount: { id: string; name: string } | null;
+  contacts: { id: string; firstName?: string; lastName?: string; email?: string | null }[];
+  opportunities: { id: string; name?: string; amount?: string | null; stage: { name: string } }[];
+}
+
+interface HierarchyRollup {
+  accounts: number;
+  openPipeline: number | null;
+  wonRevenue: number | null;
+  contacts: number;
+  employees: number | null;
+}
+
+interface Hierarchy {
+  tree: AccountTreeNode;
+  path: string[];
+  rollup: HierarchyRollup;
+}
+
+function formatCurrency(amount: number | null): string {
+  if (amount === null) return 'Hidden';
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0 }).format(amount);
+}
+
+export default function AccountPage() {
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+  const [account, setAccount] = useState<AccountDetail | null>(null);
+  const [hierarchy, setHierarchy] = useState<Hierarchy | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      const [accountResponse, hierarchyResponse] = await Promise.all([
+        apiFetch(`/api/accounts/${id}`),
+        apiFetch(`/api/accounts/${id}/hierarchy`),
+      ]);
+
+      if (accountResponse.status === 401) {
+        router.push('/auth/login');
+        return;
+      }
+
+      const data = await accountResponse.json();
+      if (!accountResponse.ok) {
+        setError(data.error || 'Could not load account');
+        return;
+      }
+
+      setAccount(data);
+      setHierarchy(hierarchyResponse.ok ? await hierarchyResponse.json() : null);
+    };
+
+    load().catch(() => setError('Network error. Please try again.'));
+  }, [id, router]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-10">
+        <div className="max-w-6xl mx-auto px-6">
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        </div>
+      </div>
+    );
+  }
+
+  if (!account) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const rollup = hierarchy?.rollup;
+  const ownerName = account.owner
+    ? [account.owner.firstName, account.owner.lastName].filter(Boolean).join(' ') || account.owner.email
+    : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10">
+      <div className="max-w-6xl mx-auto px-6">
+        <div className="mb-6">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+            Back to dashboard
+          </Link>
+        </div>
+
+        <div className="mb-6 flex items-center gap-3">
+          <h1 className="text-2xl font-bold text-gray-900">{account.name}</h1>
+          {account.accountType && <Badge variant="outline">{account.accountType}</Badge>}
+        </div>
+
+        {rollup && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {[
+              { label: 'Open pipeline', value: formatCurrency(rollup.openPipeline) },
+              { label: 'Won revenue', value: formatCurrency(rollup.wonRevenue) },
+              { label: 'Contacts', value: rollup.contacts.toLocaleString() },
+              { label: 'Employees', value: rollup.employees === null ? 'Hidden' : rollup.employees.toLocaleString() },
+            ].map((metric) => (
+              <Card key={metric.label} className="shadow-sm">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-gray-500">{metric.label}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-xl font-bold text-gray-900">{metric.value}</div>
+                  <p className="text-xs text-gray-500">
+                    Across {rollup.accounts} account{rollup.accounts === 1 ? '' : 's'} in this branch
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-6 lg:col-span-2">
+            <Card className="shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-lg font-semibold text-gray-900">Details</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 gap-4 text-sm">
+                {[
+                  ['Website', account.website],
+                  ['Industry', account.industry],
+                  ['Phone', account.phone],
+                  ['Location', [account.city, account.country].filter(Boolean).join(', ')],
+                  ['Owner', ownerName],
+                  ['Parent account', account.parentAccount?.name],
+                ].map(([label, value]) => (
+                  <div key={label}>
+                    <div className="text-gray-500">{label}</div>
+                    <div className="text-gray-900">{value || '-'}</div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-lg font-semibold text-gray-900">Opportunities</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {account.opportunities.map((opportunity) => (
+                  <div key={opportunity.id} className="flex items-center justify-between">
+                    <span className="text-gray-900">{opportunity.name}</span>
+                    <span className="text-gray-500">
+                      {opportunity.stage.name}
+                      {opportunity.amount != null && ` · ${formatCurrency(Number(opportunity.amount))}`}
+                    </span>
+                  </div>
+                ))}
+                {account.opportunities.length === 0 && <p className="text-gray-500">No opportunities</p>}
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-lg font-semibold text-gray-900">Contacts</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {account.contacts.map((contact) => (
+                  <div key={contact.id} className="flex items-center justify-between">
+                    <span className="text-gray-900">
+                      {[contact.firstName, contact.lastName].filter(Boolean).join(' ')}
+                    </span>
+                    <span className="text-gray-500">{contact.email}</span>
+                  </div>
+                ))}
+                {account.contacts.length === 0 && <p className="text-gray-500">No contacts</p>}
+              </CardContent>
+            </Card>
+          </div>
+
+          {hierarchy && (
+            <Card className="shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-lg font-semibold text-gray-900">Account Hierarchy</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AccountTree root={hierarchy.tree} path={hierarchy.path} currentId={account.id} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+// Accounts API - The account's parent/child tree and roll-ups across its subtree
+import { NextResponse } from 'next/server';
+import { getAccountTree, getHierarchyRollup } from '@/lib/account-hierarchy';
+import { forTenant } from '@/lib/database';
+import { canAccessRecord } from '@/lib/sharing';
+import { withAuth } from '@/lib/with-auth';
+
+// GET /api/accounts/[id]/hierarchy - `tree` starts at the top-most ancestor and
+// `path` lists the ids from there down to this account; `rollup` covers this
+// account and everything below it
+export const GET = withAuth<{ id: string }>(
+  { resource: 'accounts', action: 'read' },
+  async (request, { user, params }) => {
+    const db = forTenant(user.tenantId);
+
+    const account = await db.account.findFirst({ where: { id: params.id, isActive: true }, select: { id: true } });
+    if (!account || !(await canAccessRecord(db, user, 'accounts', account.id))) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    const { root, path } = await getAccountTree(db, user, account.id);
+    const rollup = await getHierarchyRollup(db, user, account.id);
+
+    return NextResponse.json({ tree: root, path, rollup });
+  }
+);
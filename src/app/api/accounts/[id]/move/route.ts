@@ -0,0 +1,76 @@
+// Accounts API - Move an account under another parent, or to the top level
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { updateAccountHierarchy } from '@/lib/account-hierarchy';
+import { isStaleWrite, recordEtag } from '@/lib/concurrency';
+import { auditDiff, createAuditLog, forTenant } from '@/lib/database';
+import { assertWritableFields } from '@/lib/field-security';
+import { canAccessRecord } from '@/lib/sharing';
+import { withAuth } from '@/lib/with-auth';
+
+const moveAccountSchema = z.object({
+  parentAccountId: z.string().uuid().nullable(),
+  updatedAt: z.string().datetime().optional(),
+});
+
+const INVALID_PARENT =
+  'Invalid parent account: it must exist, not be this account or one below it, and not take the hierarchy past its maximum depth';
+
+export const POST = withAuth<{ id: string }>(
+  { resource: 'accounts', action: 'write' },
+  async (request, { user, context, params }) => {
+    const body = await request.json();
+    const { parentAccountId, updatedAt } = moveAccountSchema.parse(body);
+    assertWritableFields(user.role?.permissions, 'accounts', { parentAccountId });
+
+    const db = forTenant(user.tenantId);
+    const current = await db.account.findFirst({ where: { id: params.id, isActive: true } });
+    if (!current || !(await canAccessRecord(db, user, 'accounts', current.id))) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    if (!(await canAccessRecord(db, user, 'accounts', current.id, 'write'))) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    if (isStaleWrite(request, current, updatedAt)) {
+      return NextResponse.json(
+        { error: 'Account was changed by someone else. Reload it and try again.' },
+        { status: 409, headers: { ETag: recordEtag(current) } }
+      );
+    }
+
+    if (parentAccountId && !(await canAccessRecord(db, user, 'accounts', parentAccountId))) {
+      return NextResponse.json({ error: INVALID_PARENT }, { status: 400 });
+    }
+
+    // The parent is checked in the transaction that writes it
+    const result = await updateAccountHierarchy(user.tenantId, current, { parentAccountId });
+    if (result === 'invalid_parent') {
+      return NextResponse.json({ error: INVALID_PARENT }, { status: 400 });
+    }
+    if (result === 'conflict') {
+      return NextResponse.json(
+        { error: 'Account was changed by someone else. Reload it and try again.' },
+        { status: 409 }
+      );
+    }
+
+    const account = await db.account.findFirst({ where: { id: current.id } });
+
+    await createAuditLog({
+      tenantId: user.tenantId,
+      userId: user.id,
+      action: 'UPDATE',
+      resourceType: 'account',
+      resourceId: current.id,
+      ...auditDiff(current, { parentAccountId }, ['parentAccountId']),
+      ...context,
+    });
+
+    return NextResponse.json(
+      { id: current.id, parentAccountId },
+      { headers: account ? { ETag: recordEtag(account) } : {} }
+    );
+  }
+);
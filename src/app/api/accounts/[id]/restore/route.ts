@@ -0,0 +1,41 @@
+// Accounts API - Restore a soft-deleted account
+import { NextResponse } from 'next/server';
+import { ACCOUNT_OWNER_SELECT } from '@/lib/accounts';
+import { recordEtag } from '@/lib/concurrency';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { redactFields } from '@/lib/field-security';
+import { canAccessRecord } from '@/lib/sharing';
+import { withAuth } from '@/lib/with-auth';
+
+export const POST = withAuth<{ id: string }>(
+  { resource: 'accounts', action: 'delete' },
+  async (request, { user, context, params }) => {
+    const db = forTenant(user.tenantId);
+
+    const account = await db.account.findFirst({ where: { id: params.id, isActive: false } });
+    if (!account || !(await canAccessRecord(db, user, 'accounts', account.id, 'write'))) {
+      return NextResponse.json({ error: 'Deleted account not found' }, { status: 404 });
+    }
+
+    const restored = await db.account.update({
+      where: { id: account.id },
+      data: { isActive: true },
+      include: { owner: { select: ACCOUNT_OWNER_SELECT } },
+    });
+
+    await createAuditLog({
+      tenantId: user.tenantId,
+      userId: user.id,
+      action: 'RESTORE',
+      resourceType: 'account',
+      resourceId: account.id,
+      beforeData: { name: account.name, isActive: false },
+      afterData: { isActive: true },
+      ...context,
+    });
+
+    return NextResponse.json(redactFields(user.role?.permissions, 'accounts', restored), {
+      headers: { ETag: recordEtag(restored) },
+    });
+  }
+);
@@ -0,0 +1,180 @@
+// Accounts API - Read, update and delete one account
+import { NextResponse } from 'next/server';
+import { updateAccountHierarchy } from '@/lib/account-hierarchy';
+import { updateAccountSchema, ACCOUNT_ACTIVITY_LIMIT, ACCOUNT_OWNER_SELECT } from '@/lib/accounts';
+import { isStaleWrite, recordEtag } from '@/lib/concurrency';
+import { auditDiff, createAuditLog, forTenant, softDelete, TenantPrismaClient } from '@/lib/database';
+import { assertWritableFields, redactFields } from '@/lib/field-security';
+import { canAccessRecord, RecordAccess, SharingViewer } from '@/lib/sharing';
+import { withAuth } from '@/lib/with-auth';
+
+// 404 for accounts the user may not see at all, 403 for ones they may only read
+async function recordAccessError(
+  db: TenantPrismaClient,
+  user: SharingViewer,
+  id: string,
+  access: RecordAccess
+): Promise<NextResponse | null> {
+  if (!(await canAccessRecord(db, user, 'accounts', id))) {
+    return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+  }
+
+  if (access === 'write' && !(await canAccessRecord(db, user, 'accounts', id, 'write'))) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  return null;
+}
+
+// The current version goes back to the client so it can merge and retry
+function conflictResponse(permissions: unknown, current: { id: string; updatedAt: Date }): NextResponse {
+  return NextResponse.json(
+    {
+      error: 'Account was changed by someone else. Reload it and try again.',
+      current: redactFields(permissions, 'accounts', current),
+    },
+    { status: 409, headers: { ETag: recordEtag(current) } }
+  );
+}
+
+// GET /api/accounts/[id] - Account with owner, contacts, opportunities and activities
+export const GET = withAuth<{ id: string }>(
+  { resource: 'accounts', action: 'read' },
+  async (request, { user, params }) => {
+    const db = forTenant(user.tenantId);
+    const denied = await recordAccessError(db, user, params.id, 'read');
+    if (denied) return denied;
+
+    const account = await db.account.findFirst({
+      where: { id: params.id, isActive: true },
+      include: {
+        owner: { select: ACCOUNT_OWNER_SELECT },
+        parentAccount: { select: { id: true, name: true } },
+        contacts: {
+          where: { isActive: true },
+          orderBy: [{ isPrimary: 'desc' }, { lastName: 'asc' }],
+        },
+        opportunities: {
+          where: { isActive: true },
+          include: { stage: { select: { id: true, name: true } } },
+          orderBy: { updatedAt: 'desc' },
+        },
+      },
+    });
+
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    const activities = await db.activity.findMany({
+      where: { parentType: 'account', parentId: account.id },
+      include: { user: { select: ACCOUNT_OWNER_SELECT } },
+      orderBy: { createdAt: 'desc' },
+      take: ACCOUNT_ACTIVITY_LIMIT,
+    });
+
+    return NextResponse.json(
+      { ...redactFields(user.role?.permissions, 'accounts', account), activities },
+      { headers: { ETag: recordEtag(account) } }
+    );
+  }
+);
+
+// PATCH /api/accounts/[id] - Change some fields; send If-Match or updatedAt to
+// reject the write if the account changed since it was read
+export const PATCH = withAuth<{ id: string }>(
+  { resource: 'accounts', action: 'write' },
+  async (request, { user, context, params }) => {
+    const body = await request.json();
+    const { updatedAt, ...data } = updateAccountSchema.parse(body);
+    assertWritableFields(user.role?.permissions, 'accounts', data);
+
+    const db = forTenant(user.tenantId);
+    const denied = await recordAccessError(db, user, params.id, 'write');
+    if (denied) return denied;
+
+    const current = await db.account.findFirst({ where: { id: params.id, isActive: true } });
+    if (!current) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    if (isStaleWrite(request, current, updatedAt)) {
+      return conflictResponse(user.role?.permissions, current);
+    }
+
+    // Merging keeps custom fields the user did not send, including hidden ones
+    const changes = {
+      ...data,
+      ...(data.customFields
+        ? { customFields: { ...(current.customFields as Record<string, unknown>), ...data.customFields } }
+        : {}),
+    };
+
+    // Conditional on the version read above, so a concurrent write in between
+    // is caught too; a new parent is checked in the same transaction
+    const result = await updateAccountHierarchy(user.tenantId, current, changes);
+    if (result === 'invalid_parent') {
+      return NextResponse.json({ error: 'Invalid parent account' }, { status: 400 });
+    }
+
+    const account = await db.account.findFirst({
+      where: { id: current.id },
+      include: { owner: { select: ACCOUNT_OWNER_SELECT } },
+    });
+
+    if (!account || result === 'conflict') {
+      return conflictResponse(user.role?.permissions, account || current);
+    }
+
+    const diff = auditDiff(current, account, Object.keys(changes));
+    if (Object.keys(diff.afterData).length > 0) {
+      await createAuditLog({
+        tenantId: user.tenantId,
+        userId: user.id,
+        action: 'UPDATE',
+        resourceType: 'account',
+        resourceId: account.id,
+        ...diff,
+        ...context,
+      });
+    }
+
+    return NextResponse.json(redactFields(user.role?.permissions, 'accounts', account), {
+      headers: { ETag: recordEtag(account) },
+    });
+  }
+);
+
+// DELETE /api/accounts/[id] - Soft delete; POST .../restore brings it back
+export const DELETE = withAuth<{ id: string }>(
+  { resource: 'accounts', action: 'delete' },
+  async (request, { user, context, params }) => {
+    const db = forTenant(user.tenantId);
+    const denied = await recordAccessError(db, user, params.id, 'write');
+    if (denied) return denied;
+
+    const current = await db.account.findFirst({ where: { id: params.id, isActive: true } });
+    if (!current) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    if (isStaleWrite(request, current)) {
+      return conflictResponse(user.role?.permissions, current);
+    }
+
+    await softDelete(db.account, current.id);
+
+    await createAuditLog({
+      tenantId: user.tenantId,
+      userId: user.id,
+      action: 'DELETE',
+      resourceType: 'account',
+      resourceId: current.id,
+      beforeData: { name: current.name, isActive: true },
+      afterData: { isActive: false },
+      ...context,
+    });
+
+    return NextResponse.json({ success: true });
+  }
+);
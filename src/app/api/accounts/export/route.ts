@@ -0,0 +1,8 @@
+// Accounts API - Export
+import { exportResponse } from '@/lib/exports';
+import { withAuth } from '@/lib/with-auth';
+
+// GET /api/accounts/export - Streams the filtered list as CSV or NDJSON (?format=ndjson)
+export const GET = withAuth({ resource: 'accounts', action: 'export' }, async (request, { user, context }) =>
+  exportResponse(user, 'accounts', new URL(request.url).searchParams, context)
+);
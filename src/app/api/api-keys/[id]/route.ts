@@ -0,0 +1,33 @@
+// API Keys API - Revoke a key
+import { NextResponse } from 'next/server';
+import { revokeApiKey } from '@/lib/api-keys';
+import { hasPermission } from '@/lib/auth';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { withAuth } from '@/lib/with-auth';
+
+// Owners may revoke their own keys; user administrators may revoke any key
+export const DELETE = withAuth<{ id: string }>(null, async (request, { user, context, params }) => {
+  const apiKey = await forTenant(user.tenantId).apiKey.findUnique({ where: { id: params.id } });
+
+  if (!apiKey || (apiKey.userId !== user.id && !hasPermission(user.role?.permissions, 'users', 'write'))) {
+    return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+  }
+
+  if (apiKey.revokedAt) {
+    return NextResponse.json({ error: 'API key is already revoked' }, { status: 409 });
+  }
+
+  await revokeApiKey(user.tenantId, apiKey.id);
+
+  await createAuditLog({
+    tenantId: user.tenantId,
+    userId: user.id,
+    action: 'API_KEY_REVOKED',
+    resourceType: 'api_key',
+    resourceId: apiKey.id,
+    beforeData: { name: apiKey.name, prefix: apiKey.prefix, ownerId: apiKey.userId },
+    ...context,
+  });
+
+  return NextResponse.json({ success: true });
+});
@@ -0,0 +1,50 @@
+// API Keys API - The signed-in user's own keys
+import { NextResponse } from 'next/server';
+import { createApiKey, ApiKeyError, API_KEY_SELECT } from '@/lib/api-keys';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { assertAccountHolder } from '@/lib/request-auth';
+import { withAuth } from '@/lib/with-auth';
+
+export const GET = withAuth(null, async (request, { user }) => {
+  const apiKeys = await forTenant(user.tenantId).apiKey.findMany({
+    where: { userId: user.id },
+    select: API_KEY_SELECT,
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return NextResponse.json({ apiKeys });
+});
+
+// POST /api/api-keys - Issue a key; the plaintext key is only in this response
+export const POST = withAuth(null, async (request, { user, context }) => {
+  assertAccountHolder(user);
+  const body = await request.json();
+
+  try {
+    const { apiKey, key } = await createApiKey(user.tenantId, user.id, body, user.id);
+
+    await createAuditLog({
+      tenantId: user.tenantId,
+      userId: user.id,
+      action: 'API_KEY_CREATED',
+      resourceType: 'api_key',
+      resourceId: apiKey.id,
+      afterData: {
+        name: apiKey.name,
+        prefix: apiKey.prefix,
+        ownerId: apiKey.userId,
+        scopes: apiKey.scopes,
+        allowedIps: apiKey.allowedIps,
+        expiresAt: apiKey.expiresAt,
+      },
+      ...context,
+    });
+
+    return NextResponse.json({ apiKey, key }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: 403 });
+    }
+    throw error;
+  }
+});
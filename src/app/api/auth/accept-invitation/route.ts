@@ -0,0 +1,46 @@
+// Authentication API - Accept an invitation by setting a first password
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAuditLog } from '@/lib/database';
+import { PasswordValidationError } from '@/lib/passwords';
+import { acceptInvitation } from '@/lib/users';
+import { withRequestContext } from '@/lib/with-auth';
+
+const acceptInvitationSchema = z.object({
+  token: z.string().min(1, 'Invitation token is required'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const POST = withRequestContext(async (request, { context }) => {
+  const body = await request.json();
+  const { token, password } = acceptInvitationSchema.parse(body);
+
+  let account;
+  try {
+    account = await acceptInvitation(token, password);
+  } catch (error) {
+    if (error instanceof PasswordValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Invalid or expired invitation') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    throw error;
+  }
+
+  await createAuditLog({
+    tenantId: account.tenantId,
+    userId: account.userId,
+    action: 'INVITATION_ACCEPTED',
+    resourceType: 'user',
+    resourceId: account.userId,
+    ...context,
+  });
+
+  return NextResponse.json({ success: true });
+});
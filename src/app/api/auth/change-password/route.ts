@@ -0,0 +1,103 @@
+// Authentication API - Change password (signed-in users and forced change at login)
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { completeLogin, revokeAllUserSessions, verifyChallengeToken } from '@/lib/auth';
+import { createAuditLog } from '@/lib/database';
+import { changePassword, PasswordValidationError } from '@/lib/passwords';
+import { assertAccountHolder, authenticateRequest, loginResponse } from '@/lib/request-auth';
+import { withRequestContext } from '@/lib/with-auth';
+
+const changePasswordSchema = z
+  .object({
+    newPassword: z.string().min(1, 'New password is required'),
+    currentPassword: z.string().min(1).optional(),
+    challengeToken: z.string().min(1).optional(),
+  })
+  .refine((data) => data.currentPassword || data.challengeToken, {
+    message: 'The current password is required',
+    path: ['currentPassword'],
+  });
+
+function passwordErrorResponse(error: unknown): NextResponse | null {
+  if (error instanceof PasswordValidationError) {
+    return NextResponse.json(
+      { error: error.message, details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof Error && error.message === 'Current password is incorrect') {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  return null;
+}
+
+// Runs with a session or, for the forced change at login, a password-change challenge
+export const POST = withRequestContext(async (request, { context }) => {
+  const body = await request.json();
+  const { newPassword, currentPassword, challengeToken } = changePasswordSchema.parse(body);
+
+  // Forced change during login: the password was verified by the login step
+  if (challengeToken) {
+    const { tenantId, userId } = verifyChallengeToken(challengeToken, 'password_change');
+
+    try {
+      await changePassword(tenantId, userId, newPassword);
+    } catch (error) {
+      const response = passwordErrorResponse(error);
+      if (response) return response;
+      throw error;
+    }
+
+    await createAuditLog({
+      tenantId,
+      userId,
+      action: 'PASSWORD_CHANGED',
+      resourceType: 'user',
+      resourceId: userId,
+      afterData: { forced: true },
+      ...context,
+    });
+
+    const login = await completeLogin(tenantId, userId, context);
+
+    await createAuditLog({
+      tenantId,
+      userId,
+      action: 'LOGIN_SUCCESS',
+      resourceType: 'user',
+      resourceId: userId,
+      afterData: { method: 'password_change', sessionId: login.user.sessionId },
+      ...context,
+    });
+
+    return loginResponse(login);
+  }
+
+  const user = await authenticateRequest(request);
+  assertAccountHolder(user);
+
+  try {
+    await changePassword(user.tenantId, user.id, newPassword, currentPassword);
+  } catch (error) {
+    const response = passwordErrorResponse(error);
+    if (response) return response;
+    throw error;
+  }
+
+  // Other devices must sign in again with the new password
+  const revoked = await revokeAllUserSessions(user.tenantId, user.id, 'password_change', user.sessionId);
+
+  await createAuditLog({
+    tenantId: user.tenantId,
+    userId: user.id,
+    action: 'PASSWORD_CHANGED',
+    resourceType: 'user',
+    resourceId: user.id,
+    afterData: { forced: false, sessionsRevoked: revoked },
+    ...context,
+  });
+
+  return NextResponse.json({ success: true });
+});
@@ -0,0 +1,40 @@
+// Authentication API - Request a password reset email
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAuditLog } from '@/lib/database';
+import { mailLinkBaseUrl } from '@/lib/mail';
+import { requestPasswordReset } from '@/lib/passwords';
+import { withRequestContext } from '@/lib/with-auth';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  tenant: z.string().min(1).optional(), // tenant slug
+});
+
+export const POST = withRequestContext(async (request, { context }) => {
+  const body = await request.json();
+  const { email, tenant } = forgotPasswordSchema.parse(body);
+
+  const accounts = await requestPasswordReset(
+    email,
+    { slug: tenant, host: request.headers.get('host') || undefined },
+    { baseUrl: mailLinkBaseUrl(request.nextUrl.origin), ipAddress: context.ipAddress }
+  );
+
+  for (const account of accounts) {
+    await createAuditLog({
+      tenantId: account.tenantId,
+      userId: account.userId,
+      action: 'PASSWORD_RESET_REQUESTED',
+      resourceType: 'user',
+      resourceId: account.userId,
+      ...context,
+    });
+  }
+
+  // Same answer whether or not the email is registered
+  return NextResponse.json({
+    success: true,
+    message: 'If an account exists for this email, a reset link has been sent.',
+  });
+});
@@ -0,0 +1,79 @@
+// Authentication API - Start and stop impersonating a user
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAuditLog } from '@/lib/database';
+import { endImpersonation, startImpersonation, ImpersonationError } from '@/lib/impersonation';
+import { loginResponse } from '@/lib/request-auth';
+import { withAuth } from '@/lib/with-auth';
+
+const impersonateSchema = z.object({
+  userId: z.string().uuid(),
+  reason: z.string().trim().max(500).optional(),
+});
+
+function impersonationErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof ImpersonationError)) {
+    return null;
+  }
+
+  const status = error.message === 'User not found' ? 404 : error.message.startsWith('Only') ? 403 : 400;
+  return NextResponse.json({ error: error.message }, { status });
+}
+
+// POST /api/auth/impersonate - Super Admins only; replaces the session cookies
+// with a short-lived session for the target user
+export const POST = withAuth(null, async (request, { user: admin, context }) => {
+  const body = await request.json();
+  const { userId, reason } = impersonateSchema.parse(body);
+
+  let result;
+  try {
+    result = await startImpersonation(admin, userId, context);
+  } catch (error) {
+    const response = impersonationErrorResponse(error);
+    if (response) return response;
+    throw error;
+  }
+
+  // Logged under the impersonated user with the admin as impersonator, like
+  // every request of the session that follows
+  await createAuditLog({
+    tenantId: admin.tenantId,
+    userId: result.user.id,
+    action: 'IMPERSONATION_STARTED',
+    resourceType: 'session',
+    resourceId: result.user.sessionId,
+    afterData: { reason, expiresAt: result.expiresAt },
+    ...context,
+    impersonatorId: admin.id,
+  });
+
+  return loginResponse(result, {
+    impersonator: result.user.impersonator,
+    impersonationExpiresAt: result.expiresAt,
+  });
+});
+
+// DELETE /api/auth/impersonate - Return to the admin's own account
+export const DELETE = withAuth(null, async (request, { user, context }) => {
+  let result;
+  try {
+    result = await endImpersonation(user, context);
+  } catch (error) {
+    const response = impersonationErrorResponse(error);
+    if (response) return response;
+    throw error;
+  }
+
+  await createAuditLog({
+    tenantId: user.tenantId,
+    userId: user.id,
+    action: 'IMPERSONATION_ENDED',
+    resourceType: 'session',
+    resourceId: user.sessionId,
+    afterData: { adminSessionId: result.user.sessionId },
+    ...context,
+  });
+
+  return loginResponse(result);
+});
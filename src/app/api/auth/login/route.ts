@@ -1,84 +1,72 @@
 // Authentication API - Login endpoint
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { authenticateUser } from '@/lib/auth';
-import { createAuditLog } from '@/lib/database';
+import { createAuditLog, SYSTEM_TENANT_ID } from '@/lib/database';
+import { checkLoginAllowed, recordLoginFailure, recordLoginSuccess } from '@/lib/login-limiter';
+import { authenticationResponse } from '@/lib/request-auth';
+import { withRequestContext } from '@/lib/with-auth';
 
 const loginSchema = z.object({
   email: z.string().email('Invalid email format'),
   password: z.string().min(1, 'Password is required'),
+  tenant: z.string().min(1).optional(), // tenant slug
 });
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const { email, password } = loginSchema.parse(body);
+export const POST = withRequestContext(async (request, { context }) => {
+  const body = await request.json();
+  const { email, password, tenant } = loginSchema.parse(body);
 
-    // Get client IP and user agent for audit logging
-    const clientIP = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
-    const userAgent = request.headers.get('user-agent') || 'unknown';
+  // Refuse attempts while the account or IP is locked out or cooling down
+  const throttle = await checkLoginAllowed(email, context.ipAddress);
+  if (!throttle.allowed) {
+    return NextResponse.json(
+      {
+        error: throttle.reason === 'locked'
+          ? 'Too many failed attempts. Sign-in is temporarily locked.'
+          : 'Too many failed attempts. Please wait before trying again.',
+        retryAfter: throttle.retryAfterSeconds,
+      },
+      { status: 429, headers: { 'Retry-After': String(throttle.retryAfterSeconds) } }
+    );
+  }
 
-    // Authenticate user
-    const result = await authenticateUser(email, password);
+  // Authenticate user, resolving the tenant from the slug or request host
+  const result = await authenticateUser(
+    email,
+    password,
+    context,
+    { slug: tenant, host: request.headers.get('host') || undefined }
+  );
 
-    if (!result) {
-      // Log failed login attempt
-      await createAuditLog({
-        tenantId: '', // Will be empty for failed logins
-        action: 'LOGIN_FAILED',
-        resourceType: 'user',
-        afterData: { email },
-        ipAddress: clientIP,
-        userAgent,
-      });
+  if (result.status !== 'invalid_credentials') {
+    await recordLoginSuccess(email);
+    return authenticationResponse(result, context);
+  }
 
-      return NextResponse.json(
-        { error: 'Invalid credentials' },
-        { status: 401 }
-      );
-    }
+  const { accountLocked } = await recordLoginFailure(email, context.ipAddress);
 
-    const { user, token } = result;
+  // Log the failure in each tenant the password was tried against, else the
+  // tenant named by the request, else the system bucket
+  const targets = result.accounts.length > 0
+    ? result.accounts
+    : [{ tenantId: result.tenantId || SYSTEM_TENANT_ID, userId: undefined }];
 
-    // Log successful login
-    await createAuditLog({
-      tenantId: user.tenantId,
-      userId: user.id,
-      action: 'LOGIN_SUCCESS',
-      resourceType: 'user',
-      resourceId: user.id,
-      afterData: { method: 'password' },
-      ipAddress: clientIP,
-      userAgent,
-    });
+  for (const target of targets) {
+    const actions = accountLocked ? ['LOGIN_FAILED', 'ACCOUNT_LOCKED'] : ['LOGIN_FAILED'];
 
-    // Return user data and token
-    return NextResponse.json({
-      success: true,
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role?.name,
-        permissions: user.role?.permissions,
-      },
-      token,
-    });
-
-  } catch (error) {
-    console.error('Login error:', error);
-    
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: 'Validation failed', details: error.errors },
-        { status: 400 }
-      );
+    for (const action of actions) {
+      await createAuditLog({
+        tenantId: target.tenantId,
+        userId: target.userId,
+        action,
+        resourceType: 'user',
+        resourceId: target.userId,
+        afterData: { email },
+        ...context,
+      });
     }
-
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
   }
-}
\ No newline at end of file
+
+  return authenticationResponse(result, context);
+});
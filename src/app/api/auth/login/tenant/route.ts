@@ -0,0 +1,24 @@
+// Authentication API - Tenant selection (login step for emails in several tenants)
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { selectLoginTenant } from '@/lib/auth';
+import { authenticationResponse } from '@/lib/request-auth';
+import { withRequestContext } from '@/lib/with-auth';
+
+const selectTenantSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  tenantId: z.string().uuid('Invalid tenant'),
+});
+
+export const POST = withRequestContext(async (request, { context }) => {
+  const body = await request.json();
+  const { challengeToken, tenantId } = selectTenantSchema.parse(body);
+
+  const result = await selectLoginTenant(challengeToken, tenantId, context);
+
+  if (!result) {
+    return NextResponse.json({ error: 'Invalid tenant selection' }, { status: 401 });
+  }
+
+  return authenticationResponse(result, context);
+});
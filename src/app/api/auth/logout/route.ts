@@ -0,0 +1,43 @@
+// Authentication API - Logout endpoint
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { revokeSession, revokeAllUserSessions } from '@/lib/auth';
+import { createAuditLog } from '@/lib/database';
+import { assertAccountHolder, clearAuthCookies } from '@/lib/request-auth';
+import { withAuth } from '@/lib/with-auth';
+
+const logoutSchema = z.object({
+  allDevices: z.boolean().default(false),
+});
+
+export const POST = withAuth(null, async (request, { user, context }) => {
+  if (!user.sessionId) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { allDevices } = logoutSchema.parse(body);
+  if (allDevices) {
+    assertAccountHolder(user);
+  }
+
+  // Revoke the current session family, or every session the user holds
+  const revoked = allDevices
+    ? await revokeAllUserSessions(user.tenantId, user.id)
+    : await revokeSession(user.tenantId, user.sessionId);
+
+  await createAuditLog({
+    tenantId: user.tenantId,
+    userId: user.id,
+    action: allDevices ? 'LOGOUT_ALL' : 'LOGOUT',
+    resourceType: 'session',
+    resourceId: user.sessionId,
+    afterData: { revokedSessions: revoked },
+    ...context,
+  });
+
+  const response = NextResponse.json({ success: true, revokedSessions: revoked });
+  clearAuthCookies(response);
+
+  return response;
+});
@@ -0,0 +1,17 @@
+// Authentication API - Current user
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/with-auth';
+
+export const GET = withAuth(null, async (request, { user }) => {
+  return NextResponse.json({
+    user: {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: user.role?.name,
+      permissions: user.role?.permissions,
+    },
+    impersonator: user.impersonator ?? null,
+  });
+});
@@ -0,0 +1,56 @@
+// Authentication API - Disable MFA
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { disableMfa, isMfaRequired, verifyMfa } from '@/lib/mfa';
+import { assertAccountHolder } from '@/lib/request-auth';
+import { withAuth } from '@/lib/with-auth';
+
+const disableSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
+export const POST = withAuth(null, async (request, { user, context }) => {
+  assertAccountHolder(user);
+  const body = await request.json();
+  const { code } = disableSchema.parse(body);
+
+  const tenant = await forTenant(user.tenantId).tenant.findUnique({
+    where: { id: user.tenantId },
+  });
+
+  if (isMfaRequired(tenant?.settings, user.role?.name)) {
+    return NextResponse.json(
+      { error: 'MFA is required for your role by tenant policy' },
+      { status: 403 }
+    );
+  }
+
+  const result = await verifyMfa(user.tenantId, user.id, { code });
+  if (!result.valid) {
+    await createAuditLog({
+      tenantId: user.tenantId,
+      userId: user.id,
+      action: 'MFA_VERIFY_FAILED',
+      resourceType: 'user',
+      resourceId: user.id,
+      afterData: { method: 'totp', purpose: 'disable' },
+      ...context,
+    });
+
+    return NextResponse.json({ error: 'Invalid code' }, { status: 400 });
+  }
+
+  await disableMfa(user.tenantId, user.id);
+
+  await createAuditLog({
+    tenantId: user.tenantId,
+    userId: user.id,
+    action: 'MFA_DISABLED',
+    resourceType: 'user',
+    resourceId: user.id,
+    ...context,
+  });
+
+  return NextResponse.json({ success: true });
+});
@@ -0,0 +1,40 @@
+// Authentication API - Start TOTP enrollment
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAuditLog } from '@/lib/database';
+import { startMfaEnrollment } from '@/lib/mfa';
+import { authenticateEnrollment } from '@/lib/request-auth';
+import { withRequestContext } from '@/lib/with-auth';
+
+const enrollSchema = z.object({
+  challengeToken: z.string().min(1).optional(),
+});
+
+// Runs with a session or, for enrollment forced at login, an enrollment challenge
+export const POST = withRequestContext(async (request, { context }) => {
+  const body = await request.json().catch(() => ({}));
+  const { challengeToken } = enrollSchema.parse(body);
+  const { userId, tenantId } = await authenticateEnrollment(request, challengeToken);
+
+  let enrollment;
+  try {
+    enrollment = await startMfaEnrollment(tenantId, userId);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'MFA is already enabled') {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    throw error;
+  }
+
+  await createAuditLog({
+    tenantId,
+    userId,
+    action: 'MFA_ENROLLMENT_STARTED',
+    resourceType: 'user',
+    resourceId: userId,
+    ...context,
+  });
+
+  // The secret is shown once so it can be typed in if the QR code cannot be scanned
+  return NextResponse.json(enrollment);
+});
@@ -0,0 +1,68 @@
+// Authentication API - Confirm TOTP enrollment
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { completeLogin, requirePasswordChange } from '@/lib/auth';
+import { createAuditLog } from '@/lib/database';
+import { confirmMfaEnrollment } from '@/lib/mfa';
+import { authenticateEnrollment, authenticationResponse, loginResponse } from '@/lib/request-auth';
+import { withRequestContext } from '@/lib/with-auth';
+
+const confirmSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+  challengeToken: z.string().min(1).optional(),
+});
+
+export const POST = withRequestContext(async (request, { context }) => {
+  const body = await request.json();
+  const { code, challengeToken } = confirmSchema.parse(body);
+  const { userId, tenantId, viaChallenge } = await authenticateEnrollment(request, challengeToken);
+
+  const recoveryCodes = await confirmMfaEnrollment(tenantId, userId, code);
+
+  if (!recoveryCodes) {
+    await createAuditLog({
+      tenantId,
+      userId,
+      action: 'MFA_ENROLLMENT_FAILED',
+      resourceType: 'user',
+      resourceId: userId,
+      ...context,
+    });
+
+    return NextResponse.json({ error: 'Invalid code' }, { status: 400 });
+  }
+
+  await createAuditLog({
+    tenantId,
+    userId,
+    action: 'MFA_ENROLLED',
+    resourceType: 'user',
+    resourceId: userId,
+    afterData: { method: 'totp', recoveryCodes: recoveryCodes.length },
+    ...context,
+  });
+
+  // Enrollment forced at login finishes that login
+  if (viaChallenge) {
+    const pending = await requirePasswordChange(tenantId, userId);
+    if (pending) {
+      return authenticationResponse(pending, context, { recoveryCodes });
+    }
+
+    const login = await completeLogin(tenantId, userId, context);
+
+    await createAuditLog({
+      tenantId,
+      userId,
+      action: 'LOGIN_SUCCESS',
+      resourceType: 'user',
+      resourceId: userId,
+      afterData: { method: 'password+totp', sessionId: login.user.sessionId },
+      ...context,
+    });
+
+    return loginResponse(login, { recoveryCodes });
+  }
+
+  return NextResponse.json({ success: true, recoveryCodes });
+});
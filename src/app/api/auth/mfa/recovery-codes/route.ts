@@ -0,0 +1,47 @@
+// Authentication API - Regenerate MFA recovery codes
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAuditLog } from '@/lib/database';
+import { generateRecoveryCodes, verifyMfa } from '@/lib/mfa';
+import { assertAccountHolder } from '@/lib/request-auth';
+import { withAuth } from '@/lib/with-auth';
+
+const regenerateSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
+export const POST = withAuth(null, async (request, { user, context }) => {
+  assertAccountHolder(user);
+  const body = await request.json();
+  const { code } = regenerateSchema.parse(body);
+
+  // Require a fresh code so a hijacked session cannot mint new recovery codes
+  const result = await verifyMfa(user.tenantId, user.id, { code });
+  if (!result.valid) {
+    await createAuditLog({
+      tenantId: user.tenantId,
+      userId: user.id,
+      action: 'MFA_VERIFY_FAILED',
+      resourceType: 'user',
+      resourceId: user.id,
+      afterData: { method: 'totp', purpose: 'recovery_codes' },
+      ...context,
+    });
+
+    return NextResponse.json({ error: 'Invalid code' }, { status: 400 });
+  }
+
+  const recoveryCodes = await generateRecoveryCodes(user.tenantId, user.id);
+
+  await createAuditLog({
+    tenantId: user.tenantId,
+    userId: user.id,
+    action: 'MFA_RECOVERY_CODES_REGENERATED',
+    resourceType: 'user',
+    resourceId: user.id,
+    afterData: { recoveryCodes: recoveryCodes.length },
+    ...context,
+  });
+
+  return NextResponse.json({ success: true, recoveryCodes });
+});
@@ -0,0 +1,95 @@
+// Authentication API - MFA verification (second login step)
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { completeLogin, requirePasswordChange, verifyChallengeToken } from '@/lib/auth';
+import { createAuditLog } from '@/lib/database';
+import { checkMfaAllowed, recordMfaFailure, recordMfaSuccess } from '@/lib/login-limiter';
+import { verifyMfa } from '@/lib/mfa';
+import { authenticationResponse, loginResponse } from '@/lib/request-auth';
+import { withRequestContext } from '@/lib/with-auth';
+
+const verifySchema = z
+  .object({
+    challengeToken: z.string().min(1, 'Challenge token is required'),
+    code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits').optional(),
+    recoveryCode: z.string().min(1).optional(),
+  })
+  .refine((data) => data.code || data.recoveryCode, {
+    message: 'A code or recovery code is required',
+  });
+
+export const POST = withRequestContext(async (request, { context }) => {
+  const body = await request.json();
+  const { challengeToken, code, recoveryCode } = verifySchema.parse(body);
+
+  const challenge = verifyChallengeToken(challengeToken, 'mfa_verify');
+
+  // Refuse codes while the user is locked out or cooling down after failures
+  const throttle = await checkMfaAllowed(challenge.userId, context.ipAddress);
+  if (!throttle.allowed) {
+    return NextResponse.json(
+      {
+        error: throttle.reason === 'locked'
+          ? 'Too many invalid codes. Verification is temporarily locked.'
+          : 'Too many invalid codes. Please wait before trying again.',
+        retryAfter: throttle.retryAfterSeconds,
+      },
+      { status: 429, headers: { 'Retry-After': String(throttle.retryAfterSeconds) } }
+    );
+  }
+
+  const result = await verifyMfa(challenge.tenantId, challenge.userId, { code, recoveryCode });
+
+  if (!result.valid) {
+    const { mfaLocked } = await recordMfaFailure(challenge.userId, context.ipAddress);
+    const actions = mfaLocked ? ['MFA_VERIFY_FAILED', 'MFA_LOCKED'] : ['MFA_VERIFY_FAILED'];
+
+    for (const action of actions) {
+      await createAuditLog({
+        tenantId: challenge.tenantId,
+        userId: challenge.userId,
+        action,
+        resourceType: 'user',
+        resourceId: challenge.userId,
+        afterData: { method: code ? 'totp' : 'recovery_code' },
+        ...context,
+      });
+    }
+
+    return NextResponse.json({ error: 'Invalid code' }, { status: 401 });
+  }
+
+  await recordMfaSuccess(challenge.userId);
+
+  await createAuditLog({
+    tenantId: challenge.tenantId,
+    userId: challenge.userId,
+    action: result.method === 'recovery_code' ? 'MFA_RECOVERY_CODE_USED' : 'MFA_VERIFY_SUCCESS',
+    resourceType: 'user',
+    resourceId: challenge.userId,
+    afterData: { method: result.method, remainingRecoveryCodes: result.remainingRecoveryCodes },
+    ...context,
+  });
+
+  // A forced or expired password change comes after the second factor
+  const pending = await requirePasswordChange(challenge.tenantId, challenge.userId);
+  if (pending) {
+    return authenticationResponse(pending, context, {
+      remainingRecoveryCodes: result.remainingRecoveryCodes,
+    });
+  }
+
+  const login = await completeLogin(challenge.tenantId, challenge.userId, context);
+
+  await createAuditLog({
+    tenantId: login.user.tenantId,
+    userId: login.user.id,
+    action: 'LOGIN_SUCCESS',
+    resourceType: 'user',
+    resourceId: login.user.id,
+    afterData: { method: `password+${result.method}`, sessionId: login.user.sessionId },
+    ...context,
+  });
+
+  return loginResponse(login, { remainingRecoveryCodes: result.remainingRecoveryCodes });
+});
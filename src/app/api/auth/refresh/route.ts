@@ -0,0 +1,55 @@
+// Authentication API - Refresh token rotation
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { refreshSession } from '@/lib/auth';
+import {
+  CSRF_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  clearAuthCookies,
+  isValidCsrfRequest,
+  setAuthCookies,
+} from '@/lib/request-auth';
+import { withRequestContext } from '@/lib/with-auth';
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required').optional(),
+});
+
+export const POST = withRequestContext(async (request, { context }) => {
+  const body = await request.json().catch(() => ({}));
+  const parsed = refreshSchema.parse(body);
+
+  // API clients send the token in the body; browsers rely on the cookie,
+  // which then requires the CSRF header
+  const cookieToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+  const refreshToken = parsed.refreshToken || cookieToken;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: 'Refresh token is required' }, { status: 401 });
+  }
+
+  if (!parsed.refreshToken && !isValidCsrfRequest(request)) {
+    return NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 });
+  }
+
+  const tokens = await refreshSession(refreshToken, context);
+
+  if (!tokens) {
+    const response = NextResponse.json(
+      { error: 'Invalid or expired refresh token' },
+      { status: 401 }
+    );
+    if (!parsed.refreshToken) clearAuthCookies(response);
+    return response;
+  }
+
+  // Browsers get the rotated tokens as cookies only
+  if (parsed.refreshToken) {
+    return NextResponse.json({ success: true, ...tokens });
+  }
+
+  const response = NextResponse.json({ success: true, expiresIn: tokens.expiresIn });
+  setAuthCookies(response, tokens, request.cookies.get(CSRF_TOKEN_COOKIE)?.value);
+
+  return response;
+});
@@ -0,0 +1,52 @@
+// Authentication API - Set a new password with a reset token
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAuditLog } from '@/lib/database';
+import { unlockAccount } from '@/lib/login-limiter';
+import { PasswordValidationError, resetPassword } from '@/lib/passwords';
+import { withRequestContext } from '@/lib/with-auth';
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const POST = withRequestContext(async (request, { context }) => {
+  const body = await request.json();
+  const { token, password } = resetPasswordSchema.parse(body);
+
+  let account;
+  try {
+    account = await resetPassword(token, password);
+  } catch (error) {
+    if (error instanceof PasswordValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Invalid or expired reset token') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    throw error;
+  }
+
+  const { tenantId, userId, email } = account;
+
+  // Proving control of the mailbox also lifts a brute-force lockout
+  await unlockAccount(email);
+
+  await createAuditLog({
+    tenantId,
+    userId,
+    action: 'PASSWORD_RESET',
+    resourceType: 'user',
+    resourceId: userId,
+    afterData: { sessionsRevoked: true },
+    ...context,
+  });
+
+  return NextResponse.json({ success: true });
+});
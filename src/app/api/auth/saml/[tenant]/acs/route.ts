@@ -0,0 +1,57 @@
+// SAML API - Assertion consumer service (SP- and IdP-initiated logins)
+import {
+  createSamlClient,
+  getSamlConfig,
+  getSamlEndpoints,
+  samlIdentity,
+  validateSamlResponse,
+} from '@/lib/saml';
+import {
+  findSsoTenant,
+  provisionSsoUser,
+  sanitizeReturnTo,
+  ssoFailureRedirect,
+  ssoLoginRedirect,
+} from '@/lib/sso';
+import { withRequestContext } from '@/lib/with-auth';
+
+export const POST = withRequestContext<{ tenant: string }>(async (request, { context, params }) => {
+  const { tenant: slug } = params;
+
+  // Failures go back to the login page rather than to an error response
+  try {
+    const form = await request.formData();
+    const samlResponse = form.get('SAMLResponse');
+    const relayState = form.get('RelayState');
+
+    if (typeof samlResponse !== 'string' || !samlResponse) {
+      return ssoFailureRedirect(request, slug, 'sso_failed');
+    }
+
+    const tenant = await findSsoTenant(slug);
+    const config = tenant ? await getSamlConfig(tenant.id) : null;
+    if (!tenant || !config) {
+      return ssoFailureRedirect(request, slug, 'sso_failed');
+    }
+
+    const client = createSamlClient(tenant.id, config, getSamlEndpoints(request.nextUrl.origin, slug));
+    const profile = await validateSamlResponse(tenant.id, client, samlResponse);
+
+    const provisioning = await provisionSsoUser(tenant.id, samlIdentity(config, profile), {
+      allowJitProvisioning: config.allowJitProvisioning,
+      syncRoleOnLogin: config.syncRoleOnLogin,
+      requireVerifiedEmail: true,
+    });
+
+    return await ssoLoginRedirect(request, context, {
+      tenantId: tenant.id,
+      provisioning,
+      method: 'saml',
+      details: { issuer: profile.issuer, nameId: profile.nameID },
+      returnTo: sanitizeReturnTo(typeof relayState === 'string' ? relayState : null),
+    });
+  } catch (error) {
+    console.error(`SAML ACS error [${context.correlationId}]:`, error);
+    return ssoFailureRedirect(request, slug, 'sso_failed');
+  }
+});
@@ -0,0 +1,30 @@
+// SAML API - Start an SP-initiated SAML login for a tenant
+import { NextResponse } from 'next/server';
+import { createSamlClient, getSamlConfig, getSamlEndpoints } from '@/lib/saml';
+import { findSsoTenant, sanitizeReturnTo } from '@/lib/sso';
+import { withRequestContext } from '@/lib/with-auth';
+
+export const GET = withRequestContext<{ tenant: string }>(async (request, { params }) => {
+  const { tenant: slug } = params;
+
+  const tenant = await findSsoTenant(slug);
+  const config = tenant ? await getSamlConfig(tenant.id) : null;
+
+  if (!tenant || !config) {
+    return NextResponse.json(
+      { error: 'SAML is not configured for this organization' },
+      { status: 404 }
+    );
+  }
+
+  const client = createSamlClient(tenant.id, config, getSamlEndpoints(request.nextUrl.origin, slug));
+
+  // The AuthnRequest ID is stored for InResponseTo validation; RelayState carries the return path
+  const url = await client.getAuthorizeUrlAsync(
+    sanitizeReturnTo(request.nextUrl.searchParams.get('returnTo')),
+    request.nextUrl.host,
+    {}
+  );
+
+  return NextResponse.redirect(url);
+});
@@ -0,0 +1,25 @@
+// SAML API - Service provider metadata for a tenant
+import { NextResponse } from 'next/server';
+import { createSamlClient, generateSpMetadata, getSamlConfig, getSamlEndpoints } from '@/lib/saml';
+import { findSsoTenant } from '@/lib/sso';
+import { withRequestContext } from '@/lib/with-auth';
+
+export const GET = withRequestContext<{ tenant: string }>(async (request, { params }) => {
+  const { tenant: slug } = params;
+
+  const tenant = await findSsoTenant(slug);
+  const config = tenant ? await getSamlConfig(tenant.id) : null;
+
+  if (!tenant || !config) {
+    return NextResponse.json(
+      { error: 'SAML is not configured for this organization' },
+      { status: 404 }
+    );
+  }
+
+  const client = createSamlClient(tenant.id, config, getSamlEndpoints(request.nextUrl.origin, slug));
+
+  return new NextResponse(generateSpMetadata(client), {
+    headers: { 'Content-Type': 'application/samlmetadata+xml; charset=utf-8' },
+  });
+});
@@ -0,0 +1,71 @@
+// SSO API - OpenID Connect callback: verify the IdP response and start a session
+import { verifyChallenge } from '@/lib/auth';
+import {
+  exchangeAuthorizationCode,
+  getOidcConfig,
+  getOidcRedirectUri,
+  oidcIdentity,
+  OidcAuthorizationState,
+  OIDC_STATE_COOKIE,
+} from '@/lib/oidc';
+import { findSsoTenant, provisionSsoUser, ssoFailureRedirect, ssoLoginRedirect } from '@/lib/sso';
+import { withRequestContext } from '@/lib/with-auth';
+
+export const GET = withRequestContext<{ tenant: string }>(async (request, { context, params }) => {
+  const { tenant: slug } = params;
+  const searchParams = request.nextUrl.searchParams;
+  const statePath = `/api/auth/sso/${encodeURIComponent(slug)}`;
+
+  const fail = (reason: string) => {
+    const response = ssoFailureRedirect(request, slug, reason);
+    response.cookies.set(OIDC_STATE_COOKIE, '', { path: statePath, maxAge: 0 });
+    return response;
+  };
+
+  if (searchParams.get('error')) {
+    console.error('SSO provider error:', searchParams.get('error'), searchParams.get('error_description'));
+    return fail('sso_denied');
+  }
+
+  // Failures go back to the login page rather than to an error response
+  try {
+    const stateCookie = request.cookies.get(OIDC_STATE_COOKIE)?.value;
+    const code = searchParams.get('code');
+    if (!stateCookie || !code) {
+      return fail('sso_failed');
+    }
+
+    const state = verifyChallenge<OidcAuthorizationState>(stateCookie, 'oidc_state');
+    const tenant = await findSsoTenant(slug);
+    if (!tenant || tenant.id !== state.tenantId || searchParams.get('state') !== state.state) {
+      return fail('sso_failed');
+    }
+
+    const config = await getOidcConfig(tenant.id);
+    if (!config) {
+      return fail('sso_failed');
+    }
+
+    const claims = await exchangeAuthorizationCode(
+      config,
+      code,
+      getOidcRedirectUri(request.nextUrl.origin, slug),
+      state
+    );
+    const provisioning = await provisionSsoUser(tenant.id, oidcIdentity(config, claims), config);
+
+    const response = await ssoLoginRedirect(request, context, {
+      tenantId: tenant.id,
+      provisioning,
+      method: 'oidc',
+      details: { issuer: config.issuer, subject: claims.sub },
+      returnTo: state.returnTo,
+    });
+    response.cookies.set(OIDC_STATE_COOKIE, '', { path: statePath, maxAge: 0 });
+
+    return response;
+  } catch (error) {
+    console.error(`SSO callback error [${context.correlationId}]:`, error);
+    return fail('sso_failed');
+  }
+});
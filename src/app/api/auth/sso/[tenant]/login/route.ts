@@ -0,0 +1,52 @@
+// SSO API - Start an OpenID Connect login for a tenant (SAML tenants are redirected)
+import { NextResponse } from 'next/server';
+import { signChallenge } from '@/lib/auth';
+import {
+  createAuthorizationRequest,
+  getOidcConfig,
+  getOidcRedirectUri,
+  OIDC_STATE_COOKIE,
+} from '@/lib/oidc';
+import { getSamlConfig } from '@/lib/saml';
+import { findSsoTenant, sanitizeReturnTo } from '@/lib/sso';
+import { withRequestContext } from '@/lib/with-auth';
+
+export const GET = withRequestContext<{ tenant: string }>(async (request, { params }) => {
+  const { tenant: slug } = params;
+
+  const tenant = await findSsoTenant(slug);
+  const config = tenant ? await getOidcConfig(tenant.id) : null;
+
+  // Tenants on SAML share the same entry point used by the login page
+  if (tenant && !config && (await getSamlConfig(tenant.id))) {
+    const samlLogin = new URL(`/api/auth/saml/${encodeURIComponent(slug)}/login`, request.nextUrl.origin);
+    samlLogin.search = request.nextUrl.search;
+    return NextResponse.redirect(samlLogin);
+  }
+
+  if (!tenant || !config) {
+    return NextResponse.json(
+      { error: 'Single sign-on is not configured for this organization' },
+      { status: 404 }
+    );
+  }
+
+  const { url, state } = await createAuthorizationRequest(
+    tenant.id,
+    config,
+    getOidcRedirectUri(request.nextUrl.origin, slug),
+    sanitizeReturnTo(request.nextUrl.searchParams.get('returnTo'))
+  );
+
+  // PKCE verifier, nonce and state travel in a signed, short-lived cookie
+  const response = NextResponse.redirect(url);
+  response.cookies.set(OIDC_STATE_COOKIE, signChallenge({ purpose: 'oidc_state', ...state }), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: `/api/auth/sso/${encodeURIComponent(slug)}`,
+    maxAge: 5 * 60,
+  });
+
+  return response;
+});
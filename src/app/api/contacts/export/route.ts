@@ -0,0 +1,8 @@
+// Contacts API - Export
+import { exportResponse } from '@/lib/exports';
+import { withAuth } from '@/lib/with-auth';
+
+// GET /api/contacts/export - Streams the filtered list as CSV or NDJSON (?format=ndjson)
+export const GET = withAuth({ resource: 'contacts', action: 'export' }, async (request, { user, context }) =>
+  exportResponse(user, 'contacts', new URL(request.url).searchParams, context)
+);
@@ -0,0 +1,45 @@
+// Duplicates API - Dismiss or reopen a candidate pair
+import { NextResponse } from 'next/server';
+import { hasPermission } from '@/lib/auth';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { candidateUpdateSchema } from '@/lib/duplicates';
+import { withAuth } from '@/lib/with-auth';
+
+// Dismissed pairs are not flagged again by later scans
+export const PATCH = withAuth<{ id: string }>(null, async (request, { user, context, params }) => {
+  const body = await request.json();
+  const { status } = candidateUpdateSchema.parse(body);
+
+  const db = forTenant(user.tenantId);
+  const candidate = await db.duplicateCandidate.findUnique({ where: { id: params.id } });
+  if (!candidate || !hasPermission(user.role?.permissions, candidate.entityType, 'read')) {
+    return NextResponse.json({ error: 'Duplicate candidate not found' }, { status: 404 });
+  }
+  if (!hasPermission(user.role?.permissions, candidate.entityType, 'write')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+  if (candidate.status === 'merged') {
+    return NextResponse.json({ error: 'Undo the merge to reopen this pair' }, { status: 409 });
+  }
+
+  const updated = await db.duplicateCandidate.update({
+    where: { id: candidate.id },
+    data:
+      status === 'dismissed'
+        ? { status, resolvedById: user.id, resolvedAt: new Date() }
+        : { status, resolvedById: null, resolvedAt: null },
+  });
+
+  await createAuditLog({
+    tenantId: user.tenantId,
+    userId: user.id,
+    action: 'UPDATE',
+    resourceType: 'duplicate_candidate',
+    resourceId: candidate.id,
+    beforeData: { status: candidate.status },
+    afterData: { status },
+    ...context,
+  });
+
+  return NextResponse.json(updated);
+});
@@ -0,0 +1,37 @@
+// Duplicates API - Merge records into a surviving record
+import { NextResponse } from 'next/server';
+import { forTenant } from '@/lib/database';
+import { canMerge, mergeRecords, mergeSchema, MergeError } from '@/lib/duplicates';
+import { canAccessRecord } from '@/lib/sharing';
+import { withAuth } from '@/lib/with-auth';
+
+// POST /api/duplicates/merge - The response's mergeId undoes the merge through
+// POST /api/duplicates/merges/[mergeId]/undo
+export const POST = withAuth(null, async (request, { user, context }) => {
+  const body = await request.json();
+  const input = mergeSchema.parse(body);
+
+  if (!canMerge(user.role?.permissions, input.entity)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const db = forTenant(user.tenantId);
+  for (const id of [input.survivorId, ...input.mergedIds]) {
+    if (!(await canAccessRecord(db, user, input.entity, id))) {
+      return NextResponse.json({ error: 'Record not found', details: [id] }, { status: 404 });
+    }
+    if (!(await canAccessRecord(db, user, input.entity, id, 'write'))) {
+      return NextResponse.json({ error: 'Insufficient permissions', details: [id] }, { status: 403 });
+    }
+  }
+
+  try {
+    const result = await mergeRecords(user, input, context);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof MergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+});
@@ -0,0 +1,31 @@
+// Duplicates API - Undo a merge
+import { NextResponse } from 'next/server';
+import { forTenant } from '@/lib/database';
+import { canMerge, getMerge, undoMerge, MergeError } from '@/lib/duplicates';
+import { canAccessRecord } from '@/lib/sharing';
+import { withAuth } from '@/lib/with-auth';
+
+// POST /api/duplicates/merges/[id]/undo - id is the mergeId returned by the merge
+export const POST = withAuth<{ id: string }>(null, async (request, { user, context, params }) => {
+  const db = forTenant(user.tenantId);
+  const merge = await getMerge(db, params.id);
+
+  if (!merge || !(await canAccessRecord(db, user, merge.entity, merge.survivorId))) {
+    return NextResponse.json({ error: 'Merge not found' }, { status: 404 });
+  }
+  if (!canMerge(user.role?.permissions, merge.entity)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+  if (!(await canAccessRecord(db, user, merge.entity, merge.survivorId, 'write'))) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    return NextResponse.json(await undoMerge(user, params.id, context));
+  } catch (error) {
+    if (error instanceof MergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+});
@@ -0,0 +1,63 @@
+// Duplicates API - Likely duplicate pairs awaiting review
+import { NextResponse } from 'next/server';
+import { hasPermission } from '@/lib/auth';
+import { forTenant } from '@/lib/database';
+import { isDuplicateEntity, CANDIDATE_RECORD_SELECT, CANDIDATE_STATUSES } from '@/lib/duplicates';
+import { redactFields } from '@/lib/field-security';
+import { recordAccessFilter } from '@/lib/sharing';
+import { withAuth } from '@/lib/with-auth';
+
+// GET /api/duplicates?entity=accounts&status=open - Candidate pairs with both
+// records. Records the user may not read are returned as { id, restricted: true }.
+export const GET = withAuth(null, async (request, { user }) => {
+  const { searchParams } = new URL(request.url);
+  const entity = searchParams.get('entity') || 'accounts';
+  const status = searchParams.get('status') || 'open';
+  const page = Math.max(parseInt(searchParams.get('page') || '1'), 1);
+  const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100);
+
+  if (!isDuplicateEntity(entity)) {
+    return NextResponse.json({ error: 'Unknown entity' }, { status: 400 });
+  }
+  if (!(CANDIDATE_STATUSES as readonly string[]).includes(status)) {
+    return NextResponse.json({ error: 'Unknown status' }, { status: 400 });
+  }
+  if (!hasPermission(user.role?.permissions, entity, 'read')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const db = forTenant(user.tenantId);
+  const where = { entityType: entity, status };
+  const [candidates, total] = await Promise.all([
+    db.duplicateCandidate.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    db.duplicateCandidate.count({ where }),
+  ]);
+
+  const ids = [...new Set(candidates.flatMap((candidate) => [candidate.recordId, candidate.duplicateId]))];
+  const visibility = await recordAccessFilter(db, user, entity);
+  const recordWhere = { AND: [{ id: { in: ids } }, ...(visibility ? [visibility] : [])] };
+  const records: { id: string }[] =
+    entity === 'accounts'
+      ? await db.account.findMany({ where: recordWhere, select: CANDIDATE_RECORD_SELECT.accounts })
+      : entity === 'contacts'
+        ? await db.contact.findMany({ where: recordWhere, select: CANDIDATE_RECORD_SELECT.contacts })
+        : await db.lead.findMany({ where: recordWhere, select: CANDIDATE_RECORD_SELECT.leads });
+
+  const byId = new Map(redactFields(user.role?.permissions, entity, records).map((record) => [record.id, record]));
+  const summary = (id: string) => byId.get(id) || { id, restricted: true };
+
+  const totalPages = Math.ceil(total / limit);
+  return NextResponse.json({
+    data: candidates.map((candidate) => ({
+      ...candidate,
+      record: summary(candidate.recordId),
+      duplicate: summary(candidate.duplicateId),
+    })),
+    meta: { page, limit, total, totalPages, hasNext: page < totalPages, hasPrev: page > 1 },
+  });
+});
@@ -0,0 +1,31 @@
+// Duplicates API - Background scan for likely duplicates
+import { NextResponse } from 'next/server';
+import { createAuditLog } from '@/lib/database';
+import { duplicateScanSchema, startDuplicateScan } from '@/lib/duplicates';
+import { withAuth } from '@/lib/with-auth';
+
+// POST /api/duplicates/scan - Start a scan; new pairs appear in GET /api/duplicates
+export const POST = withAuth({ resource: 'settings', action: 'write' }, async (request, { user, context }) => {
+  const body = await request.json().catch(() => ({}));
+  const { entities } = duplicateScanSchema.parse(body);
+
+  const scan = startDuplicateScan(user.tenantId, entities);
+  if (!scan) {
+    return NextResponse.json({ error: 'A duplicate scan is already running' }, { status: 409 });
+  }
+
+  scan
+    .then((result) =>
+      createAuditLog({
+        tenantId: user.tenantId,
+        userId: user.id,
+        action: 'DUPLICATE_SCAN',
+        resourceType: 'duplicate_candidate',
+        afterData: result,
+        ...context,
+      })
+    )
+    .catch((error) => console.error(`Duplicate scan failed for tenant ${user.tenantId}:`, error));
+
+  return NextResponse.json({ status: 'started' }, { status: 202 });
+});
@@ -0,0 +1,23 @@
+// Imports API - Roll back an import
+import { NextResponse } from 'next/server';
+import { rollbackImport, startRollback, ImportError } from '@/lib/imports';
+import { withAuth } from '@/lib/with-auth';
+
+// POST /api/imports/[id]/rollback - Removes the records the import created and
+// reverts the ones it updated, in the background
+export const POST = withAuth<{ id: string }>(null, async (request, { user, context, params }) => {
+  try {
+    await startRollback(user, params.id);
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  rollbackImport(user, params.id, context).catch((error) =>
+    console.error(`Rollback of import ${params.id} failed:`, error)
+  );
+
+  return NextResponse.json({ status: 'rolling_back' }, { status: 202 });
+});
@@ -0,0 +1,39 @@
+// Imports API - Import status, mapping targets and failed rows
+import { NextResponse } from 'next/server';
+import { hasPermission } from '@/lib/auth';
+import { forTenant } from '@/lib/database';
+import { importFields, importJobScope, isImportEntity, IMPORT_FAILED_ROWS_LIMIT } from '@/lib/imports';
+import { withAuth } from '@/lib/with-auth';
+
+// GET /api/imports/[id] - Poll this while an import or rollback runs
+export const GET = withAuth<{ id: string }>(null, async (request, { user, params }) => {
+  const db = forTenant(user.tenantId);
+  const job = await db.importJob.findFirst({ where: { id: params.id, ...importJobScope(user) } });
+
+  if (!job || !isImportEntity(job.entityType) || !hasPermission(user.role?.permissions, job.entityType, 'read')) {
+    return NextResponse.json({ error: 'Import not found' }, { status: 404 });
+  }
+
+  const [fields, sampleRows, failedRows] = await Promise.all([
+    importFields(db, job.entityType, user.role?.permissions),
+    db.importRow.findMany({
+      where: { jobId: job.id },
+      orderBy: { rowNumber: 'asc' },
+      take: 5,
+      select: { rowNumber: true, data: true },
+    }),
+    db.importRow.findMany({
+      where: { jobId: job.id, OR: [{ status: 'failed' }, { status: 'updated', error: { not: null } }] },
+      orderBy: { rowNumber: 'asc' },
+      take: IMPORT_FAILED_ROWS_LIMIT,
+      select: { rowNumber: true, status: true, error: true },
+    }),
+  ]);
+
+  return NextResponse.json({
+    job,
+    fields,
+    sampleRows: sampleRows.map((row) => row.data),
+    failedRows,
+  });
+});
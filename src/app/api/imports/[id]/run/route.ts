@@ -0,0 +1,21 @@
+// Imports API - Run a validated import
+import { NextResponse } from 'next/server';
+import { runImport, startImport, ImportError } from '@/lib/imports';
+import { withAuth } from '@/lib/with-auth';
+
+// POST /api/imports/[id]/run - Starts the import in the background; poll
+// GET /api/imports/[id] for progress. A failed import resumes where it stopped.
+export const POST = withAuth<{ id: string }>(null, async (request, { user, context, params }) => {
+  try {
+    await startImport(user, params.id);
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  runImport(user, params.id, context).catch((error) => console.error(`Import ${params.id} failed:`, error));
+
+  return NextResponse.json({ status: 'running' }, { status: 202 });
+});
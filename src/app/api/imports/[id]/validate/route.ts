@@ -0,0 +1,20 @@
+// Imports API - Dry run of a column mapping
+import { NextResponse } from 'next/server';
+import { importMappingSchema, validateImport, ImportError } from '@/lib/imports';
+import { withAuth } from '@/lib/with-auth';
+
+// POST /api/imports/[id]/validate - Validates every row with the mapping and
+// saves it for the run; nothing is written to the records
+export const POST = withAuth<{ id: string }>(null, async (request, { user, params }) => {
+  const body = await request.json();
+  const input = importMappingSchema.parse(body);
+
+  try {
+    return NextResponse.json(await validateImport(user, params.id, input));
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+    }
+    throw error;
+  }
+});
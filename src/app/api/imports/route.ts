@@ -0,0 +1,78 @@
+// Imports API - Upload CSV or XLSX files and list imports
+import { NextResponse } from 'next/server';
+import { hasPermission } from '@/lib/auth';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { parseImportFile, ImportFileError, MAX_IMPORT_FILE_BYTES } from '@/lib/import-files';
+import {
+  createImportJob,
+  importFields,
+  importJobScope,
+  isImportEntity,
+  suggestMapping,
+  ImportError,
+  IMPORT_ENTITIES,
+} from '@/lib/imports';
+import { withAuth } from '@/lib/with-auth';
+
+// GET /api/imports - Recent imports the user may manage, of the entities they may read
+export const GET = withAuth(null, async (request, { user }) => {
+  const entities = IMPORT_ENTITIES.filter((entity) => hasPermission(user.role?.permissions, entity, 'read'));
+
+  const jobs = await forTenant(user.tenantId).importJob.findMany({
+    where: { entityType: { in: entities }, ...importJobScope(user) },
+    include: { user: { select: { id: true, firstName: true, lastName: true, email: true } } },
+    orderBy: { createdAt: 'desc' },
+    take: 50,
+  });
+
+  return NextResponse.json({ data: jobs });
+});
+
+// POST /api/imports - multipart form with `file` and `entity`. Returns the new
+// import with the columns found, sample rows and a suggested mapping.
+export const POST = withAuth(null, async (request, { user, context }) => {
+  const form = await request.formData();
+  const file = form.get('file');
+  const entity = String(form.get('entity') || '');
+
+  if (!isImportEntity(entity)) {
+    return NextResponse.json({ error: 'Unknown entity' }, { status: 400 });
+  }
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'Choose a file to import' }, { status: 400 });
+  }
+  if (file.size > MAX_IMPORT_FILE_BYTES) {
+    return NextResponse.json({ error: 'The file is too large' }, { status: 413 });
+  }
+
+  try {
+    const parsed = await parseImportFile(file.name, Buffer.from(await file.arrayBuffer()));
+    const job = await createImportJob(user, entity, file.name, parsed);
+    const fields = await importFields(forTenant(user.tenantId), entity, user.role?.permissions);
+
+    await createAuditLog({
+      tenantId: user.tenantId,
+      userId: user.id,
+      action: 'CREATE',
+      resourceType: 'import_job',
+      resourceId: job.id,
+      afterData: { entity, fileName: job.fileName, totalRows: job.totalRows },
+      ...context,
+    });
+
+    return NextResponse.json(
+      {
+        job,
+        fields,
+        sampleRows: parsed.rows.slice(0, 5),
+        suggestedMapping: suggestMapping(parsed.headers, fields),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ImportFileError || error instanceof ImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+});
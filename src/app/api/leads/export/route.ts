@@ -0,0 +1,8 @@
+// Leads API - Export
+import { exportResponse } from '@/lib/exports';
+import { withAuth } from '@/lib/with-auth';
+
+// GET /api/leads/export - Streams the filtered list as CSV or NDJSON (?format=ndjson)
+export const GET = withAuth({ resource: 'leads', action: 'export' }, async (request, { user, context }) =>
+  exportResponse(user, 'leads', new URL(request.url).searchParams, context)
+);
@@ -0,0 +1,142 @@
+// Roles API - Read, update and delete a role
+import { NextResponse } from 'next/server';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { excessPermissions, roleSchema, RolePermissions } from '@/lib/permissions';
+import { isValidParentRole } from '@/lib/sharing';
+import { withAuth } from '@/lib/with-auth';
+
+const updateRoleSchema = roleSchema.partial();
+
+function auditSnapshot(role: {
+  name: string;
+  description: string | null;
+  permissions: unknown;
+  parentRoleId: string | null;
+}) {
+  return {
+    name: role.name,
+    description: role.description,
+    permissions: role.permissions,
+    parentRoleId: role.parentRoleId,
+  };
+}
+
+export const GET = withAuth<{ id: string }>(
+  { resource: 'settings', action: 'read' },
+  async (request, { user, params }) => {
+    const role = await forTenant(user.tenantId).role.findUnique({
+      where: { id: params.id },
+      include: { _count: { select: { users: true } } },
+    });
+
+    if (!role) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 404 });
+    }
+
+    const { _count, ...rest } = role;
+    return NextResponse.json({ role: { ...rest, userCount: _count.users } });
+  }
+);
+
+// System roles are read-only apart from their place in the hierarchy; copy
+// one into a custom role to change anything else
+export const PATCH = withAuth<{ id: string }>(
+  { resource: 'settings', action: 'write' },
+  async (request, { user: admin, context, params }) => {
+    const { id } = params;
+    const body = await request.json();
+    const data = updateRoleSchema.parse(body);
+
+    const db = forTenant(admin.tenantId);
+    const role = await db.role.findUnique({ where: { id } });
+    if (!role) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 404 });
+    }
+
+    if (role.isSystemRole && Object.keys(data).some((key) => key !== 'parentRoleId')) {
+      return NextResponse.json({ error: 'System roles cannot be modified' }, { status: 403 });
+    }
+
+    if (data.parentRoleId && !(await isValidParentRole(db, id, data.parentRoleId))) {
+      return NextResponse.json({ error: 'Invalid parent role' }, { status: 400 });
+    }
+
+    if (data.permissions) {
+      const excess = excessPermissions(admin.role?.permissions as RolePermissions, data.permissions);
+      if (excess.length > 0) {
+        return NextResponse.json(
+          { error: 'Cannot grant permissions you do not have', details: excess },
+          { status: 403 }
+        );
+      }
+    }
+
+    if (data.name && data.name !== role.name && (await db.role.findFirst({ where: { name: data.name } }))) {
+      return NextResponse.json({ error: 'A role with this name already exists' }, { status: 409 });
+    }
+
+    const updated = await db.role.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined ? { name: data.name } : {}),
+        ...(data.description !== undefined ? { description: data.description } : {}),
+        ...(data.permissions !== undefined ? { permissions: data.permissions } : {}),
+        ...(data.parentRoleId !== undefined ? { parentRoleId: data.parentRoleId } : {}),
+      },
+    });
+
+    await createAuditLog({
+      tenantId: admin.tenantId,
+      userId: admin.id,
+      action: 'UPDATE',
+      resourceType: 'role',
+      resourceId: id,
+      beforeData: auditSnapshot(role),
+      afterData: auditSnapshot(updated),
+      ...context,
+    });
+
+    return NextResponse.json({ role: updated });
+  }
+);
+
+export const DELETE = withAuth<{ id: string }>(
+  { resource: 'settings', action: 'write' },
+  async (request, { user: admin, context, params }) => {
+    const { id } = params;
+    const db = forTenant(admin.tenantId);
+    const role = await db.role.findUnique({
+      where: { id },
+      include: { _count: { select: { users: true } } },
+    });
+
+    if (!role) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 404 });
+    }
+
+    if (role.isSystemRole) {
+      return NextResponse.json({ error: 'System roles cannot be deleted' }, { status: 403 });
+    }
+
+    if (role._count.users > 0) {
+      return NextResponse.json(
+        { error: `Role is assigned to ${role._count.users} user(s); reassign them first` },
+        { status: 409 }
+      );
+    }
+
+    await db.role.delete({ where: { id } });
+
+    await createAuditLog({
+      tenantId: admin.tenantId,
+      userId: admin.id,
+      action: 'DELETE',
+      resourceType: 'role',
+      resourceId: id,
+      beforeData: auditSnapshot(role),
+      ...context,
+    });
+
+    return NextResponse.json({ success: true });
+  }
+);
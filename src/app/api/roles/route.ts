@@ -0,0 +1,110 @@
+// Roles API - List and create roles
+import { Prisma } from '@prisma/client';
+import { NextResponse } from 'next/server';
+import { createAuditLog, forTenant, TenantPrismaClient } from '@/lib/database';
+import {
+  customFieldName,
+  customFieldResource,
+  excessPermissions,
+  roleSchema,
+  PERMISSION_ACTIONS,
+  PERMISSION_RESOURCES,
+  SECURABLE_FIELDS,
+  RolePermissions,
+} from '@/lib/permissions';
+import { isValidParentRole } from '@/lib/sharing';
+import { withAuth } from '@/lib/with-auth';
+
+// "employeeCount" -> "Employee Count"
+function fieldLabel(name: string): string {
+  return name.replace(/([A-Z])/g, ' $1').replace(/^./, (first) => first.toUpperCase());
+}
+
+// Standard and active custom fields that field rules can restrict, per resource
+async function securableFields(db: TenantPrismaClient) {
+  const fields: Record<string, { name: string; label: string }[]> = Object.fromEntries(
+    Object.entries(SECURABLE_FIELDS).map(([resource, names]) => [
+      resource,
+      names.map((name) => ({ name, label: fieldLabel(name) })),
+    ])
+  );
+
+  const customFields = await db.customField.findMany({
+    where: { isActive: true },
+    orderBy: { fieldLabel: 'asc' },
+  });
+  for (const customField of customFields) {
+    const resource = customFieldResource(customField.entityType);
+    if (resource) {
+      fields[resource].push({ name: customFieldName(customField.fieldKey), label: customField.fieldLabel });
+    }
+  }
+
+  return fields;
+}
+
+type RoleWithUserCount = Prisma.RoleGetPayload<{ include: { _count: { select: { users: true } } } }>;
+
+export const GET = withAuth({ resource: 'settings', action: 'read' }, async (request, { user }) => {
+  const db = forTenant(user.tenantId);
+  const roles = await db.role.findMany({
+    orderBy: [{ isSystemRole: 'desc' }, { name: 'asc' }],
+    include: { _count: { select: { users: true } } },
+  });
+
+  return NextResponse.json({
+    roles: roles.map(({ _count, ...role }: RoleWithUserCount) => ({ ...role, userCount: _count.users })),
+    resources: PERMISSION_RESOURCES,
+    actions: PERMISSION_ACTIONS,
+    fields: await securableFields(db),
+  });
+});
+
+export const POST = withAuth({ resource: 'settings', action: 'write' }, async (request, { user: admin, context }) => {
+  const body = await request.json();
+  const data = roleSchema.parse(body);
+
+  const excess = excessPermissions(admin.role?.permissions as RolePermissions, data.permissions);
+  if (excess.length > 0) {
+    return NextResponse.json(
+      { error: 'Cannot grant permissions you do not have', details: excess },
+      { status: 403 }
+    );
+  }
+
+  const db = forTenant(admin.tenantId);
+  if (await db.role.findFirst({ where: { name: data.name } })) {
+    return NextResponse.json({ error: 'A role with this name already exists' }, { status: 409 });
+  }
+
+  if (data.parentRoleId && !(await isValidParentRole(db, null, data.parentRoleId))) {
+    return NextResponse.json({ error: 'Invalid parent role' }, { status: 400 });
+  }
+
+  const role = await db.role.create({
+    data: {
+      name: data.name,
+      description: data.description ?? null,
+      permissions: data.permissions,
+      parentRoleId: data.parentRoleId ?? null,
+      isSystemRole: false,
+    },
+  });
+
+  await createAuditLog({
+    tenantId: admin.tenantId,
+    userId: admin.id,
+    action: 'CREATE',
+    resourceType: 'role',
+    resourceId: role.id,
+    afterData: {
+      name: role.name,
+      description: role.description,
+      permissions: role.permissions,
+      parentRoleId: role.parentRoleId,
+    },
+    ...context,
+  });
+
+  return NextResponse.json({ role }, { status: 201 });
+});
@@ -0,0 +1,69 @@
+// Service Accounts API - Keys of a service account
+import { NextResponse } from 'next/server';
+import { createApiKey, ApiKeyError, API_KEY_SELECT } from '@/lib/api-keys';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { assertAccountHolder } from '@/lib/request-auth';
+import { withAuth } from '@/lib/with-auth';
+
+export const GET = withAuth<{ id: string }>(
+  { resource: 'users', action: 'read' },
+  async (request, { user, params }) => {
+    const db = forTenant(user.tenantId);
+    const account = await db.user.findFirst({ where: { id: params.id, isServiceAccount: true } });
+    if (!account) {
+      return NextResponse.json({ error: 'Service account not found' }, { status: 404 });
+    }
+
+    const apiKeys = await db.apiKey.findMany({
+      where: { userId: account.id },
+      select: API_KEY_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ apiKeys });
+  }
+);
+
+// POST - Issue a key for the service account, scoped within its role
+export const POST = withAuth<{ id: string }>(
+  { resource: 'users', action: 'write' },
+  async (request, { user: admin, context, params }) => {
+    assertAccountHolder(admin);
+    const body = await request.json();
+
+    const account = await forTenant(admin.tenantId).user.findFirst({
+      where: { id: params.id, isServiceAccount: true, isActive: true },
+    });
+    if (!account) {
+      return NextResponse.json({ error: 'Service account not found' }, { status: 404 });
+    }
+
+    try {
+      const { apiKey, key } = await createApiKey(admin.tenantId, account.id, body, admin.id);
+
+      await createAuditLog({
+        tenantId: admin.tenantId,
+        userId: admin.id,
+        action: 'API_KEY_CREATED',
+        resourceType: 'api_key',
+        resourceId: apiKey.id,
+        afterData: {
+          name: apiKey.name,
+          prefix: apiKey.prefix,
+          ownerId: apiKey.userId,
+          scopes: apiKey.scopes,
+          allowedIps: apiKey.allowedIps,
+          expiresAt: apiKey.expiresAt,
+        },
+        ...context,
+      });
+
+      return NextResponse.json({ apiKey, key }, { status: 201 });
+    } catch (error) {
+      if (error instanceof ApiKeyError) {
+        return NextResponse.json({ error: error.message, details: error.details }, { status: 403 });
+      }
+      throw error;
+    }
+  }
+);
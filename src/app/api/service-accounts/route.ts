@@ -0,0 +1,84 @@
+// Service Accounts API - Non-interactive users for integrations, which
+// authenticate only with API keys. Deactivate them like any user via
+// POST /api/users/[id]/deactivate.
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { excessPermissions, RolePermissions } from '@/lib/permissions';
+import { assertAccountHolder } from '@/lib/request-auth';
+import { createServiceAccount, getUserStatus } from '@/lib/users';
+import { withAuth } from '@/lib/with-auth';
+
+const serviceAccountSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  roleId: z.string().uuid().nullable().default(null),
+});
+
+export const GET = withAuth({ resource: 'users', action: 'read' }, async (request, { user }) => {
+  const serviceAccounts = await forTenant(user.tenantId).user.findMany({
+    where: { isServiceAccount: true },
+    include: {
+      role: { select: { id: true, name: true } },
+      apiKeys: { where: { revokedAt: null, expiresAt: { gt: new Date() } }, select: { id: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return NextResponse.json({
+    serviceAccounts: serviceAccounts.map((account) => ({
+      id: account.id,
+      name: account.firstName,
+      email: account.email,
+      role: account.role,
+      status: getUserStatus(account),
+      activeKeys: account.apiKeys.length,
+      createdAt: account.createdAt,
+    })),
+  });
+});
+
+export const POST = withAuth({ resource: 'users', action: 'write' }, async (request, { user: admin, context }) => {
+  assertAccountHolder(admin);
+  const body = await request.json();
+  const data = serviceAccountSchema.parse(body);
+
+  if (data.roleId) {
+    const role = await forTenant(admin.tenantId).role.findUnique({ where: { id: data.roleId } });
+    if (!role) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 400 });
+    }
+
+    const excess = excessPermissions(admin.role?.permissions as RolePermissions, role.permissions as RolePermissions);
+    if (excess.length > 0) {
+      return NextResponse.json(
+        { error: 'Cannot assign a role with permissions you do not have', details: excess },
+        { status: 403 }
+      );
+    }
+  }
+
+  const account = await createServiceAccount(admin.tenantId, data);
+
+  await createAuditLog({
+    tenantId: admin.tenantId,
+    userId: admin.id,
+    action: 'SERVICE_ACCOUNT_CREATED',
+    resourceType: 'user',
+    resourceId: account.id,
+    afterData: { name: account.firstName, email: account.email, roleId: account.roleId },
+    ...context,
+  });
+
+  return NextResponse.json(
+    {
+      serviceAccount: {
+        id: account.id,
+        name: account.firstName,
+        email: account.email,
+        roleId: account.roleId,
+        status: getUserStatus(account),
+      },
+    },
+    { status: 201 }
+  );
+});
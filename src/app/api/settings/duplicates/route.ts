@@ -0,0 +1,54 @@
+// Settings API - Duplicate matching rules
+import { NextResponse } from 'next/server';
+import { createAuditLog, forTenant } from '@/lib/database';
+import {
+  duplicateSettingsSchema,
+  getDuplicateSettings,
+  DEFAULT_DUPLICATE_SETTINGS,
+  ENTITY_MATCH_RULES,
+} from '@/lib/duplicates';
+import { withAuth } from '@/lib/with-auth';
+
+export const GET = withAuth({ resource: 'settings', action: 'read' }, async (request, { user }) => {
+  const tenant = await forTenant(user.tenantId).tenant.findUnique({ where: { id: user.tenantId } });
+
+  return NextResponse.json({
+    duplicates: getDuplicateSettings(tenant?.settings),
+    defaults: DEFAULT_DUPLICATE_SETTINGS,
+    availableRules: ENTITY_MATCH_RULES,
+  });
+});
+
+// Entities left out of the body keep their current rules
+export const PUT = withAuth({ resource: 'settings', action: 'write' }, async (request, { user: admin, context }) => {
+  const body = await request.json();
+  const changes = duplicateSettingsSchema.partial().parse(body);
+
+  const db = forTenant(admin.tenantId);
+  const tenant = await db.tenant.findUnique({ where: { id: admin.tenantId } });
+  if (!tenant) {
+    return NextResponse.json({ error: 'Tenant not found' }, { status: 404 });
+  }
+
+  const settings = (tenant.settings as Record<string, unknown> | null) || {};
+  const before = getDuplicateSettings(settings);
+  const duplicates = duplicateSettingsSchema.parse({ ...before, ...changes });
+
+  await db.tenant.update({
+    where: { id: admin.tenantId },
+    data: { settings: { ...settings, duplicates } },
+  });
+
+  await createAuditLog({
+    tenantId: admin.tenantId,
+    userId: admin.id,
+    action: 'UPDATE',
+    resourceType: 'duplicate_settings',
+    resourceId: admin.tenantId,
+    beforeData: before,
+    afterData: duplicates,
+    ...context,
+  });
+
+  return NextResponse.json({ duplicates });
+});
@@ -0,0 +1,48 @@
+// Settings API - Tenant password policy
+import { NextResponse } from 'next/server';
+import { getPasswordPolicy, passwordPolicySchema, DEFAULT_PASSWORD_POLICY } from '@/lib/auth';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { withAuth } from '@/lib/with-auth';
+
+export const GET = withAuth({ resource: 'settings', action: 'read' }, async (request, { user }) => {
+  const tenant = await forTenant(user.tenantId).tenant.findUnique({ where: { id: user.tenantId } });
+
+  return NextResponse.json({
+    policy: getPasswordPolicy(tenant?.settings),
+    defaults: DEFAULT_PASSWORD_POLICY,
+  });
+});
+
+// Fields left out of the body keep their current value
+export const PUT = withAuth({ resource: 'settings', action: 'write' }, async (request, { user: admin, context }) => {
+  const body = await request.json();
+  const changes = passwordPolicySchema.partial().parse(body);
+
+  const db = forTenant(admin.tenantId);
+  const tenant = await db.tenant.findUnique({ where: { id: admin.tenantId } });
+  if (!tenant) {
+    return NextResponse.json({ error: 'Tenant not found' }, { status: 404 });
+  }
+
+  const settings = (tenant.settings as Record<string, unknown> | null) || {};
+  const before = getPasswordPolicy(settings);
+  const policy = passwordPolicySchema.parse({ ...before, ...changes });
+
+  await db.tenant.update({
+    where: { id: admin.tenantId },
+    data: { settings: { ...settings, passwordPolicy: policy } },
+  });
+
+  await createAuditLog({
+    tenantId: admin.tenantId,
+    userId: admin.id,
+    action: 'UPDATE',
+    resourceType: 'password_policy',
+    resourceId: admin.tenantId,
+    beforeData: before,
+    afterData: policy,
+    ...context,
+  });
+
+  return NextResponse.json({ policy });
+});
@@ -0,0 +1,48 @@
+// Settings API - Org-wide sharing defaults
+import { NextResponse } from 'next/server';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { getSharingSettings, sharingSettingsSchema, DEFAULT_SHARING_SETTINGS } from '@/lib/sharing';
+import { withAuth } from '@/lib/with-auth';
+
+export const GET = withAuth({ resource: 'settings', action: 'read' }, async (request, { user }) => {
+  const tenant = await forTenant(user.tenantId).tenant.findUnique({ where: { id: user.tenantId } });
+
+  return NextResponse.json({
+    sharing: getSharingSettings(tenant?.settings),
+    defaults: DEFAULT_SHARING_SETTINGS,
+  });
+});
+
+// Entities left out of the body keep their current default
+export const PUT = withAuth({ resource: 'settings', action: 'write' }, async (request, { user: admin, context }) => {
+  const body = await request.json();
+  const changes = sharingSettingsSchema.partial().parse(body);
+
+  const db = forTenant(admin.tenantId);
+  const tenant = await db.tenant.findUnique({ where: { id: admin.tenantId } });
+  if (!tenant) {
+    return NextResponse.json({ error: 'Tenant not found' }, { status: 404 });
+  }
+
+  const settings = (tenant.settings as Record<string, unknown> | null) || {};
+  const before = getSharingSettings(settings);
+  const sharing = sharingSettingsSchema.parse({ ...before, ...changes });
+
+  await db.tenant.update({
+    where: { id: admin.tenantId },
+    data: { settings: { ...settings, sharing } },
+  });
+
+  await createAuditLog({
+    tenantId: admin.tenantId,
+    userId: admin.id,
+    action: 'UPDATE',
+    resourceType: 'sharing_settings',
+    resourceId: admin.tenantId,
+    beforeData: before,
+    afterData: sharing,
+    ...context,
+  });
+
+  return NextResponse.json({ sharing });
+});
@@ -0,0 +1,42 @@
+// Shares API - Revoke a record share
+import { NextResponse } from 'next/server';
+import { canAccessResource } from '@/lib/auth';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { canAccessRecord, isSharingEntity } from '@/lib/sharing';
+import { withAuth } from '@/lib/with-auth';
+
+export const DELETE = withAuth<{ id: string }>(null, async (request, { user, context, params }) => {
+  const db = forTenant(user.tenantId);
+  const share = await db.recordShare.findUnique({ where: { id: params.id } });
+
+  if (!share || !isSharingEntity(share.entityType)) {
+    return NextResponse.json({ error: 'Share not found' }, { status: 404 });
+  }
+
+  if (
+    !canAccessResource(user, share.entityType, 'write') ||
+    !(await canAccessRecord(db, user, share.entityType, share.recordId, 'write'))
+  ) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  await db.recordShare.delete({ where: { id: share.id } });
+
+  await createAuditLog({
+    tenantId: user.tenantId,
+    userId: user.id,
+    action: 'DELETE',
+    resourceType: 'record_share',
+    resourceId: share.id,
+    beforeData: {
+      entityType: share.entityType,
+      recordId: share.recordId,
+      userId: share.userId,
+      teamId: share.teamId,
+      accessLevel: share.accessLevel,
+    },
+    ...context,
+  });
+
+  return NextResponse.json({ success: true });
+});
@@ -0,0 +1,115 @@
+// Shares API - List and grant record shares
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { canAccessResource } from '@/lib/auth';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { canAccessRecord, SHARE_ACCESS_LEVELS, SHARING_ENTITIES } from '@/lib/sharing';
+import { withAuth } from '@/lib/with-auth';
+
+const recordSchema = z.object({
+  entityType: z.enum(SHARING_ENTITIES),
+  recordId: z.string().uuid('Invalid record'),
+});
+
+const createShareSchema = recordSchema
+  .extend({
+    userId: z.string().uuid().optional(),
+    teamId: z.string().uuid().optional(),
+    accessLevel: z.enum(SHARE_ACCESS_LEVELS).default('read'),
+  })
+  .refine((data) => !!data.userId !== !!data.teamId, {
+    message: 'Share with either a user or a team',
+    path: ['userId'],
+  });
+
+// GET /api/shares?entityType=accounts&recordId=... - Shares on one record
+export const GET = withAuth(null, async (request, { user }) => {
+  const { searchParams } = new URL(request.url);
+  const { entityType, recordId } = recordSchema.parse({
+    entityType: searchParams.get('entityType'),
+    recordId: searchParams.get('recordId'),
+  });
+
+  const db = forTenant(user.tenantId);
+  if (
+    !canAccessResource(user, entityType, 'read') ||
+    !(await canAccessRecord(db, user, entityType, recordId, 'read'))
+  ) {
+    return NextResponse.json({ error: 'Record not found' }, { status: 404 });
+  }
+
+  const shares = await db.recordShare.findMany({
+    where: { entityType, recordId },
+    include: {
+      user: { select: { id: true, firstName: true, lastName: true, email: true } },
+      team: { select: { id: true, name: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return NextResponse.json({ shares });
+});
+
+// POST /api/shares - Share a record the caller can edit with a user or team
+export const POST = withAuth(null, async (request, { user, context }) => {
+  const body = await request.json();
+  const data = createShareSchema.parse(body);
+
+  const db = forTenant(user.tenantId);
+  if (!canAccessResource(user, data.entityType, 'write')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  if (!(await canAccessRecord(db, user, data.entityType, data.recordId, 'write'))) {
+    return NextResponse.json({ error: 'Record not found' }, { status: 404 });
+  }
+
+  const grantee = data.userId
+    ? await db.user.findUnique({ where: { id: data.userId } })
+    : await db.team.findUnique({ where: { id: data.teamId as string } });
+  if (!grantee) {
+    return NextResponse.json({ error: data.userId ? 'User not found' : 'Team not found' }, { status: 404 });
+  }
+
+  // Sharing again with the same grantee changes the access level
+  const existing = await db.recordShare.findFirst({
+    where: {
+      entityType: data.entityType,
+      recordId: data.recordId,
+      userId: data.userId ?? null,
+      teamId: data.teamId ?? null,
+    },
+  });
+
+  const share = existing
+    ? await db.recordShare.update({ where: { id: existing.id }, data: { accessLevel: data.accessLevel } })
+    : await db.recordShare.create({
+        data: {
+          entityType: data.entityType,
+          recordId: data.recordId,
+          userId: data.userId,
+          teamId: data.teamId,
+          accessLevel: data.accessLevel,
+          createdById: user.id,
+        },
+      });
+
+  await createAuditLog({
+    tenantId: user.tenantId,
+    userId: user.id,
+    action: existing ? 'UPDATE' : 'CREATE',
+    resourceType: 'record_share',
+    resourceId: share.id,
+    beforeData: existing ? { accessLevel: existing.accessLevel } : undefined,
+    afterData: {
+      entityType: share.entityType,
+      recordId: share.recordId,
+      userId: share.userId,
+      teamId: share.teamId,
+      accessLevel: share.accessLevel,
+    },
+    ...context,
+  });
+
+  return NextResponse.json({ share }, { status: existing ? 200 : 201 });
+});
@@ -0,0 +1,106 @@
+// Teams API - Update and delete a team
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { withAuth } from '@/lib/with-auth';
+
+// memberIds, when given, replaces the whole membership
+const updateTeamSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  memberIds: z.array(z.string().uuid()).max(1000).optional(),
+});
+
+export const PATCH = withAuth<{ id: string }>(
+  { resource: 'users', action: 'write' },
+  async (request, { user: admin, context, params }) => {
+    const { id } = params;
+    const body = await request.json();
+    const data = updateTeamSchema.parse(body);
+
+    const db = forTenant(admin.tenantId);
+    const team = await db.team.findUnique({ where: { id }, include: { members: true } });
+    if (!team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+
+    if (data.name && data.name !== team.name && (await db.team.findFirst({ where: { name: data.name } }))) {
+      return NextResponse.json({ error: 'A team with this name already exists' }, { status: 409 });
+    }
+
+    const memberIds = data.memberIds ? [...new Set(data.memberIds)] : undefined;
+    if (memberIds && (await db.user.count({ where: { id: { in: memberIds } } })) !== memberIds.length) {
+      return NextResponse.json({ error: 'Unknown team member' }, { status: 400 });
+    }
+
+    const updated = await db.team.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined ? { name: data.name } : {}),
+        ...(data.description !== undefined ? { description: data.description } : {}),
+      },
+    });
+
+    if (memberIds) {
+      await db.teamMember.deleteMany({ where: { teamId: id, userId: { notIn: memberIds } } });
+      const existing = new Set(team.members.map((member) => member.userId));
+      const added = memberIds.filter((userId) => !existing.has(userId));
+      if (added.length > 0) {
+        await db.teamMember.createMany({ data: added.map((userId) => ({ teamId: id, userId })) });
+      }
+    }
+
+    await createAuditLog({
+      tenantId: admin.tenantId,
+      userId: admin.id,
+      action: 'UPDATE',
+      resourceType: 'team',
+      resourceId: id,
+      beforeData: {
+        name: team.name,
+        description: team.description,
+        memberIds: team.members.map((member) => member.userId),
+      },
+      afterData: {
+        name: updated.name,
+        description: updated.description,
+        memberIds: memberIds ?? team.members.map((member) => member.userId),
+      },
+      ...context,
+    });
+
+    return NextResponse.json({ team: updated });
+  }
+);
+
+// Records shared with the team stop being visible to its members
+export const DELETE = withAuth<{ id: string }>(
+  { resource: 'users', action: 'write' },
+  async (request, { user: admin, context, params }) => {
+    const { id } = params;
+    const db = forTenant(admin.tenantId);
+    const team = await db.team.findUnique({ where: { id }, include: { members: true } });
+
+    if (!team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+
+    await db.team.delete({ where: { id } });
+
+    await createAuditLog({
+      tenantId: admin.tenantId,
+      userId: admin.id,
+      action: 'DELETE',
+      resourceType: 'team',
+      resourceId: id,
+      beforeData: {
+        name: team.name,
+        description: team.description,
+        memberIds: team.members.map((member) => member.userId),
+      },
+      ...context,
+    });
+
+    return NextResponse.json({ success: true });
+  }
+);
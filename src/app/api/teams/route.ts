@@ -0,0 +1,66 @@
+// Teams API - List and create teams used for record sharing
+import { Prisma } from '@prisma/client';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { withAuth } from '@/lib/with-auth';
+
+const teamSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  memberIds: z.array(z.string().uuid()).max(1000).default([]),
+});
+
+const MEMBER_INCLUDE = {
+  members: {
+    include: { user: { select: { id: true, firstName: true, lastName: true, email: true } } },
+  },
+} satisfies Prisma.TeamInclude;
+
+type TeamWithMembers = Prisma.TeamGetPayload<{ include: typeof MEMBER_INCLUDE }>;
+
+export const GET = withAuth({ resource: 'users', action: 'read' }, async (request, { user }) => {
+  const teams = await forTenant(user.tenantId).team.findMany({
+    orderBy: { name: 'asc' },
+    include: MEMBER_INCLUDE,
+  });
+
+  return NextResponse.json({
+    teams: teams.map(({ members, ...team }: TeamWithMembers) => ({ ...team, members: members.map((member) => member.user) })),
+  });
+});
+
+export const POST = withAuth({ resource: 'users', action: 'write' }, async (request, { user: admin, context }) => {
+  const body = await request.json();
+  const data = teamSchema.parse(body);
+
+  const db = forTenant(admin.tenantId);
+  if (await db.team.findFirst({ where: { name: data.name } })) {
+    return NextResponse.json({ error: 'A team with this name already exists' }, { status: 409 });
+  }
+
+  const memberIds = [...new Set(data.memberIds)];
+  if ((await db.user.count({ where: { id: { in: memberIds } } })) !== memberIds.length) {
+    return NextResponse.json({ error: 'Unknown team member' }, { status: 400 });
+  }
+
+  const team = await db.team.create({
+    data: {
+      name: data.name,
+      description: data.description ?? null,
+      members: { create: memberIds.map((userId) => ({ userId })) },
+    },
+  });
+
+  await createAuditLog({
+    tenantId: admin.tenantId,
+    userId: admin.id,
+    action: 'CREATE',
+    resourceType: 'team',
+    resourceId: team.id,
+    afterData: { name: team.name, description: team.description, memberIds },
+    ...context,
+  });
+
+  return NextResponse.json({ team: { ...team, memberIds } }, { status: 201 });
+});
@@ -0,0 +1,67 @@
+// Users API - Deactivate a user and hand their records to another user
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { canManageRoleHolder, RolePermissions } from '@/lib/permissions';
+import { deactivateUser } from '@/lib/users';
+import { withAuth } from '@/lib/with-auth';
+
+const deactivateSchema = z.object({
+  reassignToId: z.string().uuid('Choose a user to receive the records'),
+});
+
+export const POST = withAuth<{ id: string }>(
+  { resource: 'users', action: 'write' },
+  async (request, { user: admin, context, params }) => {
+    const { id } = params;
+    const body = await request.json();
+    const { reassignToId } = deactivateSchema.parse(body);
+
+    if (id === admin.id) {
+      return NextResponse.json({ error: 'You cannot deactivate your own account' }, { status: 400 });
+    }
+
+    if (reassignToId === id) {
+      return NextResponse.json({ error: 'Records must be reassigned to a different user' }, { status: 400 });
+    }
+
+    const db = forTenant(admin.tenantId);
+    const user = await db.user.findUnique({ where: { id }, include: { role: true } });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (
+      !canManageRoleHolder(
+        admin.role?.permissions as RolePermissions,
+        user.role?.permissions as RolePermissions | undefined
+      )
+    ) {
+      return NextResponse.json({ error: 'Cannot deactivate a user with permissions you do not have' }, { status: 403 });
+    }
+
+    if (!user.isActive) {
+      return NextResponse.json({ error: 'User is already deactivated' }, { status: 409 });
+    }
+
+    const recipient = await db.user.findUnique({ where: { id: reassignToId } });
+    if (!recipient || !recipient.isActive) {
+      return NextResponse.json({ error: 'Records can only be reassigned to an active user' }, { status: 400 });
+    }
+
+    const { reassigned, sessionsRevoked } = await deactivateUser(admin.tenantId, id, reassignToId);
+
+    await createAuditLog({
+      tenantId: admin.tenantId,
+      userId: admin.id,
+      action: 'USER_DEACTIVATED',
+      resourceType: 'user',
+      resourceId: id,
+      beforeData: { isActive: true },
+      afterData: { isActive: false, reassignedTo: reassignToId, reassigned, sessionsRevoked },
+      ...context,
+    });
+
+    return NextResponse.json({ success: true, reassigned, sessionsRevoked });
+  }
+);
@@ -0,0 +1,38 @@
+// Users API - Resend the invitation to a user who has not accepted it yet
+import { NextResponse } from 'next/server';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { mailLinkBaseUrl } from '@/lib/mail';
+import { getUserStatus, sendInvitation } from '@/lib/users';
+import { withAuth } from '@/lib/with-auth';
+
+export const POST = withAuth<{ id: string }>(
+  { resource: 'users', action: 'write' },
+  async (request, { user: admin, context, params }) => {
+    const user = await forTenant(admin.tenantId).user.findUnique({ where: { id: params.id } });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (getUserStatus(user) !== 'invited') {
+      return NextResponse.json({ error: 'User has no pending invitation' }, { status: 409 });
+    }
+
+    const { expiresAt } = await sendInvitation(admin.tenantId, user.id, {
+      baseUrl: mailLinkBaseUrl(request.nextUrl.origin),
+      invitedById: admin.id,
+    });
+
+    await createAuditLog({
+      tenantId: admin.tenantId,
+      userId: admin.id,
+      action: 'USER_INVITED',
+      resourceType: 'user',
+      resourceId: user.id,
+      afterData: { email: user.email, invitationExpiresAt: expiresAt, resent: true },
+      ...context,
+    });
+
+    return NextResponse.json({ success: true, invitationExpiresAt: expiresAt });
+  }
+);
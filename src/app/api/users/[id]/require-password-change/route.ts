@@ -0,0 +1,39 @@
+// Users API - Require a password change at next login
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { withAuth } from '@/lib/with-auth';
+
+const requireChangeSchema = z.object({
+  required: z.boolean().default(true),
+});
+
+export const POST = withAuth<{ id: string }>(
+  { resource: 'users', action: 'write' },
+  async (request, { user: admin, context, params }) => {
+    const { id } = params;
+    const body = await request.json().catch(() => ({}));
+    const { required } = requireChangeSchema.parse(body);
+
+    const db = forTenant(admin.tenantId);
+    const user = await db.user.findUnique({ where: { id } });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await db.user.update({ where: { id }, data: { mustChangePassword: required } });
+
+    await createAuditLog({
+      tenantId: admin.tenantId,
+      userId: admin.id,
+      action: 'UPDATE',
+      resourceType: 'user',
+      resourceId: id,
+      beforeData: { mustChangePassword: user.mustChangePassword },
+      afterData: { mustChangePassword: required },
+      ...context,
+    });
+
+    return NextResponse.json({ success: true, mustChangePassword: required });
+  }
+);
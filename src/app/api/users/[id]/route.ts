@@ -0,0 +1,117 @@
+// Users API - Read and update a user
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { canManageRoleHolder, excessPermissions, RolePermissions } from '@/lib/permissions';
+import { getUserStatus, isValidTimezone } from '@/lib/users';
+import { withAuth } from '@/lib/with-auth';
+
+const updateUserSchema = z.object({
+  firstName: z.string().trim().max(100).nullable().optional(),
+  lastName: z.string().trim().max(100).nullable().optional(),
+  roleId: z.string().uuid().nullable().optional(),
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').optional(),
+});
+
+function auditSnapshot(user: {
+  firstName: string | null;
+  lastName: string | null;
+  roleId: string | null;
+  timezone: string;
+}) {
+  return { firstName: user.firstName, lastName: user.lastName, roleId: user.roleId, timezone: user.timezone };
+}
+
+export const GET = withAuth<{ id: string }>(
+  { resource: 'users', action: 'read' },
+  async (request, { user: admin, params }) => {
+    const user = await forTenant(admin.tenantId).user.findUnique({
+      where: { id: params.id },
+      include: {
+        role: { select: { id: true, name: true } },
+        invitations: { where: { acceptedAt: null }, orderBy: { createdAt: 'desc' }, take: 1 },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      user: {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        phone: user.phone,
+        role: user.role,
+        timezone: user.timezone,
+        status: getUserStatus(user),
+        mfaEnabled: user.mfaEnabled,
+        lastLogin: user.lastLogin,
+        invitationExpiresAt: user.invitations[0]?.expiresAt ?? null,
+        createdAt: user.createdAt,
+      },
+    });
+  }
+);
+
+export const PATCH = withAuth<{ id: string }>(
+  { resource: 'users', action: 'write' },
+  async (request, { user: admin, context, params }) => {
+    const { id } = params;
+    const body = await request.json();
+    const data = updateUserSchema.parse(body);
+
+    const db = forTenant(admin.tenantId);
+    const user = await db.user.findUnique({ where: { id }, include: { role: true } });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const adminPermissions = admin.role?.permissions as RolePermissions;
+    if (!canManageRoleHolder(adminPermissions, user.role?.permissions as RolePermissions | undefined)) {
+      return NextResponse.json({ error: 'Cannot change a user with permissions you do not have' }, { status: 403 });
+    }
+
+    if (data.roleId && data.roleId !== user.roleId) {
+      const role = await db.role.findUnique({ where: { id: data.roleId } });
+      if (!role) {
+        return NextResponse.json({ error: 'Role not found' }, { status: 400 });
+      }
+
+      const excess = excessPermissions(adminPermissions, role.permissions as RolePermissions);
+      if (excess.length > 0) {
+        return NextResponse.json(
+          { error: 'Cannot assign a role with permissions you do not have', details: excess },
+          { status: 403 }
+        );
+      }
+    }
+
+    const updated = await db.user.update({
+      where: { id },
+      data: {
+        ...(data.firstName !== undefined ? { firstName: data.firstName } : {}),
+        ...(data.lastName !== undefined ? { lastName: data.lastName } : {}),
+        ...(data.roleId !== undefined ? { roleId: data.roleId } : {}),
+        ...(data.timezone !== undefined ? { timezone: data.timezone } : {}),
+      },
+    });
+
+    await createAuditLog({
+      tenantId: admin.tenantId,
+      userId: admin.id,
+      action: 'UPDATE',
+      resourceType: 'user',
+      resourceId: id,
+      beforeData: auditSnapshot(user),
+      afterData: auditSnapshot(updated),
+      ...context,
+    });
+
+    return NextResponse.json({
+      user: { id: updated.id, email: updated.email, ...auditSnapshot(updated), status: getUserStatus(updated) },
+    });
+  }
+);
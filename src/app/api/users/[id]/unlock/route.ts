@@ -0,0 +1,45 @@
+// Users API - Login lockout status and admin unlock
+import { NextResponse } from 'next/server';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { getAccountLockStatus, unlockAccount } from '@/lib/login-limiter';
+import { withAuth } from '@/lib/with-auth';
+
+export const GET = withAuth<{ id: string }>(
+  { resource: 'users', action: 'write' },
+  async (request, { user: admin, params }) => {
+    const user = await forTenant(admin.tenantId).user.findUnique({ where: { id: params.id } });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await getAccountLockStatus(user.email));
+  }
+);
+
+export const POST = withAuth<{ id: string }>(
+  { resource: 'users', action: 'write' },
+  async (request, { user: admin, context, params }) => {
+    const user = await forTenant(admin.tenantId).user.findUnique({ where: { id: params.id } });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const before = await getAccountLockStatus(user.email);
+    await unlockAccount(user.email);
+
+    await createAuditLog({
+      tenantId: admin.tenantId,
+      userId: admin.id,
+      action: 'ACCOUNT_UNLOCKED',
+      resourceType: 'user',
+      resourceId: user.id,
+      beforeData: before,
+      afterData: { locked: false },
+      ...context,
+    });
+
+    return NextResponse.json({ success: true });
+  }
+);
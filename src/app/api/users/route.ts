@@ -0,0 +1,121 @@
+// Users API - List users and invite new ones
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAuditLog, forTenant } from '@/lib/database';
+import { mailLinkBaseUrl } from '@/lib/mail';
+import { excessPermissions, RolePermissions } from '@/lib/permissions';
+import { getUserStatus, inviteUser, isValidTimezone } from '@/lib/users';
+import { withAuth } from '@/lib/with-auth';
+
+const inviteUserSchema = z.object({
+  email: z.string().trim().email('Invalid email address'),
+  firstName: z.string().trim().max(100).optional(),
+  lastName: z.string().trim().max(100).optional(),
+  roleId: z.string().uuid().nullable().optional(),
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').default('UTC'),
+});
+
+// GET /api/users?search=&status=active|invited|deactivated (people only; see
+// /api/service-accounts)
+export const GET = withAuth({ resource: 'users', action: 'read' }, async (request, { user }) => {
+  const { searchParams } = new URL(request.url);
+  const search = searchParams.get('search') || '';
+  const status = searchParams.get('status') || '';
+
+  const users = await forTenant(user.tenantId).user.findMany({
+    where: {
+      isServiceAccount: false,
+      ...(search
+        ? {
+            OR: [
+              { email: { contains: search, mode: 'insensitive' } },
+              { firstName: { contains: search, mode: 'insensitive' } },
+              { lastName: { contains: search, mode: 'insensitive' } },
+            ],
+          }
+        : {}),
+    },
+    include: { role: { select: { id: true, name: true } } },
+    orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }, { email: 'asc' }],
+  });
+
+  const result = users
+    .map((candidate) => ({
+      id: candidate.id,
+      email: candidate.email,
+      firstName: candidate.firstName,
+      lastName: candidate.lastName,
+      role: candidate.role,
+      timezone: candidate.timezone,
+      status: getUserStatus(candidate),
+      lastLogin: candidate.lastLogin,
+      createdAt: candidate.createdAt,
+    }))
+    .filter((candidate) => !status || candidate.status === status);
+
+  return NextResponse.json({ users: result });
+});
+
+// POST /api/users - Invite a user by email
+export const POST = withAuth({ resource: 'users', action: 'write' }, async (request, { user: admin, context }) => {
+  const body = await request.json();
+  const data = inviteUserSchema.parse(body);
+
+  const db = forTenant(admin.tenantId);
+  if (await db.user.findFirst({ where: { email: data.email.toLowerCase() } })) {
+    return NextResponse.json({ error: 'A user with this email already exists' }, { status: 409 });
+  }
+
+  if (data.roleId) {
+    const role = await db.role.findUnique({ where: { id: data.roleId } });
+    if (!role) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 400 });
+    }
+
+    const excess = excessPermissions(admin.role?.permissions as RolePermissions, role.permissions as RolePermissions);
+    if (excess.length > 0) {
+      return NextResponse.json(
+        { error: 'Cannot assign a role with permissions you do not have', details: excess },
+        { status: 403 }
+      );
+    }
+  }
+
+  const { user, expiresAt } = await inviteUser(admin.tenantId, data, {
+    baseUrl: mailLinkBaseUrl(request.nextUrl.origin),
+    invitedById: admin.id,
+  });
+
+  await createAuditLog({
+    tenantId: admin.tenantId,
+    userId: admin.id,
+    action: 'USER_INVITED',
+    resourceType: 'user',
+    resourceId: user.id,
+    afterData: {
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      roleId: user.roleId,
+      timezone: user.timezone,
+      invitationExpiresAt: expiresAt,
+    },
+    ...context,
+  });
+
+  return NextResponse.json(
+    {
+      user: {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        roleId: user.roleId,
+        timezone: user.timezone,
+        status: getUserStatus(user),
+      },
+      invitationExpiresAt: expiresAt,
+    },
+    { status: 201 }
+  );
+});
@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+export default function AcceptInvitationPage() {
+  const [token, setToken] = useState('');
+  const [formData, setFormData] = useState({ password: '', confirm: '' });
+  const [done, setDone] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setToken(new URLSearchParams(window.location.search).get('token') || '');
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (formData.password !== formData.confirm) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/accept-invitation', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, password: formData.password }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setDone(true);
+      } else {
+        setError(Array.isArray(data.details) && typeof data.details[0] === 'string'
+          ? data.details.join('. ')
+          : data.error || 'Could not accept invitation');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-white to-blue-50">
+      <div className="w-full max-w-md p-6">
+        <Card className="shadow-lg">
+          <CardHeader className="text-center pb-6">
+            <CardTitle className="text-2xl font-bold text-gray-900">
+              Welcome Aboard
+            </CardTitle>
+            <CardDescription className="text-gray-600">
+              Choose a password to activate your account
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            {done ? (
+              <Alert className="border-green-200 bg-green-50">
+                <AlertDescription className="text-green-700">
+                  Your account is ready. You can now sign in with your new password.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {error && (
+                  <Alert className="border-red-200 bg-red-50">
+                    <AlertDescription className="text-red-700">
+                      {error}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="password" className="text-sm font-medium text-gray-700">
+                    Password
+                  </Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={formData.password}
+                    onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+                    required
+                    className="h-11"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="confirm" className="text-sm font-medium text-gray-700">
+                    Confirm Password
+                  </Label>
+                  <Input
+                    id="confirm"
+                    type="password"
+                    value={formData.confirm}
+                    onChange={(e) => setFormData(prev => ({ ...prev, confirm: e.target.value }))}
+                    required
+                    className="h-11"
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full h-11 bg-blue-600 hover:bg-blue-700"
+                  disabled={loading || !token}
+                >
+                  {loading ? 'Saving...' : 'Activate Account'}
+                </Button>
+              </form>
+            )}
+
+            <div className="mt-6 text-center">
+              <Link href="/auth/login" className="text-sm text-blue-600 hover:underline">
+                Back to sign in
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
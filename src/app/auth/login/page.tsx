@@ -1,12 +1,43 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { apiFetch } from '@/lib/api-client';
+import { safeReturnUrl, RETURN_URL_PARAM } from '@/lib/route-access';
+
+const SSO_ERRORS: Record<string, string> = {
+  sso_denied: 'Single sign-on was cancelled or denied by your identity provider.',
+  sso_failed: 'Single sign-on failed. Please try again or contact your administrator.',
+};
+
+type LoginStep = 'credentials' | 'tenant' | 'mfa' | 'enroll' | 'recovery-codes' | 'change-password';
+
+interface TenantOption {
+  id: string;
+  name: string;
+  slug: string | null;
+}
+
+interface LoginResult {
+  status?: string;
+  reason?: string;
+  challengeToken?: string;
+  tenants?: TenantOption[];
+  error?: string;
+  details?: unknown;
+}
+
+// Where to go after signing in: the page the middleware sent the user away from
+function returnDestination(): string {
+  return safeReturnUrl(new URLSearchParams(window.location.search).get(RETURN_URL_PARAM)) || '/dashboard';
+}
 
 export default function LoginPage() {
   const router = useRouter();
@@ -14,8 +45,97 @@ export default function LoginPage() {
     email: '',
     password: '',
   });
+  const [step, setStep] = useState<LoginStep>('credentials');
+  const [challengeToken, setChallengeToken] = useState('');
+  const [tenants, setTenants] = useState<TenantOption[]>([]);
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [passwordChangePending, setPasswordChangePending] = useState(false);
+  const [passwordExpired, setPasswordExpired] = useState(false);
+  const [newPassword, setNewPassword] = useState({ password: '', confirm: '' });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [ssoTenant, setSsoTenant] = useState('');
+
+  useEffect(() => {
+    // SSO callbacks return here with ?tenant= and, on failure, ?error=
+    const params = new URLSearchParams(window.location.search);
+    setSsoTenant(params.get('tenant') || '');
+    const ssoError = params.get('error');
+    if (ssoError && SSO_ERRORS[ssoError]) {
+      setError(SSO_ERRORS[ssoError]);
+    }
+
+    // Pages only see the short-lived access token; if it merely expired, the
+    // refresh cookie (scoped to /api/auth) can renew the session without a login
+    if (params.has(RETURN_URL_PARAM)) {
+      apiFetch('/api/auth/refresh', { method: 'POST' })
+        .then((response) => {
+          if (response.ok) router.replace(returnDestination());
+        })
+        .catch(() => undefined);
+    }
+  }, [router]);
+
+  const handleSso = () => {
+    if (!ssoTenant.trim()) {
+      setError('Enter your organization to sign in with SSO');
+      return;
+    }
+
+    window.location.href = `/api/auth/sso/${encodeURIComponent(ssoTenant.trim())}/login`;
+  };
+
+  const postJson = async (url: string, body: unknown) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    return { response, data: await response.json() };
+  };
+
+  const startEnrollment = async (token: string) => {
+    const { response, data } = await postJson('/api/auth/mfa/enroll', { challengeToken: token });
+    if (!response.ok) {
+      throw new Error(data.error || 'Could not start MFA enrollment');
+    }
+
+    setEnrollment(data);
+    setStep('enroll');
+  };
+
+  // Route the login response to the next step
+  const handleLoginResult = async (response: Response, data: LoginResult) => {
+    const token = data.challengeToken || '';
+
+    if (response.ok && data.status === 'tenant_selection_required') {
+      setChallengeToken(token);
+      setTenants(data.tenants || []);
+      setStep('tenant');
+    } else if (response.ok && data.status === 'mfa_required') {
+      setChallengeToken(token);
+      setStep('mfa');
+    } else if (response.ok && data.status === 'mfa_enrollment_required') {
+      setChallengeToken(token);
+      await startEnrollment(token);
+    } else if (response.ok && data.status === 'password_change_required') {
+      setChallengeToken(token);
+      setPasswordExpired(data.reason === 'expired');
+      setStep('change-password');
+    } else if (response.ok) {
+      // The session is carried by httpOnly cookies set on the response
+      router.push(returnDestination());
+    } else {
+      setError(data.error || 'Login failed');
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -23,33 +143,133 @@ export default function LoginPage() {
     setError('');
 
     try {
-      const response = await fetch('/api/auth/login', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(formData),
+      // An explicit ?tenant=slug in the URL selects the organization up front
+      const tenant = new URLSearchParams(window.location.search).get('tenant') || undefined;
+      const { response, data } = await postJson('/api/auth/login', { ...formData, tenant });
+      await handleLoginResult(response, data);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : 'Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelectTenant = async (tenantId: string) => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const { response, data } = await postJson('/api/auth/login/tenant', {
+        challengeToken,
+        tenantId,
       });
+      await handleLoginResult(response, data);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : 'Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      const data = await response.json();
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const { response, data } = await postJson(
+        '/api/auth/mfa/verify',
+        useRecoveryCode ? { challengeToken, recoveryCode } : { challengeToken, code }
+      );
 
       if (response.ok) {
-        // Store token in localStorage (in production, use httpOnly cookies)
-        localStorage.setItem('auth_token', data.token);
-        localStorage.setItem('user', JSON.stringify(data.user));
-        
-        // Redirect to dashboard
-        router.push('/dashboard');
+        await handleLoginResult(response, data);
       } else {
-        setError(data.error || 'Login failed');
+        setError(data.error || 'Verification failed');
+        setCode('');
       }
-    } catch (err) {
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEnroll = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const { response, data } = await postJson('/api/auth/mfa/enroll/verify', {
+        challengeToken,
+        code,
+      });
+
+      if (response.ok) {
+        // Show the recovery codes once before continuing to the dashboard
+        // (or to a password change the administrator requires first)
+        setRecoveryCodes(data.recoveryCodes);
+        if (data.status === 'password_change_required') {
+          setChallengeToken(data.challengeToken);
+          setPasswordExpired(data.reason === 'expired');
+          setPasswordChangePending(true);
+        }
+        setStep('recovery-codes');
+      } else {
+        setError(data.error || 'Verification failed');
+        setCode('');
+      }
+    } catch {
       setError('Network error. Please try again.');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (newPassword.password !== newPassword.confirm) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { response, data } = await postJson('/api/auth/change-password', {
+        challengeToken,
+        newPassword: newPassword.password,
+      });
+
+      if (response.ok) {
+        router.push(returnDestination());
+      } else {
+        setError(Array.isArray(data.details) && typeof data.details[0] === 'string'
+          ? data.details.join('. ')
+          : data.error || 'Could not change password');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const codeInput = (
+    <div className="flex justify-center">
+      <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+        <InputOTPGroup>
+          {[0, 1, 2, 3, 4, 5].map((index) => (
+            <InputOTPSlot key={index} index={index} />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+    </div>
+  );
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-white to-blue-50">
       <div className="w-full max-w-md p-6">
@@ -67,54 +287,284 @@ export default function LoginPage() {
           </CardHeader>
           
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              {error && (
-                <Alert className="border-red-200 bg-red-50">
-                  <AlertDescription className="text-red-700">
-                    {error}
-                  </AlertDescription>
-                </Alert>
-              )}
-              
-              <div className="space-y-2">
-                <Label htmlFor="email" className="text-sm font-medium text-gray-700">
-                  Email Address
-                </Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="enter@your-email.com"
-                  value={formData.email}
-                  onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
-                  required
-                  className="h-11"
-                />
+            {step === 'credentials' && (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {error && (
+                  <Alert className="border-red-200 bg-red-50">
+                    <AlertDescription className="text-red-700">
+                      {error}
+                    </AlertDescription>
+                  </Alert>
+                )}
+                
+                <div className="space-y-2">
+                  <Label htmlFor="email" className="text-sm font-medium text-gray-700">
+                    Email Address
+                  </Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="enter@your-email.com"
+                    value={formData.email}
+                    onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                    required
+                    className="h-11"
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="password" className="text-sm font-medium text-gray-700">
+                    Password
+                  </Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="Enter your password"
+                    value={formData.password}
+                    onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+                    required
+                    className="h-11"
+                  />
+                  <div className="text-right">
+                    <Link href="/auth/forgot-password" className="text-xs text-blue-600 hover:underline">
+                      Forgot password?
+                    </Link>
+                  </div>
+                </div>
+                
+                <Button
+                  type="submit"
+                  className="w-full h-11 bg-blue-600 hover:bg-blue-700"
+                  disabled={loading}
+                >
+                  {loading ? 'Signing in...' : 'Sign In'}
+                </Button>
+
+                <div className="relative py-2">
+                  <div className="absolute inset-0 flex items-center">
+                    <span className="w-full border-t border-gray-200" />
+                  </div>
+                  <div className="relative flex justify-center text-xs uppercase">
+                    <span className="bg-white px-2 text-gray-500">Or</span>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="sso-tenant" className="text-sm font-medium text-gray-700">
+                    Organization
+                  </Label>
+                  <Input
+                    id="sso-tenant"
+                    placeholder="your-organization"
+                    value={ssoTenant}
+                    onChange={(e) => setSsoTenant(e.target.value)}
+                    className="h-11"
+                  />
+                </div>
+
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full h-11"
+                  disabled={loading}
+                  onClick={handleSso}
+                >
+                  Sign In with SSO
+                </Button>
+              </form>
+            )}
+
+            {step === 'tenant' && (
+              <div className="space-y-4">
+                {error && (
+                  <Alert className="border-red-200 bg-red-50">
+                    <AlertDescription className="text-red-700">
+                      {error}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <p className="text-sm text-gray-600 text-center">
+                  Your account belongs to several organizations. Choose one to continue.
+                </p>
+
+                {tenants.map((tenant) => (
+                  <Button
+                    key={tenant.id}
+                    variant="outline"
+                    className="w-full h-11 justify-start"
+                    disabled={loading}
+                    onClick={() => handleSelectTenant(tenant.id)}
+                  >
+                    {tenant.name}
+                  </Button>
+                ))}
               </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="password" className="text-sm font-medium text-gray-700">
-                  Password
-                </Label>
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="Enter your password"
-                  value={formData.password}
-                  onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
-                  required
-                  className="h-11"
-                />
+            )}
+
+            {step === 'mfa' && (
+              <form onSubmit={handleVerify} className="space-y-4">
+                {error && (
+                  <Alert className="border-red-200 bg-red-50">
+                    <AlertDescription className="text-red-700">
+                      {error}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <p className="text-sm text-gray-600 text-center">
+                  {useRecoveryCode
+                    ? 'Enter one of your recovery codes'
+                    : 'Enter the 6-digit code from your authenticator app'}
+                </p>
+
+                {useRecoveryCode ? (
+                  <Input
+                    id="recoveryCode"
+                    placeholder="xxxxx-xxxxx"
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    required
+                    className="h-11"
+                  />
+                ) : (
+                  codeInput
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full h-11 bg-blue-600 hover:bg-blue-700"
+                  disabled={loading || (!useRecoveryCode && code.length !== 6)}
+                >
+                  {loading ? 'Verifying...' : 'Verify'}
+                </Button>
+
+                <Button
+                  type="button"
+                  variant="link"
+                  className="w-full"
+                  onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                >
+                  {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+                </Button>
+              </form>
+            )}
+
+            {step === 'enroll' && enrollment && (
+              <form onSubmit={handleEnroll} className="space-y-4">
+                {error && (
+                  <Alert className="border-red-200 bg-red-50">
+                    <AlertDescription className="text-red-700">
+                      {error}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <p className="text-sm text-gray-600">
+                  Your organization requires two-factor authentication. Add this key to your
+                  authenticator app, then enter the 6-digit code it shows.
+                </p>
+
+                <div className="rounded-md bg-gray-50 p-3 text-center">
+                  <code className="text-sm font-mono break-all">{enrollment.secret}</code>
+                  <div className="mt-2">
+                    <a href={enrollment.otpauthUri} className="text-xs text-blue-600 hover:underline">
+                      Open in authenticator app
+                    </a>
+                  </div>
+                </div>
+
+                {codeInput}
+
+                <Button
+                  type="submit"
+                  className="w-full h-11 bg-blue-600 hover:bg-blue-700"
+                  disabled={loading || code.length !== 6}
+                >
+                  {loading ? 'Verifying...' : 'Enable Two-Factor Authentication'}
+                </Button>
+              </form>
+            )}
+
+            {step === 'recovery-codes' && (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Save these recovery codes somewhere safe. Each code can be used once if you
+                  lose access to your authenticator app. They will not be shown again.
+                </p>
+
+                <div className="grid grid-cols-2 gap-2 rounded-md bg-gray-50 p-3">
+                  {recoveryCodes.map((recovery) => (
+                    <code key={recovery} className="text-sm font-mono text-center">
+                      {recovery}
+                    </code>
+                  ))}
+                </div>
+
+                <Button
+                  className="w-full h-11 bg-blue-600 hover:bg-blue-700"
+                  onClick={() => (passwordChangePending ? setStep('change-password') : router.push(returnDestination()))}
+                >
+                  Continue
+                </Button>
               </div>
-              
-              <Button
-                type="submit"
-                className="w-full h-11 bg-blue-600 hover:bg-blue-700"
-                disabled={loading}
-              >
-                {loading ? 'Signing in...' : 'Sign In'}
-              </Button>
-            </form>
-            
+            )}
+
+            {step === 'change-password' && (
+              <form onSubmit={handleChangePassword} className="space-y-4">
+                {error && (
+                  <Alert className="border-red-200 bg-red-50">
+                    <AlertDescription className="text-red-700">
+                      {error}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <p className="text-sm text-gray-600">
+                  {passwordExpired
+                    ? 'Your password has expired. Choose a new password to continue.'
+                    : 'Your administrator requires you to choose a new password before continuing.'}
+                </p>
+
+                <div className="space-y-2">
+                  <Label htmlFor="newPassword" className="text-sm font-medium text-gray-700">
+                    New Password
+                  </Label>
+                  <Input
+                    id="newPassword"
+                    type="password"
+                    value={newPassword.password}
+                    onChange={(e) => setNewPassword(prev => ({ ...prev, password: e.target.value }))}
+                    required
+                    autoFocus
+                    className="h-11"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword" className="text-sm font-medium text-gray-700">
+                    Confirm New Password
+                  </Label>
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    value={newPassword.confirm}
+                    onChange={(e) => setNewPassword(prev => ({ ...prev, confirm: e.target.value }))}
+                    required
+                    className="h-11"
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full h-11 bg-blue-600 hover:bg-blue-700"
+                  disabled={loading}
+                >
+                  {loading ? 'Saving...' : 'Set New Password'}
+                </Button>
+              </form>
+            )}
+
             <div className="mt-6 text-center">
               <div className="text-sm text-gray-600">
                 Demo Credentials:
@@ -0,0 +1,17 @@
+import Link from 'next/link';
+
+// Shown by the middleware, under the requested URL, when the role lacks the
+// permission a page needs
+export default function ForbiddenPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Access denied</h1>
+        <p className="text-gray-600 mb-6">Your role does not have permission to view this page.</p>
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+          Back to dashboard
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,484 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { apiFetch } from '@/lib/api-client';
+
+type Entity = 'accounts' | 'contacts' | 'leads';
+type DuplicateMode = 'skip' | 'update' | 'create';
+type Step = 'upload' | 'map' | 'review' | 'progress';
+
+interface ImportField {
+  key: string;
+  label: string;
+  type: string;
+  required: boolean;
+}
+
+interface ImportJob {
+  id: string;
+  entityType: Entity;
+  fileName: string;
+  status: string;
+  headers: string[];
+  totalRows: number;
+  processedRows: number;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  error: string | null;
+}
+
+interface ValidationReport {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  errors: { rowNumber: number; errors: string[] }[];
+  duplicates: { checkedRows: number; matchedRows: number };
+  preview: { rowNumber: number; errors: string[]; duplicateOf: { id: string; matchedOn: string[] }[] }[];
+}
+
+interface FailedRow {
+  rowNumber: number;
+  status: string;
+  error: string | null;
+}
+
+// Select value for columns left out of the import
+const SKIP_COLUMN = '__skip';
+const POLL_INTERVAL_MS = 2000;
+const ACTIVE_STATUSES = ['running', 'rolling_back'];
+
+const ENTITY_LABELS: Record<Entity, string> = { accounts: 'Accounts', contacts: 'Contacts', leads: 'Leads' };
+
+const DUPLICATE_MODES: { value: DuplicateMode; label: string }[] = [
+  { value: 'skip', label: 'Skip rows that match an existing record' },
+  { value: 'update', label: 'Update the matching record' },
+  { value: 'create', label: 'Create anyway and flag as a possible duplicate' },
+];
+
+export default function ImportPage() {
+  const router = useRouter();
+  const [step, setStep] = useState<Step>('upload');
+  const [entity, setEntity] = useState<Entity>('accounts');
+  const [file, setFile] = useState<File | null>(null);
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [fields, setFields] = useState<ImportField[]>([]);
+  const [sampleRows, setSampleRows] = useState<Record<string, string>[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string | null>>({});
+  const [duplicateMode, setDuplicateMode] = useState<DuplicateMode>('skip');
+  const [report, setReport] = useState<ValidationReport | null>(null);
+  const [failedRows, setFailedRows] = useState<FailedRow[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const request = async (input: string, init: RequestInit, failure: string) => {
+    setError('');
+    setBusy(true);
+    try {
+      const response = await apiFetch(input, init);
+      if (response.status === 401) {
+        router.push('/auth/login');
+        return null;
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        const details = Array.isArray(data.details) ? `: ${data.details.map(String).join(', ')}` : '';
+        setError(`${data.error || failure}${details}`);
+        return null;
+      }
+      return data;
+    } catch {
+      setError('Network error. Please try again.');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const refreshJob = useCallback(async (id: string) => {
+    const response = await apiFetch(`/api/imports/${id}`);
+    if (!response.ok) return;
+
+    const data = await response.json();
+    setJob(data.job);
+    setFailedRows(data.failedRows);
+  }, []);
+
+  // Progress is polled while the import or its rollback runs in the background
+  useEffect(() => {
+    if (step !== 'progress' || !job || !ACTIVE_STATUSES.includes(job.status)) return;
+
+    const timer = setTimeout(() => refreshJob(job.id).catch(() => undefined), POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [step, job, refreshJob]);
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    const form = new FormData();
+    form.append('entity', entity);
+    form.append('file', file);
+
+    const data = await request('/api/imports', { method: 'POST', body: form }, 'Could not read the file');
+    if (data) {
+      setJob(data.job);
+      setFields(data.fields);
+      setSampleRows(data.sampleRows);
+      setMapping(data.suggestedMapping);
+      setReport(null);
+      setStep('map');
+    }
+  };
+
+  const handleValidate = async () => {
+    if (!job) return;
+
+    const data = await request(
+      `/api/imports/${job.id}/validate`,
+      { method: 'POST', body: JSON.stringify({ mapping, duplicateMode }) },
+      'Could not validate the import'
+    );
+    if (data) {
+      setReport(data);
+      setStep('review');
+    }
+  };
+
+  const handleRun = async () => {
+    if (!job) return;
+
+    if (await request(`/api/imports/${job.id}/run`, { method: 'POST' }, 'Could not start the import')) {
+      setJob({ ...job, status: 'running' });
+      setStep('progress');
+    }
+  };
+
+  const handleRollback = async () => {
+    if (!job) return;
+    if (!window.confirm('Roll back this import? Records it created are removed and records it updated are reverted.')) {
+      return;
+    }
+
+    if (await request(`/api/imports/${job.id}/rollback`, { method: 'POST' }, 'Could not roll back the import')) {
+      setJob({ ...job, status: 'rolling_back' });
+    }
+  };
+
+  const handleRestart = () => {
+    setStep('upload');
+    setFile(null);
+    setJob(null);
+    setReport(null);
+    setFailedRows([]);
+    setError('');
+  };
+
+  const mappedFields = Object.values(mapping).filter(Boolean);
+  const missingRequired = fields.filter((field) => field.required && !mappedFields.includes(field.key));
+  const percent = job && job.totalRows > 0 ? Math.round((job.processedRows / job.totalRows) * 100) : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10">
+      <div className="max-w-6xl mx-auto px-6">
+        <div className="mb-6">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+            Back to dashboard
+          </Link>
+        </div>
+
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Import Records</h1>
+
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {step === 'upload' && (
+          <Card className="shadow-sm">
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold text-gray-900">Upload a file</CardTitle>
+              <CardDescription>
+                CSV or XLSX with a header row. Only the first worksheet of a workbook is read.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleUpload} className="space-y-4 max-w-md">
+                <div className="space-y-2">
+                  <Label>Import into</Label>
+                  <Select value={entity} onValueChange={(value) => setEntity(value as Entity)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ENTITY_LABELS) as Entity[]).map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {ENTITY_LABELS[value]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="file">File</Label>
+                  <Input
+                    id="file"
+                    type="file"
+                    accept=".csv,.xlsx"
+                    onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  />
+                </div>
+                <Button type="submit" disabled={!file || busy}>
+                  {busy ? 'Reading file...' : 'Upload'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === 'map' && job && (
+          <Card className="shadow-sm">
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold text-gray-900">Map columns</CardTitle>
+              <CardDescription>
+                {job.fileName}: {job.totalRows.toLocaleString()} rows. Choose the field each column fills.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Column</TableHead>
+                    <TableHead>Sample</TableHead>
+                    <TableHead>Field</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {job.headers.map((header) => (
+                    <TableRow key={header}>
+                      <TableCell className="font-medium">{header}</TableCell>
+                      <TableCell className="text-gray-500 max-w-xs truncate">
+                        {sampleRows.map((row) => row[header]).find(Boolean) || '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={mapping[header] || SKIP_COLUMN}
+                          onValueChange={(value) =>
+                            setMapping({ ...mapping, [header]: value === SKIP_COLUMN ? null : value })
+                          }
+                        >
+                          <SelectTrigger className="w-64">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={SKIP_COLUMN}>Do not import</SelectItem>
+                            {fields.map((field) => (
+                              <SelectItem
+                                key={field.key}
+                                value={field.key}
+                                disabled={mapping[header] !== field.key && mappedFields.includes(field.key)}
+                              >
+                                {field.label}
+                                {field.required ? ' *' : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="space-y-2 max-w-md">
+                <Label>Rows that match an existing record</Label>
+                <Select value={duplicateMode} onValueChange={(value) => setDuplicateMode(value as DuplicateMode)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DUPLICATE_MODES.map((mode) => (
+                      <SelectItem key={mode.value} value={mode.value}>
+                        {mode.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-amber-700">
+                  Not mapped: {missingRequired.map((field) => field.label).join(', ')}. Rows without them will fail.
+                </p>
+              )}
+
+              <div className="flex gap-2">
+                <Button onClick={handleValidate} disabled={busy || mappedFields.length === 0}>
+                  {busy ? 'Validating...' : 'Validate'}
+                </Button>
+                <Button variant="outline" onClick={handleRestart}>
+                  Start over
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === 'review' && job && report && (
+          <Card className="shadow-sm">
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold text-gray-900">Review</CardTitle>
+              <CardDescription>Dry run of {job.fileName}. Nothing has been imported yet.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {[
+                  { label: 'Rows', value: report.totalRows },
+                  { label: 'Valid', value: report.validRows },
+                  { label: 'With errors', value: report.invalidRows },
+                  {
+                    label: 'Match existing records',
+                    value: `${report.duplicates.matchedRows} of ${report.duplicates.checkedRows} checked`,
+                  },
+                ].map((metric) => (
+                  <div key={metric.label} className="rounded border bg-white p-4">
+                    <div className="text-sm text-gray-500">{metric.label}</div>
+                    <div className="text-xl font-bold text-gray-900">{metric.value.toLocaleString()}</div>
+                  </div>
+                ))}
+              </div>
+
+              {report.errors.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-24">Row</TableHead>
+                      <TableHead>Errors</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.errors.map((row) => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell className="text-red-700">{row.errors.join('; ')}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {report.preview.some((row) => row.duplicateOf.length > 0) && (
+                <div className="text-sm text-gray-700">
+                  Rows matching existing records:{' '}
+                  {report.preview
+                    .filter((row) => row.duplicateOf.length > 0)
+                    .map((row) => (
+                      <Badge key={row.rowNumber} variant="outline" className="mr-1">
+                        Row {row.rowNumber} ({row.duplicateOf[0].matchedOn.join(', ')})
+                      </Badge>
+                    ))}
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button onClick={handleRun} disabled={busy || report.validRows === 0}>
+                  Import {report.validRows.toLocaleString()} valid rows
+                </Button>
+                <Button variant="outline" onClick={() => setStep('map')}>
+                  Back to mapping
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === 'progress' && job && (
+          <Card className="shadow-sm">
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold text-gray-900">
+                {job.fileName} <Badge variant="outline">{job.status.replace('_', ' ')}</Badge>
+              </CardTitle>
+              <CardDescription>
+                {job.processedRows.toLocaleString()} of {job.totalRows.toLocaleString()} rows processed
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <Progress value={percent} />
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                {[
+                  ['Created', job.createdCount],
+                  ['Updated', job.updatedCount],
+                  ['Skipped', job.skippedCount],
+                  ['Failed', job.failedCount],
+                ].map(([label, value]) => (
+                  <div key={label} className="rounded border bg-white p-4">
+                    <div className="text-gray-500">{label}</div>
+                    <div className="text-xl font-bold text-gray-900">{value.toLocaleString()}</div>
+                  </div>
+                ))}
+              </div>
+
+              {job.error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{job.error}</AlertDescription>
+                </Alert>
+              )}
+
+              {failedRows.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-24">Row</TableHead>
+                      <TableHead>Problem</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {failedRows.map((row) => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell className="text-red-700">{row.error}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              <div className="flex gap-2">
+                {job.status === 'failed' && (
+                  <Button onClick={handleRun} disabled={busy}>
+                    Resume import
+                  </Button>
+                )}
+                {['completed', 'failed'].includes(job.status) && (
+                  <Button variant="destructive" onClick={handleRollback} disabled={busy}>
+                    Roll back import
+                  </Button>
+                )}
+                {!ACTIVE_STATUSES.includes(job.status) && (
+                  <Button variant="outline" onClick={handleRestart}>
+                    Import another file
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import type { Metadata } from 'next'
 import { Inter } from 'next/font/google'
+import { ImpersonationBanner } from '@/components/impersonation-banner'
 import './globals.css'
 
 const inter = Inter({ subsets: ['latin'] })
@@ -18,6 +19,7 @@ export default function RootLayout({
     <html lang="en">
       <body className={inter.className}>
         <div id="root" className="min-h-screen bg-background">
+          <ImpersonationBanner />
           {children}
         </div>
       </body>
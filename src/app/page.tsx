@@ -2,22 +2,20 @@
 
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { apiFetch } from '@/lib/api-client';
 
 export default function HomePage() {
   const router = useRouter();
 
   useEffect(() => {
-    // Check if user is authenticated
-    const token = localStorage.getItem('auth_token');
-    const userData = localStorage.getItem('user');
-    
-    if (token && userData) {
-      // User is authenticated, redirect to dashboard
-      router.push('/dashboard');
-    } else {
-      // User is not authenticated, redirect to login
-      router.push('/auth/login');
-    }
+    // Check if user is authenticated (session cookies are sent automatically)
+    apiFetch('/api/auth/me')
+      .then((response) => response.ok)
+      .catch(() => false)
+      .then((authenticated) => {
+        // Redirect to dashboard or login depending on the session
+        router.push(authenticated ? '/dashboard' : '/auth/login');
+      });
   }, [router]);
 
   // Show loading while redirecting
@@ -0,0 +1,462 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { apiFetch } from '@/lib/api-client';
+import { grants, PERMISSION_ACTIONS, PERMISSION_RESOURCES, RolePermissions } from '@/lib/permissions';
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: RolePermissions;
+  allowedIps: string[];
+  expiresAt: string;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+}
+
+interface ServiceAccountRow {
+  id: string;
+  name: string;
+  role: { id: string; name: string } | null;
+  status: string;
+  activeKeys: number;
+}
+
+interface RoleOption {
+  id: string;
+  name: string;
+}
+
+interface KeyDraft {
+  name: string;
+  expiresInDays: string;
+  allowedIps: string;
+  scopes: RolePermissions;
+}
+
+// Select value for the signed-in user's own keys
+const OWN_KEYS = 'me';
+const NO_ROLE = 'none';
+
+const EMPTY_KEY: KeyDraft = { name: '', expiresInDays: '90', allowedIps: '', scopes: {} };
+
+function keyStatus(key: ApiKeyRow): { label: string; className: string } {
+  if (key.revokedAt) return { label: 'revoked', className: 'bg-gray-100 text-gray-600' };
+  if (new Date(key.expiresAt) < new Date()) return { label: 'expired', className: 'bg-yellow-100 text-yellow-800' };
+  return { label: 'active', className: 'bg-green-100 text-green-800' };
+}
+
+function scopeSummary(scopes: RolePermissions): string {
+  return Object.entries(scopes)
+    .map(([resource, actions]) => `${resource}: ${actions.join(', ')}`)
+    .join('; ');
+}
+
+function errorMessage(data: { error?: string; details?: unknown }, fallback: string): string {
+  if (Array.isArray(data.details)) {
+    const details = data.details.map((detail) =>
+      typeof detail === 'string' ? detail : (detail as { message?: string }).message
+    );
+    return `${data.error || fallback}: ${details.filter(Boolean).join(', ')}`;
+  }
+  return data.error || fallback;
+}
+
+export default function ApiKeysPage() {
+  const router = useRouter();
+  const [permissions, setPermissions] = useState<RolePermissions>({});
+  const [owner, setOwner] = useState(OWN_KEYS);
+  const [apiKeys, setApiKeys] = useState<ApiKeyRow[]>([]);
+  const [serviceAccounts, setServiceAccounts] = useState<ServiceAccountRow[]>([]);
+  const [roles, setRoles] = useState<RoleOption[]>([]);
+  const [draft, setDraft] = useState<KeyDraft>(EMPTY_KEY);
+  const [accountName, setAccountName] = useState('');
+  const [accountRoleId, setAccountRoleId] = useState<string | null>(null);
+  const [createdKey, setCreatedKey] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const canManageServiceAccounts = grants(permissions, 'users', 'write');
+  const keysUrl = owner === OWN_KEYS ? '/api/api-keys' : `/api/service-accounts/${owner}/api-keys`;
+
+  const loadKeys = useCallback(async () => {
+    const response = await apiFetch(keysUrl);
+    if (response.status === 401) {
+      router.push('/auth/login');
+      return;
+    }
+
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || 'Could not load API keys');
+      return;
+    }
+
+    setApiKeys(data.apiKeys);
+  }, [keysUrl, router]);
+
+  const loadServiceAccounts = useCallback(async () => {
+    const response = await apiFetch('/api/service-accounts');
+    if (response.ok) {
+      setServiceAccounts((await response.json()).serviceAccounts);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadKeys().catch(() => setError('Network error. Please try again.'));
+  }, [loadKeys]);
+
+  useEffect(() => {
+    apiFetch('/api/auth/me')
+      .then(async (response) => {
+        if (!response.ok) return;
+        const data = await response.json();
+        const granted = (data.user.permissions || {}) as RolePermissions;
+        setPermissions(granted);
+
+        if (grants(granted, 'users', 'read')) {
+          await loadServiceAccounts();
+        }
+      })
+      .catch(() => undefined);
+
+    apiFetch('/api/roles')
+      .then(async (response) => (response.ok ? setRoles((await response.json()).roles) : undefined))
+      .catch(() => undefined);
+  }, [loadServiceAccounts]);
+
+  const submit = async (url: string, method: string, body: unknown, fallback: string) => {
+    setSaving(true);
+    setError('');
+    setNotice('');
+
+    try {
+      const response = await apiFetch(url, { method, body: JSON.stringify(body) });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(errorMessage(data, fallback));
+        return null;
+      }
+
+      return data;
+    } catch {
+      setError('Network error. Please try again.');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleScope = (resource: string, action: string, checked: boolean) => {
+    const current = draft.scopes[resource] || [];
+    const actions = checked ? [...current, action] : current.filter((granted) => granted !== action);
+    const scopes = { ...draft.scopes, [resource]: actions };
+    if (actions.length === 0) delete scopes[resource];
+    setDraft({ ...draft, scopes });
+  };
+
+  const handleCreateKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreatedKey('');
+
+    const data = await submit(
+      keysUrl,
+      'POST',
+      {
+        name: draft.name,
+        scopes: draft.scopes,
+        expiresInDays: parseInt(draft.expiresInDays) || 90,
+        allowedIps: draft.allowedIps
+          .split(/[\s,]+/)
+          .map((ip) => ip.trim())
+          .filter(Boolean),
+      },
+      'Could not create API key'
+    );
+
+    if (data) {
+      setCreatedKey(data.key);
+      setDraft(EMPTY_KEY);
+      await loadKeys();
+      await loadServiceAccounts();
+    }
+  };
+
+  const handleRevoke = async (key: ApiKeyRow) => {
+    if (!window.confirm(`Revoke "${key.name}"? Integrations using it stop working immediately.`)) return;
+
+    if (await submit(`/api/api-keys/${key.id}`, 'DELETE', {}, 'Could not revoke API key')) {
+      setNotice(`"${key.name}" revoked.`);
+      await loadKeys();
+      await loadServiceAccounts();
+    }
+  };
+
+  const handleCreateServiceAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data = await submit(
+      '/api/service-accounts',
+      'POST',
+      { name: accountName, roleId: accountRoleId },
+      'Could not create service account'
+    );
+
+    if (data) {
+      setNotice(`Service account "${data.serviceAccount.name}" created.`);
+      setAccountName('');
+      setAccountRoleId(null);
+      await loadServiceAccounts();
+      setOwner(data.serviceAccount.id);
+    }
+  };
+
+  // Personal keys can only carry what the user holds; service account scopes
+  // are checked against the account's role by the server
+  const offeredScopes = PERMISSION_RESOURCES.map((resource) => ({
+    resource,
+    actions: PERMISSION_ACTIONS.filter((action) => owner !== OWN_KEYS || grants(permissions, resource, action)),
+  })).filter(({ actions }) => actions.length > 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10">
+      <div className="max-w-6xl mx-auto px-6">
+        <div className="mb-6">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+            Back to dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {notice && (
+          <Alert className="mb-4">
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
+        {createdKey && (
+          <Alert className="mb-4">
+            <AlertDescription>
+              <div className="font-medium">Copy this key now. It will not be shown again.</div>
+              <code className="block mt-2 break-all rounded bg-gray-100 p-2 text-sm">{createdKey}</code>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="shadow-sm lg:col-span-2">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="text-lg font-semibold text-gray-900">API Keys</CardTitle>
+              {serviceAccounts.length > 0 && (
+                <Select value={owner} onValueChange={(value) => { setOwner(value); setCreatedKey(''); }}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={OWN_KEYS}>My keys</SelectItem>
+                    {serviceAccounts
+                      .filter((account) => account.status === 'active')
+                      .map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name} (service account)
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Scopes</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Last used</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {apiKeys.map((key) => {
+                    const status = keyStatus(key);
+                    return (
+                      <TableRow key={key.id}>
+                        <TableCell>
+                          <div className="font-medium text-gray-900">{key.name}</div>
+                          <div className="text-xs text-gray-500">
+                            {key.prefix}... expires {new Date(key.expiresAt).toLocaleDateString()}
+                          </div>
+                          {key.allowedIps.length > 0 && (
+                            <div className="text-xs text-gray-500">IPs: {key.allowedIps.join(', ')}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs text-gray-600">{scopeSummary(key.scopes)}</TableCell>
+                        <TableCell>
+                          <Badge className={status.className}>{status.label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">
+                          {key.lastUsedAt ? new Date(key.lastUsedAt).toLocaleString() : 'Never'}
+                          {key.lastUsedIp && <div className="text-xs text-gray-500">{key.lastUsedIp}</div>}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {!key.revokedAt && (
+                            <Button variant="outline" size="sm" disabled={saving} onClick={() => handleRevoke(key)}>
+                              Revoke
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {apiKeys.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-sm text-gray-500">
+                        No API keys yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card className="shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-lg font-semibold text-gray-900">New API Key</CardTitle>
+                <CardDescription>
+                  Send it as <code>Authorization: Bearer crm_...</code>. The key can do no more than its scopes and
+                  its owner&apos;s role allow.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleCreateKey} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="key-name">Name</Label>
+                    <Input
+                      id="key-name"
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      required
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="key-expiry">Expires after (days)</Label>
+                    <Input
+                      id="key-expiry"
+                      type="number"
+                      min={1}
+                      max={365}
+                      value={draft.expiresInDays}
+                      onChange={(e) => setDraft({ ...draft, expiresInDays: e.target.value })}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="key-ips">Allowed IP addresses</Label>
+                    <Textarea
+                      id="key-ips"
+                      placeholder="Any address. One address or CIDR range per line, e.g. 203.0.113.0/24"
+                      value={draft.allowedIps}
+                      onChange={(e) => setDraft({ ...draft, allowedIps: e.target.value })}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Scopes</Label>
+                    {offeredScopes.map(({ resource, actions }) => (
+                      <div key={resource} className="flex flex-wrap items-center gap-3 text-sm">
+                        <span className="w-28 capitalize text-gray-700">{resource}</span>
+                        {actions.map((action) => (
+                          <label key={action} className="flex items-center gap-1">
+                            <Checkbox
+                              checked={(draft.scopes[resource] || []).includes(action)}
+                              onCheckedChange={(checked) => toggleScope(resource, action, checked === true)}
+                            />
+                            {action}
+                          </label>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+
+                  <Button type="submit" disabled={saving || Object.keys(draft.scopes).length === 0}>
+                    Create key
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            {canManageServiceAccounts && (
+              <Card className="shadow-sm">
+                <CardHeader>
+                  <CardTitle className="text-lg font-semibold text-gray-900">New Service Account</CardTitle>
+                  <CardDescription>
+                    A user for integrations. It cannot sign in and only authenticates with API keys.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleCreateServiceAccount} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="account-name">Name</Label>
+                      <Input
+                        id="account-name"
+                        value={accountName}
+                        onChange={(e) => setAccountName(e.target.value)}
+                        required
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Role</Label>
+                      <Select
+                        value={accountRoleId ?? NO_ROLE}
+                        onValueChange={(value) => setAccountRoleId(value === NO_ROLE ? null : value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_ROLE}>No role</SelectItem>
+                          {roles.map((role) => (
+                            <SelectItem key={role.id} value={role.id}>
+                              {role.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <Button type="submit" variant="outline" disabled={saving}>
+                      Create service account
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { apiFetch } from '@/lib/api-client';
+
+interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumbers: boolean;
+  requireSpecialChars: boolean;
+  historyDepth: number;
+  maxAgeDays: number;
+  checkBreached: boolean;
+}
+
+const RULES: { key: keyof PasswordPolicy; label: string }[] = [
+  { key: 'requireUppercase', label: 'Require an uppercase letter' },
+  { key: 'requireLowercase', label: 'Require a lowercase letter' },
+  { key: 'requireNumbers', label: 'Require a number' },
+  { key: 'requireSpecialChars', label: 'Require a special character' },
+  { key: 'checkBreached', label: 'Reject passwords found in breach lists' },
+];
+
+export default function PasswordPolicyPage() {
+  const router = useRouter();
+  const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    apiFetch('/api/settings/password-policy')
+      .then(async (response) => {
+        if (response.status === 401) {
+          router.push('/auth/login');
+          return;
+        }
+
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.error || 'Could not load the password policy');
+          return;
+        }
+
+        setPolicy(data.policy);
+      })
+      .catch(() => setError('Network error. Please try again.'));
+  }, [router]);
+
+  const update = <K extends keyof PasswordPolicy>(key: K, value: PasswordPolicy[K]) => {
+    setPolicy(prev => (prev ? { ...prev, [key]: value } : prev));
+    setSaved(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    try {
+      const response = await apiFetch('/api/settings/password-policy', {
+        method: 'PUT',
+        body: JSON.stringify(policy),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setPolicy(data.policy);
+        setSaved(true);
+      } else {
+        setError(
+          Array.isArray(data.details)
+            ? data.details.map((detail: { path: string[]; message: string }) => `${detail.path.join('.')}: ${detail.message}`).join('. ')
+            : data.error || 'Could not save the password policy'
+        );
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10">
+      <div className="max-w-2xl mx-auto px-6">
+        <div className="mb-6">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+            Back to dashboard
+          </Link>
+        </div>
+
+        <Card className="shadow-sm">
+          <CardHeader>
+            <CardTitle className="text-xl font-semibold text-gray-900">Password Policy</CardTitle>
+            <CardDescription className="text-gray-600">
+              Applies whenever a password is set in this organization. Existing passwords are checked
+              for expiry at their next sign-in.
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            {error && (
+              <Alert className="mb-4 border-red-200 bg-red-50">
+                <AlertDescription className="text-red-700">{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {saved && (
+              <Alert className="mb-4 border-green-200 bg-green-50">
+                <AlertDescription className="text-green-700">Password policy saved.</AlertDescription>
+              </Alert>
+            )}
+
+            {policy ? (
+              <form onSubmit={handleSave} className="space-y-6">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="minLength">Minimum length</Label>
+                    <Input
+                      id="minLength"
+                      type="number"
+                      min={8}
+                      max={128}
+                      value={policy.minLength}
+                      onChange={(e) => update('minLength', parseInt(e.target.value) || 0)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="historyDepth">Remembered passwords</Label>
+                    <Input
+                      id="historyDepth"
+                      type="number"
+                      min={0}
+                      max={24}
+                      value={policy.historyDepth}
+                      onChange={(e) => update('historyDepth', parseInt(e.target.value) || 0)}
+                    />
+                    <p className="text-xs text-gray-500">0 allows reuse</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="maxAgeDays">Maximum age (days)</Label>
+                    <Input
+                      id="maxAgeDays"
+                      type="number"
+                      min={0}
+                      max={365}
+                      value={policy.maxAgeDays}
+                      onChange={(e) => update('maxAgeDays', parseInt(e.target.value) || 0)}
+                    />
+                    <p className="text-xs text-gray-500">0 never expires</p>
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  {RULES.map(({ key, label }) => (
+                    <div key={key} className="flex items-center justify-between">
+                      <Label htmlFor={key} className="text-sm text-gray-700">{label}</Label>
+                      <Switch
+                        id={key}
+                        checked={policy[key] as boolean}
+                        onCheckedChange={(checked) => update(key, checked)}
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={saving}>
+                  {saving ? 'Saving...' : 'Save Policy'}
+                </Button>
+              </form>
+            ) : (
+              !error && <p className="text-sm text-gray-500">Loading...</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
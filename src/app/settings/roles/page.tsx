@@ -0,0 +1,411 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { apiFetch } from '@/lib/api-client';
+import {
+  grants,
+  parseFieldRuleKey,
+  FieldAccess,
+  PERMISSION_ACTIONS,
+  PERMISSION_RESOURCES,
+  RolePermissions,
+} from '@/lib/permissions';
+
+interface Role {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: RolePermissions;
+  parentRoleId: string | null;
+  isSystemRole: boolean;
+  userCount: number;
+}
+
+interface RoleDraft {
+  id: string | null;
+  name: string;
+  description: string;
+  permissions: RolePermissions;
+  parentRoleId: string | null;
+}
+
+interface SecurableField {
+  name: string;
+  label: string;
+}
+
+const FIELD_ACCESS_OPTIONS: { value: FieldAccess; label: string }[] = [
+  { value: 'write', label: 'Editable' },
+  { value: 'read', label: 'Read-only' },
+  { value: 'hidden', label: 'Hidden' },
+];
+
+const EMPTY_DRAFT: RoleDraft = { id: null, name: '', description: '', permissions: {}, parentRoleId: null };
+
+// Radix Select items cannot have an empty value
+const NO_PARENT = 'none';
+
+// Expand wildcards into explicit grants so the matrix can edit them cell by
+// cell; field rules are kept as they are
+function expandPermissions(permissions: RolePermissions): RolePermissions {
+  const expanded: RolePermissions = {};
+  for (const resource of PERMISSION_RESOURCES) {
+    const actions = PERMISSION_ACTIONS.filter((action) => grants(permissions, resource, action));
+    if (actions.length > 0) expanded[resource] = actions;
+  }
+  for (const [key, actions] of Object.entries(permissions)) {
+    if (parseFieldRuleKey(key)) expanded[key] = actions;
+  }
+  return expanded;
+}
+
+// The rule stored for one field; fields without a rule are editable
+function fieldRule(permissions: RolePermissions, resource: string, field: string): FieldAccess {
+  const rule = permissions[`${resource}.${field}`];
+  if (!rule) return 'write';
+  return rule.includes('write') ? 'write' : rule.includes('read') ? 'read' : 'hidden';
+}
+
+function errorMessage(data: { error?: string; details?: unknown }, fallback: string): string {
+  if (Array.isArray(data.details)) {
+    const details = data.details.map((detail) =>
+      typeof detail === 'string' ? detail : (detail as { message?: string }).message
+    );
+    return `${data.error || fallback}: ${details.filter(Boolean).join(', ')}`;
+  }
+  return data.error || fallback;
+}
+
+export default function RolesPage() {
+  const router = useRouter();
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [fields, setFields] = useState<Record<string, SecurableField[]>>({});
+  const [selected, setSelected] = useState<Role | null>(null);
+  const [draft, setDraft] = useState<RoleDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const loadRoles = useCallback(async (selectId?: string | null) => {
+    const response = await apiFetch('/api/roles');
+    if (response.status === 401) {
+      router.push('/auth/login');
+      return;
+    }
+
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || 'Could not load roles');
+      return;
+    }
+
+    setRoles(data.roles);
+    setFields(data.fields || {});
+    const role = data.roles.find((candidate: Role) => candidate.id === selectId);
+    if (role) selectRole(role);
+  }, [router]);
+
+  useEffect(() => {
+    loadRoles().catch(() => setError('Network error. Please try again.'));
+  }, [loadRoles]);
+
+  const selectRole = (role: Role) => {
+    setSelected(role);
+    setDraft({
+      id: role.id,
+      name: role.name,
+      description: role.description || '',
+      permissions: expandPermissions(role.permissions),
+      parentRoleId: role.parentRoleId,
+    });
+    setError('');
+    setNotice('');
+  };
+
+  const startNewRole = (from?: Role) => {
+    setSelected(null);
+    setDraft({
+      id: null,
+      name: from ? `${from.name} (copy)` : '',
+      description: from?.description || '',
+      permissions: from ? expandPermissions(from.permissions) : {},
+      parentRoleId: from?.parentRoleId ?? null,
+    });
+    setError('');
+    setNotice('');
+  };
+
+  const toggle = (resource: string, action: string, checked: boolean) => {
+    setDraft(prev => {
+      const current = prev.permissions[resource] || [];
+      const actions = checked ? [...current, action] : current.filter((candidate) => candidate !== action);
+      return { ...prev, permissions: { ...prev.permissions, [resource]: actions } };
+    });
+  };
+
+  const setFieldRule = (resource: string, field: string, access: FieldAccess) => {
+    setDraft(prev => {
+      const permissions = { ...prev.permissions };
+      const key = `${resource}.${field}`;
+      if (access === 'write') delete permissions[key];
+      else permissions[key] = access === 'read' ? ['read'] : [];
+      return { ...prev, permissions };
+    });
+  };
+
+  const readOnly = !!selected?.isSystemRole;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    setNotice('');
+
+    try {
+      const response = await apiFetch(draft.id ? `/api/roles/${draft.id}` : '/api/roles', {
+        method: draft.id ? 'PATCH' : 'POST',
+        body: JSON.stringify({
+          name: draft.name,
+          description: draft.description || null,
+          permissions: draft.permissions,
+          parentRoleId: draft.parentRoleId,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setNotice(draft.id ? 'Role saved.' : 'Role created.');
+        await loadRoles(data.role.id);
+      } else {
+        setError(errorMessage(data, 'Could not save role'));
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`Delete the role "${selected.name}"?`)) return;
+
+    setError('');
+    const response = await apiFetch(`/api/roles/${selected.id}`, { method: 'DELETE' });
+    const data = await response.json();
+
+    if (response.ok) {
+      startNewRole();
+      setNotice('Role deleted.');
+      await loadRoles();
+    } else {
+      setError(errorMessage(data, 'Could not delete role'));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10">
+      <div className="max-w-6xl mx-auto px-6">
+        <div className="mb-6">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+            Back to dashboard
+          </Link>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Card className="shadow-sm lg:col-span-1">
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold text-gray-900">Roles</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {roles.map((role) => (
+                <button
+                  key={role.id}
+                  type="button"
+                  onClick={() => selectRole(role)}
+                  className={`w-full text-left rounded-md px-3 py-2 text-sm ${
+                    selected?.id === role.id ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{role.name}</span>
+                    {role.isSystemRole && <Badge variant="secondary">System</Badge>}
+                  </div>
+                  <div className="text-xs text-gray-500">{role.userCount} user(s)</div>
+                </button>
+              ))}
+              <Button variant="outline" className="w-full mt-2" onClick={() => startNewRole()}>
+                New Role
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-sm lg:col-span-3">
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold text-gray-900">
+                {draft.id ? draft.name : 'New Role'}
+              </CardTitle>
+              <CardDescription className="text-gray-600">
+                {readOnly
+                  ? 'System roles cannot be changed. Duplicate this role to customise it.'
+                  : 'Choose what members of this role can do with each kind of record.'}
+              </CardDescription>
+            </CardHeader>
+
+            <CardContent>
+              {error && (
+                <Alert className="mb-4 border-red-200 bg-red-50">
+                  <AlertDescription className="text-red-700">{error}</AlertDescription>
+                </Alert>
+              )}
+
+              {notice && (
+                <Alert className="mb-4 border-green-200 bg-green-50">
+                  <AlertDescription className="text-green-700">{notice}</AlertDescription>
+                </Alert>
+              )}
+
+              <form onSubmit={handleSave} className="space-y-6">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Name</Label>
+                    <Input
+                      id="name"
+                      value={draft.name}
+                      onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                      disabled={readOnly}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="description">Description</Label>
+                    <Input
+                      id="description"
+                      value={draft.description}
+                      onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                      disabled={readOnly}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="parentRole">Reports to</Label>
+                    <Select
+                      value={draft.parentRoleId || NO_PARENT}
+                      onValueChange={(value) =>
+                        setDraft(prev => ({ ...prev, parentRoleId: value === NO_PARENT ? null : value }))
+                      }
+                      disabled={readOnly}
+                    >
+                      <SelectTrigger id="parentRole">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_PARENT}>No manager role</SelectItem>
+                        {roles
+                          .filter((role) => role.id !== draft.id)
+                          .map((role) => (
+                            <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Resource</TableHead>
+                      {PERMISSION_ACTIONS.map((action) => (
+                        <TableHead key={action} className="text-center capitalize">{action}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {PERMISSION_RESOURCES.map((resource) => (
+                      <TableRow key={resource}>
+                        <TableCell className="capitalize font-medium">{resource}</TableCell>
+                        {PERMISSION_ACTIONS.map((action) => (
+                          <TableCell key={action} className="text-center">
+                            <Checkbox
+                              aria-label={`${resource} ${action}`}
+                              checked={(draft.permissions[resource] || []).includes(action)}
+                              onCheckedChange={(checked) => toggle(resource, action, checked === true)}
+                              disabled={readOnly}
+                            />
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <div className="space-y-4">
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-900">Field access</h3>
+                    <p className="text-sm text-gray-500">
+                      Hidden fields are removed from records; read-only fields cannot be set or changed.
+                    </p>
+                  </div>
+                  {Object.entries(fields).map(([resource, resourceFields]) => (
+                    <div key={resource} className="space-y-2">
+                      <div className="text-sm font-medium capitalize text-gray-700">{resource}</div>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                        {resourceFields.map((field) => (
+                          <div key={field.name} className="flex items-center justify-between gap-2">
+                            <Label htmlFor={`${resource}.${field.name}`} className="text-sm text-gray-600">
+                              {field.label}
+                            </Label>
+                            <Select
+                              value={fieldRule(draft.permissions, resource, field.name)}
+                              onValueChange={(value) => setFieldRule(resource, field.name, value as FieldAccess)}
+                              disabled={readOnly}
+                            >
+                              <SelectTrigger id={`${resource}.${field.name}`} className="w-32">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {FIELD_ACCESS_OPTIONS.map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex items-center space-x-3">
+                  {readOnly ? (
+                    <Button type="button" variant="outline" onClick={() => selected && startNewRole(selected)}>
+                      Duplicate Role
+                    </Button>
+                  ) : (
+                    <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={saving}>
+                      {saving ? 'Saving...' : draft.id ? 'Save Changes' : 'Create Role'}
+                    </Button>
+                  )}
+                  {selected && !readOnly && (
+                    <Button type="button" variant="outline" className="text-red-600" onClick={handleDelete}>
+                      Delete Role
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,431 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { apiFetch } from '@/lib/api-client';
+import { isSuperAdmin } from '@/lib/permissions';
+
+type UserStatus = 'active' | 'invited' | 'deactivated';
+
+interface UserRow {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  role: { id: string; name: string } | null;
+  timezone: string;
+  status: UserStatus;
+  lastLogin: string | null;
+}
+
+interface RoleOption {
+  id: string;
+  name: string;
+}
+
+interface UserDraft {
+  email: string;
+  firstName: string;
+  lastName: string;
+  roleId: string | null;
+  timezone: string;
+}
+
+// Radix Select items cannot have an empty value
+const NO_ROLE = 'none';
+
+const STATUS_STYLES: Record<UserStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  invited: 'bg-yellow-100 text-yellow-800',
+  deactivated: 'bg-gray-100 text-gray-600',
+};
+
+const EMPTY_INVITE: UserDraft = { email: '', firstName: '', lastName: '', roleId: null, timezone: 'UTC' };
+
+function displayName(user: { firstName: string | null; lastName: string | null; email: string }): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email;
+}
+
+function errorMessage(data: { error?: string; details?: unknown }, fallback: string): string {
+  if (Array.isArray(data.details)) {
+    const details = data.details.map((detail) =>
+      typeof detail === 'string' ? detail : (detail as { message?: string }).message
+    );
+    return `${data.error || fallback}: ${details.filter(Boolean).join(', ')}`;
+  }
+  return data.error || fallback;
+}
+
+export default function UsersPage() {
+  const router = useRouter();
+  const [users, setUsers] = useState<UserRow[]>([]);
+  const [roles, setRoles] = useState<RoleOption[]>([]);
+  const [currentUser, setCurrentUser] = useState<{ id: string; canImpersonate: boolean } | null>(null);
+  const [selected, setSelected] = useState<UserRow | null>(null);
+  const [draft, setDraft] = useState<UserDraft>(EMPTY_INVITE);
+  const [reassignToId, setReassignToId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const loadUsers = useCallback(async () => {
+    const response = await apiFetch('/api/users');
+    if (response.status === 401) {
+      router.push('/auth/login');
+      return;
+    }
+
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || 'Could not load users');
+      return;
+    }
+
+    setUsers(data.users);
+  }, [router]);
+
+  useEffect(() => {
+    loadUsers().catch(() => setError('Network error. Please try again.'));
+
+    apiFetch('/api/auth/me')
+      .then(async (response) => {
+        if (!response.ok) return;
+        const data = await response.json();
+        setCurrentUser({
+          id: data.user.id,
+          canImpersonate: isSuperAdmin(data.user.permissions) && !data.impersonator,
+        });
+      })
+      .catch(() => undefined);
+
+    // Role names need settings access; without it roles are left unchanged
+    apiFetch('/api/roles')
+      .then(async (response) => (response.ok ? setRoles((await response.json()).roles) : undefined))
+      .catch(() => undefined);
+  }, [loadUsers]);
+
+  const selectUser = (user: UserRow | null) => {
+    setSelected(user);
+    setDraft(
+      user
+        ? {
+            email: user.email,
+            firstName: user.firstName || '',
+            lastName: user.lastName || '',
+            roleId: user.role?.id ?? null,
+            timezone: user.timezone,
+          }
+        : EMPTY_INVITE
+    );
+    setReassignToId('');
+    setError('');
+    setNotice('');
+  };
+
+  const submit = async (url: string, method: string, body: unknown, success: string, fallback: string) => {
+    setSaving(true);
+    setError('');
+    setNotice('');
+
+    try {
+      const response = await apiFetch(url, { method, body: JSON.stringify(body) });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(errorMessage(data, fallback));
+        return null;
+      }
+
+      setNotice(success);
+      await loadUsers();
+      return data;
+    } catch {
+      setError('Network error. Please try again.');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selected) {
+      const data = await submit(
+        '/api/users',
+        'POST',
+        {
+          email: draft.email,
+          firstName: draft.firstName || undefined,
+          lastName: draft.lastName || undefined,
+          roleId: draft.roleId,
+          timezone: draft.timezone,
+        },
+        `Invitation sent to ${draft.email}.`,
+        'Could not invite user'
+      );
+      if (data) setDraft(EMPTY_INVITE);
+      return;
+    }
+
+    await submit(
+      `/api/users/${selected.id}`,
+      'PATCH',
+      {
+        firstName: draft.firstName || null,
+        lastName: draft.lastName || null,
+        timezone: draft.timezone,
+        ...(roles.length > 0 ? { roleId: draft.roleId } : {}),
+      },
+      'User saved.',
+      'Could not save user'
+    );
+  };
+
+  const handleResend = async () => {
+    if (!selected) return;
+    await submit(`/api/users/${selected.id}/invitation`, 'POST', {}, 'Invitation resent.', 'Could not resend invitation');
+  };
+
+  const handleDeactivate = async () => {
+    if (!selected || !reassignToId) return;
+
+    const recipient = users.find((user) => user.id === reassignToId);
+    if (!recipient || !window.confirm(
+      `Deactivate ${displayName(selected)} and reassign their records and open tasks to ${displayName(recipient)}?`
+    )) {
+      return;
+    }
+
+    const data = await submit(
+      `/api/users/${selected.id}/deactivate`,
+      'POST',
+      { reassignToId },
+      'User deactivated.',
+      'Could not deactivate user'
+    );
+    if (data) {
+      const moved = Object.values(data.reassigned as Record<string, number>).reduce((sum, count) => sum + count, 0);
+      selectUser(null);
+      setNotice(`User deactivated. ${moved} record(s) and task(s) reassigned.`);
+    }
+  };
+
+  const handleImpersonate = async () => {
+    if (!selected || !window.confirm(`Sign in as ${displayName(selected)}? This is recorded in the audit log.`)) return;
+
+    const data = await submit(
+      '/api/auth/impersonate',
+      'POST',
+      { userId: selected.id },
+      `Signed in as ${displayName(selected)}.`,
+      'Could not impersonate user'
+    );
+    if (data) window.location.href = '/dashboard';
+  };
+
+  const recipients = users.filter((user) => user.status === 'active' && user.id !== selected?.id);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10">
+      <div className="max-w-6xl mx-auto px-6">
+        <div className="mb-6">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+            Back to dashboard
+          </Link>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="shadow-sm lg:col-span-2">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="text-lg font-semibold text-gray-900">Users</CardTitle>
+              <Button variant="outline" onClick={() => selectUser(null)}>
+                Invite User
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Last login</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map((user) => (
+                    <TableRow
+                      key={user.id}
+                      onClick={() => selectUser(user)}
+                      className={`cursor-pointer ${selected?.id === user.id ? 'bg-blue-50' : ''}`}
+                    >
+                      <TableCell>
+                        <div className="font-medium text-gray-900">{displayName(user)}</div>
+                        <div className="text-xs text-gray-500">{user.email}</div>
+                      </TableCell>
+                      <TableCell>{user.role?.name || '-'}</TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_STYLES[user.status]}>{user.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-500">
+                        {user.lastLogin ? new Date(user.lastLogin).toLocaleString() : 'Never'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-sm">
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold text-gray-900">
+                {selected ? displayName(selected) : 'Invite User'}
+              </CardTitle>
+              <CardDescription className="text-gray-600">
+                {selected
+                  ? selected.email
+                  : 'The user receives an email link to choose a password. The link expires after a few days.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {error && (
+                <Alert className="border-red-200 bg-red-50">
+                  <AlertDescription className="text-red-700">{error}</AlertDescription>
+                </Alert>
+              )}
+
+              {notice && (
+                <Alert className="border-green-200 bg-green-50">
+                  <AlertDescription className="text-green-700">{notice}</AlertDescription>
+                </Alert>
+              )}
+
+              <form onSubmit={handleSave} className="space-y-4">
+                {!selected && (
+                  <div className="space-y-2">
+                    <Label htmlFor="email">Email</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      value={draft.email}
+                      onChange={(e) => setDraft(prev => ({ ...prev, email: e.target.value }))}
+                      required
+                    />
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="firstName">First name</Label>
+                    <Input
+                      id="firstName"
+                      value={draft.firstName}
+                      onChange={(e) => setDraft(prev => ({ ...prev, firstName: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="lastName">Last name</Label>
+                    <Input
+                      id="lastName"
+                      value={draft.lastName}
+                      onChange={(e) => setDraft(prev => ({ ...prev, lastName: e.target.value }))}
+                    />
+                  </div>
+                </div>
+                {roles.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="role">Role</Label>
+                    <Select
+                      value={draft.roleId || NO_ROLE}
+                      onValueChange={(value) => setDraft(prev => ({ ...prev, roleId: value === NO_ROLE ? null : value }))}
+                    >
+                      <SelectTrigger id="role">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_ROLE}>No role</SelectItem>
+                        {roles.map((role) => (
+                          <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="timezone">Timezone</Label>
+                  <Input
+                    id="timezone"
+                    value={draft.timezone}
+                    onChange={(e) => setDraft(prev => ({ ...prev, timezone: e.target.value }))}
+                    placeholder="Europe/Berlin"
+                    required
+                  />
+                </div>
+                <div className="flex items-center space-x-3">
+                  <Button
+                    type="submit"
+                    className="bg-blue-600 hover:bg-blue-700"
+                    disabled={saving || selected?.status === 'deactivated'}
+                  >
+                    {saving ? 'Saving...' : selected ? 'Save Changes' : 'Send Invitation'}
+                  </Button>
+                  {selected?.status === 'invited' && (
+                    <Button type="button" variant="outline" onClick={handleResend} disabled={saving}>
+                      Resend Invitation
+                    </Button>
+                  )}
+                  {selected?.status === 'active' && currentUser?.canImpersonate && selected.id !== currentUser.id && (
+                    <Button type="button" variant="outline" onClick={handleImpersonate} disabled={saving}>
+                      Log in as
+                    </Button>
+                  )}
+                </div>
+              </form>
+
+              {selected && selected.status !== 'deactivated' && (
+                <div className="space-y-3 border-t pt-6">
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-900">Deactivate user</h3>
+                    <p className="text-sm text-gray-500">
+                      Signs the user out everywhere. Their accounts, contacts, leads, opportunities and open
+                      tasks move to the user you choose.
+                    </p>
+                  </div>
+                  <Select value={reassignToId} onValueChange={setReassignToId}>
+                    <SelectTrigger aria-label="Reassign records to">
+                      <SelectValue placeholder="Reassign records to..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {recipients.map((user) => (
+                        <SelectItem key={user.id} value={user.id}>{displayName(user)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="text-red-600"
+                    onClick={handleDeactivate}
+                    disabled={saving || !reassignToId}
+                  >
+                    Deactivate User
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
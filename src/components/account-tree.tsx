@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+
+export interface AccountTreeNode {
+  id: string;
+  name: string | null;
+  accountType: string | null;
+  restricted: boolean;
+  children: AccountTreeNode[];
+}
+
+interface AccountTreeProps {
+  root: AccountTreeNode;
+  // Ids from the root down to the current account; those branches start open
+  path: string[];
+  currentId: string;
+}
+
+interface TreeNodeProps {
+  node: AccountTreeNode;
+  path: string[];
+  currentId: string;
+  depth: number;
+}
+
+function TreeNode({ node, path, currentId, depth }: TreeNodeProps) {
+  const [open, setOpen] = useState(depth === 0 || path.includes(node.id));
+  const isCurrent = node.id === currentId;
+
+  const label = node.restricted ? (
+    <span className="italic text-gray-400">Restricted account</span>
+  ) : isCurrent ? (
+    <span className="font-semibold text-gray-900">{node.name}</span>
+  ) : (
+    <Link href={`/accounts/${node.id}`} className="text-blue-600 hover:underline">
+      {node.name || 'Unnamed account'}
+    </Link>
+  );
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <div
+        className={`flex items-center gap-2 rounded px-2 py-1 ${isCurrent ? 'bg-blue-50' : ''}`}
+        style={{ paddingLeft: `${depth * 1.25 + 0.5}rem` }}
+      >
+        {node.children.length > 0 ? (
+          <CollapsibleTrigger className="text-gray-500 hover:text-gray-900" aria-label={open ? 'Collapse' : 'Expand'}>
+            {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          </CollapsibleTrigger>
+        ) : (
+          <span className="w-4" />
+        )}
+        {label}
+        {node.accountType && <Badge variant="outline">{node.accountType}</Badge>}
+        {node.children.length > 0 && <span className="text-xs text-gray-500">{node.children.length}</span>}
+      </div>
+      {node.children.length > 0 && (
+        <CollapsibleContent>
+          {node.children.map((child) => (
+            <TreeNode key={child.id} node={child} path={path} currentId={currentId} depth={depth + 1} />
+          ))}
+        </CollapsibleContent>
+      )}
+    </Collapsible>
+  );
+}
+
+// Parent/child tree of accounts; each branch can be collapsed
+export function AccountTree({ root, path, currentId }: AccountTreeProps) {
+  return <TreeNode node={root} path={path} currentId={currentId} depth={0} />;
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { apiFetch } from '@/lib/api-client';
+
+interface Person {
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+function displayName(person: Person): string {
+  return [person.firstName, person.lastName].filter(Boolean).join(' ') || person.email;
+}
+
+// Shown on every page while a Super Admin is signed in as another user
+export function ImpersonationBanner() {
+  const [session, setSession] = useState<{ user: Person; impersonator: Person } | null>(null);
+  const [stopping, setStopping] = useState(false);
+
+  useEffect(() => {
+    apiFetch('/api/auth/me')
+      .then(async (response) => {
+        if (!response.ok) return;
+        const data = await response.json();
+        if (data.impersonator) setSession({ user: data.user, impersonator: data.impersonator });
+      })
+      .catch(() => undefined);
+  }, []);
+
+  if (!session) {
+    return null;
+  }
+
+  const stop = async () => {
+    setStopping(true);
+    try {
+      await apiFetch('/api/auth/impersonate', { method: 'DELETE' });
+    } finally {
+      window.location.href = '/settings/users';
+    }
+  };
+
+  return (
+    <div className="sticky top-0 z-50 flex items-center justify-center gap-4 bg-amber-500 px-4 py-2 text-sm text-white">
+      <span>
+        You are signed in as <strong>{displayName(session.user)}</strong> ({session.user.email}) on behalf of{' '}
+        {displayName(session.impersonator)}. Password and MFA changes are disabled.
+      </span>
+      <Button size="sm" variant="outline" className="h-7 bg-white text-amber-700" onClick={stop} disabled={stopping}>
+        {stopping ? 'Stopping...' : 'Stop impersonating'}
+      </Button>
+    </div>
+  );
+}
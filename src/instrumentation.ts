@@ -0,0 +1,19 @@
+// Server startup checks (Next.js instrumentation hook)
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { assertSigningKeysConfigured } = await import('./lib/signing-keys');
+    assertSigningKeysConfigured();
+
+    const { assertSystemDatabaseConfigured } = await import('./lib/database');
+    assertSystemDatabaseConfigured();
+
+    const { assertMfaEncryptionKeyConfigured } = await import('./lib/mfa');
+    assertMfaEncryptionKeyConfigured();
+
+    const { assertTrustedProxiesConfigured } = await import('./lib/client-ip');
+    assertTrustedProxiesConfigured();
+
+    const { assertMailConfigured } = await import('./lib/mail');
+    assertMailConfigured();
+  }
+}
@@ -0,0 +1,117 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+const TENANT = 'tenant-a';
+const VERSION = new Date('2026-01-01T00:00:00Z');
+
+interface FakeAccount {
+  id: string;
+  parentAccountId: string | null;
+  isActive: boolean;
+  updatedAt: Date;
+}
+
+let accounts: FakeAccount[] = [];
+const locks: string[][] = [];
+
+// Enough of a transaction for the hierarchy checks: $queryRaw is the
+// SELECT ... FOR UPDATE in lockAccounts, recorded in `locks`
+const tx = {
+  $queryRaw: async (_sql: TemplateStringsArray, _tenantId: string, ids: string[]) => {
+    locks.push(ids);
+    return accounts
+      .filter((account) => ids.includes(account.id))
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map(({ id, parentAccountId, isActive }) => ({ id, parentAccountId, isActive }));
+  },
+  account: {
+    findMany: async ({ where }: { where: { parentAccountId: { in: string[] } } }) =>
+      accounts.filter((account) => account.isActive && where.parentAccountId.in.includes(account.parentAccountId as string)),
+    updateMany: async ({ where, data }: { where: { id: string; updatedAt: Date }; data: Partial<FakeAccount> }) => {
+      const matched = accounts.filter(
+        (account) => account.id === where.id && account.updatedAt.getTime() === where.updatedAt.getTime()
+      );
+      matched.forEach((account) => Object.assign(account, data, { updatedAt: new Date() }));
+      return { count: matched.length };
+    },
+  },
+};
+
+jest.mock('../database', () => ({
+  withTenantContext: async (_tenantId: string, fn: (client: unknown) => Promise<unknown>) => fn(tx),
+}));
+
+// prefix-0 <- prefix-1 <- ... <- prefix-(length - 1)
+function chain(prefix: string, length: number, parentAccountId: string | null = null): FakeAccount[] {
+  return Array.from({ length }, (_, index) => ({
+    id: `${prefix}-${index}`,
+    parentAccountId: index === 0 ? parentAccountId : `${prefix}-${index - 1}`,
+    isActive: true,
+    updatedAt: VERSION,
+  }));
+}
+
+const parentOf = (id: string) => accounts.find((account) => account.id === id)?.parentAccountId;
+
+describe('updateAccountHierarchy', () => {
+  let hierarchy: typeof import('../account-hierarchy');
+
+  const move = (id: string, parentAccountId: string | null, updatedAt = VERSION) =>
+    hierarchy.updateAccountHierarchy(TENANT, { id, updatedAt }, { parentAccountId });
+
+  beforeAll(async () => {
+    hierarchy = await import('../account-hierarchy');
+  });
+
+  beforeEach(() => {
+    locks.length = 0;
+  });
+
+  it('moves an account and locks it, the new parent and every ancestor of the parent', async () => {
+    accounts = [...chain('top', 3), ...chain('moved', 1)];
+
+    await expect(move('moved-0', 'top-2')).resolves.toBe('updated');
+
+    expect(parentOf('moved-0')).toBe('top-2');
+    expect(locks.flat()).toEqual(expect.arrayContaining(['moved-0', 'top-2', 'top-1', 'top-0']));
+    expect(locks[0]).toEqual(['moved-0', 'top-2']);
+  });
+
+  it('refuses to move an account under itself or one of its descendants', async () => {
+    accounts = chain('a', 4);
+
+    await expect(move('a-1', 'a-1')).resolves.toBe('invalid_parent');
+    await expect(move('a-1', 'a-3')).resolves.toBe('invalid_parent');
+    expect(parentOf('a-1')).toBe('a-0');
+  });
+
+  it('refuses a deleted parent', async () => {
+    accounts = [...chain('a', 1), { ...chain('gone', 1)[0], isActive: false }];
+
+    await expect(move('a-0', 'gone-0')).resolves.toBe('invalid_parent');
+  });
+
+  it('counts the height of the moved subtree against the maximum depth', async () => {
+    const parentDepth = hierarchy.MAX_HIERARCHY_DEPTH - 5;
+
+    // The parent is at depth 20, so a subtree of 5 levels just fits and 6 do not
+    accounts = [...chain('deep', parentDepth), ...chain('fits', 5), ...chain('tall', 6)];
+
+    await expect(move('tall-0', `deep-${parentDepth - 1}`)).resolves.toBe('invalid_parent');
+    await expect(move('fits-0', `deep-${parentDepth - 1}`)).resolves.toBe('updated');
+  });
+
+  it('does not write over a newer version of the account', async () => {
+    accounts = [...chain('top', 1), ...chain('moved', 1)];
+
+    await expect(move('moved-0', 'top-0', new Date('2025-12-31T00:00:00Z'))).resolves.toBe('conflict');
+    expect(parentOf('moved-0')).toBeNull();
+  });
+
+  it('moves an account to the top level without a parent check', async () => {
+    accounts = chain('a', 2);
+
+    await expect(move('a-1', null)).resolves.toBe('updated');
+    expect(parentOf('a-1')).toBeNull();
+    expect(locks).toEqual([['a-1']]);
+  });
+});
@@ -0,0 +1,60 @@
+import { beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { clientIp } from '../client-ip';
+
+const KEY = 'crm_test-key';
+
+// One active key restricted to 203.0.113.0/24, scoped to reading accounts
+jest.mock('../database', () => ({
+  withSystemContext: async (fn: (tx: unknown) => Promise<unknown>) =>
+    fn({
+      apiKey: {
+        findUnique: async () => ({
+          id: 'key-1',
+          tenantId: 'tenant-a',
+          scopes: { accounts: ['read'] },
+          allowedIps: ['203.0.113.0/24'],
+          revokedAt: null,
+          expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+          lastUsedAt: null,
+          lastUsedIp: null,
+          user: {
+            id: 'user-1',
+            email: 'integration@example.com',
+            firstName: null,
+            lastName: null,
+            tenantId: 'tenant-a',
+            roleId: 'role-1',
+            isActive: true,
+            role: { id: 'role-1', name: 'Admin', permissions: { accounts: ['read', 'write'], users: ['read'] } },
+            tenant: { isActive: true },
+          },
+        }),
+      },
+    }),
+  forTenant: () => ({ apiKey: { update: async () => ({}) } }),
+}));
+
+describe('authenticateApiKey', () => {
+  let apiKeys: typeof import('../api-keys');
+
+  beforeAll(async () => {
+    apiKeys = await import('../api-keys');
+  });
+
+  const authenticate = (forwardedFor?: string) =>
+    apiKeys.authenticateApiKey(KEY, clientIp(new Headers(forwardedFor ? { 'x-forwarded-for': forwardedFor } : {}), []));
+
+  it('accepts a client inside the allowed range with the scoped permissions', async () => {
+    const user = await authenticate('203.0.113.9');
+
+    expect(user).toMatchObject({ id: 'user-1', apiKeyId: 'key-1', role: { permissions: { accounts: ['read'] } } });
+  });
+
+  it('ignores an allowed address the client put in X-Forwarded-For itself', async () => {
+    expect(await authenticate('203.0.113.9, 198.51.100.4')).toBeNull();
+  });
+
+  it('refuses a restricted key when the client address is unknown', async () => {
+    expect(await authenticate()).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { beforeAll, describe, expect, it, jest } from '@jest/globals';
+
+type Row = Record<string, unknown>;
+
+const HOUR = 60 * 60 * 1000;
+
+const sessions: Row[] = [
+  { id: 'live', revokedAt: null, impersonatorId: null, expiresAt: new Date(Date.now() + HOUR) },
+  { id: 'expired', revokedAt: null, impersonatorId: null, expiresAt: new Date(Date.now() - HOUR) },
+  { id: 'revoked', revokedAt: new Date(), impersonatorId: null, expiresAt: new Date(Date.now() + HOUR) },
+  { id: 'impersonation-ended', revokedAt: null, impersonatorId: 'admin-1', expiresAt: new Date(Date.now() - 1000) },
+];
+
+function sessionMatches(session: Row, where: Row): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    if (condition && typeof condition === 'object' && 'gt' in condition) {
+      return (session[field] as Date) > (condition.gt as Date);
+    }
+    return session[field] === condition;
+  });
+}
+
+// A user with the sessions above; findFirst applies the `sessions.some` filter
+jest.mock('../database', () => ({
+  forTenant: () => ({
+    user: {
+      findFirst: async ({ where }: { where: { id: string; sessions?: { some: Row } } }) => {
+        if (where.id === 'admin-1') {
+          return { id: 'admin-1', email: 'admin@example.com', firstName: null, lastName: null };
+        }
+        const filter = where.sessions?.some;
+        if (!filter || !sessions.some((session) => sessionMatches(session, filter))) return null;
+        return { id: 'user-1', email: 'jane@example.com', tenantId: 'tenant-a', roleId: 'role-1', role: null };
+      },
+    },
+  }),
+}));
+
+// Tokens are the JSON payload itself; signatures are covered elsewhere
+jest.mock('../signing-keys', () => ({
+  signJwt: (payload: unknown) => JSON.stringify(payload),
+  verifyJwt: (token: string) => JSON.parse(token),
+}));
+
+describe('getUserByToken', () => {
+  let auth: typeof import('../auth');
+
+  const token = (sessionId: string, impersonatorId?: string) =>
+    JSON.stringify({
+      userId: 'user-1',
+      tenantId: 'tenant-a',
+      roleId: 'role-1',
+      email: 'jane@example.com',
+      sessionId,
+      impersonatorId,
+    });
+
+  beforeAll(async () => {
+    auth = await import('../auth');
+  });
+
+  it('accepts a token of a live session', async () => {
+    await expect(auth.getUserByToken(token('live'))).resolves.toMatchObject({ id: 'user-1', sessionId: 'live' });
+  });
+
+  it('rejects a token of a revoked or expired session', async () => {
+    await expect(auth.getUserByToken(token('revoked'))).resolves.toBeNull();
+    await expect(auth.getUserByToken(token('expired'))).resolves.toBeNull();
+  });
+
+  it('ends an impersonation when its session expires', async () => {
+    await expect(auth.getUserByToken(token('impersonation-ended', 'admin-1'))).resolves.toBeNull();
+  });
+});
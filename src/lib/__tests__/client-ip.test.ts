@@ -0,0 +1,54 @@
+import { describe, expect, it } from '@jest/globals';
+import { clientIp, isValidIpRule, matchesIpRules } from '../client-ip';
+
+function headers(values: Record<string, string>): Headers {
+  return new Headers(values);
+}
+
+describe('clientIp', () => {
+  it('takes the address appended by the proxy, not one the client sent', () => {
+    expect(clientIp(headers({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7' }), [])).toBe('203.0.113.7');
+  });
+
+  it('skips trusted proxies from the right', () => {
+    const forwarded = headers({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7, 10.0.0.5, 10.0.1.9' });
+
+    expect(clientIp(forwarded, ['10.0.0.0/16'])).toBe('203.0.113.7');
+  });
+
+  it('returns the leftmost hop when every hop is a trusted proxy', () => {
+    expect(clientIp(headers({ 'x-forwarded-for': '10.0.0.7, 10.0.0.5' }), ['10.0.0.0/8'])).toBe('10.0.0.7');
+  });
+
+  it('normalizes ports, brackets and IPv4-mapped addresses', () => {
+    expect(clientIp(headers({ 'x-forwarded-for': '203.0.113.7:51234' }), [])).toBe('203.0.113.7');
+    expect(clientIp(headers({ 'x-forwarded-for': '[2001:db8::1]:443' }), [])).toBe('2001:db8::1');
+    expect(clientIp(headers({ 'x-forwarded-for': '::ffff:203.0.113.7' }), [])).toBe('203.0.113.7');
+  });
+
+  it('believes nothing left of a malformed hop', () => {
+    expect(clientIp(headers({ 'x-forwarded-for': '203.0.113.7, not-an-ip' }), [])).toBeUndefined();
+  });
+
+  it('falls back to X-Real-IP, else no address', () => {
+    expect(clientIp(headers({ 'x-real-ip': '203.0.113.7' }), [])).toBe('203.0.113.7');
+    expect(clientIp(headers({}), [])).toBeUndefined();
+  });
+});
+
+describe('IP rules', () => {
+  it('validates addresses and CIDR ranges', () => {
+    expect(isValidIpRule('203.0.113.7')).toBe(true);
+    expect(isValidIpRule('10.0.0.0/8')).toBe(true);
+    expect(isValidIpRule('2001:db8::/32')).toBe(true);
+    expect(isValidIpRule('10.0.0.0/33')).toBe(false);
+    expect(isValidIpRule('example.com')).toBe(false);
+  });
+
+  it('matches addresses against rules', () => {
+    expect(matchesIpRules('10.1.2.3', ['10.0.0.0/8'])).toBe(true);
+    expect(matchesIpRules('2001:db8::5', ['2001:db8::/32'])).toBe(true);
+    expect(matchesIpRules('203.0.113.7', ['10.0.0.0/8', '203.0.113.8'])).toBe(false);
+    expect(matchesIpRules('unknown', ['10.0.0.0/8'])).toBe(false);
+  });
+});
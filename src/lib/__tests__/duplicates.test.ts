@@ -0,0 +1,178 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+const TENANT = 'tenant-a';
+
+type Row = Record<string, unknown>;
+
+const tables: Record<string, Row[]> = {};
+
+function matches(row: Row, where: Row): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    if (field === 'OR') return (condition as Row[]).some((option) => matches(row, option));
+
+    const value = row[field];
+    if (condition instanceof Date) return value instanceof Date && value.getTime() === condition.getTime();
+    if (condition && typeof condition === 'object' && 'in' in condition) {
+      return (condition.in as unknown[]).includes(value);
+    }
+    return value === condition;
+  });
+}
+
+function table(name: string) {
+  const rows = () => (tables[name] = tables[name] || []);
+  return {
+    findMany: async ({ where = {} }: { where?: Row } = {}) => rows().filter((row) => matches(row, where)).map((row) => ({ ...row })),
+    findFirst: async ({ where = {} }: { where?: Row }) => rows().find((row) => matches(row, where)) ?? null,
+    updateMany: async ({ where, data }: { where: Row; data: Row }) => {
+      const matched = rows().filter((row) => matches(row, where));
+      matched.forEach((row) => Object.assign(row, data, { updatedAt: new Date(Date.now() + 1000) }));
+      return { count: matched.length };
+    },
+    create: async ({ data }: { data: Row }) => {
+      const row = { id: `${name}-${rows().length + 1}`, ...data };
+      rows().push(row);
+      return row;
+    },
+  };
+}
+
+const client = new Proxy({} as Record<string, ReturnType<typeof table>>, {
+  get: (_target, name: string) => table(name),
+});
+
+jest.mock('../database', () => ({
+  withTenantContext: async (_tenantId: string, fn: (tx: unknown) => Promise<unknown>) => fn(client),
+  forTenant: () => client,
+  auditDiff: (before: Row, after: Row, fields: string[] = Object.keys(after)) => {
+    const json = (value: unknown) => JSON.stringify(value instanceof Date ? value.toISOString() : value);
+    const changed = fields.filter((field) => json(before[field]) !== json(after[field]));
+    return {
+      beforeData: Object.fromEntries(changed.map((field) => [field, before[field]])),
+      afterData: Object.fromEntries(changed.map((field) => [field, after[field]])),
+    };
+  },
+}));
+
+jest.mock('../account-hierarchy', () => ({ hasAncestorIn: async () => false }));
+
+function contact(id: string, fields: Row = {}): Row {
+  return {
+    id,
+    tenantId: TENANT,
+    firstName: 'Jane',
+    lastName: 'Doe',
+    email: null,
+    phone: null,
+    title: null,
+    tags: [],
+    customFields: {},
+    isActive: true,
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...fields,
+  };
+}
+
+function actor(permissions: Row = { contacts: ['read', 'write'] }) {
+  return { id: 'user-1', tenantId: TENANT, roleId: 'role-1', role: { permissions } };
+}
+
+const row = (name: string, id: string) => tables[name].find((entry) => entry.id === id) as Row;
+
+describe('mergeRecords and undoMerge', () => {
+  let duplicates: typeof import('../duplicates');
+
+  beforeAll(async () => {
+    duplicates = await import('../duplicates');
+  });
+
+  beforeEach(() => {
+    for (const name of Object.keys(tables)) delete tables[name];
+    tables.contact = [
+      contact('survivor', { email: 'jane@example.com', tags: ['vip'] }),
+      contact('merged', { email: 'j.doe@example.com', phone: '+1 555 0100', title: 'CTO', tags: ['partner'] }),
+    ];
+    tables.note = [{ id: 'note-1', tenantId: TENANT, parentType: 'contact', parentId: 'merged' }];
+    tables.task = [{ id: 'task-1', tenantId: TENANT, parentType: 'lead', parentId: 'merged' }];
+    tables.duplicateCandidate = [
+      { id: 'pair-1', tenantId: TENANT, entityType: 'contacts', status: 'open', recordId: 'merged', duplicateId: 'survivor' },
+    ];
+  });
+
+  it('fills blanks, moves related records, retires the merged record and closes its pairs', async () => {
+    const result = await duplicates.mergeRecords(actor(), {
+      entity: 'contacts',
+      survivorId: 'survivor',
+      mergedIds: ['merged'],
+      fields: {},
+    });
+
+    expect(result.moved).toEqual({ notes: 1 });
+    expect(row('contact', 'survivor')).toMatchObject({
+      email: 'jane@example.com',
+      phone: '+1 555 0100',
+      title: 'CTO',
+      tags: ['vip', 'partner'],
+    });
+    expect(row('contact', 'merged').isActive).toBe(false);
+    expect(row('note', 'note-1').parentId).toBe('survivor');
+    // A task on a lead with the same id is not the merged contact's
+    expect(row('task', 'task-1').parentId).toBe('merged');
+    expect(row('duplicateCandidate', 'pair-1')).toMatchObject({ status: 'merged', resolvedById: 'user-1' });
+    expect(row('auditLog', result.mergeId)).toMatchObject({ action: 'MERGE', resourceId: 'survivor' });
+  });
+
+  it('takes chosen values only from the merged records', async () => {
+    await expect(
+      duplicates.mergeRecords(actor(), {
+        entity: 'contacts',
+        survivorId: 'survivor',
+        mergedIds: ['merged'],
+        fields: { email: '00000000-0000-4000-8000-000000000000' },
+      })
+    ).rejects.toMatchObject({ name: 'MergeError', status: 400 });
+    expect(row('contact', 'merged').isActive).toBe(true);
+  });
+
+  it('does not fill fields the actor may not write', async () => {
+    await duplicates.mergeRecords(actor({ contacts: ['read', 'write'], 'contacts.phone': ['read'] }), {
+      entity: 'contacts',
+      survivorId: 'survivor',
+      mergedIds: ['merged'],
+      fields: {},
+    });
+
+    expect(row('contact', 'survivor')).toMatchObject({ phone: null, title: 'CTO' });
+  });
+
+  it('undoes a merge but keeps survivor fields edited since', async () => {
+    const { mergeId } = await duplicates.mergeRecords(actor(), {
+      entity: 'contacts',
+      survivorId: 'survivor',
+      mergedIds: ['merged'],
+      fields: {},
+    });
+    row('contact', 'survivor').title = 'VP Engineering';
+
+    const result = await duplicates.undoMerge(actor(), mergeId);
+
+    expect(result).toEqual({ survivorId: 'survivor', restoredIds: ['merged'], keptFields: ['title'] });
+    expect(row('contact', 'merged').isActive).toBe(true);
+    expect(row('contact', 'survivor')).toMatchObject({ phone: null, title: 'VP Engineering', tags: ['vip'] });
+    expect(row('note', 'note-1').parentId).toBe('merged');
+    expect(row('duplicateCandidate', 'pair-1')).toMatchObject({ status: 'open', resolvedById: null });
+    expect(tables.auditLog.map((entry) => entry.action)).toEqual(['MERGE', 'UNMERGE']);
+  });
+
+  it('refuses to undo the same merge twice', async () => {
+    const { mergeId } = await duplicates.mergeRecords(actor(), {
+      entity: 'contacts',
+      survivorId: 'survivor',
+      mergedIds: ['merged'],
+      fields: {},
+    });
+    await duplicates.undoMerge(actor(), mergeId);
+
+    await expect(duplicates.undoMerge(actor(), mergeId)).rejects.toMatchObject({ name: 'MergeError', status: 409 });
+  });
+});
@@ -0,0 +1,136 @@
+import { beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { parseImportFile } from '../import-files';
+
+const TENANT = 'tenant-a';
+
+type Row = Record<string, unknown>;
+
+const contacts: Row[] = [
+  {
+    id: 'contact-1',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    email: 'jane@example.com',
+    phone: '+1 (555) 0100',
+    title: '=HYPERLINK("http://evil.example","Click")',
+    department: '-2+3',
+    leadSource: '@SUM(1)',
+    accountId: 'shared-account',
+    owner: { email: 'owner@example.com' },
+    tags: ['vip'],
+    customFields: { score: -5 },
+    isActive: true,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-02T00:00:00Z'),
+  },
+  {
+    id: 'contact-2',
+    firstName: 'Rick',
+    lastName: 'Roe',
+    email: 'rick@example.com',
+    accountId: 'private-account',
+    owner: null,
+    tags: [],
+    customFields: {},
+    isActive: true,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-02T00:00:00Z'),
+  },
+];
+
+const accounts: Row[] = [
+  { id: 'shared-account', name: 'Acme', ownerId: 'user-1' },
+  { id: 'private-account', name: 'Secret Merger Target', ownerId: 'someone-else' },
+];
+
+function matches(row: Row, where: Row): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    if (field === 'AND') return (condition as Row[]).every((part) => matches(row, part));
+    if (condition && typeof condition === 'object' && 'in' in condition) {
+      return (condition.in as unknown[]).includes(row[field]);
+    }
+    return row[field] === condition;
+  });
+}
+
+jest.mock('../database', () => ({
+  forTenant: () => ({
+    contact: {
+      findMany: async ({ where, cursor }: { where: Row; cursor?: { id: string } }) =>
+        cursor ? [] : contacts.filter((contact) => matches(contact, where)),
+    },
+    account: {
+      findMany: async ({ where }: { where: Row }) => accounts.filter((account) => matches(account, where)),
+    },
+    customField: {
+      findMany: async () => [{ fieldKey: 'score' }],
+    },
+  }),
+  createAuditLog: async () => undefined,
+}));
+
+// Accounts are private to their owner; contacts are visible to everyone
+jest.mock('../sharing', () => ({
+  ...jest.requireActual<typeof import('../sharing')>('../sharing'),
+  recordAccessFilter: async (_db: unknown, viewer: { id: string }, entity: string) =>
+    entity === 'accounts' ? { ownerId: viewer.id } : null,
+}));
+
+function viewer(permissions: Row) {
+  return { id: 'user-1', tenantId: TENANT, roleId: 'role-1', role: { permissions } };
+}
+
+const context = { ipAddress: '203.0.113.7', userAgent: 'jest', correlationId: 'test' };
+
+describe('exportResponse', () => {
+  let exports: typeof import('../exports');
+
+  beforeAll(async () => {
+    exports = await import('../exports');
+  });
+
+  async function exportContacts(permissions: Row, format = 'csv'): Promise<string> {
+    const response = await exports.exportResponse(viewer(permissions), 'contacts', new URLSearchParams({ format }), context);
+    return response.text();
+  }
+
+  it('quotes cells a spreadsheet would run, but not phone or negative numbers', async () => {
+    const csv = await exportContacts({ contacts: ['read'], accounts: ['read'] });
+    const [header, first] = csv.split('\r\n');
+
+    expect(header).toContain('phone');
+    expect(first).toContain(',+1 (555) 0100,');
+    expect(first).toContain(`,"'=HYPERLINK(""http://evil.example"",""Click"")",`);
+    expect(first).toContain(",'-2+3,");
+    expect(first).toContain(",'@SUM(1),");
+    expect(first.endsWith(',-5')).toBe(true);
+  });
+
+  it('imports an exported CSV with its original values', async () => {
+    const csv = await exportContacts({ contacts: ['read'], accounts: ['read'] });
+    const file = await parseImportFile('contacts.csv', Buffer.from(csv));
+
+    expect(file.rows[0]).toMatchObject({
+      phone: '+1 (555) 0100',
+      title: '=HYPERLINK("http://evil.example","Click")',
+      department: '-2+3',
+      leadSource: '@SUM(1)',
+      'customFields.score': '-5',
+    });
+  });
+
+  it('leaves out the names of accounts the viewer cannot see', async () => {
+    const lines = (await exportContacts({ contacts: ['read'], accounts: ['read'] }, 'ndjson')).trim().split('\n');
+
+    expect(lines.map((line) => JSON.parse(line).accountName)).toEqual(['Acme', null]);
+  });
+
+  it('leaves out account names without account access, and hidden fields', async () => {
+    const csv = await exportContacts({ contacts: ['read'], 'contacts.email': [] });
+    const header = csv.split('\r\n')[0].split(',');
+
+    expect(header).not.toContain('accountName');
+    expect(header).not.toContain('email');
+    expect(header).toContain('ownerEmail');
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from '@jest/globals';
+import ExcelJS from 'exceljs';
+import { parseImportFile } from '../import-files';
+
+describe('parseImportFile', () => {
+  it('reads CSV rows keyed by header, leaving out empty cells', async () => {
+    const file = await parseImportFile('leads.csv', Buffer.from('Name,Email,Name\nJane,,Doe\n\n'));
+
+    expect(file).toEqual({ headers: ['Name', 'Email', 'Name (2)'], rows: [{ Name: 'Jane', 'Name (2)': 'Doe' }] });
+  });
+
+  it('reads the first worksheet of an XLSX file', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Leads');
+    sheet.addRow(['Last name', 'Created']);
+    sheet.addRow(['Doe', new Date('2026-03-01T00:00:00Z')]);
+
+    const file = await parseImportFile('leads.xlsx', Buffer.from(await workbook.xlsx.writeBuffer()));
+
+    expect(file).toEqual({ headers: ['Last name', 'Created'], rows: [{ 'Last name': 'Doe', Created: '2026-03-01' }] });
+  });
+
+  it('rejects a file that is not a workbook', async () => {
+    await expect(parseImportFile('leads.xlsx', Buffer.from('not a zip'))).rejects.toThrow('Could not read the XLSX file');
+  });
+});
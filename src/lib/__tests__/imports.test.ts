@@ -0,0 +1,277 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+const TENANT = 'tenant-a';
+const JOB = 'job-1';
+
+type Row = Record<string, unknown>;
+
+const tables: Record<string, Row[]> = {};
+const audit: Row[] = [];
+let clock = 0;
+
+// Each write moves updatedAt on, as Prisma's @updatedAt does
+const tick = () => new Date(Date.UTC(2026, 0, 1) + ++clock * 1000);
+
+function matches(row: Row, where: Row): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    const value = row[field];
+    if (condition instanceof Date) return value instanceof Date && value.getTime() === condition.getTime();
+    if (condition && typeof condition === 'object' && 'in' in condition) {
+      return (condition.in as unknown[]).includes(value);
+    }
+    if (condition && typeof condition === 'object' && 'gt' in condition) {
+      return Number(value) > Number(condition.gt);
+    }
+    return value === condition;
+  });
+}
+
+interface FindManyArgs {
+  where?: Row;
+  take?: number;
+  skip?: number;
+  cursor?: { id: string };
+}
+
+function table(name: string) {
+  const rows = () => (tables[name] = tables[name] || []);
+  const find = ({ where = {} }: { where?: Row }) => rows().find((row) => matches(row, where)) ?? null;
+
+  return {
+    // As Prisma pages: the cursor row's position is inclusive whether or not
+    // it matches the filter, and skip then drops rows of the filtered result
+    findMany: async ({ where = {}, take, cursor, skip = 0 }: FindManyArgs = {}) => {
+      const from = cursor ? Number(find({ where: { id: cursor.id } })?.rowNumber) : -Infinity;
+      const found = rows()
+        .filter((row) => matches(row, where) && (row.rowNumber === undefined || Number(row.rowNumber) >= from))
+        .sort((a, b) => Number(a.rowNumber) - Number(b.rowNumber));
+      return found.slice(skip, take === undefined ? undefined : skip + take).map((row) => ({ ...row }));
+    },
+    findFirst: async (args: { where?: Row }) => find(args),
+    findUnique: async (args: { where?: Row }) => find(args),
+    findUniqueOrThrow: async (args: { where?: Row }) => find(args) as Row,
+    create: async ({ data }: { data: Row }) => {
+      const row = { id: `${name}-${rows().length + 1}`, isActive: true, ...data, updatedAt: tick() };
+      rows().push(row);
+      return row;
+    },
+    update: async ({ where, data }: { where: Row; data: Row }) => Object.assign(find({ where }) as Row, data),
+    updateMany: async ({ where, data }: { where: Row; data: Row }) => {
+      const matched = rows().filter((row) => matches(row, where));
+      matched.forEach((row) => Object.assign(row, data, { updatedAt: tick() }));
+      return { count: matched.length };
+    },
+    groupBy: async ({ where }: { where: Row }) => {
+      const counts = new Map<unknown, number>();
+      rows()
+        .filter((row) => matches(row, where))
+        .forEach((row) => counts.set(row.status, (counts.get(row.status) || 0) + 1));
+      return [...counts].map(([status, count]) => ({ status, _count: { _all: count } }));
+    },
+  };
+}
+
+const client = new Proxy({} as Record<string, ReturnType<typeof table>>, {
+  get: (_target, name: string) => table(name),
+});
+
+jest.mock('../database', () => ({
+  withTenantContext: async (_tenantId: string, fn: (tx: unknown) => Promise<unknown>) => fn(client),
+  forTenant: () => client,
+  createAuditLog: async (entry: Row) => {
+    audit.push(entry);
+  },
+  auditDiff: (before: Row, after: Row, fields: string[] = Object.keys(after)) => {
+    const changed = fields.filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+    return {
+      beforeData: Object.fromEntries(changed.map((field) => [field, before[field]])),
+      afterData: Object.fromEntries(changed.map((field) => [field, after[field]])),
+    };
+  },
+}));
+
+// Leads match on email only, and the actor may write every record
+jest.mock('../duplicates', () => ({
+  ...jest.requireActual<typeof import('../duplicates')>('../duplicates'),
+  findDuplicates: async (_db: unknown, _entity: string, record: Row) =>
+    tables.lead
+      .filter((lead) => lead.isActive && lead.email === record.email)
+      .map((lead) => ({ id: lead.id, matchedOn: ['email'] })),
+  recordCandidates: async () => undefined,
+}));
+
+jest.mock('../sharing', () => ({
+  ...jest.requireActual<typeof import('../sharing')>('../sharing'),
+  canAccessRecord: async () => true,
+}));
+
+const actor = { id: 'user-1', tenantId: TENANT, roleId: 'role-1', role: { permissions: { leads: ['read', 'write', 'delete'] } } };
+
+const lead = (id: string) => tables.lead.find((entry) => entry.id === id) as Row;
+const job = () => tables.importJob[0];
+
+function importRow(rowNumber: number, data: Row): Row {
+  return { id: `row-${rowNumber}`, tenantId: TENANT, jobId: JOB, rowNumber, status: 'pending', data };
+}
+
+describe('runImport and rollbackImport', () => {
+  let imports: typeof import('../imports');
+
+  beforeAll(async () => {
+    imports = await import('../imports');
+  });
+
+  beforeEach(() => {
+    for (const name of Object.keys(tables)) delete tables[name];
+    audit.length = 0;
+
+    tables.tenant = [{ id: TENANT, settings: {} }];
+    tables.user = [{ id: 'user-1', email: 'owner@example.com', isActive: true }];
+    tables.lead = [
+      {
+        id: 'existing',
+        tenantId: TENANT,
+        lastName: 'Doe',
+        email: 'jane@example.com',
+        company: 'Acme',
+        tags: [],
+        customFields: {},
+        isActive: true,
+        updatedAt: tick(),
+      },
+    ];
+    tables.importJob = [
+      {
+        id: JOB,
+        tenantId: TENANT,
+        userId: 'user-1',
+        entityType: 'leads',
+        fileName: 'leads.csv',
+        status: 'running',
+        duplicateMode: 'update',
+        mapping: { 'Last name': 'lastName', Email: 'email', Company: 'company', Notes: null },
+      },
+    ];
+    tables.importRow = [
+      importRow(2, { 'Last name': 'Doe', Email: 'jane@example.com', Company: 'Acme Ltd', Notes: 'ignored' }),
+      importRow(3, { 'Last name': 'Roe', Email: 'rick@example.com', Company: '' }),
+      importRow(4, { 'Last name': '', Email: 'not-an-email', Company: '' }),
+    ];
+  });
+
+  it('updates matching records, creates the rest and reports rows that fail', async () => {
+    await imports.runImport(actor, JOB);
+
+    expect(job()).toMatchObject({ status: 'completed', createdCount: 1, updatedCount: 1, failedCount: 1 });
+    expect(lead('existing').company).toBe('Acme Ltd');
+
+    const created = tables.importRow.find((row) => row.status === 'created') as Row;
+    expect(lead(created.recordId as string)).toMatchObject({ lastName: 'Roe', ownerId: 'user-1', tenantId: TENANT });
+    expect(tables.importRow.find((row) => row.id === 'row-2')).toMatchObject({
+      status: 'updated',
+      previous: { values: { company: 'Acme' } },
+    });
+    expect(tables.importRow.find((row) => row.id === 'row-4')?.error).toMatch(/Email/);
+    expect(audit).toEqual([expect.objectContaining({ action: 'IMPORT', resourceId: JOB })]);
+  });
+
+  it('rolls back created records and the values it replaced', async () => {
+    await imports.runImport(actor, JOB);
+    const createdId = (tables.importRow.find((row) => row.status === 'created') as Row).recordId as string;
+
+    await imports.rollbackImport(actor, JOB);
+
+    expect(job().status).toBe('rolled_back');
+    expect(lead(createdId).isActive).toBe(false);
+    expect(lead('existing')).toMatchObject({ company: 'Acme', isActive: true });
+    expect(audit[1]).toMatchObject({ action: 'IMPORT_ROLLBACK', afterData: { removed: 1, reverted: 1, kept: 0 } });
+  });
+
+  it('keeps records edited since the import', async () => {
+    await imports.runImport(actor, JOB);
+    await client.lead.updateMany({ where: { id: 'existing' }, data: { company: 'Acme Group' } });
+
+    await imports.rollbackImport(actor, JOB);
+
+    expect(lead('existing').company).toBe('Acme Group');
+    expect(tables.importRow.find((row) => row.id === 'row-2')).toMatchObject({
+      status: 'updated',
+      error: 'Edited since the import; not reverted',
+    });
+    expect(audit[1]).toMatchObject({ afterData: { removed: 1, reverted: 0, kept: 1 } });
+  });
+
+  it('rolls back every row of an import larger than one batch', async () => {
+    const existing = (index: number): Row => ({
+      id: `existing-${index}`,
+      tenantId: TENANT,
+      lastName: 'Doe',
+      email: `lead-${index}@example.com`,
+      company: 'Before',
+      tags: [],
+      customFields: {},
+      isActive: true,
+      updatedAt: tick(),
+    });
+
+    // Every fifth row updates a lead, the rest create one
+    tables.lead = [];
+    tables.importRow = [];
+    for (let index = 0; index < 500; index++) {
+      if (index % 5 === 0) tables.lead.push(existing(index));
+      tables.importRow.push(
+        importRow(index + 2, { 'Last name': 'Doe', Email: `lead-${index}@example.com`, Company: 'After' })
+      );
+    }
+
+    await imports.runImport(actor, JOB);
+    expect(job()).toMatchObject({ createdCount: 400, updatedCount: 100 });
+
+    // One updated record edited since stays as it is, and its row stays "updated"
+    await client.lead.updateMany({ where: { id: 'existing-250' }, data: { company: 'Edited' } });
+
+    await imports.rollbackImport(actor, JOB);
+
+    const updatedIds = tables.lead.filter((entry) => String(entry.id).startsWith('existing-')).map((entry) => entry.id);
+    expect(job().status).toBe('rolled_back');
+    expect(tables.lead.filter((entry) => !updatedIds.includes(entry.id) && entry.isActive)).toEqual([]);
+    expect(tables.lead.filter((entry) => updatedIds.includes(entry.id) && entry.company !== 'Before')).toEqual([
+      expect.objectContaining({ id: 'existing-250', company: 'Edited' }),
+    ]);
+    expect(audit[1]).toMatchObject({ afterData: { removed: 400, reverted: 99, kept: 1 } });
+  });
+});
+
+describe('import ownership', () => {
+  let imports: typeof import('../imports');
+
+  const colleague = { ...actor, id: 'user-2' };
+  const admin = { ...colleague, role: { permissions: { ...actor.role.permissions, users: ['read', 'write'] } } };
+
+  beforeAll(async () => {
+    imports = await import('../imports');
+  });
+
+  beforeEach(() => {
+    tables.importJob = [
+      { id: JOB, tenantId: TENANT, userId: 'user-1', entityType: 'leads', status: 'completed', headers: [] },
+    ];
+  });
+
+  it("hides another user's import from a colleague with the same record permissions", async () => {
+    await expect(imports.validateImport(colleague, JOB, { mapping: {}, duplicateMode: 'skip' })).rejects.toMatchObject({
+      status: 404,
+    });
+    await expect(imports.startImport(colleague, JOB)).rejects.toMatchObject({ status: 404 });
+    await expect(imports.startRollback(colleague, JOB)).rejects.toMatchObject({ status: 404 });
+    expect(job().status).toBe('completed');
+  });
+
+  it('lets the owner and user administrators roll an import back', async () => {
+    await expect(imports.startRollback(actor, JOB)).resolves.toBeUndefined();
+
+    job().status = 'completed';
+    await expect(imports.startRollback(admin, JOB)).resolves.toBeUndefined();
+    expect(job().status).toBe('rolling_back');
+  });
+});
@@ -0,0 +1,67 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+// The limiter keeps its counters in memory outside production
+jest.mock('../database', () => ({ prisma: {} }));
+
+describe('MFA attempt limits', () => {
+  let limiter: typeof import('../login-limiter');
+  let userId: string;
+  let counter = 0;
+
+  beforeAll(async () => {
+    limiter = await import('../login-limiter');
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    userId = `user-${++counter}`;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('allows a few wrong codes before slowing the user down', async () => {
+    await limiter.recordMfaFailure(userId);
+    await limiter.recordMfaFailure(userId);
+    expect(await limiter.checkMfaAllowed(userId)).toEqual({ allowed: true });
+
+    await limiter.recordMfaFailure(userId);
+    expect(await limiter.checkMfaAllowed(userId)).toEqual({ allowed: false, reason: 'throttled', retryAfterSeconds: 1 });
+
+    jest.advanceTimersByTime(1000);
+    expect(await limiter.checkMfaAllowed(userId)).toEqual({ allowed: true });
+  });
+
+  it('locks verification after too many wrong codes, across challenges', async () => {
+    const results = [];
+    for (let attempt = 0; attempt < 5; attempt++) {
+      results.push(await limiter.recordMfaFailure(userId));
+    }
+
+    expect(results.map((result) => result.mfaLocked)).toEqual([false, false, false, false, true]);
+    expect(await limiter.checkMfaAllowed(userId)).toMatchObject({ allowed: false, reason: 'locked' });
+  });
+
+  it('clears the count after a correct code', async () => {
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await limiter.recordMfaFailure(userId);
+    }
+    await limiter.recordMfaSuccess(userId);
+
+    expect(await limiter.checkMfaAllowed(userId)).toEqual({ allowed: true });
+    expect(await limiter.recordMfaFailure(userId)).toEqual({ mfaLocked: false });
+  });
+
+  it('counts wrong codes against the client address too', async () => {
+    const ipAddress = '203.0.113.7';
+    for (let attempt = 0; attempt < 6; attempt++) {
+      await limiter.recordMfaFailure(`${userId}-${attempt}`, ipAddress);
+    }
+
+    expect(await limiter.checkLoginAllowed('someone@example.com', ipAddress)).toMatchObject({
+      allowed: false,
+      reason: 'throttled',
+    });
+  });
+});
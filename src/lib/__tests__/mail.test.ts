@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import net from 'net';
+import { createSmtpTransport, mailLinkBaseUrl } from '../mail';
+
+// SMTP server without STARTTLS that records the commands it receives
+function plaintextServer(): Promise<{ server: net.Server; port: number; received: string[] }> {
+  const received: string[] = [];
+  const server = net.createServer((socket) => {
+    let inData = false;
+    let buffer = '';
+    socket.write('220 test ESMTP\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      const lines = buffer.split('\r\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        received.push(line);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued\r\n');
+          }
+        } else if (line.startsWith('EHLO')) {
+          socket.write('250-test\r\n250 8BITMIME\r\n');
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve({ server, port: (server.address() as net.AddressInfo).port, received }))
+  );
+}
+
+describe('createSmtpTransport', () => {
+  let smtp: Awaited<ReturnType<typeof plaintextServer>>;
+
+  beforeEach(async () => {
+    smtp = await plaintextServer();
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => smtp.server.close(resolve));
+  });
+
+  it('delivers without credentials over a plaintext connection', async () => {
+    const transport = createSmtpTransport({ host: '127.0.0.1', port: smtp.port });
+
+    await transport.send({ to: 'jane@example.com', subject: 'Hello', text: 'Hi there' });
+
+    expect(smtp.received).toEqual(expect.arrayContaining(['RCPT TO:<jane@example.com>', 'Subject: Hello', 'Hi there', 'QUIT']));
+  });
+
+  it('refuses to send credentials when the server does not offer STARTTLS', async () => {
+    const transport = createSmtpTransport({ host: '127.0.0.1', port: smtp.port, user: 'mailer', pass: 'secret' });
+
+    await expect(transport.send({ to: 'jane@example.com', subject: 'Hello', text: 'Hi' })).rejects.toThrow(
+      'refusing to send credentials unencrypted'
+    );
+    expect(smtp.received.some((line) => line.startsWith('AUTH'))).toBe(false);
+  });
+});
+
+describe('mailLinkBaseUrl', () => {
+  const env = process.env as Record<string, string | undefined>;
+  const { NODE_ENV, APP_URL } = env;
+
+  afterEach(() => {
+    env.NODE_ENV = NODE_ENV;
+    env.APP_URL = APP_URL;
+  });
+
+  it('uses APP_URL over the request origin', () => {
+    env.APP_URL = 'https://crm.example.com/';
+
+    expect(mailLinkBaseUrl('https://attacker.example')).toBe('https://crm.example.com');
+  });
+
+  it('only falls back to the request origin outside production', () => {
+    delete env.APP_URL;
+    expect(mailLinkBaseUrl('http://localhost:3000')).toBe('http://localhost:3000');
+
+    env.NODE_ENV = 'production';
+    expect(() => mailLinkBaseUrl('https://attacker.example')).toThrow('APP_URL is not configured');
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { generateTotp } from '../totp';
+
+interface FakeUser {
+  id: string;
+  email: string;
+  mfaEnabled: boolean;
+  mfaSecret: string | null;
+  mfaEnrolledAt: Date | null;
+  mfaLastUsedStep: number | null;
+}
+
+interface FakeRecoveryCode {
+  userId: string;
+  codeHash: string;
+  usedAt: Date | null;
+}
+
+const users = new Map<string, FakeUser>();
+let recoveryCodes: FakeRecoveryCode[] = [];
+
+// Enough of the tenant client for the MFA functions
+jest.mock('../database', () => ({
+  forTenant: () => ({
+    user: {
+      findUnique: async ({ where }: { where: { id: string } }) => users.get(where.id) ?? null,
+      update: async ({ where, data }: { where: { id: string }; data: Partial<FakeUser> }) =>
+        Object.assign(users.get(where.id)!, data),
+      updateMany: async ({ where, data }: { where: { id: string; OR: { mfaLastUsedStep: unknown }[] }; data: Partial<FakeUser> }) => {
+        const user = users.get(where.id);
+        const step = data.mfaLastUsedStep!;
+        if (!user || (user.mfaLastUsedStep !== null && user.mfaLastUsedStep >= step)) return { count: 0 };
+        Object.assign(user, data);
+        return { count: 1 };
+      },
+    },
+    mfaRecoveryCode: {
+      deleteMany: async ({ where }: { where: { userId: string } }) => {
+        recoveryCodes = recoveryCodes.filter((code) => code.userId !== where.userId);
+      },
+      createMany: async ({ data }: { data: { userId: string; codeHash: string }[] }) => {
+        recoveryCodes.push(...data.map((code) => ({ ...code, usedAt: null })));
+      },
+      updateMany: async ({ where, data }: { where: FakeRecoveryCode; data: { usedAt: Date } }) => {
+        const matches = recoveryCodes.filter(
+          (code) => code.userId === where.userId && code.codeHash === where.codeHash && code.usedAt === null
+        );
+        matches.forEach((code) => Object.assign(code, data));
+        return { count: matches.length };
+      },
+      count: async ({ where }: { where: { userId: string } }) =>
+        recoveryCodes.filter((code) => code.userId === where.userId && code.usedAt === null).length,
+    },
+  }),
+}));
+
+const TENANT = 'tenant-a';
+const USER = 'user-1';
+
+describe('mfa', () => {
+  let mfa: typeof import('../mfa');
+
+  beforeAll(async () => {
+    mfa = await import('../mfa');
+  });
+
+  beforeEach(() => {
+    users.set(USER, {
+      id: USER,
+      email: 'user@example.com',
+      mfaEnabled: false,
+      mfaSecret: null,
+      mfaEnrolledAt: null,
+      mfaLastUsedStep: null,
+    });
+    recoveryCodes = [];
+  });
+
+  // Enroll the user and return the plain secret and recovery codes
+  async function enroll(): Promise<{ secret: string; codes: string[] }> {
+    const { secret } = await mfa.startMfaEnrollment(TENANT, USER);
+    const codes = await mfa.confirmMfaEnrollment(TENANT, USER, generateTotp(secret));
+    return { secret, codes: codes! };
+  }
+
+  describe('enrollment', () => {
+    it('stores the secret encrypted and enables MFA once a code confirms it', async () => {
+      const { secret, otpauthUri } = await mfa.startMfaEnrollment(TENANT, USER);
+
+      expect(users.get(USER)!.mfaSecret).not.toContain(secret);
+      expect(otpauthUri).toContain(`secret=${secret}`);
+      expect(await mfa.confirmMfaEnrollment(TENANT, USER, '000000')).toBeNull();
+
+      const codes = await mfa.confirmMfaEnrollment(TENANT, USER, generateTotp(secret));
+
+      expect(codes).toHaveLength(10);
+      expect(users.get(USER)!.mfaEnabled).toBe(true);
+    });
+  });
+
+  describe('verifyMfa', () => {
+    it('accepts a current code once', async () => {
+      const { secret } = await enroll();
+      jest.useFakeTimers({ now: Date.now() + 30 * 1000 });
+
+      try {
+        const code = generateTotp(secret);
+
+        expect(await mfa.verifyMfa(TENANT, USER, { code })).toEqual({ valid: true, method: 'totp' });
+        expect(await mfa.verifyMfa(TENANT, USER, { code })).toEqual({ valid: false });
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('accepts each recovery code once', async () => {
+      const { codes } = await enroll();
+
+      expect(await mfa.verifyMfa(TENANT, USER, { recoveryCode: codes[0].toUpperCase() })).toEqual({
+        valid: true,
+        method: 'recovery_code',
+        remainingRecoveryCodes: 9,
+      });
+      expect(await mfa.verifyMfa(TENANT, USER, { recoveryCode: codes[0] })).toEqual({ valid: false });
+    });
+
+    it('rejects codes for a user without MFA', async () => {
+      expect(await mfa.verifyMfa(TENANT, USER, { code: '123456' })).toEqual({ valid: false });
+    });
+  });
+
+  describe('encryption key', () => {
+    const env = process.env as Record<string, string | undefined>;
+    const { NODE_ENV, MFA_ENCRYPTION_KEY } = env;
+
+    afterEach(() => {
+      env.NODE_ENV = NODE_ENV;
+      env.MFA_ENCRYPTION_KEY = MFA_ENCRYPTION_KEY;
+    });
+
+    it('is required in production', () => {
+      env.NODE_ENV = 'production';
+      delete env.MFA_ENCRYPTION_KEY;
+
+      expect(() => mfa.assertMfaEncryptionKeyConfigured()).toThrow('MFA_ENCRYPTION_KEY is not configured');
+
+      env.MFA_ENCRYPTION_KEY = 'configured';
+      expect(() => mfa.assertMfaEncryptionKeyConfigured()).not.toThrow();
+    });
+
+    it('cannot decrypt secrets stored under another key', async () => {
+      env.MFA_ENCRYPTION_KEY = 'first-key';
+      const { secret } = await enroll();
+
+      env.MFA_ENCRYPTION_KEY = 'second-key';
+      await expect(mfa.verifyMfa(TENANT, USER, { code: generateTotp(secret) })).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import type { OidcAuthorizationState, OidcConfig } from '../oidc';
+
+jest.mock('../database', () => ({ forTenant: () => ({}) }));
+
+const CLIENT_ID = 'crm-client';
+const CLIENT_SECRET = 'client-secret';
+const NONCE = 'expected-nonce';
+const REDIRECT_URI = 'https://crm.example.com/api/auth/sso/acme/callback';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const { privateKey: otherKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+// Local identity provider: discovery, JWKS and a token endpoint handing out
+// whatever ID token the test asks for
+interface Issuer {
+  url: string;
+  server: http.Server;
+  tokenRequests: { authorization?: string; body: URLSearchParams }[];
+  idToken: () => string;
+}
+
+function startIssuer(): Promise<Issuer> {
+  const issuer = { tokenRequests: [], idToken: () => '' } as unknown as Issuer;
+
+  issuer.server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => {
+      const json = (data: unknown) => {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(data));
+      };
+
+      if (request.url === '/.well-known/openid-configuration') {
+        return json({
+          issuer: issuer.url,
+          authorization_endpoint: `${issuer.url}/authorize`,
+          token_endpoint: `${issuer.url}/token`,
+          jwks_uri: `${issuer.url}/jwks`,
+        });
+      }
+      if (request.url === '/jwks') {
+        return json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig', alg: 'RS256' }] });
+      }
+      if (request.url === '/token' && request.method === 'POST') {
+        issuer.tokenRequests.push({ authorization: request.headers.authorization, body: new URLSearchParams(body) });
+        return json({ access_token: 'access', token_type: 'Bearer', id_token: issuer.idToken() });
+      }
+
+      response.writeHead(404);
+      response.end();
+    });
+  });
+
+  return new Promise((resolve) =>
+    issuer.server.listen(0, '127.0.0.1', () => {
+      issuer.url = `http://127.0.0.1:${(issuer.server.address() as AddressInfo).port}`;
+      resolve(issuer);
+    })
+  );
+}
+
+describe('OIDC against a local identity provider', () => {
+  let oidc: typeof import('../oidc');
+  let issuer: Issuer;
+  let config: OidcConfig;
+
+  const state: OidcAuthorizationState = {
+    tenantId: 'tenant-a',
+    state: 'state',
+    nonce: NONCE,
+    codeVerifier: 'code-verifier',
+    returnTo: '/dashboard',
+  };
+
+  function sign(claims: Record<string, unknown> = {}, options: jwt.SignOptions = {}, key: jwt.Secret = privateKey) {
+    return jwt.sign(
+      { sub: 'idp-user-1', email: 'jane@example.com', email_verified: true, nonce: NONCE, ...claims },
+      key,
+      {
+        algorithm: 'RS256',
+        keyid: 'key-1',
+        issuer: issuer.url,
+        audience: CLIENT_ID,
+        ...(claims.exp === undefined ? { expiresIn: 300 } : {}),
+        ...options,
+      }
+    );
+  }
+
+  const exchange = () => oidc.exchangeAuthorizationCode(config, 'auth-code', REDIRECT_URI, state);
+
+  beforeAll(async () => {
+    oidc = await import('../oidc');
+    issuer = await startIssuer();
+  });
+
+  afterAll(async () => {
+    issuer.server.closeAllConnections();
+    await new Promise((resolve) => issuer.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    issuer.tokenRequests.length = 0;
+    config = oidc.oidcConfigSchema.parse({ issuer: issuer.url, clientId: CLIENT_ID, clientSecret: CLIENT_SECRET });
+  });
+
+  it('discovers the provider and rejects a document for another issuer', async () => {
+    await expect(oidc.discoverProvider(issuer.url)).resolves.toMatchObject({ token_endpoint: `${issuer.url}/token` });
+    await expect(oidc.discoverProvider(`${issuer.url}/`)).rejects.toThrow('OIDC issuer mismatch');
+  });
+
+  it('exchanges the code with PKCE and client credentials and returns the verified claims', async () => {
+    issuer.idToken = () => sign();
+
+    await expect(exchange()).resolves.toMatchObject({ sub: 'idp-user-1', email: 'jane@example.com', nonce: NONCE });
+
+    const [request] = issuer.tokenRequests;
+    expect(request.authorization).toBe(`Basic ${Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64')}`);
+    expect(Object.fromEntries(request.body)).toEqual({
+      grant_type: 'authorization_code',
+      code: 'auth-code',
+      redirect_uri: REDIRECT_URI,
+      code_verifier: 'code-verifier',
+    });
+  });
+
+  it('rejects an ID token with the wrong nonce', async () => {
+    issuer.idToken = () => sign({ nonce: 'replayed-nonce' });
+    await expect(exchange()).rejects.toThrow('ID token nonce mismatch');
+  });
+
+  it('rejects an ID token from another issuer', async () => {
+    issuer.idToken = () => sign({}, { issuer: 'https://evil.example.com' });
+    await expect(exchange()).rejects.toThrow('jwt issuer invalid');
+  });
+
+  it('rejects an ID token for another client', async () => {
+    issuer.idToken = () => sign({}, { audience: 'other-client' });
+    await expect(exchange()).rejects.toThrow('jwt audience invalid');
+  });
+
+  it('rejects an expired ID token beyond the clock tolerance', async () => {
+    const issuedAt = Math.floor(Date.now() / 1000) - 3600;
+    issuer.idToken = () => sign({ iat: issuedAt, exp: issuedAt + 300 });
+    await expect(exchange()).rejects.toThrow('jwt expired');
+  });
+
+  it('rejects an ID token signed with a key the provider does not publish', async () => {
+    issuer.idToken = () => sign({}, { keyid: 'unknown-key' }, otherKey);
+    await expect(exchange()).rejects.toThrow('No matching OIDC signing key');
+  });
+
+  it('rejects an ID token signed by another key under a known kid', async () => {
+    issuer.idToken = () => sign({}, {}, otherKey);
+    await expect(exchange()).rejects.toThrow('invalid signature');
+  });
+
+  it('rejects an ID token using a disallowed algorithm', async () => {
+    // HS256 keyed with the provider's public key, the classic algorithm confusion
+    const secret = publicKey.export({ format: 'pem', type: 'spki' }) as string;
+    issuer.idToken = () => sign({}, { algorithm: 'HS256' }, secret);
+    await expect(exchange()).rejects.toThrow('invalid algorithm');
+
+    const unsigned = `${Buffer.from(JSON.stringify({ alg: 'none', kid: 'key-1' })).toString('base64url')}.${Buffer.from(
+      JSON.stringify({ sub: 'idp-user-1', nonce: NONCE, iss: issuer.url, aud: CLIENT_ID })
+    ).toString('base64url')}.`;
+    issuer.idToken = () => unsigned;
+    await expect(exchange()).rejects.toThrow('jwt signature is required');
+  });
+
+  it('sends client credentials in the body for client_secret_post', async () => {
+    config = { ...config, tokenEndpointAuthMethod: 'client_secret_post' };
+    issuer.idToken = () => sign();
+
+    await exchange();
+
+    const [request] = issuer.tokenRequests;
+    expect(request.authorization).toBeUndefined();
+    expect(request.body.get('client_id')).toBe(CLIENT_ID);
+    expect(request.body.get('client_secret')).toBe(CLIENT_SECRET);
+  });
+});
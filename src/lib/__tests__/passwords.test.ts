@@ -0,0 +1,151 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+
+const TENANT = 'tenant-a';
+const USER = 'user-1';
+const TOKEN = 'reset-token';
+const OLD_PASSWORD = 'Old-password-42';
+
+interface State {
+  passwordHash: string;
+  history: { id: string; passwordHash: string; createdAt: Date }[];
+  tokenUsedAt: Date | null;
+  sessionsRevoked: number;
+  failUpdate: boolean;
+}
+
+const state = {} as State;
+
+// The writes of one withTenantContext call, applied only if it does not throw
+function transaction() {
+  const pending: (() => void)[] = [];
+  return {
+    pending,
+    tx: {
+      passwordResetToken: {
+        updateMany: async () => {
+          if (state.tokenUsedAt) return { count: 0 };
+          pending.push(() => (state.tokenUsedAt = new Date()));
+          return { count: 1 };
+        },
+      },
+      user: {
+        updateMany: async ({ data }: { data: { passwordHash: string } }) => {
+          if (state.failUpdate) throw new Error('Database unavailable');
+          pending.push(() => (state.passwordHash = data.passwordHash));
+          return { count: 1 };
+        },
+      },
+      passwordHistory: {
+        create: async ({ data }: { data: { passwordHash: string } }) => {
+          pending.push(() => state.history.unshift({ id: crypto.randomUUID(), passwordHash: data.passwordHash, createdAt: new Date() }));
+        },
+        findMany: async () => [],
+        deleteMany: async () => ({ count: 0 }),
+      },
+    },
+  };
+}
+
+jest.mock('../database', () => ({
+  withSystemContext: async (fn: (tx: unknown) => Promise<unknown>) =>
+    fn({
+      passwordResetToken: {
+        findUnique: async ({ where }: { where: { tokenHash: string } }) =>
+          where.tokenHash === crypto.createHash('sha256').update(TOKEN).digest('hex')
+            ? {
+                id: 'token-1',
+                tenantId: TENANT,
+                userId: USER,
+                usedAt: state.tokenUsedAt,
+                expiresAt: new Date(Date.now() + 60 * 1000),
+                user: { email: 'jane@example.com', isActive: true, tenant: { isActive: true } },
+              }
+            : null,
+      },
+    }),
+  withTenantContext: async (_tenantId: string, fn: (tx: unknown) => Promise<unknown>) => {
+    const { tx, pending } = transaction();
+    const result = await fn(tx);
+    pending.forEach((apply) => apply());
+    return result;
+  },
+  forTenant: () => ({
+    user: {
+      findUnique: async () => ({ id: USER, passwordHash: state.passwordHash }),
+    },
+    tenant: {
+      findUnique: async () => ({ settings: { passwordPolicy: { historyDepth: 3 } } }),
+    },
+    passwordHistory: {
+      findMany: async () => state.history,
+    },
+    session: {
+      updateMany: async () => {
+        state.sessionsRevoked += 1;
+        return { count: 2 };
+      },
+    },
+  }),
+}));
+
+jest.mock('../mail', () => ({ sendMail: async () => undefined }));
+
+describe('resetPassword', () => {
+  let passwords: typeof import('../passwords');
+
+  beforeAll(async () => {
+    passwords = await import('../passwords');
+  });
+
+  beforeEach(async () => {
+    Object.assign(state, {
+      passwordHash: await bcrypt.hash(OLD_PASSWORD, 4),
+      history: [],
+      tokenUsedAt: null,
+      sessionsRevoked: 0,
+      failUpdate: false,
+    });
+  });
+
+  it('sets the password, uses up the link and signs out every session', async () => {
+    const result = await passwords.resetPassword(TOKEN, 'New-password-42');
+
+    expect(result).toEqual({ tenantId: TENANT, userId: USER, email: 'jane@example.com' });
+    expect(await bcrypt.compare('New-password-42', state.passwordHash)).toBe(true);
+    expect(state.history).toHaveLength(1);
+    expect(state.tokenUsedAt).not.toBeNull();
+    expect(state.sessionsRevoked).toBe(1);
+  });
+
+  it('leaves the link usable when the password breaks the policy', async () => {
+    await expect(passwords.resetPassword(TOKEN, 'short')).rejects.toThrow(passwords.PasswordValidationError);
+
+    expect(state.tokenUsedAt).toBeNull();
+  });
+
+  it('leaves the link usable when the password was used before', async () => {
+    await expect(passwords.resetPassword(TOKEN, OLD_PASSWORD)).rejects.toThrow(
+      'Password does not meet requirements'
+    );
+
+    expect(state.tokenUsedAt).toBeNull();
+  });
+
+  it('leaves the link usable when the update fails', async () => {
+    state.failUpdate = true;
+
+    await expect(passwords.resetPassword(TOKEN, 'New-password-42')).rejects.toThrow('Database unavailable');
+
+    expect(state.tokenUsedAt).toBeNull();
+    expect(await bcrypt.compare(OLD_PASSWORD, state.passwordHash)).toBe(true);
+  });
+
+  it('accepts a link only once', async () => {
+    await passwords.resetPassword(TOKEN, 'New-password-42');
+
+    await expect(passwords.resetPassword(TOKEN, 'Other-password-42')).rejects.toThrow('Invalid or expired reset token');
+    expect(await bcrypt.compare('New-password-42', state.passwordHash)).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from '@jest/globals';
+import { canManageRoleHolder, excessPermissions, RolePermissions } from '../permissions';
+
+const SUPER_ADMIN: RolePermissions = { '*': ['*'] };
+const ADMIN: RolePermissions = { users: ['read', 'write'], accounts: ['read', 'write'] };
+const SALES_REP: RolePermissions = { accounts: ['read', 'write'], contacts: ['read'] };
+
+describe('excessPermissions', () => {
+  it('lists privileged grants the granter lacks', () => {
+    expect(excessPermissions(ADMIN, { users: ['read', 'delete'], settings: ['read'] })).toEqual([
+      'users:delete',
+      'settings:read',
+    ]);
+  });
+
+  it('ignores grants on record resources', () => {
+    expect(excessPermissions(ADMIN, { opportunities: ['delete'] })).toEqual([]);
+  });
+});
+
+describe('canManageRoleHolder', () => {
+  it('lets admins manage users with no more privileged access than their own', () => {
+    expect(canManageRoleHolder(ADMIN, SALES_REP)).toBe(true);
+    expect(canManageRoleHolder(ADMIN, ADMIN)).toBe(true);
+    expect(canManageRoleHolder(ADMIN, null)).toBe(true);
+  });
+
+  it('refuses users with privileged grants the admin lacks', () => {
+    expect(canManageRoleHolder(ADMIN, { users: ['read', 'write', 'delete'] })).toBe(false);
+    expect(canManageRoleHolder(ADMIN, { settings: ['write'] })).toBe(false);
+  });
+
+  it('reserves Super Admins to other Super Admins', () => {
+    const everyGrant = { users: ['*'], settings: ['*'], accounts: ['*'] };
+
+    expect(canManageRoleHolder(everyGrant, SUPER_ADMIN)).toBe(false);
+    expect(canManageRoleHolder(SUPER_ADMIN, SUPER_ADMIN)).toBe(true);
+    expect(canManageRoleHolder(SUPER_ADMIN, ADMIN)).toBe(true);
+  });
+});
@@ -0,0 +1,87 @@
+// Row-level security against a real database (database/schema.sql applied).
+// TEST_DATABASE_URL must connect as an ordinary role, as the application does,
+// and TEST_SYSTEM_DATABASE_URL as the BYPASSRLS role; skipped without both.
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+
+const databaseUrl = process.env.TEST_DATABASE_URL;
+const systemDatabaseUrl = process.env.TEST_SYSTEM_DATABASE_URL;
+const describeDatabase = databaseUrl && systemDatabaseUrl ? describe : describe.skip;
+
+describeDatabase('row-level security', () => {
+  let db: typeof import('../database');
+  const tenants: { id: string; accountId: string }[] = [];
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = databaseUrl;
+    process.env.SYSTEM_DATABASE_URL = systemDatabaseUrl;
+    db = await import('../database');
+
+    for (const name of ['RLS test A', 'RLS test B']) {
+      const tenant = await db.withSystemContext((tx) => tx.tenant.create({ data: { name } }));
+      const account = await db.forTenant(tenant.id).account.create({ data: { name: `${name} account` } });
+      tenants.push({ id: tenant.id, accountId: account.id });
+    }
+  });
+
+  afterAll(async () => {
+    await db.withSystemContext((tx) => tx.tenant.deleteMany({ where: { id: { in: tenants.map((t) => t.id) } } }));
+    await db.prisma.$disconnect();
+    await globalThis.systemPrisma?.$disconnect();
+  });
+
+  it('creates rows in the tenant of the current context', async () => {
+    const [a] = tenants;
+    const account = await db.withTenantContext(a.id, (tx) =>
+      tx.account.findUniqueOrThrow({ where: { id: a.accountId } })
+    );
+
+    expect(account.tenantId).toBe(a.id);
+  });
+
+  it("returns no rows of another tenant, even to a query that asks for them", async () => {
+    const [a, b] = tenants;
+
+    const rows = await db.withTenantContext(a.id, (tx) =>
+      tx.$queryRaw<{ id: string }[]>`SELECT id FROM accounts WHERE tenant_id = ${b.id}::uuid`
+    );
+    const accounts = await db.withTenantContext(a.id, (tx) =>
+      tx.account.findMany({ where: { id: b.accountId } })
+    );
+
+    expect(rows).toEqual([]);
+    expect(accounts).toEqual([]);
+  });
+
+  it('does not let a session switch row-level security off', async () => {
+    const [a, b] = tenants;
+
+    const rows = await db.withTenantContext(a.id, async (tx) => {
+      await tx.$executeRaw`SELECT set_config('app.bypass_rls', 'on', TRUE)`;
+      return tx.$queryRaw<{ id: string }[]>`SELECT id FROM accounts WHERE tenant_id = ${b.id}::uuid`;
+    });
+
+    expect(rows).toEqual([]);
+  });
+
+  it('returns no rows without a tenant context', async () => {
+    const rows = await db.prisma.$queryRaw<{ id: string }[]>`SELECT id FROM accounts`;
+
+    expect(rows).toEqual([]);
+  });
+
+  it('refuses to write rows into another tenant', async () => {
+    const [a, b] = tenants;
+
+    await expect(
+      db.withTenantContext(a.id, (tx) => tx.account.create({ data: { tenantId: b.id, name: 'Intruder' } }))
+    ).rejects.toThrow();
+  });
+
+  it('lets the system connection read across tenants', async () => {
+    const accounts = await db.withSystemContext((tx) =>
+      tx.account.findMany({ where: { id: { in: tenants.map((t) => t.accountId) } } })
+    );
+
+    expect(accounts).toHaveLength(2);
+  });
+});
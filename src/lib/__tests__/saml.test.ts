@@ -0,0 +1,204 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import type { Profile, SAML } from '@node-saml/node-saml';
+import { signSamlPost } from '@node-saml/node-saml/lib/saml-post-signing';
+
+const recordedMessages = new Set<string>();
+
+// samlMessage.create fails on a repeated ID like the unique index does
+jest.mock('../database', () => ({
+  forTenant: () => ({
+    samlMessage: {
+      create: async ({ data }: { data: { kind: string; messageId: string } }) => {
+        const key = `${data.kind}:${data.messageId}`;
+        if (recordedMessages.has(key)) {
+          throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+        }
+        recordedMessages.add(key);
+        return data;
+      },
+    },
+  }),
+}));
+
+function profile(fields: Partial<Profile>, assertionId?: string): Profile {
+  return {
+    issuer: 'https://idp.example.com',
+    nameID: 'jane',
+    nameIDFormat: 'urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified',
+    getAssertion: () => ({ Assertion: { $: { ID: assertionId } } }),
+    getAssertionXml: () => '',
+    getSamlResponseXml: () => '',
+    ...fields,
+  } as Profile;
+}
+
+// A throwaway IdP key and self-signed certificate
+function generateCertificate(): { privateKey: string; cert: string } {
+  const pem = execFileSync(
+    'openssl',
+    [
+      'req', '-x509', '-newkey', 'rsa:2048', '-nodes', '-subj', '/CN=idp.example.com', '-days', '1',
+      '-keyout', '-', '-out', '-',
+    ],
+    { encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }
+  );
+  const block = (label: string) =>
+    (pem.match(new RegExp(`-----BEGIN ${label}-----[\\s\\S]+?-----END ${label}-----`)) as string[])[0];
+
+  return { privateKey: block('PRIVATE KEY'), cert: block('CERTIFICATE') };
+}
+
+// A client whose signature checks passed and returned the given profile
+function client(result: Profile | null): SAML {
+  return { validatePostResponseAsync: async () => ({ profile: result, loggedOut: false }) } as unknown as SAML;
+}
+
+describe('saml', () => {
+  let saml: typeof import('../saml');
+
+  beforeAll(async () => {
+    saml = await import('../saml');
+  });
+
+  describe('validateSamlResponse', () => {
+    beforeEach(() => {
+      recordedMessages.clear();
+    });
+
+    it('accepts an assertion once and rejects its replay', async () => {
+      const accepted = profile({}, 'assertion-1');
+
+      await expect(saml.validateSamlResponse('t1', client(accepted), 'response')).resolves.toBe(accepted);
+      await expect(saml.validateSamlResponse('t1', client(accepted), 'response')).rejects.toThrow(
+        'SAML assertion replay detected'
+      );
+    });
+
+    it('rejects responses without an identifiable assertion', async () => {
+      await expect(saml.validateSamlResponse('t1', client(null), 'response')).rejects.toThrow(
+        'SAML response did not contain an assertion'
+      );
+      await expect(saml.validateSamlResponse('t1', client(profile({})), 'response')).rejects.toThrow(
+        'SAML assertion has no ID'
+      );
+    });
+  });
+
+  describe('validateSamlResponse with a signed response', () => {
+    const idp = generateCertificate();
+    const otherIdp = generateCertificate();
+    const endpoints = {
+      entityId: 'https://crm.example.com/api/auth/saml/acme/metadata',
+      acsUrl: 'https://crm.example.com/api/auth/saml/acme/acs',
+    };
+    const config = {
+      entryPoint: 'https://idp.example.com/sso',
+      idpIssuer: 'https://idp.example.com',
+      idpCert: idp.cert,
+    };
+    let sequence = 0;
+
+    beforeEach(() => {
+      recordedMessages.clear();
+    });
+
+    // An IdP-initiated response whose assertion is signed with `key`
+    function signedResponse({
+      nameId = 'jane@example.com',
+      notOnOrAfter = new Date(Date.now() + 5 * 60 * 1000),
+      key = idp.privateKey,
+    } = {}) {
+      const now = new Date().toISOString();
+      const expires = notOnOrAfter.toISOString();
+      const assertionId = `_assertion-${++sequence}`;
+      const assertion = `<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="${assertionId}"
+    Version="2.0" IssueInstant="${now}">
+  <saml:Issuer>${config.idpIssuer}</saml:Issuer>
+  <saml:Subject>
+    <saml:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">${nameId}</saml:NameID>
+    <saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer">
+      <saml:SubjectConfirmationData NotOnOrAfter="${expires}" Recipient="${endpoints.acsUrl}"/>
+    </saml:SubjectConfirmation>
+  </saml:Subject>
+  <saml:Conditions NotBefore="${now}" NotOnOrAfter="${expires}">
+    <saml:AudienceRestriction><saml:Audience>${endpoints.entityId}</saml:Audience></saml:AudienceRestriction>
+  </saml:Conditions>
+  <saml:AuthnStatement AuthnInstant="${now}"/>
+</saml:Assertion>`;
+      const response = `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" ID="_response-${sequence}"
+    Version="2.0" IssueInstant="${now}" Destination="${endpoints.acsUrl}">
+  <saml:Issuer xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion">${config.idpIssuer}</saml:Issuer>
+  <samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>
+  ${assertion}
+</samlp:Response>`;
+
+      return signSamlPost(response, '/*/*[local-name(.)="Assertion"]', {
+        privateKey: key,
+        signatureAlgorithm: 'sha256',
+      });
+    }
+
+    const validate = (xml: string, idpCert = idp.cert) =>
+      saml.validateSamlResponse(
+        't1',
+        saml.createSamlClient('t1', saml.samlConfigSchema.parse({ ...config, idpCert }), endpoints),
+        Buffer.from(xml).toString('base64')
+      );
+
+    it('accepts an assertion signed by the configured certificate', async () => {
+      await expect(validate(signedResponse())).resolves.toMatchObject({ nameID: 'jane@example.com' });
+    });
+
+    it('rejects an assertion signed by another certificate', async () => {
+      await expect(validate(signedResponse({ key: otherIdp.privateKey }))).rejects.toThrow('Invalid signature');
+      await expect(validate(signedResponse(), otherIdp.cert)).rejects.toThrow('Invalid signature');
+    });
+
+    it('rejects an assertion altered after signing', async () => {
+      const tampered = signedResponse().replace('>jane@example.com<', '>admin@example.com<');
+      await expect(validate(tampered)).rejects.toThrow('Invalid signature');
+      expect(recordedMessages.size).toBe(0);
+    });
+
+    it('rejects an expired assertion', async () => {
+      const expired = signedResponse({ notOnOrAfter: new Date(Date.now() - 60 * 60 * 1000) });
+      await expect(validate(expired)).rejects.toThrow('SAML assertion expired');
+    });
+  });
+
+  describe('samlIdentity', () => {
+    const config = {
+      entryPoint: 'https://idp.example.com/sso',
+      idpIssuer: 'https://idp.example.com',
+      idpCert: 'MIIC',
+    };
+
+    it('maps attributes and roles onto the identity', () => {
+      const parsed = saml.samlConfigSchema.parse({ ...config, roleMapping: { crm_admins: 'Admin' } });
+      const identity = saml.samlIdentity(
+        parsed,
+        profile({ email: 'jane@example.com', firstName: 'Jane', lastName: ['Doe'], role: ['staff', 'crm_admins'] })
+      );
+
+      expect(identity).toEqual({
+        subject: 'jane',
+        email: 'jane@example.com',
+        emailVerified: true,
+        firstName: 'Jane',
+        lastName: 'Doe',
+        roleName: 'Admin',
+      });
+    });
+
+    it('falls back to an email NameID and the default role', () => {
+      const parsed = saml.samlConfigSchema.parse(config);
+      const identity = saml.samlIdentity(
+        parsed,
+        profile({ nameID: 'jane@example.com', nameIDFormat: 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress' })
+      );
+
+      expect(identity).toMatchObject({ subject: 'jane@example.com', email: 'jane@example.com', roleName: 'Sales Rep' });
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, expect, it } from '@jest/globals';
+import type { TenantPrismaClient } from '../database';
+import {
+  canAccessRecord,
+  getSharingSettings,
+  getSubordinateRoleIds,
+  isValidParentRole,
+  recordAccessFilter,
+  SharingViewer,
+} from '../sharing';
+
+const TENANT = 'tenant-a';
+
+// VP <- Manager <- Rep, and a separate Support role
+const ROLES = [
+  { id: 'vp', parentRoleId: null },
+  { id: 'manager', parentRoleId: 'vp' },
+  { id: 'rep', parentRoleId: 'manager' },
+  { id: 'support', parentRoleId: null },
+];
+
+interface Share {
+  entityType: string;
+  recordId: string;
+  userId?: string;
+  teamId?: string;
+  accessLevel: 'read' | 'read_write';
+}
+
+function fakeDb({ sharing = {}, shares = [] as Share[], records = [] as { id: string }[] } = {}) {
+  const matchesShare = (share: Share, where: { entityType: string; OR: Record<string, unknown>[]; accessLevel?: string }) =>
+    share.entityType === where.entityType &&
+    (!where.accessLevel || share.accessLevel === where.accessLevel) &&
+    where.OR.some((condition) =>
+      'userId' in condition
+        ? share.userId === condition.userId
+        : (condition.teamId as { in: string[] }).in.includes(share.teamId as string)
+    );
+
+  const queries: unknown[] = [];
+  const db = {
+    tenant: { findUnique: async () => ({ id: TENANT, settings: { sharing } }) },
+    role: {
+      findMany: async () => ROLES,
+      findUnique: async ({ where }: { where: { id: string } }) => ROLES.find((role) => role.id === where.id) ?? null,
+    },
+    teamMember: { findMany: async () => [{ teamId: 'team-1' }] },
+    recordShare: {
+      findMany: async ({ where }: { where: Parameters<typeof matchesShare>[1] }) =>
+        shares.filter((share) => matchesShare(share, where)).map((share) => ({ recordId: share.recordId })),
+    },
+    account: {
+      findFirst: async (args: { where: Record<string, unknown> }) => {
+        queries.push(args.where);
+        return records[0] ?? null;
+      },
+    },
+  };
+
+  return { db: db as unknown as TenantPrismaClient, queries };
+}
+
+function viewer(roleId: string | null, permissions: unknown = { accounts: ['read'] }): SharingViewer {
+  return { id: 'user-1', tenantId: TENANT, roleId, role: { permissions } };
+}
+
+describe('getSharingSettings', () => {
+  it('falls back to the defaults for missing or invalid settings', () => {
+    expect(getSharingSettings({ sharing: { accounts: 'private' } })).toEqual({
+      accounts: 'private',
+      contacts: 'read_write',
+      leads: 'read_write',
+      opportunities: 'read_write',
+    });
+    expect(getSharingSettings({ sharing: { accounts: 'secret' } }).accounts).toBe('read_write');
+  });
+});
+
+describe('role hierarchy', () => {
+  it('finds subordinates at any depth', async () => {
+    const { db } = fakeDb();
+
+    expect((await getSubordinateRoleIds(db, 'vp')).sort()).toEqual(['manager', 'rep']);
+    expect(await getSubordinateRoleIds(db, 'rep')).toEqual([]);
+  });
+
+  it('rejects parents that would create a cycle', async () => {
+    const { db } = fakeDb();
+
+    expect(await isValidParentRole(db, 'rep', 'support')).toBe(true);
+    expect(await isValidParentRole(db, 'vp', 'rep')).toBe(false);
+    expect(await isValidParentRole(db, 'vp', 'vp')).toBe(false);
+    expect(await isValidParentRole(db, null, 'missing')).toBe(false);
+  });
+});
+
+describe('recordAccessFilter', () => {
+  it('needs no filter when the org-wide default grants the access', async () => {
+    const { db } = fakeDb({ sharing: { accounts: 'read' } });
+
+    expect(await recordAccessFilter(db, viewer('rep'), 'accounts', 'read')).toBeNull();
+    expect(await recordAccessFilter(db, viewer('rep'), 'accounts', 'write')).not.toBeNull();
+  });
+
+  it('limits private records to owned, subordinate-owned and shared ones', async () => {
+    const { db } = fakeDb({
+      sharing: { accounts: 'private' },
+      shares: [
+        { entityType: 'accounts', recordId: 'shared-with-user', userId: 'user-1', accessLevel: 'read' },
+        { entityType: 'accounts', recordId: 'shared-with-team', teamId: 'team-1', accessLevel: 'read_write' },
+        { entityType: 'accounts', recordId: 'shared-with-other', userId: 'user-2', accessLevel: 'read_write' },
+        { entityType: 'contacts', recordId: 'other-entity', userId: 'user-1', accessLevel: 'read_write' },
+      ],
+    });
+
+    expect(await recordAccessFilter(db, viewer('manager'), 'accounts', 'read')).toEqual({
+      OR: [
+        { ownerId: 'user-1' },
+        { owner: { is: { roleId: { in: ['rep'] } } } },
+        { id: { in: ['shared-with-user', 'shared-with-team'] } },
+      ],
+    });
+  });
+
+  it('only counts read-write shares for writes', async () => {
+    const { db } = fakeDb({
+      sharing: { accounts: 'private' },
+      shares: [
+        { entityType: 'accounts', recordId: 'read-only', userId: 'user-1', accessLevel: 'read' },
+        { entityType: 'accounts', recordId: 'editable', userId: 'user-1', accessLevel: 'read_write' },
+      ],
+    });
+
+    expect(await recordAccessFilter(db, viewer('rep'), 'accounts', 'write')).toEqual({
+      OR: [{ ownerId: 'user-1' }, { id: { in: ['editable'] } }],
+    });
+  });
+
+  it('does not apply to super admins', async () => {
+    const { db } = fakeDb({ sharing: { accounts: 'private' } });
+
+    expect(await recordAccessFilter(db, viewer('vp', { '*': ['*'] }), 'accounts', 'write')).toBeNull();
+  });
+});
+
+describe('canAccessRecord', () => {
+  it('looks the record up through the access filter', async () => {
+    const { db, queries } = fakeDb({ sharing: { accounts: 'private' } });
+
+    expect(await canAccessRecord(db, viewer('rep'), 'accounts', 'account-1')).toBe(false);
+    expect(queries).toEqual([{ AND: [{ id: 'account-1' }, { OR: [{ ownerId: 'user-1' }] }] }]);
+  });
+
+  it('finds visible records without a filter', async () => {
+    const { db, queries } = fakeDb({ records: [{ id: 'account-1' }] });
+
+    expect(await canAccessRecord(db, viewer('rep'), 'accounts', 'account-1', 'write')).toBe(true);
+    expect(queries).toEqual([{ id: 'account-1' }]);
+  });
+});
@@ -0,0 +1,128 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+interface FakeUser {
+  id: string;
+  email: string;
+  ssoId: string | null;
+  roleId: string | null;
+  isActive: boolean;
+  isServiceAccount: boolean;
+}
+
+const users: FakeUser[] = [];
+const roles = [{ id: 'role-admin', name: 'Admin' }, { id: 'role-rep', name: 'Sales Rep' }];
+
+// Enough of the tenant client for provisioning
+jest.mock('../database', () => ({
+  forTenant: () => ({
+    role: {
+      findFirst: async ({ where }: { where: { name: string } }) => roles.find((role) => role.name === where.name) ?? null,
+    },
+    user: {
+      findFirst: async ({ where }: { where: { ssoId?: string; email?: { equals: string } } }) =>
+        users.find((user) =>
+          where.ssoId !== undefined
+            ? user.ssoId === where.ssoId
+            : user.email.toLowerCase() === where.email!.equals.toLowerCase()
+        ) ?? null,
+      update: async ({ where, data }: { where: { id: string }; data: Partial<FakeUser> }) =>
+        Object.assign(users.find((user) => user.id === where.id)!, data),
+      create: async ({ data }: { data: Partial<FakeUser> }) => {
+        const user = { id: `user-${users.length + 1}`, isActive: true, isServiceAccount: false, ...data } as FakeUser;
+        users.push(user);
+        return user;
+      },
+    },
+  }),
+}));
+
+const OPTIONS = { allowJitProvisioning: true, syncRoleOnLogin: false, requireVerifiedEmail: true };
+
+describe('sso', () => {
+  let sso: typeof import('../sso');
+
+  beforeAll(async () => {
+    sso = await import('../sso');
+  });
+
+  describe('sanitizeReturnTo', () => {
+    it('keeps same-site paths', () => {
+      expect(sso.sanitizeReturnTo('/accounts?view=mine')).toBe('/accounts?view=mine');
+    });
+
+    it.each([null, '', 'https://evil.com', '//evil.com', '/\\evil.com', '/\t/evil.com', 'javascript:alert(1)'])(
+      'sends %p to the dashboard',
+      (returnTo) => {
+        expect(sso.sanitizeReturnTo(returnTo)).toBe('/dashboard');
+      }
+    );
+  });
+
+  describe('mapRoleName', () => {
+    it('uses the first mapped value, else the default role', () => {
+      const mapping = { admins: 'Admin', sales: 'Sales Rep' };
+
+      expect(sso.mapRoleName(mapping, ['staff', 'admins', 'sales'], 'Viewer')).toBe('Admin');
+      expect(sso.mapRoleName(mapping, 'sales', 'Viewer')).toBe('Sales Rep');
+      expect(sso.mapRoleName(mapping, undefined, 'Viewer')).toBe('Viewer');
+    });
+  });
+
+  describe('provisionSsoUser', () => {
+    const identity = {
+      subject: 'idp-subject-1',
+      email: 'Jane@Example.com',
+      emailVerified: true,
+      firstName: 'Jane',
+      lastName: 'Doe',
+      roleName: 'Admin',
+    };
+
+    beforeEach(() => {
+      users.length = 0;
+    });
+
+    it('finds a linked user by subject and syncs the role only when asked', async () => {
+      users.push({ id: 'u1', email: 'other@example.com', ssoId: 'idp-subject-1', roleId: 'role-rep', isActive: true, isServiceAccount: false });
+
+      expect(await sso.provisionSsoUser('t1', identity, OPTIONS)).toEqual({ userId: 'u1', outcome: 'existing' });
+      expect(users[0].roleId).toBe('role-rep');
+
+      await sso.provisionSsoUser('t1', identity, { ...OPTIONS, syncRoleOnLogin: true });
+      expect(users[0].roleId).toBe('role-admin');
+    });
+
+    it('links an existing account by verified email', async () => {
+      users.push({ id: 'u1', email: 'jane@example.com', ssoId: null, roleId: null, isActive: true, isServiceAccount: false });
+
+      expect(await sso.provisionSsoUser('t1', identity, OPTIONS)).toEqual({ userId: 'u1', outcome: 'linked' });
+      expect(users[0].ssoId).toBe('idp-subject-1');
+    });
+
+    it('refuses to link by an unverified email', async () => {
+      users.push({ id: 'u1', email: 'jane@example.com', ssoId: null, roleId: null, isActive: true, isServiceAccount: false });
+
+      await expect(sso.provisionSsoUser('t1', { ...identity, emailVerified: false }, OPTIONS)).rejects.toThrow(
+        'Email address is not verified by the identity provider'
+      );
+      expect(users[0].ssoId).toBeNull();
+    });
+
+    it('refuses disabled accounts', async () => {
+      users.push({ id: 'u1', email: 'jane@example.com', ssoId: 'idp-subject-1', roleId: null, isActive: false, isServiceAccount: false });
+
+      await expect(sso.provisionSsoUser('t1', identity, OPTIONS)).rejects.toThrow('User account is disabled');
+    });
+
+    it('creates the user just in time only when the tenant allows it', async () => {
+      await expect(sso.provisionSsoUser('t1', identity, { ...OPTIONS, allowJitProvisioning: false })).rejects.toThrow(
+        'No account exists for this identity'
+      );
+
+      const result = await sso.provisionSsoUser('t1', identity, OPTIONS);
+
+      expect(result.outcome).toBe('provisioned');
+      expect(users[0]).toMatchObject({ email: 'jane@example.com', ssoId: 'idp-subject-1', roleId: 'role-admin' });
+    });
+  });
+});
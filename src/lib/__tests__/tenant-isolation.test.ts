@@ -0,0 +1,225 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { scopeTenantArgs, tenantIsolation, tenantReferences, TenantIsolationError } from '../tenant-isolation';
+
+const TENANT = 'tenant-a';
+const OTHER_TENANT = 'tenant-b';
+
+describe('scopeTenantArgs', () => {
+  describe('reads', () => {
+    it('adds the tenant to the where clause', () => {
+      const scoped = scopeTenantArgs('Account', 'findMany', { where: { isActive: true } }, TENANT);
+
+      expect(scoped.where).toEqual({ isActive: true, tenantId: TENANT });
+    });
+
+    it('scopes unique lookups and queries without a where clause', () => {
+      expect(scopeTenantArgs('Account', 'findUnique', { where: { id: 'a1' } }, TENANT).where).toEqual({
+        id: 'a1',
+        tenantId: TENANT,
+      });
+      expect(scopeTenantArgs('Account', 'count', {}, TENANT).where).toEqual({ tenantId: TENANT });
+    });
+
+    it('scopes included list relations and filtered counts', () => {
+      const scoped = scopeTenantArgs(
+        'Account',
+        'findMany',
+        {
+          include: {
+            owner: true,
+            contacts: { where: { isActive: true }, include: { convertedFromLeads: true } },
+            _count: { select: { opportunities: true } },
+          },
+        },
+        TENANT
+      );
+
+      expect(scoped.include).toEqual({
+        owner: true,
+        contacts: {
+          where: { isActive: true, tenantId: TENANT },
+          include: { convertedFromLeads: { where: { tenantId: TENANT } } },
+        },
+        _count: { select: { opportunities: { where: { tenantId: TENANT } } } },
+      });
+    });
+
+    it('only exposes the current tenant record', () => {
+      expect(scopeTenantArgs('Tenant', 'findUnique', { where: {} }, TENANT).where).toEqual({ id: TENANT });
+      expect(() => scopeTenantArgs('Tenant', 'findUnique', { where: { id: OTHER_TENANT } }, TENANT)).toThrow(
+        TenantIsolationError
+      );
+    });
+  });
+
+  describe('writes', () => {
+    it('sets the tenant on created records', () => {
+      const scoped = scopeTenantArgs('Account', 'create', { data: { name: 'Acme' } }, TENANT);
+
+      expect(scoped.data).toEqual({ name: 'Acme', tenantId: TENANT });
+    });
+
+    it('sets the tenant on every record of a createMany', () => {
+      const scoped = scopeTenantArgs('Note', 'createMany', { data: [{ content: 'a' }, { content: 'b' }] }, TENANT);
+
+      expect(scoped.data).toEqual([
+        { content: 'a', tenantId: TENANT },
+        { content: 'b', tenantId: TENANT },
+      ]);
+    });
+
+    it('scopes nested creates, connects and updates', () => {
+      const scoped = scopeTenantArgs(
+        'Team',
+        'update',
+        {
+          where: { id: 't1' },
+          data: {
+            name: 'Sales',
+            members: {
+              create: [{ userId: 'u1' }],
+              createMany: { data: [{ userId: 'u2' }] },
+              deleteMany: {},
+              updateMany: { where: { userId: 'u3' }, data: {} },
+            },
+          },
+        },
+        TENANT
+      );
+
+      expect(scoped.where).toEqual({ id: 't1', tenantId: TENANT });
+      expect(scoped.data).toEqual({
+        name: 'Sales',
+        members: {
+          create: [{ userId: 'u1', tenantId: TENANT }],
+          createMany: { data: [{ userId: 'u2', tenantId: TENANT }] },
+          deleteMany: { tenantId: TENANT },
+          updateMany: { where: { userId: 'u3', tenantId: TENANT }, data: {} },
+        },
+      });
+    });
+
+    it('does not move records to another tenant on update', () => {
+      const scoped = scopeTenantArgs('Account', 'update', { where: { id: 'a1' }, data: { name: 'Acme' } }, TENANT);
+
+      expect(scoped.data).toEqual({ name: 'Acme' });
+      expect(() =>
+        scopeTenantArgs('Account', 'update', { where: { id: 'a1' }, data: { tenantId: OTHER_TENANT } }, TENANT)
+      ).toThrow(TenantIsolationError);
+    });
+  });
+
+  describe('cross-tenant queries', () => {
+    it('rejects reads that name another tenant', () => {
+      expect(() => scopeTenantArgs('Account', 'findMany', { where: { tenantId: OTHER_TENANT } }, TENANT)).toThrow(
+        TenantIsolationError
+      );
+    });
+
+    it('rejects creates for another tenant, including nested ones', () => {
+      expect(() =>
+        scopeTenantArgs('Account', 'create', { data: { name: 'Acme', tenantId: OTHER_TENANT } }, TENANT)
+      ).toThrow(TenantIsolationError);
+      expect(() =>
+        scopeTenantArgs(
+          'Team',
+          'create',
+          { data: { name: 'Sales', members: { create: { userId: 'u1', tenantId: OTHER_TENANT } } } },
+          TENANT
+        )
+      ).toThrow(TenantIsolationError);
+    });
+
+    it('rejects nested writes to the tenant itself', () => {
+      expect(() =>
+        scopeTenantArgs('Account', 'create', { data: { name: 'Acme', tenant: { connect: { id: OTHER_TENANT } } } }, TENANT)
+      ).toThrow(TenantIsolationError);
+    });
+
+    it('rejects creating or deleting tenants', () => {
+      expect(() => scopeTenantArgs('Tenant', 'create', { data: { name: 'Other' } }, TENANT)).toThrow(
+        TenantIsolationError
+      );
+      expect(() => scopeTenantArgs('Tenant', 'delete', { where: { id: TENANT } }, TENANT)).toThrow(
+        TenantIsolationError
+      );
+    });
+
+    it('requires a tenant and a supported operation', () => {
+      expect(() => scopeTenantArgs('Account', 'findMany', {}, '')).toThrow(TenantIsolationError);
+      expect(() => scopeTenantArgs('Account', 'findRaw', {}, TENANT)).toThrow(TenantIsolationError);
+    });
+  });
+});
+
+describe('tenantReferences', () => {
+  it('collects scalar foreign keys by the field they reference', () => {
+    const references = tenantReferences(
+      'Account',
+      'create',
+      { data: { name: 'Acme', ownerId: 'u1', parentAccountId: 'a1', tenantId: TENANT } },
+    );
+
+    expect(references).toEqual(
+      new Map([
+        ['User.id', new Set(['u1'])],
+        ['Account.id', new Set(['a1'])],
+      ])
+    );
+  });
+
+  it('collects foreign keys of nested writes and set updates', () => {
+    expect(
+      tenantReferences('Team', 'create', { data: { name: 'Sales', members: { create: [{ userId: 'u1' }, { userId: 'u2' }] } } })
+    ).toEqual(new Map([['User.id', new Set(['u1', 'u2'])]]));
+
+    expect(tenantReferences('Account', 'update', { where: { id: 'a1' }, data: { ownerId: { set: 'u3' } } })).toEqual(
+      new Map([['User.id', new Set(['u3'])]])
+    );
+  });
+
+  it('ignores reads and cleared foreign keys', () => {
+    expect(tenantReferences('Account', 'findMany', { where: { ownerId: 'u1' } }).size).toBe(0);
+    expect(tenantReferences('Account', 'update', { data: { parentAccountId: null } }).size).toBe(0);
+  });
+});
+
+describe('tenantIsolation', () => {
+  type Operation = (params: {
+    model: string;
+    operation: string;
+    args: Record<string, unknown>;
+    query: (args: Record<string, unknown>) => Promise<unknown>;
+  }) => Promise<unknown>;
+
+  // The extension applied to a client whose users exist in the tenant `found` times
+  function extension(found: number) {
+    const count = jest.fn(async () => found);
+    const client = { user: { count }, $extends: (definition: unknown) => definition };
+    const definition = (tenantIsolation(TENANT) as unknown as (client: unknown) => {
+      query: { $allModels: { $allOperations: Operation } };
+    })(client);
+
+    return { run: definition.query.$allModels.$allOperations, count };
+  }
+
+  it('writes records whose foreign keys belong to the tenant', async () => {
+    const { run, count } = extension(1);
+    const query = jest.fn(async (args: Record<string, unknown>) => args);
+
+    await run({ model: 'Account', operation: 'create', args: { data: { name: 'Acme', ownerId: 'u1' } }, query });
+
+    expect(count).toHaveBeenCalledWith({ where: { id: { in: ['u1'] }, tenantId: TENANT } });
+    expect(query).toHaveBeenCalledWith({ data: { name: 'Acme', ownerId: 'u1', tenantId: TENANT } });
+  });
+
+  it("refuses to point a foreign key at another tenant's record", async () => {
+    const { run } = extension(0);
+    const query = jest.fn(async (args: Record<string, unknown>) => args);
+
+    await expect(
+      run({ model: 'Account', operation: 'create', args: { data: { name: 'Acme', ownerId: 'foreign-user' } }, query })
+    ).rejects.toThrow(TenantIsolationError);
+    expect(query).not.toHaveBeenCalled();
+  });
+});
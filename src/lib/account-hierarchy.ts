@@ -0,0 +1,303 @@
+// Account hierarchy - parent/child trees built from Account.parentAccountId,
+// cycle-safe moves and roll-up metrics across a subtree
+import { Prisma } from '@prisma/client';
+import { withTenantContext, TenantPrismaClient } from './database';
+import { redactFields } from './field-security';
+import { fieldAccess, RolePermissions } from './permissions';
+import { recordAccessFilter, SharingViewer } from './sharing';
+
+// Guards every walk of the hierarchy against corrupt data (a cycle written
+// before moves were checked) and runaway depth
+export const MAX_HIERARCHY_DEPTH = 25;
+
+export interface AccountTreeNode {
+  id: string;
+  parentAccountId: string | null;
+  // Null for accounts the viewer may not read: they keep their place in the
+  // tree so its shape is right, but nothing about them is shown
+  name: string | null;
+  accountType: string | null;
+  industry: string | null;
+  restricted: boolean;
+  children: AccountTreeNode[];
+}
+
+export interface HierarchyRollup {
+  accounts: number;
+  openPipeline: number | null;
+  wonRevenue: number | null;
+  contacts: number;
+  employees: number | null;
+}
+
+type AccountLink = { id: string; parentAccountId: string | null };
+
+// The account's ancestors, nearest first. Trees stop at a deleted ancestor;
+// cycle checks walk through it, since it may be restored later.
+async function getAncestorIds(
+  db: TenantPrismaClient,
+  accountId: string,
+  { activeOnly }: { activeOnly: boolean }
+): Promise<string[]> {
+  const ancestors: string[] = [];
+  const start = await db.account.findFirst({ where: { id: accountId }, select: { parentAccountId: true } });
+  let parentId = start?.parentAccountId ?? null;
+
+  while (parentId && parentId !== accountId && !ancestors.includes(parentId)) {
+    if (ancestors.length >= MAX_HIERARCHY_DEPTH) break;
+    const parent = await db.account.findFirst({
+      where: { id: parentId, ...(activeOnly ? { isActive: true } : {}) },
+      select: { parentAccountId: true },
+    });
+    if (!parent) break;
+
+    ancestors.push(parentId);
+    parentId = parent.parentAccountId;
+  }
+
+  return ancestors;
+}
+
+// Active accounts below the given one at any depth, loaded one level at a time
+async function getDescendantLinks(db: TenantPrismaClient, accountId: string): Promise<AccountLink[]> {
+  const descendants: AccountLink[] = [];
+  const seen = new Set([accountId]);
+  let frontier = [accountId];
+
+  for (let depth = 0; frontier.length > 0 && depth < MAX_HIERARCHY_DEPTH; depth++) {
+    const children = await db.account.findMany({
+      where: { parentAccountId: { in: frontier }, isActive: true },
+      select: { id: true, parentAccountId: true },
+    });
+
+    frontier = [];
+    for (const child of children) {
+      if (seen.has(child.id)) continue;
+      seen.add(child.id);
+      descendants.push(child);
+      frontier.push(child.id);
+    }
+  }
+
+  return descendants;
+}
+
+export async function getSubtreeAccountIds(db: TenantPrismaClient, accountId: string): Promise<string[]> {
+  return [accountId, ...(await getDescendantLinks(db, accountId)).map((link) => link.id)];
+}
+
+type LockedAccount = AccountLink & { isActive: boolean };
+
+// Lock account rows until the transaction ends, in id order so that two
+// transactions locking the same accounts cannot deadlock
+async function lockAccounts(tx: Prisma.TransactionClient, tenantId: string, ids: string[]): Promise<LockedAccount[]> {
+  return tx.$queryRaw<LockedAccount[]>`
+    SELECT id, parent_account_id AS "parentAccountId", is_active AS "isActive"
+    FROM accounts
+    WHERE tenant_id = ${tenantId}::uuid AND id = ANY(${ids}::uuid[])
+    ORDER BY id
+    FOR UPDATE
+  `;
+}
+
+// Levels below the account: 0 for an account without children
+async function subtreeHeight(tx: Prisma.TransactionClient, tenantId: string, accountId: string): Promise<number> {
+  const seen = new Set([accountId]);
+  let frontier = [accountId];
+  let height = 0;
+
+  while (height < MAX_HIERARCHY_DEPTH) {
+    const children = await tx.account.findMany({
+      where: { tenantId, parentAccountId: { in: frontier }, isActive: true },
+      select: { id: true },
+    });
+    frontier = children.map((child) => child.id).filter((id) => !seen.has(id));
+    if (frontier.length === 0) break;
+
+    frontier.forEach((id) => seen.add(id));
+    height++;
+  }
+
+  return height;
+}
+
+// A parent is valid if it exists, is not the account itself or one of its
+// descendants (which would create a cycle) and leaves the account's whole
+// subtree within the maximum depth. Every row of the parent's ancestor chain
+// is locked as it is read, so the chain cannot change before the caller's
+// transaction commits; a concurrent move of any of them waits for it.
+async function isValidParentAccount(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  accountId: string,
+  parentAccountId: string
+): Promise<boolean> {
+  if (parentAccountId === accountId) {
+    return false;
+  }
+
+  const [parent] = await lockAccounts(tx, tenantId, [parentAccountId]);
+  if (!parent?.isActive) {
+    return false;
+  }
+
+  // Deleted ancestors count: they may be restored later
+  const parentAncestors: string[] = [];
+  let nextId = parent.parentAccountId;
+  while (nextId && !parentAncestors.includes(nextId)) {
+    if (nextId === accountId || parentAncestors.length >= MAX_HIERARCHY_DEPTH) return false;
+    parentAncestors.push(nextId);
+    const [ancestor] = await lockAccounts(tx, tenantId, [nextId]);
+    nextId = ancestor?.parentAccountId ?? null;
+  }
+
+  const height = await subtreeHeight(tx, tenantId, accountId);
+  return parentAncestors.length + 2 + height <= MAX_HIERARCHY_DEPTH;
+}
+
+export type AccountUpdateResult = 'updated' | 'conflict' | 'invalid_parent';
+
+// Apply changes to an account, checking a new parent in the same transaction
+// as the write. The account and the parent are locked first, so two moves
+// that would close a cycle between them (A under B, B under A) run one after
+// the other and the second sees the first. The update only applies to the
+// version read as `current`.
+export async function updateAccountHierarchy(
+  tenantId: string,
+  current: { id: string; updatedAt: Date },
+  data: Prisma.AccountUncheckedUpdateManyInput
+): Promise<AccountUpdateResult> {
+  return withTenantContext(tenantId, async (tx) => {
+    const parentAccountId = typeof data.parentAccountId === 'string' ? data.parentAccountId : null;
+    const locked = await lockAccounts(tx, tenantId, parentAccountId ? [current.id, parentAccountId] : [current.id]);
+    const account = locked.find((row) => row.id === current.id);
+
+    if (
+      account &&
+      parentAccountId &&
+      parentAccountId !== account.parentAccountId &&
+      !(await isValidParentAccount(tx, tenantId, current.id, parentAccountId))
+    ) {
+      return 'invalid_parent';
+    }
+
+    const { count } = await tx.account.updateMany({
+      where: { tenantId, id: current.id, updatedAt: current.updatedAt },
+      data,
+    });
+    return count === 1 ? 'updated' : 'conflict';
+  });
+}
+
+// Whether any of `accountIds` is above the account, at any depth
+export async function hasAncestorIn(db: TenantPrismaClient, accountId: string, accountIds: string[]): Promise<boolean> {
+  const ancestors = await getAncestorIds(db, accountId, { activeOnly: false });
+  return ancestors.some((id) => accountIds.includes(id));
+}
+
+// The whole tree the account belongs to, from its top-most ancestor down
+export async function getAccountTree(
+  db: TenantPrismaClient,
+  viewer: SharingViewer,
+  accountId: string
+): Promise<{ root: AccountTreeNode; path: string[] }> {
+  const ancestors = await getAncestorIds(db, accountId, { activeOnly: true });
+  const rootId = ancestors.length > 0 ? ancestors[ancestors.length - 1] : accountId;
+  const ids = await getSubtreeAccountIds(db, rootId);
+
+  const visibility = await recordAccessFilter(db, viewer, 'accounts');
+  const accounts = await db.account.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, parentAccountId: true, name: true, accountType: true, industry: true },
+  });
+  const visible = visibility
+    ? new Set<string>(
+        (await db.account.findMany({ where: { AND: [{ id: { in: ids } }, visibility] }, select: { id: true } })).map(
+          (account) => account.id
+        )
+      )
+    : null;
+
+  const nodes = new Map<string, AccountTreeNode>();
+  for (const account of accounts) {
+    const restricted = !!visible && !visible.has(account.id);
+    const fields = restricted
+      ? { name: null, accountType: null, industry: null }
+      : redactFields(viewer.role?.permissions, 'accounts', {
+          name: account.name,
+          accountType: account.accountType,
+          industry: account.industry,
+        });
+
+    nodes.set(account.id, {
+      id: account.id,
+      parentAccountId: account.parentAccountId,
+      name: fields.name ?? null,
+      accountType: fields.accountType ?? null,
+      industry: fields.industry ?? null,
+      restricted,
+      children: [],
+    });
+  }
+
+  for (const node of nodes.values()) {
+    if (node.id !== rootId && node.parentAccountId) {
+      nodes.get(node.parentAccountId)?.children.push(node);
+    }
+  }
+  for (const node of nodes.values()) {
+    node.children.sort((a, b) => (a.name || '').localeCompare(b.name || ''));
+  }
+
+  return { root: nodes.get(rootId) as AccountTreeNode, path: [...ancestors].reverse().concat(accountId) };
+}
+
+// Totals across the account and everything below it, over the records the
+// viewer may read. Amounts and head counts the viewer's role hides are null.
+export async function getHierarchyRollup(
+  db: TenantPrismaClient,
+  viewer: SharingViewer,
+  accountId: string
+): Promise<HierarchyRollup> {
+  const permissions = viewer.role?.permissions as RolePermissions | undefined;
+  const ids = await getSubtreeAccountIds(db, accountId);
+
+  const [accountVisibility, contactVisibility, opportunityVisibility] = await Promise.all([
+    recordAccessFilter(db, viewer, 'accounts'),
+    recordAccessFilter(db, viewer, 'contacts'),
+    recordAccessFilter(db, viewer, 'opportunities'),
+  ]);
+
+  const accountWhere = { id: { in: ids }, isActive: true, ...(accountVisibility ? { AND: [accountVisibility] } : {}) };
+  const opportunityWhere = {
+    accountId: { in: ids },
+    isActive: true,
+    ...(opportunityVisibility ? { AND: [opportunityVisibility] } : {}),
+  };
+  const amountHidden = fieldAccess(permissions, 'opportunities', 'amount') === 'hidden';
+
+  const [accounts, openPipeline, wonRevenue, contacts] = await Promise.all([
+    db.account.aggregate({ where: accountWhere, _count: { _all: true }, _sum: { employeeCount: true } }),
+    amountHidden
+      ? null
+      : db.opportunity.aggregate({
+          where: { ...opportunityWhere, stage: { isClosedWon: false, isClosedLost: false } },
+          _sum: { amount: true },
+        }),
+    amountHidden
+      ? null
+      : db.opportunity.aggregate({ where: { ...opportunityWhere, stage: { isClosedWon: true } }, _sum: { amount: true } }),
+    db.contact.count({
+      where: { accountId: { in: ids }, isActive: true, ...(contactVisibility ? { AND: [contactVisibility] } : {}) },
+    }),
+  ]);
+
+  return {
+    accounts: accounts._count._all,
+    openPipeline: openPipeline ? Number(openPipeline._sum.amount ?? 0) : null,
+    wonRevenue: wonRevenue ? Number(wonRevenue._sum.amount ?? 0) : null,
+    contacts,
+    employees:
+      fieldAccess(permissions, 'accounts', 'employeeCount') === 'hidden' ? null : accounts._sum.employeeCount ?? 0,
+  };
+}
@@ -0,0 +1,40 @@
+// Accounts - request schemas and query shapes shared by the accounts API routes
+import { z } from 'zod';
+
+export const accountSchema = z.object({
+  name: z.string().min(1, 'Account name is required'),
+  website: z.string().url().optional().or(z.literal('')),
+  industry: z.string().optional(),
+  accountType: z.enum(['prospect', 'customer', 'partner']).default('prospect'),
+  revenue: z.number().optional(),
+  employeeCount: z.number().optional(),
+  addressLine1: z.string().optional(),
+  addressLine2: z.string().optional(),
+  city: z.string().optional(),
+  state: z.string().optional(),
+  postalCode: z.string().optional(),
+  country: z.string().optional(),
+  phone: z.string().optional(),
+  ownerId: z.string().optional(),
+  parentAccountId: z.string().optional(),
+  customFields: z.record(z.any()).default({}),
+  tags: z.array(z.string()).default([]),
+});
+
+// Only the fields present are changed (defaults do not apply); customFields
+// keys are merged into the stored ones. updatedAt is the version the client
+// edited, for the optimistic concurrency check.
+export const updateAccountSchema = accountSchema
+  .partial()
+  .extend({ updatedAt: z.string().datetime().optional() })
+  .refine((data) => Object.keys(data).some((key) => key !== 'updatedAt'), 'No fields to update');
+
+export const ACCOUNT_OWNER_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+} as const;
+
+// Activities are linked polymorphically through parentType/parentId
+export const ACCOUNT_ACTIVITY_LIMIT = 50;
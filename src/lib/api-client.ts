@@ -0,0 +1,43 @@
+// Browser API client - sends auth cookies and the CSRF header, refreshing once on 401
+const CSRF_TOKEN_COOKIE = 'csrf_token';
+const CSRF_HEADER = 'x-csrf-token';
+
+export function getCsrfToken(): string | null {
+  const match = document.cookie
+    .split('; ')
+    .find((cookie) => cookie.startsWith(`${CSRF_TOKEN_COOKIE}=`));
+  return match ? decodeURIComponent(match.split('=')[1]) : null;
+}
+
+async function send(input: string, init: RequestInit): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const method = (init.method || 'GET').toUpperCase();
+
+  if (!['GET', 'HEAD', 'OPTIONS'].includes(method)) {
+    const csrfToken = getCsrfToken();
+    if (csrfToken) headers.set(CSRF_HEADER, csrfToken);
+  }
+
+  // Multipart uploads need the browser to set the boundary itself
+  if (init.body && !(init.body instanceof FormData) && !headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  return fetch(input, { ...init, headers, credentials: 'same-origin' });
+}
+
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const response = await send(input, init);
+
+  if (response.status !== 401 || input.startsWith('/api/auth/')) {
+    return response;
+  }
+
+  // The access token may have expired; rotate the refresh cookie and retry once
+  const refresh = await send('/api/auth/refresh', { method: 'POST' });
+  if (!refresh.ok) {
+    return response;
+  }
+
+  return send(input, init);
+}
@@ -0,0 +1,161 @@
+// API keys - long-lived credentials for integrations, scoped to a subset of the
+// owner's permissions and optionally restricted to known client addresses
+import crypto from 'crypto';
+import { z } from 'zod';
+import { toAuthUser, AuthUser } from './auth';
+import { isValidIpRule, matchesIpRules } from './client-ip';
+import { forTenant, withSystemContext } from './database';
+import { intersectPermissions, permissionsSchema, ungrantedPermissions, RolePermissions } from './permissions';
+
+export const API_KEY_PREFIX = 'crm_';
+export const API_KEY_BLOCKED = 'Not allowed with an API key';
+
+// Characters of the key kept in clear so users can tell their keys apart
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// lastUsedAt is only rewritten this often, so busy keys don't write on every call
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const apiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: permissionsSchema,
+  allowedIps: z
+    .array(z.string().trim().refine(isValidIpRule, 'Invalid IP address or CIDR range'))
+    .max(50)
+    .default([]),
+  expiresInDays: z.number().int().min(1).max(365).default(90),
+});
+
+export type ApiKeyInput = z.input<typeof apiKeySchema>;
+
+export class ApiKeyError extends Error {
+  constructor(message: string, public readonly details?: string[]) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+// Fields safe to return to clients; the hash never leaves the server
+export const API_KEY_SELECT = {
+  id: true,
+  userId: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  allowedIps: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdById: true,
+  createdAt: true,
+} as const;
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+// A key restricted to addresses is refused when the client address is unknown
+function isAllowedIp(ipAddress: string | undefined, rules: string[]): boolean {
+  if (rules.length === 0) return true;
+  return !!ipAddress && matchesIpRules(ipAddress, rules);
+}
+
+// Issue a key for `ownerId`. The plaintext key is only returned here; scopes
+// must stay within what the owner's role grants.
+export async function createApiKey(
+  tenantId: string,
+  ownerId: string,
+  input: ApiKeyInput,
+  createdById?: string
+) {
+  const data = apiKeySchema.parse(input);
+  const db = forTenant(tenantId);
+
+  const owner = await db.user.findFirst({ where: { id: ownerId, isActive: true }, include: { role: true } });
+  if (!owner) {
+    throw new ApiKeyError('User not found');
+  }
+
+  const ungranted = ungrantedPermissions(owner.role?.permissions as RolePermissions | undefined, data.scopes);
+  if (ungranted.length > 0) {
+    throw new ApiKeyError('Scopes exceed the permissions of the key owner', ungranted);
+  }
+
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  const apiKey = await db.apiKey.create({
+    data: {
+      userId: ownerId,
+      name: data.name,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashApiKey(key),
+      scopes: data.scopes,
+      allowedIps: data.allowedIps,
+      expiresAt: new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000),
+      createdById,
+    },
+    select: API_KEY_SELECT,
+  });
+
+  return { apiKey, key };
+}
+
+// Resolve a presented key to its owner, given the client address from clientIp.
+// The returned user only holds the permissions both the key's scopes and the
+// owner's current role grant.
+export async function authenticateApiKey(key: string, ipAddress?: string): Promise<AuthUser | null> {
+  const apiKey = await withSystemContext((tx) =>
+    tx.apiKey.findUnique({
+      where: { keyHash: hashApiKey(key) },
+      include: { user: { include: { role: true, tenant: true } } },
+    })
+  );
+
+  const now = new Date();
+  if (
+    !apiKey ||
+    apiKey.revokedAt ||
+    apiKey.expiresAt < now ||
+    !apiKey.user.isActive ||
+    !apiKey.user.tenant.isActive ||
+    !isAllowedIp(ipAddress, apiKey.allowedIps)
+  ) {
+    return null;
+  }
+
+  const ip = ipAddress || null;
+  if (
+    !apiKey.lastUsedAt ||
+    now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS ||
+    apiKey.lastUsedIp !== ip
+  ) {
+    await forTenant(apiKey.tenantId).apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: now, lastUsedIp: ip },
+    });
+  }
+
+  const owner = toAuthUser(apiKey.user);
+  return {
+    ...owner,
+    role: owner.role && {
+      ...owner.role,
+      permissions: intersectPermissions(
+        owner.role.permissions as RolePermissions,
+        apiKey.scopes as RolePermissions
+      ),
+    },
+    apiKeyId: apiKey.id,
+  };
+}
+
+export async function revokeApiKey(tenantId: string, apiKeyId: string): Promise<void> {
+  await forTenant(tenantId).apiKey.updateMany({
+    where: { id: apiKeyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
@@ -1,16 +1,33 @@
 // Authentication and authorization utilities
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { prisma } from './database';
+import { z } from 'zod';
+import { isBreachedPassword } from './breached-passwords';
+import { forTenant, withSystemContext, createAuditLog } from './database';
+import { isMfaRequired } from './mfa';
+import { grants } from './permissions';
+import { signJwt, verifyJwt } from './signing-keys';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '24h';
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+export const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+const CHALLENGE_EXPIRES_IN = '5m';
 
 export interface TokenPayload {
   userId: string;
   tenantId: string;
   roleId: string;
   email: string;
+  sessionId: string;
+  // Set on impersonation sessions: the Super Admin acting as userId
+  impersonatorId?: string;
+}
+
+export interface Impersonator {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
 }
 
 export interface AuthUser {
@@ -25,6 +42,80 @@ export interface AuthUser {
     name: string;
     permissions: any;
   } | null;
+  sessionId?: string;
+  impersonator?: Impersonator | null;
+  // Set when the request authenticated with an API key rather than a session
+  apiKeyId?: string;
+}
+
+// User rows as loaded for authentication
+export type UserWithRole = Prisma.UserGetPayload<{ include: { role: true } }>;
+type LoginUser = Prisma.UserGetPayload<{ include: { role: true; tenant: true } }>;
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// How the login request identifies its tenant (see authenticateUser)
+export interface TenantHint {
+  slug?: string;
+  host?: string;
+}
+
+export interface TenantOption {
+  id: string;
+  name: string;
+  slug: string | null;
+}
+
+interface TenantCandidate {
+  userId: string;
+  tenantId: string;
+}
+
+export type AuthenticationResult =
+  | ({ status: 'authenticated'; user: AuthUser } & AuthTokens)
+  | {
+      status: 'mfa_required' | 'mfa_enrollment_required';
+      user: AuthUser;
+      challengeToken: string;
+    }
+  | {
+      // Set by an admin, or the password is past the tenant's maximum age
+      status: 'password_change_required';
+      reason: PasswordChangeReason;
+      user: AuthUser;
+      challengeToken: string;
+    }
+  | {
+      status: 'tenant_selection_required';
+      tenants: TenantOption[];
+      challengeToken: string;
+    }
+  | { status: 'tenant_inactive' | 'password_login_disabled' }
+  | {
+      // Wrong password: the accounts it was tried against and the tenant named
+      // by the request, so the failure can be audited in the right tenant
+      status: 'invalid_credentials';
+      accounts: { tenantId: string; userId: string }[];
+      tenantId?: string;
+    };
+
+export type PasswordChangeReason = 'required' | 'expired';
+
+export type ChallengePurpose = 'mfa_verify' | 'mfa_enroll' | 'password_change';
+
+export interface ChallengePayload {
+  userId: string;
+  tenantId: string;
+  purpose: ChallengePurpose;
 }
 
 // Hash password
@@ -43,50 +134,252 @@ export async function verifyPassword(
 
 // Generate JWT token
 export function generateToken(payload: TokenPayload): string {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
+  return signJwt(payload, JWT_EXPIRES_IN);
 }
 
 // Verify JWT token
 export function verifyToken(token: string): TokenPayload {
   try {
-    return jwt.verify(token, JWT_SECRET) as TokenPayload;
+    return verifyJwt<TokenPayload>(token);
   } catch (error) {
     throw new Error('Invalid or expired token');
   }
 }
 
 // Authenticate user by email and password
+// Active users with this email in the tenant named by the hint (slug, else host),
+// or in every tenant when the hint names none. Used by login and password reset.
+export async function findLoginUsers(email: string, hint: TenantHint = {}) {
+  return withSystemContext(async (tx) => {
+    let hintedTenant = null;
+
+    if (hint.slug) {
+      hintedTenant = await tx.tenant.findUnique({ where: { slug: hint.slug } });
+    } else if (hint.host) {
+      hintedTenant = await tx.tenant.findUnique({
+        where: { domain: hint.host.split(':')[0].toLowerCase() },
+      });
+    }
+
+    // An explicit slug that matches no tenant matches no users either
+    if (hint.slug && !hintedTenant) {
+      return { users: [], hintedTenantId: undefined };
+    }
+
+    const candidates = await tx.user.findMany({
+      where: {
+        email,
+        isActive: true,
+        isServiceAccount: false,
+        ...(hintedTenant ? { tenantId: hintedTenant.id } : {}),
+      },
+      include: {
+        role: true,
+        tenant: true,
+      },
+    });
+
+    return { users: candidates, hintedTenantId: hintedTenant?.id };
+  });
+}
+
+// The same email can belong to users in several tenants. The tenant comes from
+// an explicit slug, else from the request host matching Tenant.domain, else
+// from whichever tenants the credentials are valid in (asking the user to pick
+// when there is more than one). A valid password alone only completes the
+// login when no second factor is needed; otherwise a short-lived challenge
+// token is returned for the MFA step.
 export async function authenticateUser(
   email: string,
-  password: string
-): Promise<{ user: AuthUser; token: string } | null> {
-  const user = await prisma.user.findFirst({
-    where: {
-      email,
-      isActive: true,
-    },
-    include: {
-      role: true,
-      tenant: true,
-    },
-  });
+  password: string,
+  context: SessionContext = {},
+  hint: TenantHint = {}
+): Promise<AuthenticationResult> {
+  const { users, hintedTenantId } = await findLoginUsers(email, hint);
+
+  const matches = [];
+  for (const user of users) {
+    if (user.passwordHash && (await verifyPassword(password, user.passwordHash))) {
+      matches.push(user);
+    }
+  }
+
+  if (matches.length === 0) {
+    return {
+      status: 'invalid_credentials',
+      accounts: users.map((user) => ({ tenantId: user.tenantId, userId: user.id })),
+      tenantId: hintedTenantId,
+    };
+  }
+
+  // Only reveal that a tenant is inactive once the password has been verified
+  const activeTenants = matches.filter((user) => user.tenant.isActive);
+  if (activeTenants.length === 0) {
+    return { status: 'tenant_inactive' };
+  }
+
+  const active = activeTenants.filter((user) => isPasswordLoginEnabled(user.tenant.settings));
+  if (active.length === 0) {
+    return { status: 'password_login_disabled' };
+  }
+
+  if (active.length > 1) {
+    return {
+      status: 'tenant_selection_required',
+      tenants: active.map((user) => ({
+        id: user.tenant.id,
+        name: user.tenant.name,
+        slug: user.tenant.slug,
+      })),
+      challengeToken: generateTenantSelectionToken(
+        active.map((user) => ({ userId: user.id, tenantId: user.tenantId }))
+      ),
+    };
+  }
 
-  if (!user || !user.passwordHash) {
+  return beginLogin(active[0], context);
+}
+
+// Tenants using single sign-on can turn off passwords (Tenant.settings.auth.passwordLogin)
+export function isPasswordLoginEnabled(tenantSettings: unknown): boolean {
+  const settings = tenantSettings as { auth?: { passwordLogin?: boolean } } | null;
+  return settings?.auth?.passwordLogin !== false;
+}
+
+// Continue a login after the user picked one of several matching tenants
+export async function selectLoginTenant(
+  challengeToken: string,
+  tenantId: string,
+  context: SessionContext = {}
+): Promise<AuthenticationResult | null> {
+  const candidates = verifyTenantSelectionToken(challengeToken);
+  const candidate = candidates.find((option) => option.tenantId === tenantId);
+
+  if (!candidate) {
     return null;
   }
 
-  const isPasswordValid = await verifyPassword(password, user.passwordHash);
-  if (!isPasswordValid) {
+  const user = await forTenant(tenantId).user.findFirst({
+    where: { id: candidate.userId, isActive: true },
+    include: { role: true, tenant: true },
+  });
+
+  if (!user) {
     return null;
   }
 
+  if (!user.tenant.isActive) {
+    return { status: 'tenant_inactive' };
+  }
+
+  if (!isPasswordLoginEnabled(user.tenant.settings)) {
+    return { status: 'password_login_disabled' };
+  }
+
+  return beginLogin(user, context);
+}
+
+// Decide whether the verified user still needs a second factor
+async function beginLogin(user: LoginUser, context: SessionContext): Promise<AuthenticationResult> {
+  const authUser = toAuthUser(user);
+
+  if (user.mfaEnabled) {
+    return {
+      status: 'mfa_required',
+      user: authUser,
+      challengeToken: generateChallengeToken({
+        userId: user.id,
+        tenantId: user.tenantId,
+        purpose: 'mfa_verify',
+      }),
+    };
+  }
+
+  if (isMfaRequired(user.tenant.settings, user.role?.name)) {
+    return {
+      status: 'mfa_enrollment_required',
+      user: authUser,
+      challengeToken: generateChallengeToken({
+        userId: user.id,
+        tenantId: user.tenantId,
+        purpose: 'mfa_enroll',
+      }),
+    };
+  }
+
+  const passwordChange = passwordChangeReason(user);
+  if (passwordChange) {
+    return passwordChangeChallenge(authUser, passwordChange);
+  }
+
+  return completeLogin(user.tenantId, user.id, context);
+}
+
+// Why the user must pick a new password before a session is issued, if at all
+function passwordChangeReason(user: {
+  mustChangePassword: boolean;
+  passwordHash: string | null;
+  passwordChangedAt: Date | null;
+  createdAt: Date;
+  tenant: { settings: unknown };
+}): PasswordChangeReason | null {
+  if (user.mustChangePassword) return 'required';
+  if (isPasswordExpired(user, getPasswordPolicy(user.tenant.settings))) return 'expired';
+  return null;
+}
+
+// Forced password change: no session until a new password is set
+function passwordChangeChallenge(user: AuthUser, reason: PasswordChangeReason): AuthenticationResult {
+  return {
+    status: 'password_change_required',
+    reason,
+    user,
+    challengeToken: generateChallengeToken({
+      userId: user.id,
+      tenantId: user.tenantId,
+      purpose: 'password_change',
+    }),
+  };
+}
+
+// After a second factor is verified, check for a pending forced or expired password change
+export async function requirePasswordChange(
+  tenantId: string,
+  userId: string
+): Promise<AuthenticationResult | null> {
+  const user = await forTenant(tenantId).user.findUnique({
+    where: { id: userId },
+    include: { role: true, tenant: true },
+  });
+
+  const reason = user ? passwordChangeReason(user) : null;
+  return user && reason ? passwordChangeChallenge(toAuthUser(user), reason) : null;
+}
+
+// Finish a login once every required factor has been verified
+export async function completeLogin(
+  tenantId: string,
+  userId: string,
+  context: SessionContext = {}
+): Promise<{ status: 'authenticated'; user: AuthUser } & AuthTokens> {
   // Update last login
-  await prisma.user.update({
-    where: { id: user.id },
+  const user = await forTenant(tenantId).user.update({
+    where: { id: userId },
     data: { lastLogin: new Date() },
+    include: { role: true },
   });
 
-  const authUser: AuthUser = {
+  const { sessionId, ...tokens } = await createSession(user, context);
+
+  return {
+    status: 'authenticated',
+    user: { ...toAuthUser(user), sessionId },
+    ...tokens,
+  };
+}
+
+export function toAuthUser(user: UserWithRole): AuthUser {
+  return {
     id: user.id,
     email: user.email,
     firstName: user.firstName,
@@ -95,29 +388,70 @@ export async function authenticateUser(
     roleId: user.roleId,
     role: user.role,
   };
+}
 
-  const tokenPayload: TokenPayload = {
-    userId: user.id,
-    tenantId: user.tenantId,
-    roleId: user.roleId || '',
-    email: user.email,
-  };
+// Challenge tokens carry a half-finished login between login steps. They have
+// no session, so getUserByToken never accepts them.
+export function signChallenge(claims: object): string {
+  return signJwt({ ...claims, typ: 'challenge' }, CHALLENGE_EXPIRES_IN);
+}
+
+export function verifyChallenge<T>(token: string, purpose: string): T {
+  try {
+    const payload = verifyJwt<{ typ?: string; purpose?: string }>(token);
+    if (payload.typ !== 'challenge' || payload.purpose !== purpose) {
+      throw new Error('Wrong token type');
+    }
+
+    return payload as T;
+  } catch {
+    throw new Error('Invalid or expired challenge');
+  }
+}
 
-  const token = generateToken(tokenPayload);
+export function generateChallengeToken(payload: ChallengePayload): string {
+  return signChallenge(payload);
+}
+
+export function verifyChallengeToken(token: string, purpose: ChallengePurpose): ChallengePayload {
+  const payload = verifyChallenge<ChallengePayload>(token, purpose);
+  return { userId: payload.userId, tenantId: payload.tenantId, purpose: payload.purpose };
+}
 
-  return { user: authUser, token };
+// The tenant picker token lists the users the password was verified for
+function generateTenantSelectionToken(candidates: TenantCandidate[]): string {
+  return signChallenge({ purpose: 'tenant_select', candidates });
+}
+
+function verifyTenantSelectionToken(token: string): TenantCandidate[] {
+  return verifyChallenge<{ candidates: TenantCandidate[] }>(token, 'tenant_select').candidates;
 }
 
 // Get user by token
 export async function getUserByToken(token: string): Promise<AuthUser | null> {
   try {
     const payload = verifyToken(token);
-    
-    const user = await prisma.user.findFirst({
+    if (!payload.sessionId) {
+      return null;
+    }
+
+    // The session must still be live; rotated sessions keep their access
+    // tokens valid until expiry, revoked or expired ones (such as an ended
+    // impersonation) do not
+    const db = forTenant(payload.tenantId);
+    const user = await db.user.findFirst({
       where: {
         id: payload.userId,
-        tenantId: payload.tenantId,
         isActive: true,
+        tenant: { isActive: true },
+        sessions: {
+          some: {
+            id: payload.sessionId,
+            revokedAt: null,
+            expiresAt: { gt: new Date() },
+            impersonatorId: payload.impersonatorId ?? null,
+          },
+        },
       },
       include: {
         role: true,
@@ -128,6 +462,18 @@ export async function getUserByToken(token: string): Promise<AuthUser | null> {
       return null;
     }
 
+    // An impersonation ends as soon as the real user is deactivated
+    const impersonator = payload.impersonatorId
+      ? await db.user.findFirst({
+          where: { id: payload.impersonatorId, isActive: true },
+          select: { id: true, email: true, firstName: true, lastName: true },
+        })
+      : null;
+
+    if (payload.impersonatorId && !impersonator) {
+      return null;
+    }
+
     return {
       id: user.id,
       email: user.email,
@@ -136,12 +482,182 @@ export async function getUserByToken(token: string): Promise<AuthUser | null> {
       tenantId: user.tenantId,
       roleId: user.roleId,
       role: user.role,
+      sessionId: payload.sessionId,
+      impersonator,
     };
   } catch (error) {
     return null;
   }
 }
 
+// Session management (refresh tokens)
+// A login starts a session family. Each refresh rotates the current session and
+// issues a successor in the same family; replaying a rotated refresh token is
+// treated as theft and revokes the whole family.
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+interface SessionUser {
+  id: string;
+  tenantId: string;
+  roleId: string | null;
+  email: string;
+}
+
+async function issueTokens(
+  user: SessionUser,
+  familyId: string,
+  expiresAt: Date,
+  context: SessionContext,
+  impersonatorId: string | null = null
+): Promise<AuthTokens & { sessionId: string }> {
+  const refreshToken = crypto.randomBytes(32).toString('base64url');
+
+  const session = await forTenant(user.tenantId).session.create({
+    data: {
+      userId: user.id,
+      familyId,
+      refreshTokenHash: hashToken(refreshToken),
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      expiresAt,
+      impersonatorId,
+    },
+  });
+
+  const token = generateToken({
+    userId: user.id,
+    tenantId: user.tenantId,
+    roleId: user.roleId || '',
+    email: user.email,
+    sessionId: session.id,
+    ...(impersonatorId ? { impersonatorId } : {}),
+  });
+
+  return { token, refreshToken, expiresIn: JWT_EXPIRES_IN, sessionId: session.id };
+}
+
+// Start a new session family for a user. Impersonation sessions record the
+// real user and end at the given time instead of the refresh token TTL.
+export async function createSession(
+  user: SessionUser,
+  context: SessionContext = {},
+  impersonation?: { impersonatorId: string; expiresAt: Date }
+): Promise<AuthTokens & { sessionId: string }> {
+  const expiresAt =
+    impersonation?.expiresAt ?? new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+  return issueTokens(user, crypto.randomUUID(), expiresAt, context, impersonation?.impersonatorId ?? null);
+}
+
+// Exchange a refresh token for a new token pair
+export async function refreshSession(
+  refreshToken: string,
+  context: SessionContext = {}
+): Promise<AuthTokens | null> {
+  // The tenant is unknown until the token is resolved
+  const session = await withSystemContext((tx) =>
+    tx.session.findUnique({
+      where: { refreshTokenHash: hashToken(refreshToken) },
+      include: { user: { include: { tenant: true } } },
+    })
+  );
+
+  if (!session || session.revokedAt) {
+    return null;
+  }
+
+  if (session.rotatedAt) {
+    await revokeSessionFamily(session.tenantId, session.familyId, 'reuse_detected');
+    await createAuditLog({
+      tenantId: session.tenantId,
+      userId: session.userId,
+      action: 'TOKEN_REUSE_DETECTED',
+      resourceType: 'session',
+      resourceId: session.id,
+      afterData: { familyId: session.familyId },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    });
+    return null;
+  }
+
+  if (session.expiresAt <= new Date() || !session.user.isActive || !session.user.tenant.isActive) {
+    return null;
+  }
+
+  // Claim the session atomically so two concurrent refreshes cannot both rotate it
+  const now = new Date();
+  const { count } = await forTenant(session.tenantId).session.updateMany({
+    where: { id: session.id, rotatedAt: null, revokedAt: null },
+    data: { rotatedAt: now, lastUsedAt: now },
+  });
+
+  if (count === 0) {
+    await revokeSessionFamily(session.tenantId, session.familyId, 'reuse_detected');
+    return null;
+  }
+
+  const { token, refreshToken: nextRefreshToken, expiresIn } = await issueTokens(
+    session.user,
+    session.familyId,
+    session.expiresAt,
+    context,
+    session.impersonatorId
+  );
+  return { token, refreshToken: nextRefreshToken, expiresIn };
+}
+
+// Revoke every session in a token family (logout of one device)
+export async function revokeSessionFamily(
+  tenantId: string,
+  familyId: string,
+  reason: string
+): Promise<number> {
+  const { count } = await forTenant(tenantId).session.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return count;
+}
+
+// Revoke the family a session belongs to
+export async function revokeSession(
+  tenantId: string,
+  sessionId: string,
+  reason: string = 'logout'
+): Promise<number> {
+  const session = await forTenant(tenantId).session.findUnique({
+    where: { id: sessionId },
+    select: { familyId: true },
+  });
+
+  if (!session) {
+    return 0;
+  }
+
+  return revokeSessionFamily(tenantId, session.familyId, reason);
+}
+
+// Revoke all of a user's sessions (sign out all devices)
+export async function revokeAllUserSessions(
+  tenantId: string,
+  userId: string,
+  reason: string = 'logout_all',
+  exceptSessionId?: string
+): Promise<number> {
+  const { count } = await forTenant(tenantId).session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return count;
+}
+
 // Role-based access control helpers
 export interface Permission {
   resource: string;
@@ -153,18 +669,8 @@ export function hasPermission(
   resource: string,
   action: string
 ): boolean {
-  if (!userPermissions) return false;
-
-  // Super admin has all permissions
-  if (userPermissions['*'] && userPermissions['*'].includes('*')) {
-    return true;
-  }
-
-  // Check specific resource permissions
-  const resourcePermissions = userPermissions[resource];
-  if (!resourcePermissions) return false;
-
-  return resourcePermissions.includes(action) || resourcePermissions.includes('*');
+  // Wildcards: { '*': ['*'] } is a super admin, '*' actions cover a whole resource
+  return grants(userPermissions, resource, action);
 }
 
 // Check if user can access specific resource
@@ -183,21 +689,23 @@ export interface AuthenticatedRequest {
 }
 
 // Default permissions for system roles
+// Exporting whole lists is left to administrators and managers; reps can
+// still read and work the same records one at a time
 export const DEFAULT_PERMISSIONS = {
   'Super Admin': { '*': ['*'] },
   'Admin': {
     users: ['read', 'write'],
-    accounts: ['read', 'write'],
-    contacts: ['read', 'write'],
-    leads: ['read', 'write'],
+    accounts: ['read', 'write', 'export'],
+    contacts: ['read', 'write', 'export'],
+    leads: ['read', 'write', 'export'],
     opportunities: ['read', 'write'],
     reports: ['read'],
     settings: ['read', 'write'],
   },
   'Sales Manager': {
-    accounts: ['read', 'write'],
-    contacts: ['read', 'write'],
-    leads: ['read', 'write'],
+    accounts: ['read', 'write', 'export'],
+    contacts: ['read', 'write', 'export'],
+    leads: ['read', 'write', 'export'],
     opportunities: ['read', 'write'],
     activities: ['read', 'write'],
     tasks: ['read', 'write'],
@@ -242,24 +750,29 @@ export async function createDefaultRoles(tenantId: string): Promise<void> {
     },
   ];
 
+  const db = forTenant(tenantId);
   for (const roleData of roles) {
-    await prisma.role.create({
-      data: {
-        tenantId,
-        ...roleData,
-      },
+    await db.role.create({
+      data: roleData,
     });
   }
 }
 
-// Password policy validation
-export interface PasswordPolicy {
-  minLength: number;
-  requireUppercase: boolean;
-  requireLowercase: boolean;
-  requireNumbers: boolean;
-  requireSpecialChars: boolean;
-}
+// Password policy, stored per tenant in Tenant.settings.passwordPolicy
+export const passwordPolicySchema = z.object({
+  minLength: z.number().int().min(8).max(128),
+  requireUppercase: z.boolean(),
+  requireLowercase: z.boolean(),
+  requireNumbers: z.boolean(),
+  requireSpecialChars: z.boolean(),
+  // Number of previous passwords that may not be reused (0 disables the check)
+  historyDepth: z.number().int().min(0).max(24),
+  // Days before a password must be changed at next login (0 = never expires)
+  maxAgeDays: z.number().int().min(0).max(365),
+  checkBreached: z.boolean(),
+});
+
+export type PasswordPolicy = z.infer<typeof passwordPolicySchema>;
 
 export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
   minLength: 8,
@@ -267,8 +780,32 @@ export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
   requireLowercase: true,
   requireNumbers: true,
   requireSpecialChars: true,
+  historyDepth: 0,
+  maxAgeDays: 0,
+  checkBreached: true,
 };
 
+// Missing fields fall back to the defaults; an invalid stored policy is ignored
+export function getPasswordPolicy(tenantSettings: unknown): PasswordPolicy {
+  const stored = (tenantSettings as { passwordPolicy?: Partial<PasswordPolicy> } | null)?.passwordPolicy;
+  const parsed = passwordPolicySchema.safeParse({ ...DEFAULT_PASSWORD_POLICY, ...stored });
+
+  return parsed.success ? parsed.data : DEFAULT_PASSWORD_POLICY;
+}
+
+// Whether the password is older than the policy's maximum age
+export function isPasswordExpired(
+  user: { passwordHash: string | null; passwordChangedAt: Date | null; createdAt: Date },
+  policy: PasswordPolicy
+): boolean {
+  if (!user.passwordHash || policy.maxAgeDays === 0) {
+    return false;
+  }
+
+  const changedAt = user.passwordChangedAt ?? user.createdAt;
+  return changedAt.getTime() + policy.maxAgeDays * 24 * 60 * 60 * 1000 < Date.now();
+}
+
 export function validatePassword(
   password: string,
   policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
@@ -295,6 +832,10 @@ export function validatePassword(
     errors.push('Password must contain at least one special character');
   }
 
+  if (policy.checkBreached && isBreachedPassword(password)) {
+    errors.push('Password appears in a list of breached passwords; choose a different one');
+  }
+
   return {
     isValid: errors.length === 0,
     errors,
@@ -0,0 +1,37 @@
+// Breached passwords - bundled list of passwords common in public breach corpora.
+// Matching is case-insensitive, so variants that only differ in capitalisation
+// (e.g. "Password1!" and "password1!") are rejected alike.
+const BREACHED_PASSWORDS = new Set([
+  '000000', '111111', '112233', '121212', '123123', '123321', '1234', '12345', '123456',
+  '1234567', '12345678', '123456789', '1234567890', '123456a', '123456a!', '123qwe',
+  '123qwe!', '1q2w3e', '1q2w3e4r', '1q2w3e4r!', '1q2w3e4r5t', '1qaz2wsx', '1qaz2wsx!',
+  '1qaz@wsx', '1qaz!qaz', '2wsx3edc', '654321', '666666', '696969', '7777777', '888888',
+  '987654321', 'aa123456', 'abc123', 'abc123!', 'abc12345', 'abcd1234', 'abcd1234!',
+  'access', 'access123!', 'admin', 'admin1', 'admin123', 'admin123!', 'admin@123',
+  'administrator', 'baseball', 'baseball1!', 'batman', 'charlie', 'charlie1!', 'dragon',
+  'dragon1!', 'football', 'football1!', 'freedom', 'letmein', 'letmein1!', 'letmein123!',
+  'login', 'master', 'master123!', 'michael', 'monkey', 'monkey123!', 'mustang', 'p@55w0rd',
+  'p@ssw0rd', 'p@ssw0rd!', 'p@ssw0rd1', 'p@ssw0rd1!', 'p@ssw0rd123', 'p@ssword1',
+  'p@ssword123', 'pass123', 'pass@123', 'pass@word1', 'passw0rd', 'passw0rd!', 'passw0rd1',
+  'password', 'password!', 'password1', 'password1!', 'password12', 'password12!',
+  'password123', 'password123!', 'password1234', 'password@1', 'password@123',
+  'password#1', 'password$1', 'princess', 'princess1!', 'qazwsx', 'qazwsx123!', 'qwe123',
+  'qwe123!', 'qwer1234', 'qwer1234!', 'qwerty', 'qwerty1', 'qwerty1!', 'qwerty12',
+  'qwerty123', 'qwerty123!', 'qwerty@123', 'qwertyuiop', 'shadow', 'shadow1!', 'spring2024!',
+  'spring2025!', 'summer2024!', 'summer2025!', 'sunshine', 'sunshine1!', 'superman',
+  'superman1!', 'test123', 'test123!', 'test@123', 'trustno1', 'trustno1!', 'welcome',
+  'welcome1', 'welcome1!', 'welcome123', 'welcome123!', 'welcome@1', 'welcome@123',
+  'winter2024!', 'winter2025!', 'autumn2024!', 'autumn2025!', 'zaq12wsx', 'zaq1@wsx',
+  'zaq1zaq1', 'iloveyou', 'iloveyou1!', 'changeme', 'changeme1!', 'changeme123!', 'secret',
+  'secret123!', 'starwars', 'starwars1!', 'whatever', 'whatever1!', 'computer',
+  'computer1!', 'hello123', 'hello123!', 'soccer', 'soccer1!', 'killer', 'jordan23',
+  'hunter2', 'hunter123!', 'ashley', 'jessica', 'pokemon', 'cheese', 'buster', 'ginger',
+  'hockey', 'ranger', 'thomas', 'robert', 'daniel', 'andrew', 'harley', 'jennifer',
+  'matthew', 'tigger', 'yankees', 'corvette', 'maverick', 'liverpool', 'chelsea',
+  'arsenal', 'company1!', 'company123!', 'crm12345!', 'default', 'default1!', 'guest',
+  'guest123!', 'root', 'root123!', 'toor', 'temp123!', 'temporary1!', 'user123!',
+]);
+
+export function isBreachedPassword(password: string): boolean {
+  return BREACHED_PASSWORDS.has(password.toLowerCase());
+}
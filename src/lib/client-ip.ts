@@ -0,0 +1,104 @@
+// Client IP - the caller's address as reported by the reverse proxies in front
+// of the app. Each proxy appends the address it received the request from to
+// X-Forwarded-For, so only the entries our own proxies added can be believed:
+// the header is read from the right, skipping TRUSTED_PROXIES, and the first
+// other address is the client. Anything further left was sent by the client.
+import net from 'net';
+
+// A single IPv4/IPv6 address or a CIDR range
+export function isValidIpRule(rule: string): boolean {
+  const [address, bits, ...rest] = rule.split('/');
+  const family = net.isIP(address);
+  if (!family || rest.length > 0) return false;
+  if (bits === undefined) return true;
+
+  const prefix = Number(bits);
+  return /^\d+$/.test(bits) && prefix <= (family === 4 ? 32 : 128);
+}
+
+function ipRuleList(rules: string[]): net.BlockList {
+  const list = new net.BlockList();
+  for (const rule of rules) {
+    const [address, bits] = rule.split('/');
+    const type = net.isIP(address) === 6 ? 'ipv6' : 'ipv4';
+    if (bits === undefined) {
+      list.addAddress(address, type);
+    } else {
+      list.addSubnet(address, Number(bits), type);
+    }
+  }
+
+  return list;
+}
+
+// Whether an address matches any of the given addresses or CIDR ranges
+export function matchesIpRules(ip: string, rules: string[]): boolean {
+  const family = net.isIP(ip);
+  return !!family && ipRuleList(rules).check(ip, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Header values may carry a port or IPv6 brackets, and IPv4 clients of a dual
+// stack proxy show up as IPv4-mapped IPv6
+function parseAddress(value: string): string | undefined {
+  let address = value.trim();
+
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(address);
+  if (bracketed) {
+    address = bracketed[1];
+  } else if (/^[\d.]+:\d+$/.test(address)) {
+    address = address.slice(0, address.lastIndexOf(':'));
+  }
+
+  const mapped = /^::ffff:([\d.]+)$/i.exec(address);
+  if (mapped && net.isIP(mapped[1]) === 4) {
+    address = mapped[1];
+  }
+
+  return net.isIP(address) ? address : undefined;
+}
+
+// TRUSTED_PROXIES: comma separated addresses or CIDR ranges of proxies that
+// forward to other proxies in front of the app. The proxy nearest the app is
+// always believed, since its entry is the rightmost one.
+export function trustedProxies(): string[] {
+  const rules = (process.env.TRUSTED_PROXIES || '')
+    .split(',')
+    .map((rule) => rule.trim())
+    .filter(Boolean);
+
+  const invalid = rules.filter((rule) => !isValidIpRule(rule));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid TRUSTED_PROXIES entries: ${invalid.join(', ')}`);
+  }
+
+  return rules;
+}
+
+// Called at server startup
+export function assertTrustedProxiesConfigured(): void {
+  trustedProxies();
+}
+
+// The client address of a request, or undefined when none can be determined
+export function clientIp(headers: Headers, proxies: string[] = trustedProxies()): string | undefined {
+  const hops = (headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+
+  for (let index = hops.length - 1; index >= 0; index--) {
+    const ip = parseAddress(hops[index]);
+
+    // A malformed hop was not written by one of our proxies, so nothing to its left can be believed
+    if (!ip) return undefined;
+    if (!matchesIpRules(ip, proxies)) return ip;
+  }
+
+  // Every forwarded hop is one of our proxies
+  if (hops.length > 0) {
+    return parseAddress(hops[0]);
+  }
+
+  const realIp = headers.get('x-real-ip');
+  return realIp ? parseAddress(realIp) : undefined;
+}
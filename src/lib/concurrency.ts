@@ -0,0 +1,26 @@
+// Optimistic concurrency - records carry a version derived from updatedAt,
+// sent as an ETag; writes naming an older version are rejected with 409
+import { NextRequest } from 'next/server';
+
+export interface VersionedRecord {
+  id: string;
+  updatedAt: Date;
+}
+
+export function recordEtag(record: VersionedRecord): string {
+  return `"${record.id}:${record.updatedAt.getTime()}"`;
+}
+
+// A write is stale when the client names the version it edited, through
+// If-Match or an updatedAt in the body, and the record has moved on since.
+// Clients that name no version are not checked.
+export function isStaleWrite(request: NextRequest, record: VersionedRecord, updatedAt?: string): boolean {
+  const ifMatch = request.headers.get('if-match');
+  if (ifMatch && ifMatch !== '*') {
+    const current = recordEtag(record);
+    const matches = ifMatch.split(',').some((tag) => tag.trim().replace(/^W\//, '') === current);
+    if (!matches) return true;
+  }
+
+  return !!updatedAt && new Date(updatedAt).getTime() !== record.updatedAt.getTime();
+}
@@ -0,0 +1,18 @@
+// Contacts - request schemas shared by the routes that create contacts
+import { z } from 'zod';
+
+export const contactSchema = z.object({
+  firstName: z.string().min(1, 'First name is required'),
+  lastName: z.string().min(1, 'Last name is required'),
+  email: z.string().email().optional().or(z.literal('')),
+  phone: z.string().optional(),
+  mobile: z.string().optional(),
+  title: z.string().optional(),
+  department: z.string().optional(),
+  linkedinUrl: z.string().url().optional().or(z.literal('')),
+  accountId: z.string().uuid().optional(),
+  ownerId: z.string().optional(),
+  leadSource: z.string().optional(),
+  customFields: z.record(z.any()).default({}),
+  tags: z.array(z.string()).default([]),
+});
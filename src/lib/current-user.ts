@@ -0,0 +1,24 @@
+// Current user for server components, from the session cookie. Pages behind the
+// middleware always have one; the lookup runs at most once per request.
+import { cache } from 'react';
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { getUserByToken, AuthUser } from './auth';
+import { ACCESS_TOKEN_COOKIE } from './request-auth';
+import { LOGIN_PATH } from './route-access';
+
+export const getCurrentUser = cache(async (): Promise<AuthUser | null> => {
+  const token = (await cookies()).get(ACCESS_TOKEN_COOKIE)?.value;
+  return token ? getUserByToken(token) : null;
+});
+
+// For pages that cannot render without a user, in case the session ended
+// between the middleware check and rendering
+export async function requireCurrentUser(): Promise<AuthUser> {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(LOGIN_PATH);
+  }
+
+  return user;
+}
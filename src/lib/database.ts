@@ -1,10 +1,14 @@
 // Database configuration and utilities
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { readableFields, redactFields } from './field-security';
+import { recordAccessFilter, SharingEntity, SharingViewer } from './sharing';
+import { tenantIsolation } from './tenant-isolation';
 
 // Global database instance to prevent multiple connections in development
 declare global {
   // eslint-disable-next-line no-var
   var prisma: PrismaClient | undefined;
+  var systemPrisma: PrismaClient | undefined;
 }
 
 export const prisma =
@@ -20,6 +24,35 @@ export const prisma =
 
 if (process.env.NODE_ENV !== 'production') globalThis.prisma = prisma;
 
+// Cross-tenant access connects as a separate role with BYPASSRLS
+// (database/migrations/017_system_role.sql), so nothing that runs on the
+// application's connection can switch row-level security off. Outside
+// production the application's own database URL is used when none is set.
+function systemDatabaseUrl(): string {
+  const url = process.env.SYSTEM_DATABASE_URL;
+  if (!url && process.env.NODE_ENV === 'production') {
+    throw new Error('SYSTEM_DATABASE_URL is not configured');
+  }
+
+  return url || process.env.DATABASE_URL || 'postgresql://localhost:5432/crm_dev';
+}
+
+function systemClient(): PrismaClient {
+  if (!globalThis.systemPrisma) {
+    globalThis.systemPrisma = new PrismaClient({
+      log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
+      datasources: { db: { url: systemDatabaseUrl() } },
+    });
+  }
+
+  return globalThis.systemPrisma;
+}
+
+// Called at server startup: production refuses to run without the system connection
+export function assertSystemDatabaseConfigured(): void {
+  systemDatabaseUrl();
+}
+
 // Database connection health check
 export async function checkDatabaseConnection(): Promise<boolean> {
   try {
@@ -31,28 +64,64 @@ export async function checkDatabaseConnection(): Promise<boolean> {
   }
 }
 
-// Multi-tenant query helper
-export function withTenantFilter<T extends { tenantId: string }>(
-  tenantId: string,
-  baseQuery: any
-): any {
-  return {
-    ...baseQuery,
-    where: {
-      ...baseQuery.where,
-      tenantId,
+// Row-level security context (database/migrations/001_row_level_security.sql).
+// Each query runs in a transaction that first sets app.current_tenant_id, so
+// Postgres only exposes the tenant's rows even if the query itself is wrong.
+function rowLevelSecurity(tenantId: string) {
+  return Prisma.defineExtension({
+    name: 'row-level-security',
+    query: {
+      $allModels: {
+        async $allOperations({ args, query }) {
+          const [, result] = await prisma.$transaction([
+            prisma.$executeRaw`SELECT set_config('app.current_tenant_id', ${tenantId}, TRUE)`,
+            query(args),
+          ]);
+          return result;
+        },
+      },
     },
-  };
+  });
+}
+
+// Tenant-scoped client: every model query is bound to the given tenant and
+// queries referencing another tenant are rejected with a TenantIsolationError.
+// Row-level security is applied first so the isolation layer's foreign key
+// lookups run in the tenant's context.
+export function forTenant(tenantId: string) {
+  return prisma.$extends(rowLevelSecurity(tenantId)).$extends(tenantIsolation(tenantId));
+}
+
+export type TenantPrismaClient = ReturnType<typeof forTenant>;
+
+// Run raw SQL or several statements inside one transaction with the tenant's
+// row-level security context set
+export async function withTenantContext<T>(
+  tenantId: string,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.$executeRaw`SELECT set_config('app.current_tenant_id', ${tenantId}, TRUE)`;
+    return fn(tx);
+  });
+}
+
+// Cross-tenant system access (e.g. resolving a user before the tenant is known).
+// Runs on the system connection, which row-level security does not apply to,
+// so use sparingly.
+export async function withSystemContext<T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  return systemClient().$transaction((tx: Prisma.TransactionClient) => fn(tx));
 }
 
-// Soft delete helper
+// Soft delete helper (expects a model delegate from forTenant)
 export async function softDelete(
   model: any,
-  id: string,
-  tenantId: string
+  id: string
 ): Promise<void> {
   await model.update({
-    where: { id, tenantId },
+    where: { id },
     data: { isActive: false },
   });
 }
@@ -75,10 +144,10 @@ export interface PaginatedResult<T> {
   };
 }
 
+// Expects a model delegate from forTenant, which supplies the tenant filter
 export async function paginate<T>(
   model: any,
-  params: PaginationParams & { where?: any; include?: any; orderBy?: any },
-  tenantId: string
+  params: PaginationParams & { where?: any; include?: any; orderBy?: any }
 ): Promise<PaginatedResult<T>> {
   const page = params.page || 1;
   const limit = Math.min(params.limit || 10, 100); // Max 100 items per page
@@ -86,7 +155,6 @@ export async function paginate<T>(
 
   const where = {
     ...params.where,
-    tenantId,
     isActive: true,
   };
 
@@ -116,24 +184,34 @@ export async function paginate<T>(
   };
 }
 
-// Search helper for global search functionality
+// Search helper for global search functionality. Results are limited to the
+// records the viewer may read under the tenant's sharing rules, and fields
+// hidden from the viewer's role are neither searched nor returned.
 export async function globalSearch(
-  tenantId: string,
+  viewer: SharingViewer,
   query: string,
   entities: string[] = ['accounts', 'contacts', 'leads', 'opportunities']
 ): Promise<any> {
+  const db = forTenant(viewer.tenantId);
   const results: any = {};
 
+  const visible = async (entity: SharingEntity) => {
+    const filter = await recordAccessFilter(db, viewer, entity);
+    return filter ? [filter] : [];
+  };
+
+  const permissions = viewer.role?.permissions;
+  const matching = (entity: SharingEntity, fields: string[]) =>
+    readableFields(permissions, entity, fields).map((field) => ({
+      [field]: { contains: query, mode: 'insensitive' },
+    }));
+
   if (entities.includes('accounts')) {
-    results.accounts = await prisma.account.findMany({
+    results.accounts = await db.account.findMany({
       where: {
-        tenantId,
         isActive: true,
-        OR: [
-          { name: { contains: query, mode: 'insensitive' } },
-          { website: { contains: query, mode: 'insensitive' } },
-          { industry: { contains: query, mode: 'insensitive' } },
-        ],
+        AND: await visible('accounts'),
+        OR: matching('accounts', ['name', 'website', 'industry']),
       },
       take: 5,
       select: {
@@ -146,16 +224,11 @@ export async function globalSearch(
   }
 
   if (entities.includes('contacts')) {
-    results.contacts = await prisma.contact.findMany({
+    results.contacts = await db.contact.findMany({
       where: {
-        tenantId,
         isActive: true,
-        OR: [
-          { firstName: { contains: query, mode: 'insensitive' } },
-          { lastName: { contains: query, mode: 'insensitive' } },
-          { email: { contains: query, mode: 'insensitive' } },
-          { title: { contains: query, mode: 'insensitive' } },
-        ],
+        AND: await visible('contacts'),
+        OR: matching('contacts', ['firstName', 'lastName', 'email', 'title']),
       },
       take: 5,
       select: {
@@ -170,16 +243,12 @@ export async function globalSearch(
   }
 
   if (entities.includes('leads')) {
-    results.leads = await prisma.lead.findMany({
+    results.leads = await db.lead.findMany({
       where: {
-        tenantId,
+        isActive: true,
         isConverted: false,
-        OR: [
-          { firstName: { contains: query, mode: 'insensitive' } },
-          { lastName: { contains: query, mode: 'insensitive' } },
-          { email: { contains: query, mode: 'insensitive' } },
-          { company: { contains: query, mode: 'insensitive' } },
-        ],
+        AND: await visible('leads'),
+        OR: matching('leads', ['firstName', 'lastName', 'email', 'company']),
       },
       take: 5,
       select: {
@@ -194,10 +263,10 @@ export async function globalSearch(
   }
 
   if (entities.includes('opportunities')) {
-    results.opportunities = await prisma.opportunity.findMany({
+    results.opportunities = await db.opportunity.findMany({
       where: {
-        tenantId,
         isActive: true,
+        AND: await visible('opportunities'),
         name: { contains: query, mode: 'insensitive' },
       },
       take: 5,
@@ -211,9 +280,17 @@ export async function globalSearch(
     });
   }
 
+  for (const entity of Object.keys(results) as SharingEntity[]) {
+    results[entity] = redactFields(permissions, entity, results[entity]);
+  }
+
   return results;
 }
 
+// Reserved inactive tenant (database/migrations/006_login_throttling.sql) that
+// holds audit events which cannot be attributed to a tenant
+export const SYSTEM_TENANT_ID = '00000000-0000-0000-0000-000000000000';
+
 // Audit logging helper
 export async function createAuditLog({
   tenantId,
@@ -225,6 +302,8 @@ export async function createAuditLog({
   afterData,
   ipAddress,
   userAgent,
+  correlationId,
+  impersonatorId,
 }: {
   tenantId: string;
   userId?: string;
@@ -235,11 +314,12 @@ export async function createAuditLog({
   afterData?: any;
   ipAddress?: string;
   userAgent?: string;
+  correlationId?: string;
+  impersonatorId?: string;
 }): Promise<void> {
   try {
-    await prisma.auditLog.create({
+    await forTenant(tenantId).auditLog.create({
       data: {
-        tenantId,
         userId,
         action,
         resourceType,
@@ -248,6 +328,8 @@ export async function createAuditLog({
         afterData: afterData ? JSON.stringify(afterData) : null,
         ipAddress,
         userAgent,
+        correlationId,
+        impersonatorId,
       },
     });
   } catch (error) {
@@ -256,6 +338,33 @@ export async function createAuditLog({
   }
 }
 
+function auditValue(value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+// The fields `after` changed, as before/after snapshots for an UPDATE audit entry
+export function auditDiff(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields: string[] = Object.keys(after)
+): { beforeData: Record<string, unknown>; afterData: Record<string, unknown> } {
+  const beforeData: Record<string, unknown> = {};
+  const afterData: Record<string, unknown> = {};
+
+  for (const field of fields) {
+    const previous = auditValue(before[field]);
+    const next = auditValue(after[field]);
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      beforeData[field] = previous;
+      afterData[field] = next;
+    }
+  }
+
+  return { beforeData, afterData };
+}
+
 // Database cleanup for development
 export async function cleanup(): Promise<void> {
   if (process.env.NODE_ENV === 'development') {
@@ -0,0 +1,853 @@
+// Duplicate detection and merging - matching rules over normalized names,
+// website domains, emails and phone numbers, candidate pairs found on create
+// or by a background scan, and reversible merges recorded in the audit log
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { hasAncestorIn } from './account-hierarchy';
+import { auditDiff, forTenant, withTenantContext, TenantPrismaClient } from './database';
+import { assertWritableFields } from './field-security';
+import { customFieldName, fieldAccess, grants, CUSTOM_FIELDS_KEY, RolePermissions } from './permissions';
+import { recordAccessFilter, SharingViewer } from './sharing';
+import type { RequestContext } from './with-auth';
+
+export const DUPLICATE_ENTITIES = ['accounts', 'contacts', 'leads'] as const;
+export const MATCH_RULES = ['name', 'website', 'email', 'phone'] as const;
+export const CANDIDATE_STATUSES = ['open', 'dismissed', 'merged'] as const;
+
+export type DuplicateEntity = (typeof DUPLICATE_ENTITIES)[number];
+export type MatchRule = (typeof MATCH_RULES)[number];
+
+// Rules that apply to each entity: accounts have no email, people no website.
+// A contact's or lead's name is first and last name, an account's its company name.
+export const ENTITY_MATCH_RULES = {
+  accounts: ['name', 'website', 'phone'],
+  contacts: ['name', 'email', 'phone'],
+  leads: ['name', 'email', 'phone'],
+} as const;
+
+// Per-entity rules, stored in Tenant.settings.duplicates. Records are likely
+// duplicates when any enabled rule matches.
+export const duplicateSettingsSchema = z.object({
+  accounts: z.object({ enabled: z.boolean(), rules: z.array(z.enum(ENTITY_MATCH_RULES.accounts)) }),
+  contacts: z.object({ enabled: z.boolean(), rules: z.array(z.enum(ENTITY_MATCH_RULES.contacts)) }),
+  leads: z.object({ enabled: z.boolean(), rules: z.array(z.enum(ENTITY_MATCH_RULES.leads)) }),
+});
+
+export type DuplicateSettings = z.infer<typeof duplicateSettingsSchema>;
+
+// Phone matching is opt-in: a shared switchboard number is common across
+// genuinely different contacts
+export const DEFAULT_DUPLICATE_SETTINGS: DuplicateSettings = {
+  accounts: { enabled: true, rules: ['name', 'website'] },
+  contacts: { enabled: true, rules: ['name', 'email'] },
+  leads: { enabled: true, rules: ['name', 'email'] },
+};
+
+export function getDuplicateSettings(tenantSettings: unknown): DuplicateSettings {
+  const stored = (tenantSettings as { duplicates?: Partial<DuplicateSettings> } | null)?.duplicates;
+  const parsed = duplicateSettingsSchema.safeParse({ ...DEFAULT_DUPLICATE_SETTINGS, ...stored });
+
+  return parsed.success ? parsed.data : DEFAULT_DUPLICATE_SETTINGS;
+}
+
+export function isDuplicateEntity(entity: string): entity is DuplicateEntity {
+  return (DUPLICATE_ENTITIES as readonly string[]).includes(entity);
+}
+
+// Legal forms and filler words that say nothing about which company it is, so
+// "TechCorp" and "TechCorp Solutions, Inc." normalize to the same name
+const COMPANY_NAME_NOISE = new Set([
+  'the', 'and', 'inc', 'incorporated', 'llc', 'llp', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company',
+  'plc', 'gmbh', 'ag', 'sa', 'sas', 'srl', 'bv', 'nv', 'pty', 'group', 'holdings', 'solutions', 'services',
+  'systems', 'technologies', 'international', 'global',
+]);
+
+function nameTokens(value: string): string[] {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// Significant words of a company name; a name made only of noise words keeps them
+function companyNameTokens(name: unknown): string[] {
+  if (typeof name !== 'string') return [];
+  const tokens = nameTokens(name);
+  const significant = tokens.filter((token) => !COMPANY_NAME_NOISE.has(token));
+  return significant.length > 0 ? significant : tokens;
+}
+
+export function normalizeCompanyName(name: unknown): string | null {
+  return companyNameTokens(name).join('') || null;
+}
+
+export function normalizePersonName(firstName: unknown, lastName: unknown): string | null {
+  if (typeof firstName !== 'string' || typeof lastName !== 'string') return null;
+  const first = nameTokens(firstName).join('');
+  const last = nameTokens(lastName).join('');
+  return first && last ? `${first} ${last}` : null;
+}
+
+// "https://www.TechCorp.com/about" -> "techcorp.com"
+export function websiteDomain(website: unknown): string | null {
+  if (typeof website !== 'string' || !website.trim()) return null;
+  const value = website.trim();
+
+  try {
+    const { hostname } = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`);
+    return hostname.toLowerCase().replace(/^www\./, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+export function normalizeEmail(email: unknown): string | null {
+  return typeof email === 'string' && email.includes('@') ? email.trim().toLowerCase() : null;
+}
+
+// The last ten digits, so "+1 (555) 123-4567" and "555.123.4567" match;
+// anything shorter than a local number is ignored
+export function normalizePhone(phone: unknown): string | null {
+  if (typeof phone !== 'string') return null;
+  const digits = phone.replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : null;
+}
+
+type DuplicateRecord = Record<string, unknown>;
+type MatchKeys = Partial<Record<MatchRule, string[]>>;
+
+// Fields the matching rules read
+const MATCH_SELECT: Record<DuplicateEntity, Record<string, true>> = {
+  accounts: { id: true, name: true, website: true, phone: true },
+  contacts: { id: true, firstName: true, lastName: true, email: true, phone: true, mobile: true },
+  leads: { id: true, firstName: true, lastName: true, email: true, phone: true },
+};
+
+function present(values: (string | null)[]): string[] {
+  return [...new Set(values.filter((value): value is string => !!value))];
+}
+
+function matchKeys(entity: DuplicateEntity, record: DuplicateRecord, rules: readonly MatchRule[]): MatchKeys {
+  const keys: MatchKeys = {};
+
+  for (const rule of rules) {
+    switch (rule) {
+      case 'name':
+        keys.name = present([
+          entity === 'accounts'
+            ? normalizeCompanyName(record.name)
+            : normalizePersonName(record.firstName, record.lastName),
+        ]);
+        break;
+      case 'website':
+        keys.website = present([websiteDomain(record.website)]);
+        break;
+      case 'email':
+        keys.email = present([normalizeEmail(record.email)]);
+        break;
+      case 'phone':
+        keys.phone = present([normalizePhone(record.phone), normalizePhone(record.mobile)]);
+        break;
+    }
+  }
+
+  return keys;
+}
+
+function matchedRules(keys: MatchKeys, other: MatchKeys): MatchRule[] {
+  return MATCH_RULES.filter((rule) => keys[rule]?.some((key) => other[rule]?.includes(key)));
+}
+
+// Broad database conditions that every match satisfies; matchKeys decides
+function candidateConditions(entity: DuplicateEntity, record: DuplicateRecord, keys: MatchKeys): DuplicateRecord[] {
+  const insensitive = (value: string) => ({ contains: value, mode: 'insensitive' });
+  const conditions: DuplicateRecord[] = [];
+
+  if (keys.name?.length) {
+    if (entity === 'accounts') {
+      conditions.push({ name: insensitive(companyNameTokens(record.name)[0]) });
+    } else if (typeof record.lastName === 'string') {
+      conditions.push({ lastName: { equals: record.lastName.trim(), mode: 'insensitive' } });
+    }
+  }
+  for (const domain of keys.website || []) {
+    conditions.push({ website: insensitive(domain) });
+  }
+  for (const email of keys.email || []) {
+    conditions.push({ email: { equals: email, mode: 'insensitive' } });
+  }
+  for (const phone of keys.phone || []) {
+    const lastDigits = phone.slice(-4);
+    conditions.push({ phone: { contains: lastDigits } });
+    if (entity === 'contacts') conditions.push({ mobile: { contains: lastDigits } });
+  }
+
+  return conditions;
+}
+
+// Records of one entity, read and written without knowing which model it is
+interface EntityDelegate {
+  findMany(args: {
+    where: DuplicateRecord;
+    select?: Record<string, true>;
+    orderBy?: DuplicateRecord;
+    take?: number;
+    skip?: number;
+    cursor?: { id: string };
+  }): Promise<DuplicateRecord[]>;
+  updateMany(args: { where: DuplicateRecord; data: DuplicateRecord }): Promise<{ count: number }>;
+}
+
+type EntityClient = TenantPrismaClient | Prisma.TransactionClient;
+
+// Prisma model, and the parentType activities, notes and tasks use, per entity
+export const ENTITY_MODELS = { accounts: 'account', contacts: 'contact', leads: 'lead' } as const;
+
+function entityDelegate(client: EntityClient, entity: DuplicateEntity): EntityDelegate {
+  return (client as unknown as Record<string, EntityDelegate>)[ENTITY_MODELS[entity]];
+}
+
+// Converted leads live on as contacts, so they are not matched any more
+function activeRecords(entity: DuplicateEntity): DuplicateRecord {
+  return entity === 'leads' ? { isActive: true, isConverted: false } : { isActive: true };
+}
+
+// Most records a single lookup compares against
+const MAX_CANDIDATES = 50;
+
+export interface DuplicateMatch {
+  id: string;
+  matchedOn: MatchRule[];
+}
+
+// Active records matching `record` under the given rules
+export async function findDuplicates(
+  db: TenantPrismaClient,
+  entity: DuplicateEntity,
+  record: DuplicateRecord,
+  rules: readonly MatchRule[]
+): Promise<DuplicateMatch[]> {
+  const keys = matchKeys(entity, record, rules);
+  const conditions = candidateConditions(entity, record, keys);
+  if (conditions.length === 0) {
+    return [];
+  }
+
+  const candidates = await entityDelegate(db, entity).findMany({
+    where: {
+      ...activeRecords(entity),
+      ...(typeof record.id === 'string' ? { id: { not: record.id } } : {}),
+      OR: conditions,
+    },
+    select: MATCH_SELECT[entity],
+    take: MAX_CANDIDATES,
+  });
+
+  return candidates
+    .map((candidate) => ({ id: candidate.id as string, matchedOn: matchedRules(keys, matchKeys(entity, candidate, rules)) }))
+    .filter((match) => match.matchedOn.length > 0);
+}
+
+function orderedPair(first: string, second: string): { recordId: string; duplicateId: string } {
+  return first < second ? { recordId: first, duplicateId: second } : { recordId: second, duplicateId: first };
+}
+
+// Store matches of one record as open candidate pairs; pairs already known,
+// including dismissed ones, are left as they are
+export async function recordCandidates(
+  db: TenantPrismaClient,
+  entity: DuplicateEntity,
+  recordId: string,
+  matches: DuplicateMatch[],
+  detectedBy: 'create' | 'import'
+): Promise<void> {
+  await db.duplicateCandidate.createMany({
+    data: matches.map((match) => ({
+      entityType: entity,
+      ...orderedPair(recordId, match.id),
+      matchedOn: match.matchedOn,
+      detectedBy,
+    })),
+    skipDuplicates: true,
+  });
+}
+
+export interface PossibleDuplicate extends DuplicateMatch {
+  label: string;
+}
+
+export function recordLabel(entity: DuplicateEntity, record: DuplicateRecord): string {
+  if (entity === 'accounts') return String(record.name ?? '');
+  return [record.firstName, record.lastName].filter(Boolean).join(' ');
+}
+
+// Check a newly created record against the tenant's rules and store any
+// matches as open candidates. Returns the matches the viewer may read.
+export async function flagDuplicates(
+  db: TenantPrismaClient,
+  viewer: SharingViewer,
+  entity: DuplicateEntity,
+  record: DuplicateRecord & { id: string }
+): Promise<PossibleDuplicate[]> {
+  const tenant = await db.tenant.findUnique({ where: { id: viewer.tenantId } });
+  const settings = getDuplicateSettings(tenant?.settings)[entity];
+  if (!settings.enabled || settings.rules.length === 0) {
+    return [];
+  }
+
+  const matches = await findDuplicates(db, entity, record, settings.rules);
+  if (matches.length === 0) {
+    return [];
+  }
+
+  await recordCandidates(db, entity, record.id, matches, 'create');
+
+  const visibility = await recordAccessFilter(db, viewer, entity);
+  const visible = await entityDelegate(db, entity).findMany({
+    where: { AND: [{ id: { in: matches.map((match) => match.id) } }, ...(visibility ? [visibility] : [])] },
+    select: MATCH_SELECT[entity],
+  });
+
+  return visible.map((candidate) => ({
+    id: candidate.id as string,
+    label: recordLabel(entity, candidate),
+    matchedOn: matches.find((match) => match.id === candidate.id)?.matchedOn || [],
+  }));
+}
+
+const SCAN_BATCH_SIZE = 500;
+
+// Keys shared by more records than this (a head-office number, a very common
+// name) are too broad to suggest duplicates and are skipped by the scan
+const MAX_MATCH_GROUP = 20;
+
+export type DuplicateScanResult = Partial<Record<DuplicateEntity, { scanned: number; flagged: number }>>;
+
+async function scanEntity(
+  db: TenantPrismaClient,
+  entity: DuplicateEntity,
+  rules: readonly MatchRule[]
+): Promise<{ scanned: number; flagged: number }> {
+  // Records by "<rule>:<key>"; null once a key is too common to be useful
+  const groups = new Map<string, string[] | null>();
+  let scanned = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const batch = await entityDelegate(db, entity).findMany({
+      where: activeRecords(entity),
+      select: MATCH_SELECT[entity],
+      orderBy: { id: 'asc' },
+      take: SCAN_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (batch.length === 0) break;
+
+    for (const record of batch) {
+      const keys = matchKeys(entity, record, rules);
+      for (const rule of rules) {
+        for (const key of keys[rule] || []) {
+          const group = groups.get(`${rule}:${key}`);
+          if (group === null) continue;
+          const ids = [...(group || []), record.id as string];
+          groups.set(`${rule}:${key}`, ids.length > MAX_MATCH_GROUP ? null : ids);
+        }
+      }
+    }
+
+    scanned += batch.length;
+    cursor = batch[batch.length - 1].id as string;
+    if (batch.length < SCAN_BATCH_SIZE) break;
+  }
+
+  const pairs = new Map<string, Set<MatchRule>>();
+  for (const [groupKey, ids] of groups) {
+    if (!ids || ids.length < 2) continue;
+    const rule = groupKey.slice(0, groupKey.indexOf(':')) as MatchRule;
+
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const { recordId, duplicateId } = orderedPair(ids[i], ids[j]);
+        const pairKey = `${recordId}:${duplicateId}`;
+        pairs.set(pairKey, (pairs.get(pairKey) || new Set<MatchRule>()).add(rule));
+      }
+    }
+  }
+
+  // Pairs already stored, including dismissed ones, are left as they are
+  const data = [...pairs].map(([pairKey, matched]) => {
+    const [recordId, duplicateId] = pairKey.split(':');
+    return { entityType: entity, recordId, duplicateId, matchedOn: [...matched], detectedBy: 'scan' };
+  });
+
+  let flagged = 0;
+  for (let start = 0; start < data.length; start += SCAN_BATCH_SIZE) {
+    const { count } = await db.duplicateCandidate.createMany({
+      data: data.slice(start, start + SCAN_BATCH_SIZE),
+      skipDuplicates: true,
+    });
+    flagged += count;
+  }
+
+  return { scanned, flagged };
+}
+
+// Compare every active record of the given entities, in batches, and store
+// new candidate pairs
+export async function scanForDuplicates(
+  tenantId: string,
+  entities: readonly DuplicateEntity[] = DUPLICATE_ENTITIES
+): Promise<DuplicateScanResult> {
+  const db = forTenant(tenantId);
+  const tenant = await db.tenant.findUnique({ where: { id: tenantId } });
+  const settings = getDuplicateSettings(tenant?.settings);
+  const result: DuplicateScanResult = {};
+
+  for (const entity of entities) {
+    const { enabled, rules } = settings[entity];
+    if (enabled && rules.length > 0) {
+      result[entity] = await scanEntity(db, entity, rules);
+    }
+  }
+
+  return result;
+}
+
+// Entities to scan; all of them when left out
+export const duplicateScanSchema = z.object({
+  entities: z.array(z.enum(DUPLICATE_ENTITIES)).min(1).optional(),
+});
+
+// Tenants with a scan in progress in this process
+const runningScans = new Set<string>();
+
+// Start a scan without waiting for it, or return null if the tenant already
+// has one running
+export function startDuplicateScan(
+  tenantId: string,
+  entities?: readonly DuplicateEntity[]
+): Promise<DuplicateScanResult> | null {
+  if (runningScans.has(tenantId)) {
+    return null;
+  }
+
+  runningScans.add(tenantId);
+  return scanForDuplicates(tenantId, entities).finally(() => runningScans.delete(tenantId));
+}
+
+// Fields shown for each record of a candidate pair
+export const CANDIDATE_RECORD_SELECT = {
+  accounts: {
+    id: true, name: true, website: true, phone: true, industry: true, city: true, isActive: true, createdAt: true,
+  } satisfies Prisma.AccountSelect,
+  contacts: {
+    id: true, firstName: true, lastName: true, email: true, phone: true, title: true, accountId: true, isActive: true,
+    createdAt: true,
+  } satisfies Prisma.ContactSelect,
+  leads: {
+    id: true, firstName: true, lastName: true, email: true, phone: true, company: true, status: true, isActive: true,
+    createdAt: true,
+  } satisfies Prisma.LeadSelect,
+};
+
+export const candidateUpdateSchema = z.object({
+  status: z.enum(['open', 'dismissed']),
+});
+
+export class MergeError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'MergeError';
+  }
+}
+
+// Fields whose surviving value can be chosen from any merged record.
+// Account hierarchy is left alone: the survivor keeps its own parent.
+export const MERGEABLE_FIELDS: Record<DuplicateEntity, readonly string[]> = {
+  accounts: [
+    'name', 'website', 'industry', 'accountType', 'revenue', 'employeeCount', 'addressLine1', 'addressLine2',
+    'city', 'state', 'postalCode', 'country', 'phone', 'ownerId',
+  ],
+  contacts: [
+    'accountId', 'firstName', 'lastName', 'email', 'phone', 'mobile', 'title', 'department', 'linkedinUrl',
+    'ownerId', 'leadSource',
+  ],
+  leads: ['firstName', 'lastName', 'email', 'phone', 'company', 'title', 'source', 'status', 'rating', 'ownerId'],
+};
+
+// Stored as strings in audit data and converted back when a change is undone
+export const BIGINT_FIELDS = ['revenue'];
+
+// Merging changes the survivor and deletes the others
+export function canMerge(permissions: unknown, entity: DuplicateEntity): boolean {
+  const rolePermissions = permissions as RolePermissions | null | undefined;
+  return grants(rolePermissions, entity, 'write') && grants(rolePermissions, entity, 'delete');
+}
+
+// Most records merged into one survivor at a time
+export const MAX_MERGE_RECORDS = 10;
+
+// `fields` maps a field, or "customFields.<key>", to the id of the record whose
+// value survives. Unlisted fields keep the survivor's value, or take the first
+// merged record's value where the survivor has none.
+export const mergeSchema = z
+  .object({
+    entity: z.enum(DUPLICATE_ENTITIES),
+    survivorId: z.string().uuid(),
+    mergedIds: z.array(z.string().uuid()).min(1).max(MAX_MERGE_RECORDS),
+    fields: z.record(z.string().uuid()).default({}),
+  })
+  .refine((data) => !data.mergedIds.includes(data.survivorId), {
+    message: 'The surviving record cannot also be merged',
+    path: ['mergedIds'],
+  });
+
+export type MergeRequest = z.infer<typeof mergeSchema>;
+
+interface RelatedRecords {
+  model: string;
+  field: string;
+  where?: DuplicateRecord;
+}
+
+// Records that point at a merged record and move to the survivor, by name
+function relatedRecords(entity: DuplicateEntity): Record<string, RelatedRecords> {
+  const parentType = ENTITY_MODELS[entity];
+  const polymorphic = {
+    activities: { model: 'activity', field: 'parentId', where: { parentType } },
+    notes: { model: 'note', field: 'parentId', where: { parentType } },
+    tasks: { model: 'task', field: 'parentId', where: { parentType } },
+  };
+
+  switch (entity) {
+    case 'accounts':
+      return {
+        contacts: { model: 'contact', field: 'accountId' },
+        opportunities: { model: 'opportunity', field: 'accountId' },
+        childAccounts: { model: 'account', field: 'parentAccountId' },
+        convertedLeads: { model: 'lead', field: 'convertedAccountId' },
+        ...polymorphic,
+      };
+    case 'contacts':
+      return { convertedLeads: { model: 'lead', field: 'convertedContactId' }, ...polymorphic };
+    case 'leads':
+      return polymorphic;
+  }
+}
+
+function modelDelegate(tx: Prisma.TransactionClient, model: string): EntityDelegate {
+  return (tx as unknown as Record<string, EntityDelegate>)[model];
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function customFieldsOf(record: DuplicateRecord): DuplicateRecord {
+  const value = record[CUSTOM_FIELDS_KEY];
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as DuplicateRecord) : {};
+}
+
+// The survivor's new values: explicit choices first, then blanks filled from
+// the merged records (only with fields the actor may write), custom fields
+// combined and tags unioned
+function survivingValues(
+  entity: DuplicateEntity,
+  permissions: RolePermissions | undefined,
+  survivor: DuplicateRecord,
+  merged: DuplicateRecord[],
+  fields: Record<string, string>
+): DuplicateRecord {
+  const byId = new Map([survivor, ...merged].map((record) => [record.id as string, record]));
+  const writable = (field: string) => fieldAccess(permissions, entity, field) === 'write';
+  const chosen: DuplicateRecord = {};
+  const chosenCustom: DuplicateRecord = {};
+
+  for (const [field, sourceId] of Object.entries(fields)) {
+    const source = byId.get(sourceId);
+    if (!source) {
+      throw new MergeError(`The value for "${field}" must come from one of the merged records`);
+    }
+
+    if (field.startsWith(`${CUSTOM_FIELDS_KEY}.`)) {
+      const key = field.slice(CUSTOM_FIELDS_KEY.length + 1);
+      chosenCustom[key] = customFieldsOf(source)[key] ?? null;
+    } else if (MERGEABLE_FIELDS[entity].includes(field)) {
+      chosen[field] = source[field];
+    } else {
+      throw new MergeError(`Field "${field}" cannot be merged`);
+    }
+  }
+
+  assertWritableFields(permissions, entity, { ...chosen, [CUSTOM_FIELDS_KEY]: chosenCustom });
+
+  const values: DuplicateRecord = { ...chosen };
+  for (const field of MERGEABLE_FIELDS[entity]) {
+    if (field in values || !isBlank(survivor[field]) || !writable(field)) continue;
+    const filled = merged.find((record) => !isBlank(record[field]));
+    if (filled) values[field] = filled[field];
+  }
+
+  const customFields: DuplicateRecord = {};
+  for (const record of [...merged].reverse()) {
+    for (const [key, value] of Object.entries(customFieldsOf(record))) {
+      if (writable(customFieldName(key))) customFields[key] = value;
+    }
+  }
+  values[CUSTOM_FIELDS_KEY] = { ...customFields, ...customFieldsOf(survivor), ...chosenCustom };
+  values.tags = [...new Set([survivor, ...merged].flatMap((record) => (record.tags as string[] | undefined) || []))];
+
+  return values;
+}
+
+function auditJson(data: unknown): string {
+  return JSON.stringify(data, (key, value) => (typeof value === 'bigint' ? value.toString() : value));
+}
+
+function parseAuditData<T>(data: unknown): T {
+  return (typeof data === 'string' ? JSON.parse(data) : data) as T;
+}
+
+const RESOURCE_TYPES: Record<DuplicateEntity, string> = { accounts: 'account', contacts: 'contact', leads: 'lead' };
+
+// What a MERGE audit entry holds, and what undoing it needs
+interface MergeAuditData {
+  before: { survivor: DuplicateRecord; merged: DuplicateRecord[] };
+  after: {
+    entity: DuplicateEntity;
+    survivor: DuplicateRecord;
+    mergedIds: string[];
+    // Relation name -> merged record id -> ids of the records moved from it
+    moved: Record<string, Record<string, string[]>>;
+    candidateIds: string[];
+  };
+}
+
+export interface MergeResult {
+  mergeId: string;
+  survivorId: string;
+  mergedIds: string[];
+  moved: Record<string, number>;
+}
+
+type MergeActor = SharingViewer;
+
+// Merge records into the survivor in one transaction: surviving values are
+// applied, related records re-parented, merged records soft-deleted and their
+// candidate pairs closed. The MERGE audit entry records enough to undo it.
+export async function mergeRecords(
+  actor: MergeActor,
+  input: MergeRequest,
+  context: Partial<RequestContext> = {}
+): Promise<MergeResult> {
+  const { entity, survivorId, mergedIds } = input;
+  const tenantId = actor.tenantId;
+  const permissions = actor.role?.permissions as RolePermissions | undefined;
+
+  if (entity === 'accounts' && (await hasAncestorIn(forTenant(tenantId), survivorId, mergedIds))) {
+    throw new MergeError('The surviving account cannot be below an account merged into it');
+  }
+
+  return withTenantContext(tenantId, async (tx) => {
+    const records = await entityDelegate(tx, entity).findMany({
+      where: { tenantId, id: { in: [survivorId, ...mergedIds] }, isActive: true },
+    });
+    const survivor = records.find((record) => record.id === survivorId);
+    const merged = mergedIds.map((id) => records.find((record) => record.id === id));
+    if (!survivor || merged.some((record) => !record)) {
+      throw new MergeError('Records to merge were not found or were already merged', 404);
+    }
+
+    const values = survivingValues(entity, permissions, survivor, merged as DuplicateRecord[], input.fields);
+    const changed = Object.keys(auditDiff(survivor, { ...survivor, ...values }, Object.keys(values)).afterData);
+
+    const moved: MergeAuditData['after']['moved'] = {};
+    for (const [name, relation] of Object.entries(relatedRecords(entity))) {
+      const rows = await modelDelegate(tx, relation.model).findMany({
+        where: { tenantId, [relation.field]: { in: mergedIds }, ...relation.where },
+        select: { id: true, [relation.field]: true },
+      });
+      if (rows.length === 0) continue;
+
+      moved[name] = {};
+      for (const row of rows) {
+        const from = row[relation.field] as string;
+        moved[name][from] = [...(moved[name][from] || []), row.id as string];
+      }
+      await modelDelegate(tx, relation.model).updateMany({
+        where: { tenantId, id: { in: rows.map((row) => row.id) } },
+        data: { [relation.field]: survivorId },
+      });
+    }
+
+    if (changed.length > 0) {
+      const { count } = await entityDelegate(tx, entity).updateMany({
+        where: { tenantId, id: survivorId, updatedAt: survivor.updatedAt },
+        data: Object.fromEntries(changed.map((field) => [field, values[field]])),
+      });
+      if (count !== 1) {
+        throw new MergeError('The surviving record was changed during the merge. Try again.', 409);
+      }
+    }
+
+    // Diffed against the stored values, so an undo can tell which fields were edited since
+    const [updated] = await entityDelegate(tx, entity).findMany({ where: { tenantId, id: survivorId } });
+    const diff = auditDiff(survivor, updated, changed);
+
+    const { count } = await entityDelegate(tx, entity).updateMany({
+      where: { tenantId, id: { in: mergedIds }, isActive: true },
+      data: { isActive: false },
+    });
+    if (count !== mergedIds.length) {
+      throw new MergeError('Records to merge were changed during the merge. Try again.', 409);
+    }
+
+    // Every open pair involving a merged record is settled by the merge
+    const candidates = await tx.duplicateCandidate.findMany({
+      where: {
+        tenantId,
+        entityType: entity,
+        status: 'open',
+        OR: [{ recordId: { in: mergedIds } }, { duplicateId: { in: mergedIds } }],
+      },
+      select: { id: true },
+    });
+    await tx.duplicateCandidate.updateMany({
+      where: { tenantId, id: { in: candidates.map((candidate: { id: string }) => candidate.id) } },
+      data: { status: 'merged', resolvedById: actor.id, resolvedAt: new Date() },
+    });
+
+    // Written in the transaction, so a merge is never left without the record needed to undo it
+    const audit: MergeAuditData = {
+      before: { survivor: diff.beforeData, merged: merged as DuplicateRecord[] },
+      after: {
+        entity,
+        survivor: diff.afterData,
+        mergedIds,
+        moved,
+        candidateIds: candidates.map((candidate: { id: string }) => candidate.id),
+      },
+    };
+    const entry = await tx.auditLog.create({
+      data: {
+        tenantId,
+        userId: actor.id,
+        action: 'MERGE',
+        resourceType: RESOURCE_TYPES[entity],
+        resourceId: survivorId,
+        beforeData: auditJson(audit.before),
+        afterData: auditJson(audit.after),
+        ...context,
+      },
+    });
+
+    return {
+      mergeId: entry.id,
+      survivorId,
+      mergedIds,
+      moved: Object.fromEntries(
+        Object.entries(moved).map(([name, byRecord]) => [name, Object.values(byRecord).flat().length])
+      ),
+    };
+  });
+}
+
+export interface UndoMergeResult {
+  survivorId: string;
+  restoredIds: string[];
+  // Survivor fields edited since the merge, which keep their current value
+  keptFields: string[];
+}
+
+// The merge's entity and ids, for permission checks before undoing it
+export async function getMerge(
+  db: TenantPrismaClient,
+  mergeId: string
+): Promise<{ entity: DuplicateEntity; survivorId: string; mergedIds: string[] } | null> {
+  const entry = await db.auditLog.findFirst({ where: { id: mergeId, action: 'MERGE' } });
+  if (!entry) return null;
+
+  const after = parseAuditData<MergeAuditData['after']>(entry.afterData);
+  return { entity: after.entity, survivorId: entry.resourceId as string, mergedIds: after.mergedIds };
+}
+
+// Reverse a merge: merged records are restored, re-parented records moved
+// back and survivor fields reset, except fields edited since the merge.
+// Fails if the merged records were already restored.
+export async function undoMerge(
+  actor: MergeActor,
+  mergeId: string,
+  context: Partial<RequestContext> = {}
+): Promise<UndoMergeResult> {
+  const tenantId = actor.tenantId;
+
+  return withTenantContext(tenantId, async (tx) => {
+    const entry = await tx.auditLog.findFirst({ where: { tenantId, id: mergeId, action: 'MERGE' } });
+    if (!entry) {
+      throw new MergeError('Merge not found', 404);
+    }
+
+    const before = parseAuditData<MergeAuditData['before']>(entry.beforeData);
+    const after = parseAuditData<MergeAuditData['after']>(entry.afterData);
+    const { entity, mergedIds } = after;
+    const survivorId = entry.resourceId as string;
+
+    const { count } = await entityDelegate(tx, entity).updateMany({
+      where: { tenantId, id: { in: mergedIds }, isActive: false },
+      data: { isActive: true },
+    });
+    if (count !== mergedIds.length) {
+      throw new MergeError('This merge was already undone, or merged records were restored since', 409);
+    }
+
+    // Only records still attached to the survivor move back
+    const relations = relatedRecords(entity);
+    for (const [name, byRecord] of Object.entries(after.moved)) {
+      const relation = relations[name];
+      for (const [mergedId, ids] of Object.entries(byRecord)) {
+        await modelDelegate(tx, relation.model).updateMany({
+          where: { tenantId, id: { in: ids }, [relation.field]: survivorId },
+          data: { [relation.field]: mergedId },
+        });
+      }
+    }
+
+    const fields = Object.keys(after.survivor);
+    const [current] = await entityDelegate(tx, entity).findMany({ where: { tenantId, id: survivorId } });
+    const keptFields = current ? Object.keys(auditDiff(current, after.survivor, fields).afterData) : fields;
+    const restore = Object.fromEntries(
+      fields
+        .filter((field) => !keptFields.includes(field))
+        .map((field) => {
+          const value = before.survivor[field];
+          return [field, BIGINT_FIELDS.includes(field) && value != null ? BigInt(value as string) : value];
+        })
+    );
+    if (Object.keys(restore).length > 0) {
+      await entityDelegate(tx, entity).updateMany({ where: { tenantId, id: survivorId }, data: restore });
+    }
+
+    await tx.duplicateCandidate.updateMany({
+      where: { tenantId, id: { in: after.candidateIds }, status: 'merged' },
+      data: { status: 'open', resolvedById: null, resolvedAt: null },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        tenantId,
+        userId: actor.id,
+        action: 'UNMERGE',
+        resourceType: RESOURCE_TYPES[entity],
+        resourceId: survivorId,
+        beforeData: auditJson({ survivor: after.survivor }),
+        afterData: auditJson({ mergeId, restoredIds: mergedIds, survivor: restore, keptFields }),
+        ...context,
+      },
+    });
+
+    return { survivorId, restoredIds: mergedIds, keptFields };
+  });
+}
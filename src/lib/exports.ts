@@ -0,0 +1,256 @@
+// Exports - stream an entity list as CSV or NDJSON, read in cursor batches so
+// a large tenant is never held in memory, with hidden fields left out
+import { z } from 'zod';
+import { createAuditLog, forTenant, TenantPrismaClient } from './database';
+import { ENTITY_MODELS } from './duplicates';
+import { readableFields } from './field-security';
+import { IMPORT_FIELDS, LOOKUP_FIELDS } from './imports';
+import { listFilter, ListEntity, LIST_ENTITIES } from './list-filters';
+import { customFieldName, CUSTOM_FIELDS_KEY } from './permissions';
+import { recordAccessFilter, RecordFilter, SharingViewer } from './sharing';
+import type { RequestContext } from './with-auth';
+
+export const EXPORT_ENTITIES = LIST_ENTITIES;
+export type ExportEntity = ListEntity;
+
+export const EXPORT_FORMATS = ['csv', 'ndjson'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('csv'),
+});
+
+const EXPORT_BATCH_SIZE = 500;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+};
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Signed numbers and phone numbers start with + or - too, but with nothing a
+// spreadsheet could call, so they are written as they are
+const SIGNED_NUMBER = /^[+-][\d\s().-]*$/;
+
+type ExportRecord = Record<string, unknown>;
+
+interface ExportColumn {
+  key: string;
+  value: (record: ExportRecord) => unknown;
+}
+
+// Fills in accountName for a batch of records
+type BatchLookup = (records: ExportRecord[]) => Promise<ExportRecord[]>;
+
+interface ExportDelegate {
+  findMany(args: {
+    where: RecordFilter;
+    include: Record<string, unknown>;
+    orderBy: { id: 'asc' };
+    take: number;
+    cursor?: { id: string };
+    skip?: number;
+  }): Promise<ExportRecord[]>;
+}
+
+function exportDelegate(db: TenantPrismaClient, entity: ExportEntity): ExportDelegate {
+  return (db as unknown as Record<string, ExportDelegate>)[ENTITY_MODELS[entity]];
+}
+
+// Lookup columns read through their relation, as the import resolves them.
+// accountName is looked up separately (see accountNameLookup).
+const LOOKUP_INCLUDES: Record<string, { relation: string; field: string }> = {
+  ownerEmail: { relation: 'owner', field: 'email' },
+};
+
+function relationInclude(entity: ExportEntity): Record<string, unknown> {
+  return Object.fromEntries(
+    IMPORT_FIELDS[entity]
+      .filter((key) => LOOKUP_INCLUDES[key])
+      .map((key) => [LOOKUP_INCLUDES[key].relation, { select: { [LOOKUP_INCLUDES[key].field]: true } }])
+  );
+}
+
+// The import's fields plus id and timestamps, so an export can be edited and
+// imported again; custom fields are flattened to "customFields.<key>" columns.
+// Fields the viewer cannot read are left out.
+async function exportColumns(
+  db: TenantPrismaClient,
+  viewer: SharingViewer,
+  entity: ExportEntity
+): Promise<ExportColumn[]> {
+  const permissions = viewer.role?.permissions;
+  const readable = (field: string) => readableFields(permissions, entity, [field]).length > 0;
+
+  // accountName is also an account field, so it needs read access to accounts
+  const readableColumn = (key: string) =>
+    readable(LOOKUP_FIELDS[key] || key) &&
+    (key !== 'accountName' || readableFields(permissions, 'accounts', ['name']).length > 0);
+
+  const standard = ['id', ...IMPORT_FIELDS[entity], 'createdAt', 'updatedAt']
+    .filter(readableColumn)
+    .map((key) => {
+      const lookup = LOOKUP_INCLUDES[key];
+      return {
+        key,
+        value: lookup
+          ? (record: ExportRecord) => (record[lookup.relation] as ExportRecord | null)?.[lookup.field]
+          : (record: ExportRecord) => record[key],
+      };
+    });
+
+  const customFields = await db.customField.findMany({
+    where: { entityType: ENTITY_MODELS[entity], isActive: true },
+    select: { fieldKey: true },
+    orderBy: { fieldKey: 'asc' },
+  });
+
+  const custom = customFields
+    .map((field) => field.fieldKey)
+    .filter((fieldKey) => readable(customFieldName(fieldKey)))
+    .map((fieldKey) => ({
+      key: customFieldName(fieldKey),
+      value: (record: ExportRecord) => (record[CUSTOM_FIELDS_KEY] as ExportRecord | null)?.[fieldKey],
+    }));
+
+  return [...standard, ...custom];
+}
+
+function jsonValue(value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Date) return value.toISOString();
+  return value ?? null;
+}
+
+// Tags are comma separated, as the import reads them
+function csvCell(value: unknown): string {
+  const converted = jsonValue(value);
+  if (converted === null) return '';
+
+  let text = Array.isArray(converted)
+    ? converted.join(', ')
+    : typeof converted === 'object'
+      ? JSON.stringify(converted)
+      : String(converted);
+
+  if (FORMULA_PREFIX.test(text) && !SIGNED_NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatRecord(columns: ExportColumn[], format: ExportFormat, record: ExportRecord): string {
+  if (format === 'csv') {
+    return `${columns.map((column) => csvCell(column.value(record))).join(',')}\r\n`;
+  }
+
+  return `${JSON.stringify(Object.fromEntries(columns.map((column) => [column.key, jsonValue(column.value(record))])))}\n`;
+}
+
+// A contact's account is shared on its own, so its name is read from the
+// accounts the viewer can see rather than through the relation
+async function accountNameLookup(db: TenantPrismaClient, viewer: SharingViewer): Promise<BatchLookup> {
+  const visibility = await recordAccessFilter(db, viewer, 'accounts');
+
+  return async (records) => {
+    const ids = [...new Set(records.map((record) => record.accountId).filter((id): id is string => !!id))];
+    const accounts = ids.length > 0
+      ? await db.account.findMany({
+          where: { AND: [{ id: { in: ids } }, ...(visibility ? [visibility] : [])] },
+          select: { id: true, name: true },
+        })
+      : [];
+    const names = new Map(accounts.map((account) => [account.id, account.name]));
+
+    return records.map((record) => ({ ...record, accountName: names.get(record.accountId as string) ?? null }));
+  };
+}
+
+// Reads the next batch each time the client is ready for more
+function exportStream(
+  db: TenantPrismaClient,
+  entity: ExportEntity,
+  where: RecordFilter,
+  columns: ExportColumn[],
+  format: ExportFormat,
+  lookup: BatchLookup | null
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const delegate = exportDelegate(db, entity);
+  const include = relationInclude(entity);
+  let cursor: string | undefined;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === 'csv') {
+        controller.enqueue(encoder.encode(`${columns.map((column) => csvCell(column.key)).join(',')}\r\n`));
+      }
+    },
+
+    async pull(controller) {
+      try {
+        const batch = await delegate.findMany({
+          where,
+          include,
+          orderBy: { id: 'asc' },
+          take: EXPORT_BATCH_SIZE,
+          ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        });
+        const records = lookup ? await lookup(batch) : batch;
+
+        if (records.length > 0) {
+          controller.enqueue(encoder.encode(records.map((record) => formatRecord(columns, format, record)).join('')));
+          cursor = records[records.length - 1].id as string;
+        }
+
+        if (records.length < EXPORT_BATCH_SIZE) {
+          controller.close();
+        }
+      } catch (error) {
+        console.error(`Export of ${entity} failed:`, error);
+        controller.error(error);
+      }
+    },
+  });
+}
+
+// The response for GET /api/{entity}/export, with the list endpoint's filters
+// and a `format` parameter. The export is audited when it starts.
+export async function exportResponse(
+  viewer: SharingViewer,
+  entity: ExportEntity,
+  searchParams: URLSearchParams,
+  context: RequestContext
+): Promise<Response> {
+  const { format } = exportQuerySchema.parse({ format: searchParams.get('format') || undefined });
+
+  const db = forTenant(viewer.tenantId);
+  const [where, columns] = await Promise.all([
+    listFilter(db, viewer, entity, searchParams),
+    exportColumns(db, viewer, entity),
+  ]);
+  const lookup = columns.some((column) => column.key === 'accountName') ? await accountNameLookup(db, viewer) : null;
+
+  const filters = Object.fromEntries([...searchParams].filter(([key]) => key !== 'format'));
+  await createAuditLog({
+    tenantId: viewer.tenantId,
+    userId: viewer.id,
+    action: 'EXPORT',
+    resourceType: ENTITY_MODELS[entity],
+    afterData: { format, filters, columns: columns.map((column) => column.key) },
+    ...context,
+  });
+
+  const fileName = `${entity}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  return new Response(exportStream(db, entity, where, columns, format, lookup), {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
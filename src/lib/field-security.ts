@@ -0,0 +1,104 @@
+// Field-level security - strip hidden fields from records and reject writes to
+// fields a role may not change, using the field rules in Role.permissions
+import {
+  customFieldName,
+  fieldAccess,
+  restrictedFields,
+  CUSTOM_FIELDS_KEY,
+  FieldSecuredResource,
+  RolePermissions,
+} from './permissions';
+
+export class FieldPermissionError extends Error {
+  constructor(public readonly fields: string[]) {
+    super('Insufficient field permissions');
+    this.name = 'FieldPermissionError';
+  }
+}
+
+// Relations included in record responses, redacted under their own resource's rules
+const RELATION_RESOURCES: Record<string, FieldSecuredResource> = {
+  account: 'accounts',
+  accounts: 'accounts',
+  parentAccount: 'accounts',
+  childAccounts: 'accounts',
+  contact: 'contacts',
+  contacts: 'contacts',
+  lead: 'leads',
+  leads: 'leads',
+  opportunity: 'opportunities',
+  opportunities: 'opportunities',
+};
+
+type FieldRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is FieldRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function redactRecord(permissions: RolePermissions | null | undefined, resource: string, record: FieldRecord): FieldRecord {
+  const { hidden } = restrictedFields(permissions, resource);
+  const redacted: FieldRecord = { ...record };
+
+  for (const field of hidden) {
+    if (field.startsWith(`${CUSTOM_FIELDS_KEY}.`)) {
+      const customFields = redacted[CUSTOM_FIELDS_KEY];
+      if (isRecord(customFields)) {
+        const rest = { ...customFields };
+        delete rest[field.slice(CUSTOM_FIELDS_KEY.length + 1)];
+        redacted[CUSTOM_FIELDS_KEY] = rest;
+      }
+    } else {
+      delete redacted[field];
+    }
+  }
+
+  for (const [key, value] of Object.entries(redacted)) {
+    const relation = RELATION_RESOURCES[key];
+    if (relation && (Array.isArray(value) || isRecord(value))) {
+      redacted[key] = redactFields(permissions, relation, value);
+    }
+  }
+
+  return redacted;
+}
+
+// Remove the fields the role may not read from one record or a list of records,
+// including included relations such as an account's opportunities
+export function redactFields<T>(permissions: unknown, resource: FieldSecuredResource, records: T): T {
+  const rolePermissions = permissions as RolePermissions | null | undefined;
+
+  if (Array.isArray(records)) {
+    return records.map((record) => (isRecord(record) ? redactRecord(rolePermissions, resource, record) : record)) as T;
+  }
+
+  return (isRecord(records) ? redactRecord(rolePermissions, resource, records) : records) as T;
+}
+
+// Throw FieldPermissionError if `data` sets any field, or custom field key, the
+// role may only read or cannot see
+export function assertWritableFields(
+  permissions: unknown,
+  resource: FieldSecuredResource,
+  data: FieldRecord
+): void {
+  const rolePermissions = permissions as RolePermissions | null | undefined;
+  const fields = Object.keys(data).filter((field) => field !== CUSTOM_FIELDS_KEY && data[field] !== undefined);
+  const customFields = isRecord(data[CUSTOM_FIELDS_KEY]) ? Object.keys(data[CUSTOM_FIELDS_KEY] as FieldRecord) : [];
+
+  const protectedFields = [...fields, ...customFields.map(customFieldName)].filter(
+    (field) => fieldAccess(rolePermissions, resource, field) !== 'write'
+  );
+
+  if (protectedFields.length > 0) {
+    throw new FieldPermissionError(protectedFields);
+  }
+}
+
+// The subset of `fields` the role may read, e.g. to keep hidden fields out of
+// search conditions where a match would reveal their value
+export function readableFields(permissions: unknown, resource: FieldSecuredResource, fields: string[]): string[] {
+  return fields.filter(
+    (field) => fieldAccess(permissions as RolePermissions | null | undefined, resource, field) !== 'hidden'
+  );
+}
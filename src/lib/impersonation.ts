@@ -0,0 +1,92 @@
+// Impersonation - Super Admins acting as another user of their tenant
+import { createSession, revokeSession, toAuthUser, AuthTokens, AuthUser, SessionContext } from './auth';
+import { forTenant } from './database';
+import { isSuperAdmin, RolePermissions } from './permissions';
+
+const IMPERSONATION_TTL_MINUTES = parseInt(process.env.IMPERSONATION_TTL_MINUTES || '60');
+
+export const IMPERSONATION_BLOCKED = 'Not allowed while impersonating';
+
+export class ImpersonationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImpersonationError';
+  }
+}
+
+// Guard for actions that only the real account holder may take (password,
+// MFA, signing out other devices)
+export function assertNotImpersonating(user: AuthUser): void {
+  if (user.impersonator) {
+    throw new Error(IMPERSONATION_BLOCKED);
+  }
+}
+
+// Issue a short-lived session for the target user that names the admin as the
+// impersonator; the admin's own sessions are left untouched
+export async function startImpersonation(
+  admin: AuthUser,
+  targetUserId: string,
+  context: SessionContext = {}
+): Promise<{ user: AuthUser; expiresAt: Date } & AuthTokens> {
+  if (admin.impersonator) {
+    throw new ImpersonationError('Stop the current impersonation first');
+  }
+
+  if (!isSuperAdmin(admin.role?.permissions as RolePermissions)) {
+    throw new ImpersonationError('Only Super Admins can impersonate users');
+  }
+
+  if (targetUserId === admin.id) {
+    throw new ImpersonationError('You cannot impersonate yourself');
+  }
+
+  const target = await forTenant(admin.tenantId).user.findFirst({
+    where: { id: targetUserId, isActive: true, isServiceAccount: false },
+    include: { role: true },
+  });
+  if (!target) {
+    throw new ImpersonationError('User not found');
+  }
+
+  const expiresAt = new Date(Date.now() + IMPERSONATION_TTL_MINUTES * 60 * 1000);
+  const { sessionId, ...tokens } = await createSession(target, context, {
+    impersonatorId: admin.id,
+    expiresAt,
+  });
+
+  return {
+    user: {
+      ...toAuthUser(target),
+      sessionId,
+      impersonator: { id: admin.id, email: admin.email, firstName: admin.firstName, lastName: admin.lastName },
+    },
+    expiresAt,
+    ...tokens,
+  };
+}
+
+// Close the impersonation session and start a fresh one for the admin behind it
+export async function endImpersonation(
+  user: AuthUser,
+  context: SessionContext = {}
+): Promise<{ user: AuthUser } & AuthTokens> {
+  if (!user.impersonator) {
+    throw new ImpersonationError('Not impersonating');
+  }
+
+  const admin = await forTenant(user.tenantId).user.findFirst({
+    where: { id: user.impersonator.id, isActive: true },
+    include: { role: true },
+  });
+  if (!admin) {
+    throw new ImpersonationError('User not found');
+  }
+
+  if (user.sessionId) {
+    await revokeSession(user.tenantId, user.sessionId, 'impersonation_ended');
+  }
+
+  const { sessionId, ...tokens } = await createSession(admin, context);
+  return { user: { ...toAuthUser(admin), sessionId }, ...tokens };
+}
@@ -0,0 +1,140 @@
+// Import files - CSV and XLSX uploads read into a header row and rows of cell text
+import { parse } from 'csv-parse/sync';
+import ExcelJS from 'exceljs';
+
+export const IMPORT_FILE_TYPES = ['csv', 'xlsx'] as const;
+export type ImportFileType = (typeof IMPORT_FILE_TYPES)[number];
+
+export const MAX_IMPORT_FILE_BYTES = 10 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 20000;
+
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+// Column header -> cell text; empty cells are left out
+export type ImportFileRow = Record<string, string>;
+
+export interface ParsedImportFile {
+  headers: string[];
+  // rows[i] is line i + 2 of the file, after the header
+  rows: ImportFileRow[];
+}
+
+export function importFileType(fileName: string): ImportFileType | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  return extension === 'csv' || extension === 'xlsx' ? extension : null;
+}
+
+// Blank headers get a column name and repeated ones a suffix, so every
+// column can be mapped on its own
+function uniqueHeaders(cells: string[]): string[] {
+  const seen = new Map<string, number>();
+
+  return cells.map((cell, index) => {
+    const header = cell.trim() || `Column ${index + 1}`;
+    const count = (seen.get(header) || 0) + 1;
+    seen.set(header, count);
+    return count > 1 ? `${header} (${count})` : header;
+  });
+}
+
+function toImportFile(lines: string[][]): ParsedImportFile {
+  const [headerLine, ...dataLines] = lines;
+  if (!headerLine || headerLine.every((cell) => !cell.trim())) {
+    throw new ImportFileError('The file has no header row');
+  }
+  if (dataLines.length > MAX_IMPORT_ROWS) {
+    throw new ImportFileError(`Files are limited to ${MAX_IMPORT_ROWS.toLocaleString()} rows`);
+  }
+
+  const headers = uniqueHeaders(headerLine);
+  const rows = dataLines.map((line) => {
+    const row: ImportFileRow = {};
+    headers.forEach((header, index) => {
+      const value = line[index]?.trim();
+      if (value) row[header] = value;
+    });
+    return row;
+  });
+
+  // Trailing blank lines are common in exported spreadsheets
+  while (rows.length > 0 && Object.keys(rows[rows.length - 1]).length === 0) {
+    rows.pop();
+  }
+
+  return { headers, rows };
+}
+
+// Exports quote cells a spreadsheet would run as a formula ("'=SUM(A1)");
+// the quote is dropped so an exported file imports unchanged
+const ESCAPED_FORMULA = /^'(?=[=+\-@\t\r])/;
+
+function parseCsv(buffer: Buffer): string[][] {
+  let lines: string[][];
+  try {
+    lines = parse(buffer, {
+      bom: true,
+      delimiter: [',', ';', '\t'],
+      relax_column_count: true,
+      skip_empty_lines: true,
+    }) as string[][];
+  } catch (error) {
+    throw new ImportFileError(`Could not read the CSV file: ${(error as Error).message}`);
+  }
+
+  return lines.map((line) => line.map((cell) => cell.replace(ESCAPED_FORMULA, '')));
+}
+
+// Dates become ISO strings (date only at midnight UTC); everything else is the
+// text Excel displays, including formula results
+function cellText(cell: ExcelJS.Cell): string {
+  if (cell.value instanceof Date) {
+    const iso = cell.value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+
+  return cell.text ?? '';
+}
+
+// Only the first worksheet is read
+async function parseXlsx(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    // ExcelJS types its input as an ArrayBuffer; copy the bytes into one
+    await workbook.xlsx.load(new Uint8Array(buffer).buffer);
+  } catch {
+    throw new ImportFileError('Could not read the XLSX file');
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    throw new ImportFileError('The workbook has no worksheets');
+  }
+
+  const lines: string[][] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const line: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      line.push(cellText(row.getCell(column)));
+    }
+    lines.push(line);
+  });
+
+  return lines;
+}
+
+export async function parseImportFile(fileName: string, buffer: Buffer): Promise<ParsedImportFile> {
+  const type = importFileType(fileName);
+  if (!type) {
+    throw new ImportFileError('Upload a .csv or .xlsx file');
+  }
+  if (buffer.length > MAX_IMPORT_FILE_BYTES) {
+    throw new ImportFileError(`Files are limited to ${MAX_IMPORT_FILE_BYTES / 1024 / 1024} MB`);
+  }
+
+  return toImportFile(type === 'csv' ? parseCsv(buffer) : await parseXlsx(buffer));
+}
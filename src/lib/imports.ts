@@ -0,0 +1,845 @@
+// Bulk imports - column-to-field mapping, dry-run validation with the entity
+// schemas, a batched background run with duplicate handling, and rollback of
+// exactly what an import changed
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { accountSchema } from './accounts';
+import { contactSchema } from './contacts';
+import { auditDiff, createAuditLog, forTenant, withTenantContext, TenantPrismaClient } from './database';
+import {
+  findDuplicates,
+  getDuplicateSettings,
+  recordCandidates,
+  BIGINT_FIELDS,
+  DUPLICATE_ENTITIES,
+  ENTITY_MODELS,
+  DuplicateEntity,
+  DuplicateMatch,
+  MatchRule,
+} from './duplicates';
+import { assertWritableFields } from './field-security';
+import { ImportFileRow, ParsedImportFile } from './import-files';
+import { leadSchema } from './leads';
+import { customFieldName, fieldAccess, grants, CUSTOM_FIELDS_KEY, RolePermissions } from './permissions';
+import { canAccessRecord, recordAccessFilter, SharingViewer } from './sharing';
+import type { RequestContext } from './with-auth';
+
+export const IMPORT_ENTITIES = DUPLICATE_ENTITIES;
+export type ImportEntity = DuplicateEntity;
+
+// What happens to a row that matches an existing record under the tenant's
+// duplicate rules: left alone, used to update that record, or created anyway
+// (and flagged as a likely duplicate)
+export const DUPLICATE_MODES = ['skip', 'update', 'create'] as const;
+export type DuplicateMode = (typeof DUPLICATE_MODES)[number];
+
+export const IMPORT_STATUSES = [
+  'uploaded',
+  'validated',
+  'running',
+  'completed',
+  'failed',
+  'rolling_back',
+  'rolled_back',
+] as const;
+
+// Standard fields a column can be mapped to. ownerEmail and accountName are
+// looked up and stored as ownerId and accountId; tags are comma separated.
+export const IMPORT_FIELDS: Record<ImportEntity, readonly string[]> = {
+  accounts: [
+    'name', 'website', 'industry', 'accountType', 'revenue', 'employeeCount', 'addressLine1', 'addressLine2',
+    'city', 'state', 'postalCode', 'country', 'phone', 'tags', 'ownerEmail',
+  ],
+  contacts: [
+    'firstName', 'lastName', 'email', 'phone', 'mobile', 'title', 'department', 'linkedinUrl', 'leadSource',
+    'tags', 'accountName', 'ownerEmail',
+  ],
+  leads: [
+    'firstName', 'lastName', 'email', 'phone', 'company', 'title', 'source', 'status', 'rating', 'tags',
+    'ownerEmail',
+  ],
+};
+
+const ENTITY_SCHEMAS = { accounts: accountSchema, contacts: contactSchema, leads: leadSchema };
+
+// Lookup columns and the record field they fill
+export const LOOKUP_FIELDS: Record<string, string> = { ownerEmail: 'ownerId', accountName: 'accountId' };
+const NUMBER_FIELDS = ['revenue', 'employeeCount'];
+// Spreadsheets usually hold bare domains; the schemas expect full URLs
+const URL_FIELDS = ['website', 'linkedinUrl'];
+
+// Rows read, written and counted per step of a run or rollback
+const IMPORT_BATCH_SIZE = 200;
+// Rows the dry run checks against existing records; schema validation covers every row
+const DRY_RUN_DUPLICATE_SAMPLE = 200;
+const DRY_RUN_PREVIEW_ROWS = 20;
+const REPORTED_ERRORS = 100;
+// Failed rows returned with an import; its counts cover all of them
+export const IMPORT_FAILED_ROWS_LIMIT = 100;
+
+export class ImportError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 | 409 = 400, public readonly details?: string[]) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+export const importMappingSchema = z.object({
+  // Column header -> field key or "customFields.<key>"; null leaves the column out
+  mapping: z.record(z.string().nullable()),
+  duplicateMode: z.enum(DUPLICATE_MODES).default('skip'),
+});
+
+export type ImportMapping = z.infer<typeof importMappingSchema>;
+
+export function isImportEntity(entity: string): entity is ImportEntity {
+  return (IMPORT_ENTITIES as readonly string[]).includes(entity);
+}
+
+export interface ImportField {
+  key: string;
+  label: string;
+  type: string;
+  required: boolean;
+}
+
+interface CustomFieldDefinition {
+  fieldKey: string;
+  fieldLabel: string;
+  fieldType: string;
+  config: unknown;
+  isRequired: boolean;
+}
+
+function fieldLabel(key: string): string {
+  const words = key.replace(/([a-z])([A-Z0-9])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+async function customFieldDefinitions(db: TenantPrismaClient, entity: ImportEntity): Promise<CustomFieldDefinition[]> {
+  return db.customField.findMany({
+    where: { entityType: ENTITY_MODELS[entity], isActive: true },
+    select: { fieldKey: true, fieldLabel: true, fieldType: true, config: true, isRequired: true },
+    orderBy: { fieldLabel: 'asc' },
+  });
+}
+
+// The standard and custom fields the role may write, as mapping targets
+export async function importFields(
+  db: TenantPrismaClient,
+  entity: ImportEntity,
+  permissions: unknown
+): Promise<ImportField[]> {
+  const rolePermissions = permissions as RolePermissions | undefined;
+  const writable = (field: string) => fieldAccess(rolePermissions, entity, field) === 'write';
+  const required = (ENTITY_SCHEMAS[entity] as z.ZodTypeAny).safeParse({}).error?.errors.map((issue) => issue.path[0]);
+
+  const standard = IMPORT_FIELDS[entity]
+    .filter((key) => writable(LOOKUP_FIELDS[key] || key))
+    .map((key) => ({
+      key,
+      label: fieldLabel(key),
+      type: NUMBER_FIELDS.includes(key) ? 'number' : 'text',
+      required: !!required?.includes(key),
+    }));
+
+  const custom = (await customFieldDefinitions(db, entity))
+    .filter((field) => writable(customFieldName(field.fieldKey)))
+    .map((field) => ({
+      key: customFieldName(field.fieldKey),
+      label: field.fieldLabel,
+      type: field.fieldType,
+      required: field.isRequired,
+    }));
+
+  return [...standard, ...custom];
+}
+
+function comparable(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Columns whose header reads like a field's key (as exported) or label
+export function suggestMapping(headers: string[], fields: ImportField[]): Record<string, string | null> {
+  const used = new Set<string>();
+
+  return Object.fromEntries(
+    headers.map((header) => {
+      const field = fields.find(
+        (candidate) =>
+          !used.has(candidate.key) &&
+          [candidate.key, candidate.key.replace(`${CUSTOM_FIELDS_KEY}.`, ''), candidate.label].some(
+            (name) => comparable(name) === comparable(header)
+          )
+      );
+      if (field) used.add(field.key);
+      return [header, field?.key ?? null];
+    })
+  );
+}
+
+type ImportActor = SharingViewer;
+type RecordData = Record<string, unknown>;
+
+// Everything needed to turn a row into record data, loaded once per run
+interface RowConverter {
+  entity: ImportEntity;
+  mapping: Record<string, string>;
+  customFields: Map<string, CustomFieldDefinition>;
+  owners: Map<string, string>;
+  accountIds: (name: string) => Promise<string[]>;
+}
+
+async function rowConverter(
+  db: TenantPrismaClient,
+  actor: ImportActor,
+  entity: ImportEntity,
+  mapping: Record<string, string | null>
+): Promise<RowConverter> {
+  const customFields = new Map((await customFieldDefinitions(db, entity)).map((field) => [field.fieldKey, field]));
+  const owners = new Map<string, string>(
+    (await db.user.findMany({ where: { isActive: true }, select: { id: true, email: true } })).map((user) => [
+      user.email.toLowerCase(),
+      user.id,
+    ])
+  );
+
+  const accountVisibility = entity === 'contacts' ? await recordAccessFilter(db, actor, 'accounts') : null;
+  const accountCache = new Map<string, string[]>();
+  const accountIds = async (name: string) => {
+    const key = name.toLowerCase();
+    if (!accountCache.has(key)) {
+      const accounts = await db.account.findMany({
+        where: {
+          isActive: true,
+          name: { equals: name, mode: 'insensitive' },
+          ...(accountVisibility ? { AND: [accountVisibility] } : {}),
+        },
+        select: { id: true },
+        take: 2,
+      });
+      accountCache.set(key, accounts.map((account) => account.id));
+    }
+    return accountCache.get(key) as string[];
+  };
+
+  return {
+    entity,
+    mapping: Object.fromEntries(Object.entries(mapping).filter((entry): entry is [string, string] => !!entry[1])),
+    customFields,
+    owners,
+    accountIds,
+  };
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+function parseNumber(value: string): number | null {
+  const number = Number(value.replace(/[,\s]/g, ''));
+  return Number.isFinite(number) ? number : null;
+}
+
+function picklistOptions(config: unknown): string[] {
+  const options = (config as { options?: unknown } | null)?.options;
+  if (!Array.isArray(options)) return [];
+  return options
+    .map((option) => (typeof option === 'string' ? option : (option as { value?: unknown })?.value))
+    .filter((option): option is string => typeof option === 'string');
+}
+
+// A custom field value in the type its definition declares
+function customFieldValue(field: CustomFieldDefinition, value: string): { value?: unknown; error?: string } {
+  switch (field.fieldType) {
+    case 'number': {
+      const number = parseNumber(value);
+      return number === null ? { error: `${field.fieldLabel}: "${value}" is not a number` } : { value: number };
+    }
+    case 'boolean':
+      if (TRUE_VALUES.includes(value.toLowerCase())) return { value: true };
+      if (FALSE_VALUES.includes(value.toLowerCase())) return { value: false };
+      return { error: `${field.fieldLabel}: "${value}" is not yes or no` };
+    case 'date': {
+      const time = Date.parse(value);
+      return Number.isNaN(time)
+        ? { error: `${field.fieldLabel}: "${value}" is not a date` }
+        : { value: new Date(time).toISOString().slice(0, 10) };
+    }
+    case 'picklist': {
+      const options = picklistOptions(field.config);
+      const option = options.find((candidate) => candidate.toLowerCase() === value.toLowerCase());
+      if (options.length > 0 && !option) {
+        return { error: `${field.fieldLabel}: "${value}" is not one of ${options.join(', ')}` };
+      }
+      return { value: option ?? value };
+    }
+    default:
+      return { value };
+  }
+}
+
+interface ConvertedRow {
+  data: RecordData | null;
+  // Fields the row has a value for; an update changes only these
+  provided: string[];
+  errors: string[];
+}
+
+// Map a row's cells to fields, resolve lookups and validate the result with
+// the entity's schema
+async function convertRow(converter: RowConverter, row: ImportFileRow): Promise<ConvertedRow> {
+  const values: RecordData = {};
+  const customFields: RecordData = {};
+  const errors: string[] = [];
+
+  for (const [header, field] of Object.entries(converter.mapping)) {
+    const value = row[header]?.trim();
+    if (!value) continue;
+
+    if (field.startsWith(`${CUSTOM_FIELDS_KEY}.`)) {
+      const definition = converter.customFields.get(field.slice(CUSTOM_FIELDS_KEY.length + 1));
+      const converted = definition ? customFieldValue(definition, value) : { value };
+      if (converted.error) errors.push(converted.error);
+      else customFields[field.slice(CUSTOM_FIELDS_KEY.length + 1)] = converted.value;
+    } else if (field === 'ownerEmail') {
+      const ownerId = converter.owners.get(value.toLowerCase());
+      if (ownerId) values.ownerId = ownerId;
+      else errors.push(`Owner email: no active user with email ${value}`);
+    } else if (field === 'accountName') {
+      const ids = await converter.accountIds(value);
+      if (ids.length === 1) values.accountId = ids[0];
+      else errors.push(`Account name: ${ids.length === 0 ? 'no account' : 'more than one account'} named "${value}"`);
+    } else if (NUMBER_FIELDS.includes(field)) {
+      const number = parseNumber(value);
+      if (number === null) errors.push(`${fieldLabel(field)}: "${value}" is not a number`);
+      else values[field] = number;
+    } else if (field === 'tags') {
+      values.tags = value.split(/[,;]/).map((tag) => tag.trim()).filter(Boolean);
+    } else if (URL_FIELDS.includes(field)) {
+      values[field] = /^https?:\/\//i.test(value) ? value : `https://${value}`;
+    } else {
+      values[field] = value;
+    }
+  }
+
+  for (const definition of converter.customFields.values()) {
+    if (definition.isRequired && customFields[definition.fieldKey] === undefined) {
+      errors.push(`${definition.fieldLabel}: required`);
+    }
+  }
+
+  const provided = [...Object.keys(values), ...(Object.keys(customFields).length > 0 ? [CUSTOM_FIELDS_KEY] : [])];
+  const parsed = (ENTITY_SCHEMAS[converter.entity] as z.ZodTypeAny).safeParse({ ...values, customFields });
+  if (!parsed.success) {
+    errors.push(...parsed.error.errors.map((issue) => `${fieldLabel(String(issue.path[0] ?? 'row'))}: ${issue.message}`));
+  }
+
+  return { data: errors.length === 0 && parsed.success ? (parsed.data as RecordData) : null, provided, errors };
+}
+
+// Imports belong to the user who uploaded them; user administrators may see
+// and manage everyone's
+export function importJobScope(actor: ImportActor): { userId?: string } {
+  return grants(actor.role?.permissions as RolePermissions | undefined, 'users', 'write') ? {} : { userId: actor.id };
+}
+
+function assertEntityAccess(permissions: unknown, entity: string, action: string): void {
+  if (!grants(permissions as RolePermissions | undefined, entity, action)) {
+    throw new Error('Insufficient permissions');
+  }
+}
+
+// Every mapped column must exist and target a distinct field the role may write
+async function checkMapping(
+  db: TenantPrismaClient,
+  actor: ImportActor,
+  entity: ImportEntity,
+  headers: string[],
+  mapping: Record<string, string | null>
+): Promise<void> {
+  const customKeys = (await customFieldDefinitions(db, entity)).map((field) => customFieldName(field.fieldKey));
+  const targets = Object.entries(mapping).filter((entry): entry is [string, string] => !!entry[1]);
+
+  const unknownColumns = targets.map(([header]) => header).filter((header) => !headers.includes(header));
+  if (unknownColumns.length > 0) {
+    throw new ImportError('The mapping names columns the file does not have', 400, unknownColumns);
+  }
+
+  const fields = targets.map(([, field]) => field);
+  const unknownFields = fields.filter((field) => !IMPORT_FIELDS[entity].includes(field) && !customKeys.includes(field));
+  if (unknownFields.length > 0) {
+    throw new ImportError('The mapping names unknown fields', 400, unknownFields);
+  }
+
+  const repeated = fields.filter((field, index) => fields.indexOf(field) !== index);
+  if (repeated.length > 0) {
+    throw new ImportError('Each field can be mapped from one column only', 400, [...new Set(repeated)]);
+  }
+
+  const standard = fields.filter((field) => !field.startsWith(`${CUSTOM_FIELDS_KEY}.`));
+  const custom = fields.filter((field) => field.startsWith(`${CUSTOM_FIELDS_KEY}.`));
+  assertWritableFields(actor.role?.permissions, entity, {
+    ...Object.fromEntries(standard.map((field) => [LOOKUP_FIELDS[field] || field, true])),
+    [CUSTOM_FIELDS_KEY]: Object.fromEntries(custom.map((field) => [field.slice(CUSTOM_FIELDS_KEY.length + 1), true])),
+  });
+}
+
+async function duplicateRules(db: TenantPrismaClient, tenantId: string, entity: ImportEntity): Promise<MatchRule[]> {
+  const tenant = await db.tenant.findUnique({ where: { id: tenantId } });
+  const settings = getDuplicateSettings(tenant?.settings)[entity];
+  return settings.enabled ? [...settings.rules] : [];
+}
+
+// Store an uploaded file as a new job, one import row per data line
+export async function createImportJob(
+  actor: ImportActor,
+  entity: ImportEntity,
+  fileName: string,
+  file: ParsedImportFile
+) {
+  assertEntityAccess(actor.role?.permissions, entity, 'write');
+  if (file.rows.length === 0) {
+    throw new ImportError('The file has no data rows');
+  }
+
+  const db = forTenant(actor.tenantId);
+  const job = await db.importJob.create({
+    data: { userId: actor.id, entityType: entity, fileName, headers: file.headers, totalRows: file.rows.length },
+  });
+
+  for (let start = 0; start < file.rows.length; start += IMPORT_BATCH_SIZE * 5) {
+    await db.importRow.createMany({
+      data: file.rows.slice(start, start + IMPORT_BATCH_SIZE * 5).map((data, index) => ({
+        jobId: job.id,
+        rowNumber: start + index + 2,
+        data,
+      })),
+    });
+  }
+
+  return job;
+}
+
+export interface ImportRowIssue {
+  rowNumber: number;
+  errors: string[];
+}
+
+export interface ImportValidationReport {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  // Errors of the first invalid rows
+  errors: ImportRowIssue[];
+  duplicates: { checkedRows: number; matchedRows: number };
+  preview: { rowNumber: number; data: RecordData | null; errors: string[]; duplicateOf: DuplicateMatch[] }[];
+}
+
+// Dry run: validate every row with the mapping and report what an import would
+// do, without writing any records. The mapping is saved for the run.
+export async function validateImport(
+  actor: ImportActor,
+  jobId: string,
+  input: ImportMapping
+): Promise<ImportValidationReport> {
+  const db = forTenant(actor.tenantId);
+  const job = await db.importJob.findFirst({ where: { id: jobId, ...importJobScope(actor) } });
+  if (!job) {
+    throw new ImportError('Import not found', 404);
+  }
+  assertEntityAccess(actor.role?.permissions, job.entityType, 'write');
+  if (!['uploaded', 'validated'].includes(job.status)) {
+    throw new ImportError('This import has already run', 409);
+  }
+
+  const entity = job.entityType as ImportEntity;
+  await checkMapping(db, actor, entity, job.headers, input.mapping);
+  const converter = await rowConverter(db, actor, entity, input.mapping);
+  const rules = await duplicateRules(db, actor.tenantId, entity);
+
+  const report: ImportValidationReport = {
+    totalRows: job.totalRows,
+    validRows: 0,
+    invalidRows: 0,
+    errors: [],
+    duplicates: { checkedRows: 0, matchedRows: 0 },
+    preview: [],
+  };
+
+  let cursor: string | undefined;
+  for (;;) {
+    const rows = await db.importRow.findMany({
+      where: { jobId },
+      orderBy: { rowNumber: 'asc' },
+      take: IMPORT_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      const { data, errors } = await convertRow(converter, row.data as ImportFileRow);
+      let duplicateOf: DuplicateMatch[] = [];
+
+      if (data) {
+        report.validRows++;
+        if (rules.length > 0 && report.duplicates.checkedRows < DRY_RUN_DUPLICATE_SAMPLE) {
+          duplicateOf = await findDuplicates(db, entity, data, rules);
+          report.duplicates.checkedRows++;
+          if (duplicateOf.length > 0) report.duplicates.matchedRows++;
+        }
+      } else {
+        report.invalidRows++;
+        if (report.errors.length < REPORTED_ERRORS) report.errors.push({ rowNumber: row.rowNumber, errors });
+      }
+
+      if (report.preview.length < DRY_RUN_PREVIEW_ROWS) {
+        report.preview.push({ rowNumber: row.rowNumber, data, errors, duplicateOf });
+      }
+    }
+
+    cursor = rows[rows.length - 1].id;
+  }
+
+  await db.importJob.update({
+    where: { id: jobId },
+    data: {
+      mapping: input.mapping,
+      duplicateMode: input.duplicateMode,
+      validation: report,
+      status: 'validated',
+    },
+  });
+
+  return report;
+}
+
+// Move a job from one of `from` to `to`; false if another request got there first
+async function claimJob(db: TenantPrismaClient, jobId: string, from: string[], to: string): Promise<boolean> {
+  const { count } = await db.importJob.updateMany({
+    where: { id: jobId, status: { in: from } },
+    data: { status: to, error: null, ...(to === 'running' ? { startedAt: new Date() } : {}) },
+  });
+  return count === 1;
+}
+
+// Claim a validated (or failed, to resume it) job for a run. Call runImport next.
+export async function startImport(actor: ImportActor, jobId: string): Promise<void> {
+  const db = forTenant(actor.tenantId);
+  const job = await db.importJob.findFirst({ where: { id: jobId, ...importJobScope(actor) } });
+  if (!job) {
+    throw new ImportError('Import not found', 404);
+  }
+  assertEntityAccess(actor.role?.permissions, job.entityType, 'write');
+
+  if (!(await claimJob(db, jobId, ['validated', 'failed'], 'running'))) {
+    throw new ImportError(
+      job.status === 'uploaded' ? 'Validate the mapping before running the import' : `The import is ${job.status}`,
+      409
+    );
+  }
+}
+
+// Claim a completed or failed job for a rollback. Call rollbackImport next.
+export async function startRollback(actor: ImportActor, jobId: string): Promise<void> {
+  const db = forTenant(actor.tenantId);
+  const job = await db.importJob.findFirst({ where: { id: jobId, ...importJobScope(actor) } });
+  if (!job) {
+    throw new ImportError('Import not found', 404);
+  }
+  assertEntityAccess(actor.role?.permissions, job.entityType, 'delete');
+
+  if (!(await claimJob(db, jobId, ['completed', 'failed'], 'rolling_back'))) {
+    throw new ImportError(`The import is ${job.status} and cannot be rolled back`, 409);
+  }
+}
+
+interface ImportDelegate {
+  create(args: { data: RecordData }): Promise<{ id: string }>;
+  findFirst(args: { where: RecordData }): Promise<RecordData | null>;
+  updateMany(args: { where: RecordData; data: RecordData }): Promise<{ count: number }>;
+}
+
+function importDelegate(tx: Prisma.TransactionClient, entity: ImportEntity): ImportDelegate {
+  return (tx as unknown as Record<string, ImportDelegate>)[ENTITY_MODELS[entity]];
+}
+
+// What an update replaced, and the version it left, so a rollback only
+// reverts records nobody has edited since
+interface PreviousValues {
+  values: RecordData;
+  updatedAt: string;
+}
+
+interface RunState {
+  db: TenantPrismaClient;
+  actor: ImportActor;
+  entity: ImportEntity;
+  duplicateMode: DuplicateMode;
+  converter: RowConverter;
+  rules: MatchRule[];
+}
+
+async function setRowResult(db: TenantPrismaClient, rowId: string, data: RecordData): Promise<void> {
+  await db.importRow.update({ where: { id: rowId }, data });
+}
+
+// Update the matching record with the row's values. Custom fields are merged
+// and tags added; fields the row leaves empty keep their value.
+async function updateFromRow(
+  state: RunState,
+  rowId: string,
+  recordId: string,
+  data: RecordData,
+  provided: string[]
+): Promise<void> {
+  const { actor, entity } = state;
+
+  await withTenantContext(actor.tenantId, async (tx) => {
+    const current = await importDelegate(tx, entity).findFirst({ where: { tenantId: actor.tenantId, id: recordId } });
+    if (!current) {
+      throw new ImportError('The matching record no longer exists');
+    }
+
+    const changes: RecordData = Object.fromEntries(provided.map((field) => [field, data[field]]));
+    if (changes[CUSTOM_FIELDS_KEY]) {
+      changes[CUSTOM_FIELDS_KEY] = { ...(current[CUSTOM_FIELDS_KEY] as RecordData), ...(data[CUSTOM_FIELDS_KEY] as RecordData) };
+    }
+    if (changes.tags) {
+      changes.tags = [...new Set([...((current.tags as string[]) || []), ...(data.tags as string[])])];
+    }
+
+    const { beforeData } = auditDiff(current, { ...current, ...changes }, Object.keys(changes));
+    const changed = Object.keys(beforeData);
+    if (changed.length > 0) {
+      await importDelegate(tx, entity).updateMany({
+        where: { tenantId: actor.tenantId, id: recordId },
+        data: Object.fromEntries(changed.map((field) => [field, changes[field]])),
+      });
+    }
+
+    const updated = await importDelegate(tx, entity).findFirst({ where: { tenantId: actor.tenantId, id: recordId } });
+    const previous: PreviousValues = { values: beforeData, updatedAt: (updated?.updatedAt as Date).toISOString() };
+
+    // auditDiff has already turned BigInt and Date values into strings
+    await tx.importRow.update({
+      where: { id: rowId },
+      data: { status: 'updated', recordId, previous: previous as unknown as Prisma.InputJsonValue },
+    });
+  });
+}
+
+async function createFromRow(state: RunState, rowId: string, data: RecordData): Promise<string> {
+  const { actor, entity } = state;
+
+  return withTenantContext(actor.tenantId, async (tx) => {
+    const record = await importDelegate(tx, entity).create({
+      data: { ...data, tenantId: actor.tenantId, ownerId: data.ownerId || actor.id },
+    });
+    await tx.importRow.update({ where: { id: rowId }, data: { status: 'created', recordId: record.id } });
+    return record.id;
+  });
+}
+
+async function importRow(state: RunState, row: { id: string; data: unknown }): Promise<void> {
+  const { db, actor, entity, duplicateMode, rules } = state;
+  const { data, provided, errors } = await convertRow(state.converter, row.data as ImportFileRow);
+  if (!data) {
+    return setRowResult(db, row.id, { status: 'failed', error: errors.join('; ') });
+  }
+
+  // Rows already imported count as existing records, so a file that repeats
+  // itself is handled like any other duplicate
+  const matches = rules.length > 0 ? await findDuplicates(db, entity, data, rules) : [];
+  const best = [...matches].sort((a, b) => b.matchedOn.length - a.matchedOn.length)[0];
+
+  if (best && duplicateMode === 'skip') {
+    return setRowResult(db, row.id, {
+      status: 'skipped',
+      recordId: best.id,
+      error: `Matches an existing record on ${best.matchedOn.join(', ')}`,
+    });
+  }
+
+  if (best && duplicateMode === 'update') {
+    if (!(await canAccessRecord(db, actor, entity, best.id, 'write'))) {
+      return setRowResult(db, row.id, { status: 'failed', error: 'No write access to the matching record' });
+    }
+    return updateFromRow(state, row.id, best.id, data, provided);
+  }
+
+  const recordId = await createFromRow(state, row.id, data);
+  if (matches.length > 0) {
+    await recordCandidates(db, entity, recordId, matches, 'import');
+  }
+}
+
+async function refreshCounts(db: TenantPrismaClient, jobId: string): Promise<Record<string, number>> {
+  const groups = await db.importRow.groupBy({ by: ['status'], where: { jobId }, _count: { _all: true } });
+  const counts: Record<string, number> = Object.fromEntries(
+    groups.map((group: { status: string; _count: { _all: number } }) => [group.status, group._count._all])
+  );
+
+  await db.importJob.update({
+    where: { id: jobId },
+    data: {
+      processedRows: Object.entries(counts)
+        .filter(([status]) => status !== 'pending')
+        .reduce((total, [, count]) => total + count, 0),
+      createdCount: counts.created || 0,
+      updatedCount: counts.updated || 0,
+      skippedCount: counts.skipped || 0,
+      failedCount: counts.failed || 0,
+    },
+  });
+
+  return counts;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unexpected error';
+}
+
+// Import the job's pending rows in batches, each row in its own transaction
+// with its result, so an interrupted run can be resumed from where it stopped.
+// The job ends completed, or failed with the error.
+export async function runImport(actor: ImportActor, jobId: string, context: Partial<RequestContext> = {}): Promise<void> {
+  const db = forTenant(actor.tenantId);
+
+  try {
+    const job = await db.importJob.findUniqueOrThrow({ where: { id: jobId } });
+    const entity = job.entityType as ImportEntity;
+    const state: RunState = {
+      db,
+      actor,
+      entity,
+      duplicateMode: job.duplicateMode as DuplicateMode,
+      converter: await rowConverter(db, actor, entity, job.mapping as Record<string, string | null>),
+      rules: await duplicateRules(db, actor.tenantId, entity),
+    };
+
+    for (;;) {
+      const rows = await db.importRow.findMany({
+        where: { jobId, status: 'pending' },
+        orderBy: { rowNumber: 'asc' },
+        take: IMPORT_BATCH_SIZE,
+        select: { id: true, data: true },
+      });
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        try {
+          await importRow(state, row);
+        } catch (error) {
+          if (!(error instanceof ImportError)) throw error;
+          await setRowResult(db, row.id, { status: 'failed', error: error.message });
+        }
+      }
+      await refreshCounts(db, jobId);
+    }
+
+    const counts = await refreshCounts(db, jobId);
+    await db.importJob.update({ where: { id: jobId }, data: { status: 'completed', completedAt: new Date() } });
+
+    await createAuditLog({
+      tenantId: actor.tenantId,
+      userId: actor.id,
+      action: 'IMPORT',
+      resourceType: 'import_job',
+      resourceId: jobId,
+      afterData: { entity, fileName: job.fileName, duplicateMode: job.duplicateMode, ...counts },
+      ...context,
+    });
+  } catch (error) {
+    console.error(`Import ${jobId} failed:`, error);
+    await db.importJob.update({ where: { id: jobId }, data: { status: 'failed', error: errorMessage(error) } });
+  }
+}
+
+// Undo what the import changed: records it created are soft-deleted and
+// records it updated get their previous values back, unless they were edited
+// since. The job ends rolled_back, or back in its previous state on error.
+export async function rollbackImport(
+  actor: ImportActor,
+  jobId: string,
+  context: Partial<RequestContext> = {}
+): Promise<void> {
+  const db = forTenant(actor.tenantId);
+  const tenantId = actor.tenantId;
+  const result = { removed: 0, reverted: 0, kept: 0 };
+
+  try {
+    const job = await db.importJob.findUniqueOrThrow({ where: { id: jobId } });
+    const entity = job.entityType as ImportEntity;
+
+    // Paged on rowNumber rather than a cursor: rolled back rows leave the
+    // filter, and skipping past a cursor row that no longer matches would
+    // skip an unprocessed row instead. Kept rows stay "updated", so the
+    // batches cannot simply be re-queried from the start either.
+    let lastRowNumber = 0;
+    for (;;) {
+      const rows = await db.importRow.findMany({
+        where: { jobId, status: { in: ['created', 'updated'] }, rowNumber: { gt: lastRowNumber } },
+        orderBy: { rowNumber: 'asc' },
+        take: IMPORT_BATCH_SIZE,
+      });
+      if (rows.length === 0) break;
+      lastRowNumber = rows[rows.length - 1].rowNumber;
+
+      const created = rows.filter((row) => row.status === 'created' && row.recordId);
+      await withTenantContext(tenantId, async (tx) => {
+        await importDelegate(tx, entity).updateMany({
+          where: { tenantId, id: { in: created.map((row) => row.recordId) } },
+          data: { isActive: false },
+        });
+        await tx.importRow.updateMany({
+          where: { tenantId, id: { in: created.map((row) => row.id) } },
+          data: { status: 'rolled_back' },
+        });
+      });
+      result.removed += created.length;
+
+      for (const row of rows.filter((candidate) => candidate.status === 'updated' && candidate.recordId)) {
+        const previous = row.previous as unknown as PreviousValues;
+        const values = Object.fromEntries(
+          Object.entries(previous.values).map(([field, value]) => [
+            field,
+            BIGINT_FIELDS.includes(field) && value != null ? BigInt(value as string) : value,
+          ])
+        );
+
+        const reverted = await withTenantContext(tenantId, async (tx) => {
+          const { count } = await importDelegate(tx, entity).updateMany({
+            where: { tenantId, id: row.recordId, updatedAt: new Date(previous.updatedAt) },
+            data: values,
+          });
+          await tx.importRow.update({
+            where: { id: row.id },
+            data: count === 1 ? { status: 'rolled_back' } : { error: 'Edited since the import; not reverted' },
+          });
+          return count === 1;
+        });
+        if (reverted) result.reverted++;
+        else result.kept++;
+      }
+    }
+
+    await db.importJob.update({ where: { id: jobId }, data: { status: 'rolled_back', rolledBackAt: new Date() } });
+
+    await createAuditLog({
+      tenantId,
+      userId: actor.id,
+      action: 'IMPORT_ROLLBACK',
+      resourceType: 'import_job',
+      resourceId: jobId,
+      afterData: { entity, fileName: job.fileName, ...result },
+      ...context,
+    });
+  } catch (error) {
+    console.error(`Rollback of import ${jobId} failed:`, error);
+    const job = await db.importJob.findUnique({ where: { id: jobId } });
+    await db.importJob.update({
+      where: { id: jobId },
+      data: { status: job?.completedAt ? 'completed' : 'failed', error: `Rollback failed: ${errorMessage(error)}` },
+    });
+  }
+}
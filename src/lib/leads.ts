@@ -0,0 +1,22 @@
+// Leads - request schemas shared by the routes that create leads
+import { z } from 'zod';
+
+export const leadSchema = z
+  .object({
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+    email: z.string().email().optional().or(z.literal('')),
+    phone: z.string().optional(),
+    company: z.string().optional(),
+    title: z.string().optional(),
+    source: z.string().optional(),
+    status: z.string().default('new'),
+    rating: z.string().optional(),
+    ownerId: z.string().optional(),
+    customFields: z.record(z.any()).default({}),
+    tags: z.array(z.string()).default([]),
+  })
+  .refine((lead) => !!(lead.lastName || lead.company), {
+    message: 'A lead needs a last name or a company',
+    path: ['lastName'],
+  });
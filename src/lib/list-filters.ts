@@ -0,0 +1,51 @@
+// List filters - the where clause for an entity list from its query string,
+// shared by the list endpoints and their exports so both return the same records
+import { TenantPrismaClient } from './database';
+import { readableFields } from './field-security';
+import { recordAccessFilter, RecordFilter, SharingViewer } from './sharing';
+
+export const LIST_ENTITIES = ['accounts', 'contacts', 'leads'] as const;
+export type ListEntity = (typeof LIST_ENTITIES)[number];
+
+// `search` matches any of the search fields; the other parameters are exact
+// matches on the field of the same name
+const LIST_FILTERS: Record<ListEntity, { search: string[]; equals: string[] }> = {
+  accounts: { search: ['name', 'website', 'city'], equals: ['industry', 'accountType', 'ownerId'] },
+  contacts: { search: ['firstName', 'lastName', 'email'], equals: ['accountId', 'leadSource', 'ownerId'] },
+  leads: { search: ['firstName', 'lastName', 'email', 'company'], equals: ['status', 'source', 'rating', 'ownerId'] },
+};
+
+// Active records matching the filters in `searchParams` that the viewer may see
+export async function listFilter(
+  db: TenantPrismaClient,
+  viewer: SharingViewer,
+  entity: ListEntity,
+  searchParams: URLSearchParams
+): Promise<RecordFilter> {
+  const permissions = viewer.role?.permissions;
+  const { search: searchFields, equals } = LIST_FILTERS[entity];
+  const where: RecordFilter = { isActive: true };
+
+  // Hidden fields are neither searched nor filtered on, so a match cannot reveal their value
+  const search = searchParams.get('search') || '';
+  if (search) {
+    where.OR = readableFields(permissions, entity, searchFields).map((field) => ({
+      [field]: { contains: search, mode: 'insensitive' },
+    }));
+  }
+
+  for (const field of readableFields(permissions, entity, equals)) {
+    const value = searchParams.get(field);
+    if (value) {
+      where[field] = value;
+    }
+  }
+
+  // Only records the viewer may see under the tenant's sharing rules
+  const visibility = await recordAccessFilter(db, viewer, entity);
+  if (visibility) {
+    where.AND = [visibility];
+  }
+
+  return where;
+}
@@ -0,0 +1,268 @@
+// Login limiter - per-account, per-IP and per-user MFA failure counters,
+// progressive delay and lockout
+import { prisma } from './database';
+
+const WINDOW_MS = parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '15') * 60 * 1000;
+const LOCKOUT_MS = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15') * 60 * 1000;
+const MAX_DELAY_MS = 30 * 1000;
+const MEMORY_STORE_MAX_ENTRIES = 10000;
+
+// Failures allowed before delays start, and before the key is locked out
+const POLICIES = {
+  account: {
+    freeFailures: 2,
+    maxFailures: parseInt(process.env.LOGIN_MAX_ACCOUNT_FAILURES || '5'),
+  },
+  ip: {
+    freeFailures: 5,
+    maxFailures: parseInt(process.env.LOGIN_MAX_IP_FAILURES || '25'),
+  },
+  mfa: {
+    freeFailures: 2,
+    maxFailures: parseInt(process.env.MFA_MAX_FAILURES || '5'),
+  },
+};
+
+type LimiterScope = keyof typeof POLICIES;
+
+export interface LoginAttemptState {
+  failures: number;
+  blockedUntil: Date | null;
+  lockedUntil: Date | null;
+}
+
+// Storage backend for failure counters. increment must be atomic so that
+// concurrent attempts against the same key are all counted.
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptState | null>;
+  increment(key: string, windowMs: number): Promise<number>;
+  block(key: string, blockedUntil: Date | null, lockedUntil: Date | null): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+export type LoginThrottleResult =
+  | { allowed: true }
+  | { allowed: false; reason: 'locked' | 'throttled'; retryAfterSeconds: number };
+
+// Single-process store for development and tests
+export function createMemoryLoginAttemptStore(): LoginAttemptStore {
+  const entries = new Map<string, LoginAttemptState & { windowStartedAt: number }>();
+
+  return {
+    async get(key) {
+      return entries.get(key) ?? null;
+    },
+    async increment(key, windowMs) {
+      const now = Date.now();
+      const entry = entries.get(key);
+
+      if (entries.size > MEMORY_STORE_MAX_ENTRIES) {
+        for (const [staleKey, stale] of entries) {
+          const blocked = Math.max(stale.blockedUntil?.getTime() ?? 0, stale.lockedUntil?.getTime() ?? 0);
+          if (stale.windowStartedAt < now - windowMs && blocked < now) entries.delete(staleKey);
+        }
+      }
+
+      if (!entry || entry.windowStartedAt < now - windowMs) {
+        entries.set(key, {
+          failures: 1,
+          windowStartedAt: now,
+          blockedUntil: entry?.blockedUntil ?? null,
+          lockedUntil: entry?.lockedUntil ?? null,
+        });
+        return 1;
+      }
+
+      entry.failures += 1;
+      return entry.failures;
+    },
+    async block(key, blockedUntil, lockedUntil) {
+      const entry = entries.get(key);
+      if (entry) {
+        entry.blockedUntil = blockedUntil;
+        entry.lockedUntil = lockedUntil;
+      }
+    },
+    async reset(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+// Shared store for multi-instance deployments (login_attempts table)
+export function createPostgresLoginAttemptStore(): LoginAttemptStore {
+  return {
+    async get(key) {
+      return prisma.loginAttempt.findUnique({
+        where: { key },
+        select: { failures: true, blockedUntil: true, lockedUntil: true },
+      });
+    },
+    async increment(key, windowMs) {
+      const now = new Date();
+      const windowStart = new Date(now.getTime() - windowMs);
+
+      const rows = await prisma.$queryRaw<{ failures: number }[]>`
+        INSERT INTO login_attempts (key, failures, window_started_at, updated_at)
+        VALUES (${key}, 1, ${now}, ${now})
+        ON CONFLICT (key) DO UPDATE SET
+          failures = CASE WHEN login_attempts.window_started_at < ${windowStart}
+            THEN 1 ELSE login_attempts.failures + 1 END,
+          window_started_at = CASE WHEN login_attempts.window_started_at < ${windowStart}
+            THEN ${now} ELSE login_attempts.window_started_at END,
+          updated_at = ${now}
+        RETURNING failures
+      `;
+
+      return Number(rows[0].failures);
+    },
+    async block(key, blockedUntil, lockedUntil) {
+      await prisma.loginAttempt.updateMany({
+        where: { key },
+        data: { blockedUntil, lockedUntil, updatedAt: new Date() },
+      });
+    },
+    async reset(key) {
+      await prisma.loginAttempt.deleteMany({ where: { key } });
+    },
+  };
+}
+
+let store: LoginAttemptStore | null = null;
+
+// LOGIN_LIMITER_STORE selects the backend; production defaults to Postgres
+function getStore(): LoginAttemptStore {
+  if (!store) {
+    const backend =
+      process.env.LOGIN_LIMITER_STORE ||
+      (process.env.NODE_ENV === 'production' ? 'postgres' : 'memory');
+
+    store = backend === 'postgres' ? createPostgresLoginAttemptStore() : createMemoryLoginAttemptStore();
+  }
+
+  return store;
+}
+
+function accountKey(email: string): string {
+  return `account:${email.trim().toLowerCase()}`;
+}
+
+// The client address comes from getRequestContext (see client-ip); requests
+// without one are not IP-limited rather than sharing a single bucket
+function ipKey(ipAddress: string | undefined): string | null {
+  return ipAddress && ipAddress !== 'unknown' ? `ip:${ipAddress}` : null;
+}
+
+function mfaKey(userId: string): string {
+  return `mfa:${userId}`;
+}
+
+function keysFor(email: string, ipAddress?: string): [LimiterScope, string][] {
+  const ip = ipKey(ipAddress);
+  return ip ? [['account', accountKey(email)], ['ip', ip]] : [['account', accountKey(email)]];
+}
+
+function mfaKeysFor(userId: string, ipAddress?: string): [LimiterScope, string][] {
+  const ip = ipKey(ipAddress);
+  return ip ? [['mfa', mfaKey(userId)], ['ip', ip]] : [['mfa', mfaKey(userId)]];
+}
+
+// Delay doubles with each failure past the free allowance, capped at MAX_DELAY_MS
+function delayFor(scope: LimiterScope, failures: number): number {
+  const excess = failures - POLICIES[scope].freeFailures;
+  return excess > 0 ? Math.min(1000 * 2 ** (excess - 1), MAX_DELAY_MS) : 0;
+}
+
+async function checkKeys(keys: [LimiterScope, string][]): Promise<LoginThrottleResult> {
+  const limiterStore = getStore();
+  const now = Date.now();
+  const blocks: { reason: 'locked' | 'throttled'; until: number }[] = [];
+
+  for (const [, key] of keys) {
+    const state = await limiterStore.get(key);
+    if (state?.lockedUntil && state.lockedUntil.getTime() > now) {
+      blocks.push({ reason: 'locked', until: state.lockedUntil.getTime() });
+    } else if (state?.blockedUntil && state.blockedUntil.getTime() > now) {
+      blocks.push({ reason: 'throttled', until: state.blockedUntil.getTime() });
+    }
+  }
+
+  if (blocks.length === 0) {
+    return { allowed: true };
+  }
+
+  // A lockout outranks a progressive delay
+  const locked = blocks.filter((block) => block.reason === 'locked');
+  const relevant = locked.length > 0 ? locked : blocks;
+  const until = Math.max(...relevant.map((block) => block.until));
+
+  return { allowed: false, reason: relevant[0].reason, retryAfterSeconds: Math.ceil((until - now) / 1000) };
+}
+
+// Count a failure against each key; returns the scopes that became locked by it
+async function recordFailures(keys: [LimiterScope, string][]): Promise<LimiterScope[]> {
+  const limiterStore = getStore();
+  const locked: LimiterScope[] = [];
+
+  for (const [scope, key] of keys) {
+    const failures = await limiterStore.increment(key, WINDOW_MS);
+    const now = Date.now();
+
+    if (failures >= POLICIES[scope].maxFailures) {
+      await limiterStore.block(key, null, new Date(now + LOCKOUT_MS));
+      if (failures === POLICIES[scope].maxFailures) {
+        locked.push(scope);
+      }
+      continue;
+    }
+
+    const delay = delayFor(scope, failures);
+    if (delay > 0) {
+      await limiterStore.block(key, new Date(now + delay), null);
+    }
+  }
+
+  return locked;
+}
+
+// Check whether a login attempt may proceed, before the password is verified
+export async function checkLoginAllowed(email: string, ipAddress?: string): Promise<LoginThrottleResult> {
+  return checkKeys(keysFor(email, ipAddress));
+}
+
+// Count a failed attempt; returns true if the account became locked by it
+export async function recordLoginFailure(email: string, ipAddress?: string): Promise<{ accountLocked: boolean }> {
+  const locked = await recordFailures(keysFor(email, ipAddress));
+  return { accountLocked: locked.includes('account') };
+}
+
+// A correct password clears the account's counter; the IP counter is left to expire
+export async function recordLoginSuccess(email: string): Promise<void> {
+  await getStore().reset(accountKey(email));
+}
+
+export async function getAccountLockStatus(email: string): Promise<{ locked: boolean; lockedUntil: Date | null }> {
+  const state = await getStore().get(accountKey(email));
+  const lockedUntil = state?.lockedUntil && state.lockedUntil.getTime() > Date.now() ? state.lockedUntil : null;
+  return { locked: !!lockedUntil, lockedUntil };
+}
+
+// Admin unlock: clears the lockout and failure count for the account
+export async function unlockAccount(email: string): Promise<void> {
+  await getStore().reset(accountKey(email));
+}
+
+// The second login step is limited per user, so a stolen password cannot be
+// followed by guessing codes across repeated challenges
+export async function checkMfaAllowed(userId: string, ipAddress?: string): Promise<LoginThrottleResult> {
+  return checkKeys(mfaKeysFor(userId, ipAddress));
+}
+
+export async function recordMfaFailure(userId: string, ipAddress?: string): Promise<{ mfaLocked: boolean }> {
+  const locked = await recordFailures(mfaKeysFor(userId, ipAddress));
+  return { mfaLocked: locked.includes('mfa') };
+}
+
+export async function recordMfaSuccess(userId: string): Promise<void> {
+  await getStore().reset(mfaKey(userId));
+}
@@ -0,0 +1,245 @@
+// Mail - pluggable transport for outgoing email (local file or SMTP)
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import net from 'net';
+import path from 'path';
+import tls from 'tls';
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Enterprise CRM <no-reply@localhost>';
+const SMTP_TIMEOUT_MS = 10000;
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// RFC 5322 message; multipart/alternative when an HTML body is given
+function formatMessage(message: MailMessage): string {
+  const crlf = (value: string) => value.replace(/\r?\n/g, '\r\n');
+  const headers = [
+    `From: ${MAIL_FROM}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${MAIL_FROM.replace(/.*@|>.*/g, '') || 'localhost'}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!message.html) {
+    return [...headers, 'Content-Type: text/plain; charset=utf-8', '', crlf(message.text)].join('\r\n');
+  }
+
+  const boundary = `b_${crypto.randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    crlf(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    '',
+    crlf(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+// Writes each message as an .eml file, for development without a mail server
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true });
+      const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.eml`;
+      await fs.writeFile(path.join(directory, name), formatMessage(message), 'utf8');
+    },
+  };
+}
+
+// SMTP replies read off a socket; multi-line replies ("250-...") come back whole
+function smtpReplies(socket: net.Socket) {
+  const replies: string[][] = [];
+  let buffer = '';
+  let pending: string[] = [];
+  let failure: Error | null = null;
+  let waiting: (() => void) | null = null;
+
+  const wake = () => {
+    const resolve = waiting;
+    waiting = null;
+    resolve?.();
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    const lines = buffer.split('\r\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      pending.push(line);
+      if (line.charAt(3) !== '-') {
+        replies.push(pending);
+        pending = [];
+      }
+    }
+    wake();
+  };
+  const onError = (error: Error) => {
+    failure = failure || error;
+    wake();
+  };
+  const onClose = () => onError(new Error('SMTP connection closed'));
+
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+
+  return {
+    async read(expected: number): Promise<string[]> {
+      while (replies.length === 0) {
+        if (failure) throw failure;
+        await new Promise<void>((resolve) => (waiting = resolve));
+      }
+
+      const reply = replies.shift()!;
+      if (parseInt(reply[reply.length - 1].slice(0, 3)) !== expected) {
+        throw new Error(`SMTP error: ${reply.join(' ')}`);
+      }
+      return reply;
+    },
+    // Hand the socket over, e.g. to TLS after STARTTLS
+    detach() {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    },
+  };
+}
+
+function startTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: net.isIP(host) ? undefined : host }, () => resolve(secured));
+    secured.once('error', reject);
+  });
+}
+
+// Minimal SMTP client. `secure` connects over TLS (port 465); otherwise the
+// connection is upgraded with STARTTLS when the server offers it. Credentials
+// are only ever sent over TLS, so a plaintext connection is limited to local
+// catch-all servers such as MailHog that need no login.
+export function createSmtpTransport({
+  host,
+  port,
+  secure = false,
+  user,
+  pass,
+}: {
+  host: string;
+  port: number;
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+}): MailTransport {
+  return {
+    async send(message) {
+      const helo = `EHLO ${process.env.SMTP_HELO || 'localhost'}`;
+      const sender = MAIL_FROM.match(/<([^>]+)>/)?.[1] || MAIL_FROM;
+      const body = formatMessage(message)
+        .split('\r\n')
+        .map((line) => (line.startsWith('.') ? `.${line}` : line))
+        .join('\r\n');
+
+      let socket: net.Socket = secure
+        ? tls.connect({ host, port, servername: net.isIP(host) ? undefined : host })
+        : net.createConnection({ host, port });
+      let encrypted = secure;
+      let replies = smtpReplies(socket);
+
+      const timeout = (target: net.Socket) =>
+        target.setTimeout(SMTP_TIMEOUT_MS, () => target.destroy(new Error('SMTP connection timed out')));
+      const command = (line: string, expected: number) => {
+        socket.write(`${line}\r\n`);
+        return replies.read(expected);
+      };
+
+      timeout(socket);
+
+      try {
+        await replies.read(220);
+        const capabilities = await command(helo, 250);
+
+        if (!encrypted && capabilities.some((line) => /^250[ -]STARTTLS\b/i.test(line))) {
+          await command('STARTTLS', 220);
+          replies.detach();
+          socket = await startTls(socket, host);
+          encrypted = true;
+          replies = smtpReplies(socket);
+          timeout(socket);
+          await command(helo, 250);
+        }
+
+        if (user) {
+          if (!encrypted) {
+            throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials unencrypted');
+          }
+          await command(`AUTH PLAIN ${Buffer.from(`\0${user}\0${pass || ''}`).toString('base64')}`, 235);
+        }
+
+        await command(`MAIL FROM:<${sender}>`, 250);
+        await command(`RCPT TO:<${message.to}>`, 250);
+        await command('DATA', 354);
+        await command(`${body}\r\n.`, 250);
+        await command('QUIT', 221);
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
+
+let transport: MailTransport | null = null;
+
+// MAIL_TRANSPORT selects the backend: "file" (default, MAIL_FILE_DIR) or "smtp"
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport =
+      process.env.MAIL_TRANSPORT === 'smtp'
+        ? createSmtpTransport({
+            host: process.env.SMTP_HOST || 'localhost',
+            port: parseInt(process.env.SMTP_PORT || '1025'),
+            secure: process.env.SMTP_SECURE === 'true',
+            user: process.env.SMTP_USER || undefined,
+            pass: process.env.SMTP_PASS || undefined,
+          })
+        : createFileTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), '.mail'));
+  }
+
+  return transport;
+}
+
+// Base URL for links in outgoing mail. The request origin comes from the Host
+// header, which the client controls, so production requires APP_URL.
+export function mailLinkBaseUrl(requestOrigin: string): string {
+  const appUrl = process.env.APP_URL;
+  if (!appUrl && process.env.NODE_ENV === 'production') {
+    throw new Error('APP_URL is not configured');
+  }
+
+  return (appUrl || requestOrigin).replace(/\/+$/, '');
+}
+
+// Called at server startup
+export function assertMailConfigured(): void {
+  mailLinkBaseUrl('');
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
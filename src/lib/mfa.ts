@@ -0,0 +1,220 @@
+// Multi-factor authentication - TOTP enrollment, verification and recovery codes
+import crypto from 'crypto';
+import { forTenant } from './database';
+import { buildOtpAuthUri, generateTotpSecret, verifyTotp } from './totp';
+
+const MFA_ISSUER = process.env.MFA_ISSUER || 'Enterprise CRM';
+const RECOVERY_CODE_COUNT = 10;
+
+// Tenant MFA requirement, stored in Tenant.settings.mfa
+export interface MfaPolicy {
+  required: 'none' | 'all' | 'roles';
+  roles: string[];
+}
+
+export const DEFAULT_MFA_POLICY: MfaPolicy = {
+  required: 'none',
+  roles: [],
+};
+
+export function getMfaPolicy(tenantSettings: unknown): MfaPolicy {
+  const policy = (tenantSettings as { mfa?: Partial<MfaPolicy> } | null)?.mfa;
+  if (!policy || !policy.required || !['none', 'all', 'roles'].includes(policy.required)) {
+    return DEFAULT_MFA_POLICY;
+  }
+
+  return {
+    required: policy.required,
+    roles: Array.isArray(policy.roles) ? policy.roles : [],
+  };
+}
+
+// Whether the tenant requires MFA for a user with the given role name
+export function isMfaRequired(tenantSettings: unknown, roleName: string | null | undefined): boolean {
+  const policy = getMfaPolicy(tenantSettings);
+
+  if (policy.required === 'all') return true;
+  if (policy.required === 'roles') return !!roleName && policy.roles.includes(roleName);
+  return false;
+}
+
+// Development falls back to a fixed key; production refuses to run without one
+function mfaEncryptionKey(): Buffer {
+  const key = process.env.MFA_ENCRYPTION_KEY;
+  if (!key && process.env.NODE_ENV === 'production') {
+    throw new Error('MFA_ENCRYPTION_KEY is not configured');
+  }
+
+  return crypto.createHash('sha256').update(key || 'your-mfa-key-change-in-production').digest();
+}
+
+// Called at server startup
+export function assertMfaEncryptionKeyConfigured(): void {
+  mfaEncryptionKey();
+}
+
+// Secrets are encrypted at rest with AES-256-GCM (iv.tag.ciphertext, base64url)
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', mfaEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64url')).join('.');
+}
+
+function decryptSecret(payload: string): string {
+  const [iv, tag, encrypted] = payload.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', mfaEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(code.replace(/-/g, '').toLowerCase())
+    .digest('hex');
+}
+
+// Start (or restart) enrollment: store a pending secret until a code confirms it
+export async function startMfaEnrollment(
+  tenantId: string,
+  userId: string
+): Promise<{ secret: string; otpauthUri: string }> {
+  const db = forTenant(tenantId);
+  const user = await db.user.findUnique({ where: { id: userId } });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.mfaEnabled) {
+    throw new Error('MFA is already enabled');
+  }
+
+  const secret = generateTotpSecret();
+
+  await db.user.update({
+    where: { id: userId },
+    data: { mfaSecret: encryptSecret(secret), mfaLastUsedStep: null },
+  });
+
+  return {
+    secret,
+    otpauthUri: buildOtpAuthUri(secret, user.email, MFA_ISSUER),
+  };
+}
+
+// Replace the user's recovery codes and return the new plain-text codes once
+export async function generateRecoveryCodes(tenantId: string, userId: string): Promise<string[]> {
+  const db = forTenant(tenantId);
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await db.mfaRecoveryCode.deleteMany({ where: { userId } });
+  await db.mfaRecoveryCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+  });
+
+  return codes;
+}
+
+// Verify a TOTP code and record its time step so it cannot be replayed
+async function consumeTotpCode(
+  tenantId: string,
+  user: { id: string; mfaSecret: string | null; mfaLastUsedStep: number | null },
+  code: string
+): Promise<boolean> {
+  if (!user.mfaSecret) {
+    return false;
+  }
+
+  const step = verifyTotp(decryptSecret(user.mfaSecret), code);
+  if (step === null || (user.mfaLastUsedStep !== null && step <= user.mfaLastUsedStep)) {
+    return false;
+  }
+
+  // Conditional update guards against two concurrent requests using the same code
+  const { count } = await forTenant(tenantId).user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+    },
+    data: { mfaLastUsedStep: step },
+  });
+
+  return count === 1;
+}
+
+// Confirm a pending enrollment with a first code; returns fresh recovery codes
+export async function confirmMfaEnrollment(
+  tenantId: string,
+  userId: string,
+  code: string
+): Promise<string[] | null> {
+  const db = forTenant(tenantId);
+  const user = await db.user.findUnique({ where: { id: userId } });
+
+  if (!user || user.mfaEnabled || !(await consumeTotpCode(tenantId, user, code))) {
+    return null;
+  }
+
+  await db.user.update({
+    where: { id: userId },
+    data: { mfaEnabled: true, mfaEnrolledAt: new Date() },
+  });
+
+  return generateRecoveryCodes(tenantId, userId);
+}
+
+// Verify a second factor: either a TOTP code or an unused recovery code
+export async function verifyMfa(
+  tenantId: string,
+  userId: string,
+  { code, recoveryCode }: { code?: string; recoveryCode?: string }
+): Promise<{ valid: boolean; method?: 'totp' | 'recovery_code'; remainingRecoveryCodes?: number }> {
+  const db = forTenant(tenantId);
+  const user = await db.user.findUnique({ where: { id: userId } });
+
+  if (!user || !user.mfaEnabled) {
+    return { valid: false };
+  }
+
+  if (code) {
+    const valid = await consumeTotpCode(tenantId, user, code);
+    return valid ? { valid, method: 'totp' } : { valid: false };
+  }
+
+  if (recoveryCode) {
+    const { count } = await db.mfaRecoveryCode.updateMany({
+      where: { userId, codeHash: hashRecoveryCode(recoveryCode), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return { valid: false };
+    }
+
+    const remainingRecoveryCodes = await db.mfaRecoveryCode.count({
+      where: { userId, usedAt: null },
+    });
+
+    return { valid: true, method: 'recovery_code', remainingRecoveryCodes };
+  }
+
+  return { valid: false };
+}
+
+// Turn MFA off and discard the secret and recovery codes
+export async function disableMfa(tenantId: string, userId: string): Promise<void> {
+  const db = forTenant(tenantId);
+
+  await db.user.update({
+    where: { id: userId },
+    data: { mfaEnabled: false, mfaSecret: null, mfaEnrolledAt: null, mfaLastUsedStep: null },
+  });
+  await db.mfaRecoveryCode.deleteMany({ where: { userId } });
+}
@@ -0,0 +1,262 @@
+// OpenID Connect single sign-on - per-tenant IdP configuration, PKCE and JIT provisioning
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { z } from 'zod';
+import { forTenant } from './database';
+import { getPublicBaseUrl, mapRoleName, SsoIdentity } from './sso';
+
+export const OIDC_INTEGRATION_TYPE = 'oidc';
+export const OIDC_STATE_COOKIE = 'oidc_state';
+
+const METADATA_CACHE_TTL_MS = 60 * 60 * 1000;
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+// Integration.config for an OIDC identity provider
+export const oidcConfigSchema = z.object({
+  issuer: z.string().url(),
+  clientId: z.string().min(1),
+  clientSecret: z.string().min(1),
+  scopes: z.array(z.string()).default(['openid', 'email', 'profile']),
+  tokenEndpointAuthMethod: z
+    .enum(['client_secret_basic', 'client_secret_post'])
+    .default('client_secret_basic'),
+  // Claim holding the user's IdP groups/roles and how its values map to CRM role names
+  roleClaim: z.string().default('groups'),
+  roleMapping: z.record(z.string()).default({}),
+  defaultRole: z.string().default('Sales Rep'),
+  allowJitProvisioning: z.boolean().default(true),
+  syncRoleOnLogin: z.boolean().default(false),
+  requireVerifiedEmail: z.boolean().default(true),
+});
+
+export type OidcConfig = z.infer<typeof oidcConfigSchema>;
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+  picture?: string;
+  nonce?: string;
+  [claim: string]: unknown;
+}
+
+// State kept between the redirect to the IdP and the callback
+export interface OidcAuthorizationState {
+  tenantId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnTo: string;
+}
+
+interface Jwk extends crypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+const metadataCache = new Map<string, { metadata: OidcProviderMetadata; expiresAt: number }>();
+const jwksCache = new Map<string, { keys: Jwk[]; expiresAt: number }>();
+
+function randomToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+// Load the tenant's active OIDC integration
+export async function getOidcConfig(tenantId: string): Promise<OidcConfig | null> {
+  const integration = await forTenant(tenantId).integration.findFirst({
+    where: { type: OIDC_INTEGRATION_TYPE, isActive: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (!integration) {
+    return null;
+  }
+
+  const parsed = oidcConfigSchema.safeParse(integration.config);
+  if (!parsed.success) {
+    throw new Error('Invalid OIDC configuration');
+  }
+
+  return parsed.data;
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { ...init, cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`OIDC request to ${url} failed with status ${response.status}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+export async function discoverProvider(issuer: string): Promise<OidcProviderMetadata> {
+  const cached = metadataCache.get(issuer);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.metadata;
+  }
+
+  const metadata = await fetchJson<OidcProviderMetadata>(
+    `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`
+  );
+
+  if (metadata.issuer !== issuer) {
+    throw new Error('OIDC issuer mismatch in discovery document');
+  }
+
+  metadataCache.set(issuer, { metadata, expiresAt: Date.now() + METADATA_CACHE_TTL_MS });
+  return metadata;
+}
+
+// Signing keys are cached; an unknown kid forces a refetch to pick up IdP key rotation
+async function getSigningKey(jwksUri: string, kid: string | undefined): Promise<crypto.KeyObject> {
+  const find = (keys: Jwk[]) =>
+    keys.find((key) => (key.use === undefined || key.use === 'sig') && (!kid || key.kid === kid));
+
+  let cached = jwksCache.get(jwksUri);
+  let key = cached && cached.expiresAt > Date.now() ? find(cached.keys) : undefined;
+
+  if (!key) {
+    const { keys } = await fetchJson<{ keys: Jwk[] }>(jwksUri);
+    cached = { keys, expiresAt: Date.now() + METADATA_CACHE_TTL_MS };
+    jwksCache.set(jwksUri, cached);
+    key = find(keys);
+  }
+
+  if (!key) {
+    throw new Error('No matching OIDC signing key');
+  }
+
+  return crypto.createPublicKey({ key, format: 'jwk' });
+}
+
+// Build the IdP authorization URL using the authorization code flow with PKCE (S256)
+export async function createAuthorizationRequest(
+  tenantId: string,
+  config: OidcConfig,
+  redirectUri: string,
+  returnTo: string
+): Promise<{ url: string; state: OidcAuthorizationState }> {
+  const metadata = await discoverProvider(config.issuer);
+  const state: OidcAuthorizationState = {
+    tenantId,
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(),
+    returnTo,
+  };
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: redirectUri,
+    scope: config.scopes.join(' '),
+    state: state.state,
+    nonce: state.nonce,
+    code_challenge: crypto.createHash('sha256').update(state.codeVerifier).digest('base64url'),
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return { url: url.toString(), state };
+}
+
+// Exchange the authorization code and return the verified ID token claims
+export async function exchangeAuthorizationCode(
+  config: OidcConfig,
+  code: string,
+  redirectUri: string,
+  state: OidcAuthorizationState
+): Promise<OidcClaims> {
+  const metadata = await discoverProvider(config.issuer);
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: state.codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+
+  if (config.tokenEndpointAuthMethod === 'client_secret_post') {
+    body.set('client_id', config.clientId);
+    body.set('client_secret', config.clientSecret);
+  } else {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const tokens = await fetchJson<{ id_token?: string }>(metadata.token_endpoint, {
+    method: 'POST',
+    headers,
+    body: body.toString(),
+  });
+
+  if (!tokens.id_token) {
+    throw new Error('OIDC token response did not include an ID token');
+  }
+
+  return verifyIdToken(tokens.id_token, config, metadata, state.nonce);
+}
+
+async function verifyIdToken(
+  idToken: string,
+  config: OidcConfig,
+  metadata: OidcProviderMetadata,
+  nonce: string
+): Promise<OidcClaims> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new Error('Malformed ID token');
+  }
+
+  const key = await getSigningKey(metadata.jwks_uri, decoded.header.kid);
+  const claims = jwt.verify(idToken, key, {
+    algorithms: ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'],
+    issuer: metadata.issuer,
+    audience: config.clientId,
+    clockTolerance: CLOCK_TOLERANCE_SECONDS,
+  }) as OidcClaims;
+
+  if (claims.nonce !== nonce) {
+    throw new Error('ID token nonce mismatch');
+  }
+
+  if (!claims.sub) {
+    throw new Error('ID token has no subject');
+  }
+
+  return claims;
+}
+
+// Normalize verified ID token claims into an SSO identity
+export function oidcIdentity(config: OidcConfig, claims: OidcClaims): SsoIdentity {
+  const [firstName, ...lastName] = (claims.name || '').split(' ');
+
+  return {
+    subject: claims.sub,
+    email: claims.email,
+    emailVerified: claims.email_verified === true,
+    firstName: claims.given_name || firstName || null,
+    lastName: claims.family_name || lastName.join(' ') || null,
+    avatarUrl: claims.picture || null,
+    roleName: mapRoleName(config.roleMapping, claims[config.roleClaim], config.defaultRole),
+  };
+}
+
+// Callback URL registered with the IdP
+export function getOidcRedirectUri(origin: string, slug: string): string {
+  return `${getPublicBaseUrl(origin)}/api/auth/sso/${encodeURIComponent(slug)}/callback`;
+}
@@ -0,0 +1,243 @@
+// Passwords - setting, changing and resetting user passwords
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import {
+  findLoginUsers,
+  getPasswordPolicy,
+  hashPassword,
+  isPasswordLoginEnabled,
+  revokeAllUserSessions,
+  validatePassword,
+  verifyPassword,
+  PasswordPolicy,
+  TenantHint,
+} from './auth';
+import { forTenant, withSystemContext, withTenantContext, TenantPrismaClient } from './database';
+import { sendMail } from './mail';
+
+const RESET_TOKEN_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60');
+
+export class PasswordValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super('Password does not meet requirements');
+    this.name = 'PasswordValidationError';
+  }
+}
+
+function hashResetToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+async function getTenantPasswordPolicy(db: TenantPrismaClient, tenantId: string): Promise<PasswordPolicy> {
+  const tenant = await db.tenant.findUnique({ where: { id: tenantId } });
+  return getPasswordPolicy(tenant?.settings);
+}
+
+function assertValidPassword(password: string, policy: PasswordPolicy): void {
+  const { isValid, errors } = validatePassword(password, policy);
+  if (!isValid) {
+    throw new PasswordValidationError(errors);
+  }
+}
+
+// The current password counts as the most recent entry of the history
+async function assertNotReused(
+  db: TenantPrismaClient,
+  user: { id: string; passwordHash: string | null },
+  password: string,
+  historyDepth: number
+): Promise<void> {
+  if (historyDepth === 0) {
+    return;
+  }
+
+  const history = await db.passwordHistory.findMany({
+    where: { userId: user.id },
+    orderBy: { createdAt: 'desc' },
+    take: historyDepth,
+  });
+  const hashes = [user.passwordHash, ...history.map((entry) => entry.passwordHash)].filter(
+    (hash): hash is string => !!hash
+  );
+
+  for (const hash of [...new Set(hashes)].slice(0, historyDepth)) {
+    if (await verifyPassword(password, hash)) {
+      throw new PasswordValidationError([
+        `Password must not match any of your last ${historyDepth} passwords`,
+      ]);
+    }
+  }
+}
+
+// Every path that sets a password goes through here so the tenant's policy
+// (rules, breached list and history) is always applied
+export async function setUserPassword(tenantId: string, userId: string, newPassword: string): Promise<void> {
+  await claimAndSetUserPassword(tenantId, userId, newPassword, async () => true);
+}
+
+// Set a password for a one-time link: `claim` marks the link used in the same
+// transaction as the password update and returns false if it was already used.
+// The policy and history are checked first, so a rejected password leaves the
+// link usable and a failed update leaves it unclaimed.
+export async function claimAndSetUserPassword(
+  tenantId: string,
+  userId: string,
+  newPassword: string,
+  claim: (tx: Prisma.TransactionClient) => Promise<boolean>
+): Promise<boolean> {
+  const db = forTenant(tenantId);
+  const user = await db.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const policy = await getTenantPasswordPolicy(db, tenantId);
+  assertValidPassword(newPassword, policy);
+  await assertNotReused(db, user, newPassword, policy.historyDepth);
+
+  const passwordHash = await hashPassword(newPassword);
+
+  return withTenantContext(tenantId, async (tx) => {
+    if (!(await claim(tx))) {
+      return false;
+    }
+
+    await tx.user.updateMany({
+      where: { tenantId, id: userId },
+      data: {
+        passwordHash,
+        passwordChangedAt: new Date(),
+        mustChangePassword: false,
+      },
+    });
+
+    if (policy.historyDepth > 0) {
+      await tx.passwordHistory.create({ data: { tenantId, userId, passwordHash } });
+    }
+
+    // Entries beyond the configured depth are no longer needed
+    const stale = await tx.passwordHistory.findMany({
+      where: { tenantId, userId },
+      orderBy: { createdAt: 'desc' },
+      skip: policy.historyDepth,
+      select: { id: true },
+    });
+    if (stale.length > 0) {
+      await tx.passwordHistory.deleteMany({ where: { tenantId, id: { in: stale.map((entry) => entry.id) } } });
+    }
+
+    return true;
+  });
+}
+
+// Authenticated change: the current password must be confirmed unless the
+// caller already verified it (the forced change at login)
+export async function changePassword(
+  tenantId: string,
+  userId: string,
+  newPassword: string,
+  currentPassword?: string
+): Promise<void> {
+  const user = await forTenant(tenantId).user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (currentPassword !== undefined) {
+    if (!user.passwordHash || !(await verifyPassword(currentPassword, user.passwordHash))) {
+      throw new Error('Current password is incorrect');
+    }
+  }
+
+  if (user.passwordHash && (await verifyPassword(newPassword, user.passwordHash))) {
+    throw new PasswordValidationError(['New password must be different from the current password']);
+  }
+
+  await setUserPassword(tenantId, userId, newPassword);
+}
+
+// Email a single-use reset link to every matching account. Callers always report
+// success so the response does not reveal whether the email is registered.
+export async function requestPasswordReset(
+  email: string,
+  hint: TenantHint,
+  { baseUrl, ipAddress }: { baseUrl: string; ipAddress?: string }
+): Promise<{ tenantId: string; userId: string }[]> {
+  const { users } = await findLoginUsers(email, hint);
+  const eligible = users.filter(
+    (user) => user.tenant.isActive && isPasswordLoginEnabled(user.tenant.settings)
+  );
+
+  for (const user of eligible) {
+    const db = forTenant(user.tenantId);
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    // Only the newest link stays valid
+    await db.passwordResetToken.deleteMany({ where: { userId: user.id, usedAt: null } });
+    await db.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashResetToken(token),
+        expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+        ipAddress,
+      },
+    });
+
+    const link = `${baseUrl}/auth/reset-password?token=${token}`;
+    await sendMail({
+      to: user.email,
+      subject: `Reset your ${user.tenant.name} password`,
+      text: [
+        `Hello${user.firstName ? ` ${user.firstName}` : ''},`,
+        '',
+        `Someone asked to reset the password for your ${user.tenant.name} account.`,
+        `Use this link within ${RESET_TOKEN_TTL_MINUTES} minutes to choose a new password:`,
+        '',
+        link,
+        '',
+        'If you did not ask for this, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  return eligible.map((user) => ({ tenantId: user.tenantId, userId: user.id }));
+}
+
+// Redeem a reset token: set the new password and sign out every session
+export async function resetPassword(
+  token: string,
+  newPassword: string
+): Promise<{ tenantId: string; userId: string; email: string }> {
+  const record = await withSystemContext((tx) =>
+    tx.passwordResetToken.findUnique({
+      where: { tokenHash: hashResetToken(token) },
+      include: { user: { include: { tenant: true } } },
+    })
+  );
+
+  if (
+    !record ||
+    record.usedAt ||
+    record.expiresAt < new Date() ||
+    !record.user.isActive ||
+    !record.user.tenant.isActive
+  ) {
+    throw new Error('Invalid or expired reset token');
+  }
+
+  const claimed = await claimAndSetUserPassword(record.tenantId, record.userId, newPassword, async (tx) => {
+    const { count } = await tx.passwordResetToken.updateMany({
+      where: { tenantId: record.tenantId, id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return count === 1;
+  });
+
+  if (!claimed) {
+    throw new Error('Invalid or expired reset token');
+  }
+
+  await revokeAllUserSessions(record.tenantId, record.userId, 'password_reset');
+
+  return { tenantId: record.tenantId, userId: record.userId, email: record.user.email };
+}
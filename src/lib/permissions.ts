@@ -0,0 +1,289 @@
+// Permissions - resources and actions that can be granted to a role, and the
+// validator for Role.permissions. No server imports, so the UI can share it.
+import { z } from 'zod';
+
+export const PERMISSION_RESOURCES = [
+  'accounts',
+  'contacts',
+  'leads',
+  'opportunities',
+  'activities',
+  'tasks',
+  'notes',
+  'reports',
+  'users',
+  'settings',
+] as const;
+
+export const PERMISSION_ACTIONS = ['read', 'write', 'delete', 'export'] as const;
+
+export type PermissionResource = (typeof PERMISSION_RESOURCES)[number];
+export type PermissionAction = (typeof PERMISSION_ACTIONS)[number];
+
+// Role.permissions: resource -> granted actions. '*' as a resource or action
+// grants everything (Super Admin is { '*': ['*'] }).
+//
+// Field rules use "<resource>.<field>" keys and restrict a single field below
+// the resource grant: ['read'] makes it read-only and [] hides it. Custom
+// fields are addressed as "<resource>.customFields.<fieldKey>".
+export type RolePermissions = Record<string, string[]>;
+
+const WILDCARD = '*';
+
+export const CUSTOM_FIELDS_KEY = 'customFields';
+
+// Standard fields that field rules may restrict, per record resource
+export const SECURABLE_FIELDS = {
+  accounts: [
+    'website',
+    'industry',
+    'revenue',
+    'employeeCount',
+    'phone',
+    'addressLine1',
+    'addressLine2',
+    'city',
+    'state',
+    'postalCode',
+    'country',
+  ],
+  contacts: ['email', 'phone', 'mobile', 'title', 'department', 'linkedinUrl', 'leadSource'],
+  leads: ['email', 'phone', 'company', 'title', 'source', 'rating'],
+  opportunities: ['amount', 'probability', 'expectedCloseDate', 'leadSource'],
+} as const;
+
+export type FieldSecuredResource = keyof typeof SECURABLE_FIELDS;
+export type FieldAccess = 'hidden' | 'read' | 'write';
+
+const FIELD_ACTIONS: readonly string[] = ['read', 'write'];
+const CUSTOM_FIELD_KEY_PATTERN = /^[A-Za-z0-9_]+$/;
+
+export function isFieldSecuredResource(resource: string): resource is FieldSecuredResource {
+  return Object.prototype.hasOwnProperty.call(SECURABLE_FIELDS, resource);
+}
+
+// CustomField.entityType ("account") to its permission resource ("accounts")
+export function customFieldResource(entityType: string): FieldSecuredResource | null {
+  const resource = `${entityType}s`;
+  return isFieldSecuredResource(resource) ? resource : null;
+}
+
+export function customFieldName(fieldKey: string): string {
+  return `${CUSTOM_FIELDS_KEY}.${fieldKey}`;
+}
+
+// Split "accounts.revenue" into its resource and field, or null for a resource key
+export function parseFieldRuleKey(key: string): { resource: string; field: string } | null {
+  const separator = key.indexOf('.');
+  return separator === -1 ? null : { resource: key.slice(0, separator), field: key.slice(separator + 1) };
+}
+
+function isSecurableField(resource: FieldSecuredResource, field: string): boolean {
+  if (field.startsWith(`${CUSTOM_FIELDS_KEY}.`)) {
+    return CUSTOM_FIELD_KEY_PATTERN.test(field.slice(CUSTOM_FIELDS_KEY.length + 1));
+  }
+  return (SECURABLE_FIELDS[resource] as readonly string[]).includes(field);
+}
+
+function validateFieldRule(key: string, actions: string[], ctx: z.RefinementCtx): void {
+  const rule = parseFieldRuleKey(key) as { resource: string; field: string };
+
+  if (!isFieldSecuredResource(rule.resource) || !isSecurableField(rule.resource, rule.field)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `Unknown field "${key}"` });
+    return;
+  }
+
+  actions.forEach((action, index) => {
+    if (!FIELD_ACTIONS.includes(action)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [key, index],
+        message: `Unknown field action "${action}"`,
+      });
+    }
+  });
+}
+
+export const permissionsSchema = z
+  .record(z.array(z.string()))
+  .superRefine((permissions, ctx) => {
+    for (const [resource, actions] of Object.entries(permissions)) {
+      if (parseFieldRuleKey(resource)) {
+        validateFieldRule(resource, actions, ctx);
+        continue;
+      }
+
+      if (resource !== WILDCARD && !(PERMISSION_RESOURCES as readonly string[]).includes(resource)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [resource],
+          message: `Unknown resource "${resource}"`,
+        });
+        continue;
+      }
+
+      actions.forEach((action, index) => {
+        if (action !== WILDCARD && !(PERMISSION_ACTIONS as readonly string[]).includes(action)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [resource, index],
+            message: `Unknown action "${action}"`,
+          });
+        }
+      });
+    }
+  })
+  // Drop empty entries and duplicate actions so stored permissions stay canonical;
+  // an empty field rule is kept because it hides the field
+  .transform((permissions) =>
+    Object.fromEntries(
+      Object.entries(permissions)
+        .filter(([resource, actions]) => actions.length > 0 || !!parseFieldRuleKey(resource))
+        .map(([resource, actions]) => [resource, [...new Set(actions)]])
+    )
+  );
+
+export const roleSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  permissions: permissionsSchema.default({}),
+  // Role this one reports to; managers see records owned by subordinate roles
+  parentRoleId: z.string().uuid().nullable().optional(),
+});
+
+// Super Admins hold { '*': ['*'] }
+export function isSuperAdmin(permissions: RolePermissions | null | undefined): boolean {
+  return !!permissions?.[WILDCARD]?.includes(WILDCARD);
+}
+
+// Whether `permissions` grants `action` on `resource`, honouring wildcards
+export function grants(permissions: RolePermissions | null | undefined, resource: string, action: string): boolean {
+  if (!permissions) return false;
+  if (isSuperAdmin(permissions)) return true;
+
+  const actions = [...(permissions[resource] || []), ...(permissions[WILDCARD] || [])];
+  return actions.includes(action) || (permissions[resource] || []).includes(WILDCARD);
+}
+
+// What the holder of `permissions` may do with one field of a resource: a
+// field rule can only narrow the resource grant, never widen it
+export function fieldAccess(
+  permissions: RolePermissions | null | undefined,
+  resource: string,
+  field: string
+): FieldAccess {
+  if (!grants(permissions, resource, 'read')) return 'hidden';
+
+  const canWrite = grants(permissions, resource, 'write');
+  const rule = permissions?.[`${resource}.${field}`];
+  if (!rule) return canWrite ? 'write' : 'read';
+
+  if (canWrite && rule.includes('write')) return 'write';
+  return rule.includes('read') || rule.includes('write') ? 'read' : 'hidden';
+}
+
+// Fields of a resource that carry a rule in `permissions`, by resulting access
+export function restrictedFields(
+  permissions: RolePermissions | null | undefined,
+  resource: string
+): { hidden: string[]; readOnly: string[] } {
+  const hidden: string[] = [];
+  const readOnly: string[] = [];
+
+  for (const key of Object.keys(permissions || {})) {
+    const rule = parseFieldRuleKey(key);
+    if (!rule || rule.resource !== resource) continue;
+
+    const access = fieldAccess(permissions, resource, rule.field);
+    if (access === 'hidden') hidden.push(rule.field);
+    if (access === 'read') readOnly.push(rule.field);
+  }
+
+  return { hidden, readOnly };
+}
+
+// Grants in `requested` that `holder` does not have, as "resource:action"
+export function ungrantedPermissions(
+  holder: RolePermissions | null | undefined,
+  requested: RolePermissions
+): string[] {
+  const missing: string[] = [];
+
+  for (const [resource, actions] of Object.entries(requested)) {
+    if (parseFieldRuleKey(resource)) continue;
+
+    const targets = resource === WILDCARD ? [...PERMISSION_RESOURCES] : [resource];
+    const expanded = actions.includes(WILDCARD) ? [...PERMISSION_ACTIONS] : actions;
+    for (const target of targets) {
+      for (const action of expanded) {
+        if (!grants(holder, target, action)) missing.push(`${target}:${action}`);
+      }
+    }
+  }
+
+  return [...new Set(missing)];
+}
+
+// What both permission sets grant; the field rules of either still apply
+export function intersectPermissions(
+  first: RolePermissions | null | undefined,
+  second: RolePermissions | null | undefined
+): RolePermissions {
+  const result: RolePermissions = {};
+
+  for (const resource of PERMISSION_RESOURCES) {
+    const actions = PERMISSION_ACTIONS.filter(
+      (action) => grants(first, resource, action) && grants(second, resource, action)
+    );
+    if (actions.length > 0) result[resource] = actions;
+  }
+
+  for (const permissions of [first, second]) {
+    for (const [key, actions] of Object.entries(permissions || {})) {
+      if (!parseFieldRuleKey(key)) continue;
+      result[key] = result[key] ? result[key].filter((action) => actions.includes(action)) : actions;
+    }
+  }
+
+  return result;
+}
+
+// Resources that control access itself; only users holding them may grant them
+const PRIVILEGED_RESOURCES: readonly string[] = ['users', 'settings'];
+
+// Privileged grants in `requested` that `granter` does not hold, so a role
+// editor cannot hand out more administrative access than they have
+export function excessPermissions(
+  granter: RolePermissions | null | undefined,
+  requested: RolePermissions
+): string[] {
+  const excess: string[] = [];
+
+  for (const [resource, actions] of Object.entries(requested)) {
+    if (resource !== WILDCARD && !PRIVILEGED_RESOURCES.includes(resource)) continue;
+
+    const targets = resource === WILDCARD ? [...PERMISSION_RESOURCES] : [resource];
+    const expanded = actions.includes(WILDCARD) ? [...PERMISSION_ACTIONS] : actions;
+    for (const target of targets) {
+      for (const action of expanded) {
+        if (!grants(granter, target, action)) excess.push(`${target}:${action}`);
+      }
+    }
+  }
+
+  return [...new Set(excess)];
+}
+
+// Whether `manager` may change or deactivate a user holding `target`: only a
+// Super Admin manages another Super Admin, and nobody manages a user whose
+// role has privileged grants the manager lacks
+export function canManageRoleHolder(
+  manager: RolePermissions | null | undefined,
+  target: RolePermissions | null | undefined
+): boolean {
+  if (isSuperAdmin(target)) {
+    return isSuperAdmin(manager);
+  }
+
+  return excessPermissions(manager, target || {}).length === 0;
+}
@@ -0,0 +1,265 @@
+// Request authentication - httpOnly auth cookies, Bearer tokens and CSRF protection
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getUserByToken,
+  verifyChallengeToken,
+  AuthenticationResult,
+  AuthTokens,
+  AuthUser,
+  REFRESH_TOKEN_TTL_DAYS,
+} from './auth';
+import { authenticateApiKey, isApiKey, API_KEY_BLOCKED } from './api-keys';
+import { clientIp } from './client-ip';
+import { createAuditLog } from './database';
+import { assertNotImpersonating } from './impersonation';
+
+export const ACCESS_TOKEN_COOKIE = 'auth_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+export const CSRF_TOKEN_COOKIE = 'csrf_token';
+export const CSRF_HEADER = 'x-csrf-token';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+export type TokenSource = 'cookie' | 'header';
+
+export function generateCsrfToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+// Set the session cookies after login or refresh. The CSRF cookie is readable by
+// scripts on purpose: clients echo it back in the x-csrf-token header.
+export function setAuthCookies(
+  response: NextResponse,
+  tokens: AuthTokens,
+  csrfToken: string = generateCsrfToken()
+): string {
+  const secure = process.env.NODE_ENV === 'production';
+  const maxAge = REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60;
+
+  response.cookies.set(ACCESS_TOKEN_COOKIE, tokens.token, {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    path: '/',
+  });
+
+  response.cookies.set(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'strict',
+    path: '/api/auth',
+    maxAge,
+  });
+
+  response.cookies.set(CSRF_TOKEN_COOKIE, csrfToken, {
+    httpOnly: false,
+    secure,
+    sameSite: 'lax',
+    path: '/',
+    maxAge,
+  });
+
+  return csrfToken;
+}
+
+export function clearAuthCookies(response: NextResponse): void {
+  response.cookies.set(ACCESS_TOKEN_COOKIE, '', { path: '/', maxAge: 0 });
+  response.cookies.set(REFRESH_TOKEN_COOKIE, '', { path: '/api/auth', maxAge: 0 });
+  response.cookies.set(CSRF_TOKEN_COOKIE, '', { path: '/', maxAge: 0 });
+}
+
+// Resolve the access token, preferring an explicit Bearer header over the cookie
+export function getRequestToken(
+  request: NextRequest
+): { token: string; source: TokenSource } | null {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return { token: authorization.slice('Bearer '.length), source: 'header' };
+  }
+
+  const cookie = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  if (cookie) {
+    return { token: cookie, source: 'cookie' };
+  }
+
+  return null;
+}
+
+// Double-submit check: the header must match the CSRF cookie
+export function isValidCsrfRequest(request: NextRequest): boolean {
+  if (SAFE_METHODS.includes(request.method)) {
+    return true;
+  }
+
+  const cookie = request.cookies.get(CSRF_TOKEN_COOKIE)?.value;
+  const header = request.headers.get(CSRF_HEADER);
+  if (!cookie || !header) {
+    return false;
+  }
+
+  const expected = Buffer.from(cookie);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// Authenticate an API request from either the auth cookie or a Bearer header
+// carrying a session JWT or an API key (crm_...). Cookie-authenticated
+// mutations must also pass the CSRF check.
+export async function authenticateRequest(request: NextRequest): Promise<AuthUser> {
+  const credentials = getRequestToken(request);
+  if (!credentials) {
+    throw new Error('Authentication required');
+  }
+
+  if (credentials.source === 'header' && isApiKey(credentials.token)) {
+    const user = await authenticateApiKey(credentials.token, clientIp(request.headers));
+    if (!user) {
+      throw new Error('Invalid token');
+    }
+    return user;
+  }
+
+  if (credentials.source === 'cookie' && !isValidCsrfRequest(request)) {
+    throw new Error('Invalid CSRF token');
+  }
+
+  const user = await getUserByToken(credentials.token);
+  if (!user) {
+    throw new Error('Invalid token');
+  }
+
+  return user;
+}
+
+// Guard for actions only the account holder, signed in with their own session,
+// may take: not while impersonating and not through an API key
+export function assertAccountHolder(user: AuthUser): void {
+  assertNotImpersonating(user);
+  if (user.apiKeyId) {
+    throw new Error(API_KEY_BLOCKED);
+  }
+}
+
+// Users completing a tenant-mandated MFA enrollment during login have no session
+// yet, only an enrollment challenge token; everyone else uses their own session
+// (not an impersonation session or an API key)
+export async function authenticateEnrollment(
+  request: NextRequest,
+  challengeToken?: string
+): Promise<{ userId: string; tenantId: string; viaChallenge: boolean }> {
+  if (challengeToken) {
+    const challenge = verifyChallengeToken(challengeToken, 'mfa_enroll');
+    return { userId: challenge.userId, tenantId: challenge.tenantId, viaChallenge: true };
+  }
+
+  const user = await authenticateRequest(request);
+  assertAccountHolder(user);
+  return { userId: user.id, tenantId: user.tenantId, viaChallenge: false };
+}
+
+// JSON body and session cookies for a completed login. The tokens travel only
+// in the httpOnly cookies, out of reach of page scripts
+export function loginResponse(
+  result: { user: AuthUser } & AuthTokens,
+  extra: Record<string, unknown> = {}
+): NextResponse {
+  const { user, token, refreshToken, expiresIn } = result;
+
+  const response = NextResponse.json({
+    success: true,
+    user: {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: user.role?.name,
+      permissions: user.role?.permissions,
+    },
+    expiresIn,
+    ...extra,
+  });
+
+  setAuthCookies(response, { token, refreshToken, expiresIn });
+
+  return response;
+}
+
+const CHALLENGE_AUDIT_ACTIONS = {
+  mfa_required: 'MFA_CHALLENGE_ISSUED',
+  mfa_enrollment_required: 'MFA_ENROLLMENT_REQUIRED',
+  password_change_required: 'PASSWORD_CHANGE_REQUIRED',
+};
+
+// Respond to a successful password check: finish the login, or hand the client
+// the challenge for the next step (MFA, password change or tenant selection)
+export async function authenticationResponse(
+  result: AuthenticationResult,
+  context: { ipAddress: string; userAgent: string; correlationId?: string },
+  extra: Record<string, unknown> = {}
+): Promise<NextResponse> {
+  switch (result.status) {
+    case 'tenant_inactive':
+      return NextResponse.json(
+        { error: 'This organization has been deactivated' },
+        { status: 403 }
+      );
+
+    case 'invalid_credentials':
+      return NextResponse.json(
+        { error: 'Invalid credentials' },
+        { status: 401 }
+      );
+
+    case 'password_login_disabled':
+      return NextResponse.json(
+        { error: 'Password sign-in is disabled for this organization. Use single sign-on.' },
+        { status: 403 }
+      );
+
+    case 'tenant_selection_required':
+      return NextResponse.json({
+        success: false,
+        status: result.status,
+        tenants: result.tenants,
+        challengeToken: result.challengeToken,
+      });
+
+    case 'mfa_required':
+    case 'mfa_enrollment_required':
+    case 'password_change_required':
+      // Credentials accepted but another step is needed before a session is issued
+      await createAuditLog({
+        tenantId: result.user.tenantId,
+        userId: result.user.id,
+        action: CHALLENGE_AUDIT_ACTIONS[result.status],
+        resourceType: 'user',
+        resourceId: result.user.id,
+        afterData: 'reason' in result ? { reason: result.reason } : undefined,
+        ...context,
+      });
+
+      return NextResponse.json({
+        success: false,
+        status: result.status,
+        ...('reason' in result ? { reason: result.reason } : {}),
+        challengeToken: result.challengeToken,
+        ...extra,
+      });
+
+    case 'authenticated':
+      // Log successful login
+      await createAuditLog({
+        tenantId: result.user.tenantId,
+        userId: result.user.id,
+        action: 'LOGIN_SUCCESS',
+        resourceType: 'user',
+        resourceId: result.user.id,
+        afterData: { method: 'password', sessionId: result.user.sessionId },
+        ...context,
+      });
+
+      // Return user data and tokens; browsers use the httpOnly cookies it sets
+      return loginResponse(result, extra);
+  }
+}
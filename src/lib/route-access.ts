@@ -0,0 +1,43 @@
+// Page access rules - the permission each admin or entity page needs. Shared by
+// the middleware (edge runtime) and the login page, so no server-only imports.
+import { grants, RolePermissions } from './permissions';
+
+export const LOGIN_PATH = '/auth/login';
+export const RETURN_URL_PARAM = 'returnUrl';
+export const FORBIDDEN_PATH = '/forbidden';
+
+// First matching prefix wins; protected pages not listed only need a session
+const PAGE_PERMISSIONS: { prefix: string; resource: string; action: string }[] = [
+  { prefix: '/settings/users', resource: 'users', action: 'read' },
+  { prefix: '/settings/roles', resource: 'settings', action: 'read' },
+  { prefix: '/settings/password-policy', resource: 'settings', action: 'read' },
+  { prefix: '/accounts', resource: 'accounts', action: 'read' },
+  { prefix: '/contacts', resource: 'contacts', action: 'read' },
+  { prefix: '/leads', resource: 'leads', action: 'read' },
+  { prefix: '/opportunities', resource: 'opportunities', action: 'read' },
+];
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+export function canAccessPage(permissions: RolePermissions | null | undefined, pathname: string): boolean {
+  const rule = PAGE_PERMISSIONS.find(({ prefix }) => matchesPrefix(pathname, prefix));
+  return !rule || grants(permissions, rule.resource, rule.action);
+}
+
+// Only same-origin paths are followed after login, never another host.
+// Browsers drop tabs and newlines from URLs, so "/\t/host" would become "//host".
+export function safeReturnUrl(value: string | null | undefined): string | null {
+  if (
+    !value ||
+    !value.startsWith('/') ||
+    value.startsWith('//') ||
+    value.startsWith('/\\') ||
+    /[\u0000-\u001f\u007f]/.test(value)
+  ) {
+    return null;
+  }
+
+  return value;
+}
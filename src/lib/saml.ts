@@ -0,0 +1,190 @@
+// SAML 2.0 service provider - per-tenant IdP configuration, ACS validation and replay protection
+import { CacheProvider, Profile, SAML, ValidateInResponseTo } from '@node-saml/node-saml';
+import { z } from 'zod';
+import { forTenant } from './database';
+import { getPublicBaseUrl, mapRoleName, SsoIdentity } from './sso';
+
+export const SAML_INTEGRATION_TYPE = 'saml';
+
+const CLOCK_SKEW_MS = parseInt(process.env.SAML_CLOCK_SKEW_MS || String(2 * 60 * 1000));
+const REQUEST_ID_TTL_MS = 10 * 60 * 1000;
+const ASSERTION_MAX_AGE_MS = 10 * 60 * 1000;
+
+// Optional SP key pair for signing AuthnRequests and decrypting encrypted assertions
+const SP_PRIVATE_KEY = process.env.SAML_SP_PRIVATE_KEY?.replace(/\\n/g, '\n');
+const SP_CERTIFICATE = process.env.SAML_SP_CERTIFICATE?.replace(/\\n/g, '\n');
+
+// Integration.config for a SAML identity provider
+export const samlConfigSchema = z.object({
+  entryPoint: z.string().url(),
+  idpIssuer: z.string().min(1),
+  // PEM certificates (or their base64 bodies); several during IdP key rollover
+  idpCert: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+  identifierFormat: z
+    .string()
+    .default('urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress'),
+  allowIdpInitiated: z.boolean().default(true),
+  wantAuthnResponseSigned: z.boolean().default(false),
+  // Assertion attribute names mapped onto User fields
+  attributes: z
+    .object({
+      email: z.string().default('email'),
+      firstName: z.string().default('firstName'),
+      lastName: z.string().default('lastName'),
+      role: z.string().default('role'),
+    })
+    .default({}),
+  roleMapping: z.record(z.string()).default({}),
+  defaultRole: z.string().default('Sales Rep'),
+  allowJitProvisioning: z.boolean().default(true),
+  syncRoleOnLogin: z.boolean().default(false),
+});
+
+export type SamlConfig = z.infer<typeof samlConfigSchema>;
+
+// Load the tenant's active SAML integration
+export async function getSamlConfig(tenantId: string): Promise<SamlConfig | null> {
+  const integration = await forTenant(tenantId).integration.findFirst({
+    where: { type: SAML_INTEGRATION_TYPE, isActive: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (!integration) {
+    return null;
+  }
+
+  const parsed = samlConfigSchema.safeParse(integration.config);
+  if (!parsed.success) {
+    throw new Error('Invalid SAML configuration');
+  }
+
+  return parsed.data;
+}
+
+export function getSamlEndpoints(origin: string, slug: string): { entityId: string; acsUrl: string } {
+  const base = `${getPublicBaseUrl(origin)}/api/auth/saml/${encodeURIComponent(slug)}`;
+  return { entityId: `${base}/metadata`, acsUrl: `${base}/acs` };
+}
+
+// Outstanding AuthnRequest IDs live in the database so any instance can
+// validate InResponseTo; each ID is removed once its response is accepted
+function requestCache(tenantId: string): CacheProvider {
+  const db = forTenant(tenantId);
+
+  return {
+    async saveAsync(key, value) {
+      await db.samlMessage.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+      const message = await db.samlMessage.create({
+        data: { kind: 'request', messageId: key, expiresAt: new Date(Date.now() + REQUEST_ID_TTL_MS) },
+      });
+      return { value, createdAt: message.createdAt.getTime() };
+    },
+    async getAsync(key) {
+      const message = await db.samlMessage.findFirst({
+        where: { kind: 'request', messageId: key, expiresAt: { gt: new Date() } },
+      });
+      return message ? message.createdAt.toISOString() : null;
+    },
+    async removeAsync(key) {
+      if (!key) return null;
+      const { count } = await db.samlMessage.deleteMany({ where: { kind: 'request', messageId: key } });
+      return count > 0 ? key : null;
+    },
+  };
+}
+
+export function createSamlClient(
+  tenantId: string,
+  config: SamlConfig,
+  endpoints: { entityId: string; acsUrl: string }
+): SAML {
+  return new SAML({
+    issuer: endpoints.entityId,
+    callbackUrl: endpoints.acsUrl,
+    audience: endpoints.entityId,
+    entryPoint: config.entryPoint,
+    idpIssuer: config.idpIssuer,
+    idpCert: config.idpCert,
+    identifierFormat: config.identifierFormat,
+    wantAssertionsSigned: true,
+    wantAuthnResponseSigned: config.wantAuthnResponseSigned,
+    acceptedClockSkewMs: CLOCK_SKEW_MS,
+    maxAssertionAgeMs: ASSERTION_MAX_AGE_MS,
+    // IdP-initiated responses have no InResponseTo; SP-initiated ones must match a request we sent
+    validateInResponseTo: config.allowIdpInitiated
+      ? ValidateInResponseTo.ifPresent
+      : ValidateInResponseTo.always,
+    requestIdExpirationPeriodMs: REQUEST_ID_TTL_MS,
+    cacheProvider: requestCache(tenantId),
+    privateKey: SP_PRIVATE_KEY,
+    decryptionPvk: SP_PRIVATE_KEY,
+    signatureAlgorithm: 'sha256',
+    disableRequestedAuthnContext: true,
+  });
+}
+
+export function generateSpMetadata(client: SAML): string {
+  return client.generateServiceProviderMetadata(
+    SP_PRIVATE_KEY && SP_CERTIFICATE ? SP_CERTIFICATE : null,
+    SP_CERTIFICATE || null
+  );
+}
+
+// Validate a POSTed SAMLResponse and record its assertion ID so it is accepted only once
+export async function validateSamlResponse(
+  tenantId: string,
+  client: SAML,
+  samlResponse: string
+): Promise<Profile> {
+  const { profile } = await client.validatePostResponseAsync({ SAMLResponse: samlResponse });
+  if (!profile) {
+    throw new Error('SAML response did not contain an assertion');
+  }
+
+  const assertion = profile.getAssertion?.() as { Assertion?: { $?: { ID?: string } } } | undefined;
+  const assertionId = assertion?.Assertion?.$?.ID;
+  if (!assertionId) {
+    throw new Error('SAML assertion has no ID');
+  }
+
+  try {
+    await forTenant(tenantId).samlMessage.create({
+      data: {
+        kind: 'assertion',
+        messageId: assertionId,
+        expiresAt: new Date(Date.now() + ASSERTION_MAX_AGE_MS + CLOCK_SKEW_MS),
+      },
+    });
+  } catch (error) {
+    if ((error as { code?: string }).code === 'P2002') {
+      throw new Error('SAML assertion replay detected');
+    }
+    throw error;
+  }
+
+  return profile;
+}
+
+function attributeValue(profile: Profile, name: string): string | undefined {
+  const value = profile[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' && first ? first : undefined;
+}
+
+// Map assertion attributes onto an SSO identity; the NameID is the stable subject.
+// The assertion is signed, so the IdP vouches for the email address it carries.
+export function samlIdentity(config: SamlConfig, profile: Profile): SsoIdentity {
+  const email =
+    attributeValue(profile, config.attributes.email) ||
+    profile.email ||
+    (profile.nameIDFormat?.endsWith(':emailAddress') ? profile.nameID : undefined);
+
+  return {
+    subject: profile.nameID,
+    email,
+    emailVerified: !!email,
+    firstName: attributeValue(profile, config.attributes.firstName) || null,
+    lastName: attributeValue(profile, config.attributes.lastName) || null,
+    roleName: mapRoleName(config.roleMapping, profile[config.attributes.role], config.defaultRole),
+  };
+}
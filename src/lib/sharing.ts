@@ -0,0 +1,186 @@
+// Record sharing - org-wide defaults, ownership, role hierarchy and explicit
+// shares, turned into Prisma where clauses for record queries
+import { z } from 'zod';
+import type { TenantPrismaClient } from './database';
+import { isSuperAdmin, RolePermissions } from './permissions';
+
+export const SHARING_ENTITIES = ['accounts', 'contacts', 'leads', 'opportunities'] as const;
+export const SHARING_LEVELS = ['private', 'read', 'read_write'] as const;
+export const SHARE_ACCESS_LEVELS = ['read', 'read_write'] as const;
+
+export type SharingEntity = (typeof SHARING_ENTITIES)[number];
+export type SharingLevel = (typeof SHARING_LEVELS)[number];
+export type RecordAccess = 'read' | 'write';
+
+// Org-wide defaults, stored in Tenant.settings.sharing: what users may do with
+// records they neither own, inherit through the role hierarchy, nor were shared
+export const sharingSettingsSchema = z.object({
+  accounts: z.enum(SHARING_LEVELS),
+  contacts: z.enum(SHARING_LEVELS),
+  leads: z.enum(SHARING_LEVELS),
+  opportunities: z.enum(SHARING_LEVELS),
+});
+
+export type SharingSettings = z.infer<typeof sharingSettingsSchema>;
+
+// Everything is visible tenant-wide until an admin tightens a default
+export const DEFAULT_SHARING_SETTINGS: SharingSettings = {
+  accounts: 'read_write',
+  contacts: 'read_write',
+  leads: 'read_write',
+  opportunities: 'read_write',
+};
+
+// The user a query runs for (an AuthUser satisfies this)
+export interface SharingViewer {
+  id: string;
+  tenantId: string;
+  roleId: string | null;
+  role: { permissions: unknown } | null;
+}
+
+// Prisma where clause for one model; kept loose so it fits every shared entity
+export type RecordFilter = Record<string, unknown>;
+
+export function getSharingSettings(tenantSettings: unknown): SharingSettings {
+  const stored = (tenantSettings as { sharing?: Partial<SharingSettings> } | null)?.sharing;
+  const parsed = sharingSettingsSchema.safeParse({ ...DEFAULT_SHARING_SETTINGS, ...stored });
+
+  return parsed.success ? parsed.data : DEFAULT_SHARING_SETTINGS;
+}
+
+export function isSharingEntity(entity: string): entity is SharingEntity {
+  return (SHARING_ENTITIES as readonly string[]).includes(entity);
+}
+
+// Roles below the given one in the hierarchy, at any depth
+export async function getSubordinateRoleIds(db: TenantPrismaClient, roleId: string): Promise<string[]> {
+  const roles = await db.role.findMany({ select: { id: true, parentRoleId: true } });
+  const children = new Map<string, string[]>();
+
+  for (const role of roles) {
+    if (!role.parentRoleId) continue;
+    children.set(role.parentRoleId, [...(children.get(role.parentRoleId) || []), role.id]);
+  }
+
+  const subordinates = new Set<string>();
+  const queue = [...(children.get(roleId) || [])];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    if (subordinates.has(id) || id === roleId) continue;
+    subordinates.add(id);
+    queue.push(...(children.get(id) || []));
+  }
+
+  return [...subordinates];
+}
+
+// A role may report to any existing role except itself or one of its own
+// subordinates, which would create a cycle
+export async function isValidParentRole(
+  db: TenantPrismaClient,
+  roleId: string | null,
+  parentRoleId: string
+): Promise<boolean> {
+  if (parentRoleId === roleId || !(await db.role.findUnique({ where: { id: parentRoleId } }))) {
+    return false;
+  }
+
+  return !roleId || !(await getSubordinateRoleIds(db, roleId)).includes(parentRoleId);
+}
+
+// Records of this entity shared with the viewer directly or through a team
+async function getSharedRecordIds(
+  db: TenantPrismaClient,
+  viewer: SharingViewer,
+  entity: SharingEntity,
+  access: RecordAccess
+): Promise<string[]> {
+  const memberships = await db.teamMember.findMany({
+    where: { userId: viewer.id },
+    select: { teamId: true },
+  });
+
+  const shares = await db.recordShare.findMany({
+    where: {
+      entityType: entity,
+      OR: [
+        { userId: viewer.id },
+        { teamId: { in: memberships.map((membership) => membership.teamId) } },
+      ],
+      ...(access === 'write' ? { accessLevel: 'read_write' } : {}),
+    },
+    select: { recordId: true },
+  });
+
+  return [...new Set<string>(shares.map((share) => share.recordId))];
+}
+
+// Where clause limiting `entity` to the records the viewer may read or write,
+// or null when the org-wide default already grants that access to everyone.
+// Combine it with the query's own conditions through AND.
+export async function recordAccessFilter(
+  db: TenantPrismaClient,
+  viewer: SharingViewer,
+  entity: SharingEntity,
+  access: RecordAccess = 'read'
+): Promise<RecordFilter | null> {
+  // Super admins are not subject to sharing rules
+  if (isSuperAdmin(viewer.role?.permissions as RolePermissions | undefined)) {
+    return null;
+  }
+
+  const tenant = await db.tenant.findUnique({ where: { id: viewer.tenantId } });
+  const level = getSharingSettings(tenant?.settings)[entity];
+
+  if (level === 'read_write' || (level === 'read' && access === 'read')) {
+    return null;
+  }
+
+  const subordinateRoleIds = viewer.roleId ? await getSubordinateRoleIds(db, viewer.roleId) : [];
+  const sharedRecordIds = await getSharedRecordIds(db, viewer, entity, access);
+
+  const conditions: RecordFilter[] = [{ ownerId: viewer.id }];
+  if (subordinateRoleIds.length > 0) {
+    conditions.push({ owner: { is: { roleId: { in: subordinateRoleIds } } } });
+  }
+  if (sharedRecordIds.length > 0) {
+    conditions.push({ id: { in: sharedRecordIds } });
+  }
+
+  return { OR: conditions };
+}
+
+interface RecordDelegate {
+  findFirst(args: { where: RecordFilter; select: { id: true } }): Promise<{ id: string } | null>;
+}
+
+function recordDelegate(db: TenantPrismaClient, entity: SharingEntity): RecordDelegate {
+  switch (entity) {
+    case 'accounts':
+      return db.account as unknown as RecordDelegate;
+    case 'contacts':
+      return db.contact as unknown as RecordDelegate;
+    case 'leads':
+      return db.lead as unknown as RecordDelegate;
+    case 'opportunities':
+      return db.opportunity as unknown as RecordDelegate;
+  }
+}
+
+// Whether the viewer may read or write one record (false if it does not exist)
+export async function canAccessRecord(
+  db: TenantPrismaClient,
+  viewer: SharingViewer,
+  entity: SharingEntity,
+  recordId: string,
+  access: RecordAccess = 'read'
+): Promise<boolean> {
+  const filter = await recordAccessFilter(db, viewer, entity, access);
+  const record = await recordDelegate(db, entity).findFirst({
+    where: filter ? { AND: [{ id: recordId }, filter] } : { id: recordId },
+    select: { id: true },
+  });
+
+  return !!record;
+}
@@ -0,0 +1,211 @@
+// JWT signing keys - asymmetric (ES256/RS256) keys identified by `kid`, so keys
+// can be rotated while tokens signed with the previous key stay valid
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { z } from 'zod';
+
+export const SIGNING_ALGORITHMS = ['ES256', 'RS256'] as const;
+export type SigningAlgorithm = (typeof SIGNING_ALGORITHMS)[number];
+
+export const DEFAULT_KEYS_FILE = '.keys/jwt-signing-keys.json';
+
+// How long a loaded key set is reused before the file is read again, so a
+// rotation reaches running servers without a restart
+const KEYSET_RELOAD_MS = 60 * 1000;
+
+// A key set holds every key tokens may be verified with. The newest key whose
+// activatesAt has passed signs new tokens; a key can be added ahead of time so
+// it is published in the JWKS before anything is signed with it.
+const keySetSchema = z.object({
+  keys: z.array(
+    z.object({
+      kid: z.string().min(1),
+      alg: z.enum(SIGNING_ALGORITHMS),
+      privateKey: z.string().min(1),
+      createdAt: z.string().datetime(),
+      activatesAt: z.string().datetime(),
+    })
+  ),
+});
+
+export type KeySet = z.infer<typeof keySetSchema>;
+export type StoredSigningKey = KeySet['keys'][number];
+
+interface LoadedKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+  activatesAt: Date;
+}
+
+declare global {
+  var devSigningKeySet: KeySet | undefined;
+}
+
+let cached: { keys: LoadedKey[]; loadedAt: number } | null = null;
+
+export function keySetFilePath(): string {
+  return path.resolve(process.env.JWT_SIGNING_KEYS_FILE || DEFAULT_KEYS_FILE);
+}
+
+export function generateSigningKey(alg: SigningAlgorithm, activatesAt: Date = new Date()): StoredSigningKey {
+  const { privateKey } =
+    alg === 'ES256'
+      ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  const now = new Date();
+  return {
+    kid: `${now.toISOString().slice(0, 10).replace(/-/g, '')}-${crypto.randomBytes(4).toString('hex')}`,
+    alg,
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    createdAt: now.toISOString(),
+    activatesAt: activatesAt.toISOString(),
+  };
+}
+
+// Add a new key and drop the oldest ones beyond `keep`. Keep enough keys that
+// tokens signed just before a rotation can still be verified until they expire.
+export function rotateKeySet(
+  keySet: KeySet,
+  options: { alg: SigningAlgorithm; activatesAt?: Date; keep: number }
+): { keySet: KeySet; added: StoredSigningKey; removed: StoredSigningKey[] } {
+  const added = generateSigningKey(options.alg, options.activatesAt);
+  const keys = [added, ...keySet.keys].sort((a, b) => b.activatesAt.localeCompare(a.activatesAt));
+
+  return {
+    keySet: { keys: keys.slice(0, Math.max(options.keep, 1)) },
+    added,
+    removed: keys.slice(Math.max(options.keep, 1)),
+  };
+}
+
+export function readKeySetFile(file: string = keySetFilePath()): KeySet | null {
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+
+  return keySetSchema.parse(JSON.parse(fs.readFileSync(file, 'utf8')));
+}
+
+export function writeKeySetFile(keySet: KeySet, file: string = keySetFilePath()): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(file, `${JSON.stringify(keySet, null, 2)}\n`, { mode: 0o600 });
+}
+
+// JWT_SIGNING_KEYS (the key set JSON itself, e.g. from a secret manager) wins
+// over the key set file
+function readConfiguredKeySet(): KeySet | null {
+  if (process.env.JWT_SIGNING_KEYS) {
+    return keySetSchema.parse(JSON.parse(process.env.JWT_SIGNING_KEYS));
+  }
+
+  return readKeySetFile();
+}
+
+// Outside production a missing key set is replaced by a throwaway key, kept on
+// globalThis so hot reloads don't sign everyone out
+function developmentKeySet(): KeySet {
+  if (!globalThis.devSigningKeySet) {
+    console.warn(
+      `No JWT signing keys configured; using a temporary key. Run "npm run jwt:rotate" to create ${DEFAULT_KEYS_FILE}.`
+    );
+    globalThis.devSigningKeySet = { keys: [generateSigningKey('ES256')] };
+  }
+
+  return globalThis.devSigningKeySet;
+}
+
+function loadKeys(): LoadedKey[] {
+  if (cached && Date.now() - cached.loadedAt < KEYSET_RELOAD_MS) {
+    return cached.keys;
+  }
+
+  let keySet = readConfiguredKeySet();
+  if (!keySet || keySet.keys.length === 0) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('JWT signing keys are not configured');
+    }
+    keySet = developmentKeySet();
+  }
+
+  const keys = keySet.keys.map((key) => {
+    const privateKey = crypto.createPrivateKey(key.privateKey);
+    return {
+      kid: key.kid,
+      alg: key.alg,
+      privateKey,
+      publicKey: crypto.createPublicKey(privateKey),
+      activatesAt: new Date(key.activatesAt),
+    };
+  });
+
+  cached = { keys, loadedAt: Date.now() };
+  return keys;
+}
+
+function currentSigningKey(): LoadedKey {
+  const keys = loadKeys();
+  const now = Date.now();
+  const active = keys
+    .filter((key) => key.activatesAt.getTime() <= now)
+    .sort((a, b) => b.activatesAt.getTime() - a.activatesAt.getTime())[0];
+
+  if (!active) {
+    throw new Error('No active JWT signing key');
+  }
+
+  return active;
+}
+
+// Called at server startup: production refuses to run without usable keys
+export function assertSigningKeysConfigured(): void {
+  if (process.env.NODE_ENV !== 'production') {
+    return;
+  }
+
+  const keySet = readConfiguredKeySet();
+  if (!keySet || keySet.keys.length === 0) {
+    throw new Error(
+      `JWT signing keys are not configured. Set JWT_SIGNING_KEYS or create ${keySetFilePath()} with "npm run jwt:rotate".`
+    );
+  }
+
+  currentSigningKey();
+}
+
+export function signJwt(payload: object, expiresIn: string): string {
+  const key = currentSigningKey();
+  return jwt.sign(payload, key.privateKey, {
+    algorithm: key.alg,
+    keyid: key.kid,
+    expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
+  });
+}
+
+// Verify against the key named by the token's kid; tokens without a known kid
+// (including ones signed by a removed key) are rejected
+export function verifyJwt<T>(token: string): T {
+  const decoded = jwt.decode(token, { complete: true });
+  const key = loadKeys().find((candidate) => candidate.kid === decoded?.header.kid);
+  if (!key) {
+    throw new Error('Unknown signing key');
+  }
+
+  return jwt.verify(token, key.publicKey, { algorithms: [key.alg] }) as T;
+}
+
+// Public keys for /.well-known/jwks.json
+export function getJwks(): { keys: Record<string, unknown>[] } {
+  return {
+    keys: loadKeys().map((key) => ({
+      ...key.publicKey.export({ format: 'jwk' }),
+      kid: key.kid,
+      alg: key.alg,
+      use: 'sig',
+    })),
+  };
+}
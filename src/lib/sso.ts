@@ -0,0 +1,199 @@
+// Single sign-on - identity provisioning and session hand-off shared by OIDC and SAML
+import { NextRequest, NextResponse } from 'next/server';
+import { completeLogin } from './auth';
+import { createAuditLog, forTenant, withSystemContext } from './database';
+import { setAuthCookies } from './request-auth';
+import { safeReturnUrl } from './route-access';
+import type { RequestContext } from './with-auth';
+
+// A user identity asserted by a verified IdP response
+export interface SsoIdentity {
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  firstName?: string | null;
+  lastName?: string | null;
+  avatarUrl?: string | null;
+  roleName: string;
+}
+
+export interface SsoProvisioningOptions {
+  allowJitProvisioning: boolean;
+  syncRoleOnLogin: boolean;
+  requireVerifiedEmail: boolean;
+}
+
+export type SsoProvisioningResult = {
+  userId: string;
+  outcome: 'existing' | 'linked' | 'provisioned';
+};
+
+// Map IdP role/group values to a CRM role name; the first mapped value wins
+export function mapRoleName(
+  roleMapping: Record<string, string>,
+  raw: unknown,
+  defaultRole: string
+): string {
+  const values = Array.isArray(raw) ? raw : raw === undefined || raw === null ? [] : [raw];
+
+  for (const value of values) {
+    const roleName = roleMapping[String(value)];
+    if (roleName) return roleName;
+  }
+
+  return defaultRole;
+}
+
+// Find the user for a verified identity: by subject, then by email (linking the
+// account), then create it just in time if the tenant allows it
+export async function provisionSsoUser(
+  tenantId: string,
+  identity: SsoIdentity,
+  options: SsoProvisioningOptions
+): Promise<SsoProvisioningResult> {
+  const db = forTenant(tenantId);
+  const role = await db.role.findFirst({ where: { name: identity.roleName } });
+
+  const bySubject = await db.user.findFirst({ where: { ssoId: identity.subject } });
+  if (bySubject) {
+    if (!bySubject.isActive || bySubject.isServiceAccount) {
+      throw new Error('User account is disabled');
+    }
+
+    if (options.syncRoleOnLogin && role && bySubject.roleId !== role.id) {
+      await db.user.update({ where: { id: bySubject.id }, data: { roleId: role.id } });
+    }
+
+    return { userId: bySubject.id, outcome: 'existing' };
+  }
+
+  if (!identity.email) {
+    throw new Error('Identity provider did not supply an email address');
+  }
+
+  // Linking or creating by email is only safe when the IdP vouches for the address
+  if (options.requireVerifiedEmail && !identity.emailVerified) {
+    throw new Error('Email address is not verified by the identity provider');
+  }
+
+  const email = identity.email.toLowerCase();
+  const byEmail = await db.user.findFirst({
+    where: { email: { equals: email, mode: 'insensitive' } },
+  });
+
+  if (byEmail) {
+    if (!byEmail.isActive || byEmail.isServiceAccount) {
+      throw new Error('User account is disabled');
+    }
+
+    await db.user.update({
+      where: { id: byEmail.id },
+      data: {
+        ssoId: identity.subject,
+        ...(options.syncRoleOnLogin && role ? { roleId: role.id } : {}),
+      },
+    });
+
+    return { userId: byEmail.id, outcome: 'linked' };
+  }
+
+  if (!options.allowJitProvisioning) {
+    throw new Error('No account exists for this identity');
+  }
+
+  const user = await db.user.create({
+    data: {
+      email,
+      ssoId: identity.subject,
+      firstName: identity.firstName || null,
+      lastName: identity.lastName || null,
+      avatarUrl: identity.avatarUrl || null,
+      roleId: role?.id,
+    },
+  });
+
+  return { userId: user.id, outcome: 'provisioned' };
+}
+
+// Resolve an active tenant by its login slug for the SSO entry points
+export async function findSsoTenant(
+  slug: string
+): Promise<{ id: string; name: string; slug: string | null } | null> {
+  return withSystemContext((tx) =>
+    tx.tenant.findFirst({
+      where: { slug, isActive: true },
+      select: { id: true, name: true, slug: true },
+    })
+  );
+}
+
+// Public base URL for IdP-facing endpoints; APP_URL wins over the request origin behind proxies
+export function getPublicBaseUrl(origin: string): string {
+  return process.env.APP_URL || origin;
+}
+
+// Only same-site relative paths are accepted as post-login destinations
+export function sanitizeReturnTo(returnTo: string | null | undefined): string {
+  return safeReturnUrl(returnTo) || '/dashboard';
+}
+
+// Failures go back to the login page; details stay in the server log
+export function ssoFailureRedirect(request: NextRequest, slug: string, reason: string): NextResponse {
+  const url = new URL('/auth/login', request.nextUrl.origin);
+  url.searchParams.set('tenant', slug);
+  url.searchParams.set('error', reason);
+
+  return NextResponse.redirect(url, 303);
+}
+
+// Issue a session for a provisioned SSO user through the regular token flow
+// and redirect back into the app. The IdP is responsible for any second factor.
+export async function ssoLoginRedirect(
+  request: NextRequest,
+  context: RequestContext,
+  {
+    tenantId,
+    provisioning,
+    method,
+    details,
+    returnTo,
+  }: {
+    tenantId: string;
+    provisioning: SsoProvisioningResult;
+    method: 'oidc' | 'saml';
+    details: Record<string, unknown>;
+    returnTo: string;
+  }
+): Promise<NextResponse> {
+  const { userId, outcome } = provisioning;
+
+  if (outcome !== 'existing') {
+    await createAuditLog({
+      tenantId,
+      userId,
+      action: outcome === 'provisioned' ? 'SSO_USER_PROVISIONED' : 'SSO_USER_LINKED',
+      resourceType: 'user',
+      resourceId: userId,
+      afterData: { provider: method, ...details },
+      ...context,
+    });
+  }
+
+  const result = await completeLogin(tenantId, userId, context);
+
+  await createAuditLog({
+    tenantId,
+    userId,
+    action: 'LOGIN_SUCCESS',
+    resourceType: 'user',
+    resourceId: userId,
+    afterData: { method, sessionId: result.user.sessionId },
+    ...context,
+  });
+
+  // 303 so a POSTed SAML response turns into a GET of the app page
+  const response = NextResponse.redirect(new URL(returnTo, request.nextUrl.origin), 303);
+  setAuthCookies(response, result);
+
+  return response;
+}
@@ -0,0 +1,417 @@
+// Tenant isolation - Prisma client extension that scopes every query to one tenant
+import { Prisma } from '@prisma/client';
+
+// Query arguments are rewritten generically across every model
+type QueryArgs = Record<string, unknown>;
+
+const TENANT_FIELD = 'tenantId';
+const TENANT_MODEL = 'Tenant';
+
+export class TenantIsolationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TenantIsolationError';
+  }
+}
+
+interface RelationMeta {
+  model: string;
+  isList: boolean;
+  // Scalar foreign key holding the relation (ownerId for owner) and the field it references
+  foreignKey?: string;
+  references?: string;
+}
+
+// Tenant-owned models and their relations, derived from the Prisma datamodel so
+// new models with a tenantId column are covered without further changes
+const TENANT_MODELS = new Set<string>();
+const RELATIONS: Record<string, Record<string, RelationMeta>> = {};
+
+for (const model of Prisma.dmmf.datamodel.models) {
+  if (model.fields.some((field: { name: string }) => field.name === TENANT_FIELD)) {
+    TENANT_MODELS.add(model.name);
+  }
+}
+
+for (const model of Prisma.dmmf.datamodel.models) {
+  RELATIONS[model.name] = {};
+  for (const field of model.fields) {
+    if (field.kind === 'object') {
+      const single = field.relationFromFields?.length === 1 && field.relationToFields?.length === 1;
+      RELATIONS[model.name][field.name] = {
+        model: field.type,
+        isList: field.isList,
+        ...(single ? { foreignKey: field.relationFromFields![0], references: field.relationToFields![0] } : {}),
+      };
+    }
+  }
+}
+
+export function isTenantModel(model: string): boolean {
+  return TENANT_MODELS.has(model);
+}
+
+function asArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function asArgs(value: unknown): QueryArgs {
+  return value && typeof value === 'object' ? (value as QueryArgs) : {};
+}
+
+function mapMaybeArray(value: unknown, fn: (item: QueryArgs) => unknown): unknown {
+  return Array.isArray(value) ? value.map((item) => fn(asArgs(item))) : fn(asArgs(value));
+}
+
+function assertSameTenant(value: unknown, tenantId: string): void {
+  if (value !== undefined && value !== tenantId) {
+    throw new TenantIsolationError('Query references a different tenant');
+  }
+}
+
+// Add the tenant condition to a where clause (also valid for unique where inputs)
+function scopeWhere(model: string, where: unknown, tenantId: string): unknown {
+  const args = where as QueryArgs | undefined;
+
+  if (model === TENANT_MODEL) {
+    assertSameTenant(args?.id, tenantId);
+    return { ...args, id: tenantId };
+  }
+
+  if (!isTenantModel(model)) return where;
+
+  assertSameTenant(args?.[TENANT_FIELD], tenantId);
+  return { ...args, [TENANT_FIELD]: tenantId };
+}
+
+// Scope relation reads in include/select, including filtered _count selections
+function scopeSelection(model: string, selection: unknown, tenantId: string): unknown {
+  if (!selection || typeof selection !== 'object') return selection;
+
+  const relations = RELATIONS[model] || {};
+  const scoped: QueryArgs = {};
+
+  for (const [key, value] of Object.entries(selection)) {
+    if (key === '_count' && value && typeof value === 'object') {
+      const countArgs = asArgs(value);
+      scoped._count = {
+        ...countArgs,
+        select: countArgs.select
+          ? scopeCountSelect(model, countArgs.select, tenantId)
+          : countArgs.select,
+      };
+      continue;
+    }
+
+    const relation = relations[key];
+    if (!relation || value === false) {
+      scoped[key] = value;
+      continue;
+    }
+
+    scoped[key] = scopeRelationRead(relation, value, tenantId);
+  }
+
+  return scoped;
+}
+
+function scopeCountSelect(model: string, select: unknown, tenantId: string): QueryArgs {
+  const relations = RELATIONS[model] || {};
+  const scoped: QueryArgs = {};
+
+  for (const [key, value] of Object.entries(asArgs(select))) {
+    const relation = relations[key];
+    if (!relation || !isTenantModel(relation.model) || value === false) {
+      scoped[key] = value;
+      continue;
+    }
+
+    const countArgs = asArgs(value);
+    scoped[key] = { ...countArgs, where: scopeWhere(relation.model, countArgs.where, tenantId) };
+  }
+
+  return scoped;
+}
+
+function scopeRelationRead(relation: RelationMeta, value: unknown, tenantId: string): unknown {
+  const args: QueryArgs = { ...asArgs(value) };
+
+  // Only list relations accept a where filter; to-one relations follow their
+  // foreign key, which is checked against the tenant on every write
+  if (relation.isList && isTenantModel(relation.model)) {
+    args.where = scopeWhere(relation.model, args.where, tenantId);
+  } else if (value === true) {
+    return true;
+  }
+
+  if (args.include) args.include = scopeSelection(relation.model, args.include, tenantId);
+  if (args.select) args.select = scopeSelection(relation.model, args.select, tenantId);
+
+  return args;
+}
+
+// Scope create or update data, recursing into nested writes on relations
+function scopeData(
+  model: string,
+  data: unknown,
+  mode: 'create' | 'update',
+  tenantId: string
+): unknown {
+  if (!data || typeof data !== 'object') return data;
+
+  const relations = RELATIONS[model] || {};
+  const scoped: QueryArgs = { ...(data as QueryArgs) };
+
+  if (isTenantModel(model)) {
+    assertSameTenant(scoped[TENANT_FIELD], tenantId);
+    if (mode === 'create') scoped[TENANT_FIELD] = tenantId;
+  }
+
+  for (const [key, value] of Object.entries(data)) {
+    const relation = relations[key];
+    if (!relation || !value || typeof value !== 'object') continue;
+
+    if (relation.model === TENANT_MODEL) {
+      throw new TenantIsolationError('Nested writes to the tenant relation are not allowed');
+    }
+
+    scoped[key] = scopeNestedWrite(relation, value, tenantId);
+  }
+
+  return scoped;
+}
+
+function scopeNestedWrite(relation: RelationMeta, write: object, tenantId: string): QueryArgs {
+  const target = relation.model;
+  const where = (value: unknown) => scopeWhere(target, value, tenantId);
+  const scoped: QueryArgs = { ...write };
+
+  for (const [operation, value] of Object.entries(write)) {
+    switch (operation) {
+      case 'create':
+        scoped.create = mapMaybeArray(value, (item) => scopeData(target, item, 'create', tenantId));
+        break;
+      case 'createMany':
+        scoped.createMany = {
+          ...asArgs(value),
+          data: asArray(asArgs(value).data).map((item) => scopeData(target, item, 'create', tenantId)),
+        };
+        break;
+      case 'connect':
+      case 'set':
+        scoped[operation] = mapMaybeArray(value, where);
+        break;
+      case 'connectOrCreate':
+        scoped.connectOrCreate = mapMaybeArray(value, (item) => ({
+          ...item,
+          where: where(item.where),
+          create: scopeData(target, item.create, 'create', tenantId),
+        }));
+        break;
+      case 'upsert':
+        scoped.upsert = mapMaybeArray(value, (item) => ({
+          ...item,
+          ...(item.where ? { where: where(item.where) } : {}),
+          create: scopeData(target, item.create, 'create', tenantId),
+          update: scopeData(target, item.update, 'update', tenantId),
+        }));
+        break;
+      case 'update':
+        scoped.update = mapMaybeArray(value, (item) =>
+          relation.isList || 'data' in item
+            ? {
+                ...item,
+                ...(item.where ? { where: where(item.where) } : {}),
+                data: scopeData(target, item.data, 'update', tenantId),
+              }
+            : scopeData(target, item, 'update', tenantId)
+        );
+        break;
+      case 'updateMany':
+        scoped.updateMany = mapMaybeArray(value, (item) => ({
+          ...item,
+          where: where(item.where),
+          data: scopeData(target, item.data, 'update', tenantId),
+        }));
+        break;
+      case 'delete':
+      case 'disconnect':
+      case 'deleteMany':
+        scoped[operation] = typeof value === 'boolean' ? value : mapMaybeArray(value, where);
+        break;
+    }
+  }
+
+  return scoped;
+}
+
+// Rewrite the arguments of a single model operation so it can only touch one tenant
+export function scopeTenantArgs(
+  model: string,
+  operation: string,
+  args: QueryArgs,
+  tenantId: string
+): QueryArgs {
+  if (!tenantId) {
+    throw new TenantIsolationError('A tenant ID is required for tenant-scoped queries');
+  }
+
+  if (!isTenantModel(model) && model !== TENANT_MODEL) {
+    return args;
+  }
+
+  const scoped: QueryArgs = { ...args };
+
+  switch (operation) {
+    case 'create':
+      if (model === TENANT_MODEL) {
+        throw new TenantIsolationError('Tenants cannot be created from a tenant-scoped client');
+      }
+      scoped.data = scopeData(model, args.data, 'create', tenantId);
+      break;
+    case 'createMany':
+    case 'createManyAndReturn':
+      if (model === TENANT_MODEL) {
+        throw new TenantIsolationError('Tenants cannot be created from a tenant-scoped client');
+      }
+      scoped.data = asArray(args.data).map((item) => scopeData(model, item, 'create', tenantId));
+      break;
+    case 'update':
+    case 'updateMany':
+      scoped.where = scopeWhere(model, args.where, tenantId);
+      scoped.data = scopeData(model, args.data, 'update', tenantId);
+      break;
+    case 'upsert':
+      scoped.where = scopeWhere(model, args.where, tenantId);
+      scoped.create = scopeData(model, args.create, 'create', tenantId);
+      scoped.update = scopeData(model, args.update, 'update', tenantId);
+      break;
+    case 'delete':
+    case 'deleteMany':
+      if (model === TENANT_MODEL) {
+        throw new TenantIsolationError('Tenants cannot be deleted from a tenant-scoped client');
+      }
+      scoped.where = scopeWhere(model, args.where, tenantId);
+      break;
+    case 'findUnique':
+    case 'findUniqueOrThrow':
+    case 'findFirst':
+    case 'findFirstOrThrow':
+    case 'findMany':
+    case 'count':
+    case 'aggregate':
+    case 'groupBy':
+      scoped.where = scopeWhere(model, args.where, tenantId);
+      break;
+    default:
+      throw new TenantIsolationError(`Operation ${operation} is not supported on a tenant-scoped client`);
+  }
+
+  if (scoped.include) scoped.include = scopeSelection(model, scoped.include, tenantId);
+  if (scoped.select) scoped.select = scopeSelection(model, scoped.select, tenantId);
+
+  return scoped;
+}
+
+// Referenced values by "<model>.<field>", e.g. "User.id"
+type References = Map<string, Set<string>>;
+
+function addReference(references: References, relation: RelationMeta, value: unknown): void {
+  const id = typeof value === 'string' ? value : asArgs(value).set;
+  if (typeof id !== 'string') return;
+
+  const key = `${relation.model}.${relation.references}`;
+  if (!references.has(key)) references.set(key, new Set());
+  references.get(key)!.add(id);
+}
+
+function collectDataReferences(model: string, data: unknown, references: References): void {
+  if (!data || typeof data !== 'object') return;
+
+  for (const [key, relation] of Object.entries(RELATIONS[model] || {})) {
+    if (relation.foreignKey && isTenantModel(relation.model)) {
+      addReference(references, relation, (data as QueryArgs)[relation.foreignKey]);
+    }
+
+    const value = (data as QueryArgs)[key];
+    if (!value || typeof value !== 'object') continue;
+
+    const write = value as QueryArgs;
+    const nested = (item: unknown) => collectDataReferences(relation.model, item, references);
+    const each = (items: unknown, fn: (item: QueryArgs) => void) => {
+      if (items !== undefined) mapMaybeArray(items, fn);
+    };
+
+    each(write.create, nested);
+    if (write.createMany) asArray(asArgs(write.createMany).data).forEach(nested);
+    each(write.connectOrCreate, (item) => nested(item.create));
+    each(write.upsert, (item) => {
+      nested(item.create);
+      nested(item.update);
+    });
+    each(write.update, (item) => nested('data' in item ? item.data : item));
+    each(write.updateMany, (item) => nested(item.data));
+  }
+}
+
+// Scalar foreign keys a write sets (an account's ownerId, a team member's
+// userId), by the model field they point to. Postgres checks foreign keys without
+// row-level security, so each one must be verified to belong to the tenant.
+export function tenantReferences(model: string, operation: string, args: QueryArgs): References {
+  const references: References = new Map();
+
+  switch (operation) {
+    case 'create':
+    case 'update':
+    case 'updateMany':
+      collectDataReferences(model, args.data, references);
+      break;
+    case 'createMany':
+    case 'createManyAndReturn':
+      asArray(args.data).forEach((item) => collectDataReferences(model, item, references));
+      break;
+    case 'upsert':
+      collectDataReferences(model, args.create, references);
+      collectDataReferences(model, args.update, references);
+      break;
+  }
+
+  return references;
+}
+
+interface CountDelegate {
+  count(args: { where: QueryArgs }): Promise<number>;
+}
+
+async function assertTenantReferences(client: unknown, references: References, tenantId: string): Promise<void> {
+  for (const [key, ids] of references) {
+    const [model, field] = key.split('.');
+    const delegate = (client as Record<string, CountDelegate>)[model.charAt(0).toLowerCase() + model.slice(1)];
+
+    const found = await delegate.count({ where: { [field]: { in: [...ids] }, [TENANT_FIELD]: tenantId } });
+    if (found !== ids.size) {
+      throw new TenantIsolationError('Query references a record of a different tenant');
+    }
+  }
+}
+
+// Prisma client extension binding every model query to the given tenant.
+// Raw queries ($queryRaw, $executeRaw) are not rewritten. Foreign keys are
+// looked up through the client being extended, so it must already carry the
+// tenant's row-level security context.
+export function tenantIsolation(tenantId: string) {
+  return Prisma.defineExtension((client) =>
+    client.$extends({
+      name: 'tenant-isolation',
+      query: {
+        $allModels: {
+          async $allOperations({ model, operation, args, query }) {
+            const scoped = scopeTenantArgs(model, operation, asArgs(args), tenantId);
+            await assertTenantReferences(client, tenantReferences(model, operation, scoped), tenantId);
+            return query(scoped as typeof args);
+          },
+        },
+      },
+    })
+  );
+}
@@ -0,0 +1,195 @@
+// User administration - invitations, deactivation and record reassignment
+import crypto from 'crypto';
+import { revokeAllUserSessions } from './auth';
+import { forTenant, withSystemContext, withTenantContext } from './database';
+import { sendMail } from './mail';
+import { claimAndSetUserPassword } from './passwords';
+
+const INVITATION_TTL_HOURS = parseInt(process.env.USER_INVITATION_TTL_HOURS || '72');
+
+// Tasks in these states are left with their original assignee on deactivation
+const CLOSED_TASK_STATUSES = ['completed', 'cancelled'];
+
+export type UserStatus = 'active' | 'invited' | 'deactivated';
+
+export interface ReassignmentCounts {
+  accounts: number;
+  contacts: number;
+  leads: number;
+  opportunities: number;
+  tasks: number;
+}
+
+function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Invited users have no way to sign in until they accept the invitation.
+// Service accounts never sign in; they are active until deactivated.
+export function getUserStatus(user: {
+  isActive: boolean;
+  passwordHash: string | null;
+  ssoId: string | null;
+  isServiceAccount?: boolean;
+}): UserStatus {
+  if (!user.isActive) return 'deactivated';
+  return user.passwordHash || user.ssoId || user.isServiceAccount ? 'active' : 'invited';
+}
+
+// Email a new invitation link; earlier links for the user stop working
+export async function sendInvitation(
+  tenantId: string,
+  userId: string,
+  { baseUrl, invitedById }: { baseUrl: string; invitedById?: string }
+): Promise<{ expiresAt: Date }> {
+  const db = forTenant(tenantId);
+  const user = await db.user.findUnique({ where: { id: userId }, include: { tenant: true } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const inviter = invitedById ? await db.user.findUnique({ where: { id: invitedById } }) : null;
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_HOURS * 60 * 60 * 1000);
+
+  await db.userInvitation.deleteMany({ where: { userId, acceptedAt: null } });
+  await db.userInvitation.create({
+    data: { userId, tokenHash: hashInvitationToken(token), invitedById, expiresAt },
+  });
+
+  const inviterName = [inviter?.firstName, inviter?.lastName].filter(Boolean).join(' ');
+  await sendMail({
+    to: user.email,
+    subject: `You have been invited to ${user.tenant.name}`,
+    text: [
+      `Hello${user.firstName ? ` ${user.firstName}` : ''},`,
+      '',
+      `${inviterName || 'An administrator'} invited you to join ${user.tenant.name}.`,
+      `Use this link within ${INVITATION_TTL_HOURS} hours to choose a password and sign in:`,
+      '',
+      `${baseUrl}/auth/accept-invitation?token=${token}`,
+    ].join('\n'),
+  });
+
+  return { expiresAt };
+}
+
+// Create the user without a password and send the invitation
+export async function inviteUser(
+  tenantId: string,
+  data: { email: string; firstName?: string; lastName?: string; roleId?: string | null; timezone?: string },
+  options: { baseUrl: string; invitedById?: string }
+) {
+  const user = await forTenant(tenantId).user.create({
+    data: {
+      email: data.email.trim().toLowerCase(),
+      firstName: data.firstName,
+      lastName: data.lastName,
+      roleId: data.roleId ?? null,
+      timezone: data.timezone || 'UTC',
+      isActive: true,
+    },
+  });
+
+  const { expiresAt } = await sendInvitation(tenantId, user.id, options);
+  return { user, expiresAt };
+}
+
+// Create a non-interactive user that authenticates only with API keys. Its
+// address is unique but undeliverable, so no password reset can reach it.
+export async function createServiceAccount(tenantId: string, data: { name: string; roleId: string | null }) {
+  const slug = data.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'service';
+
+  return forTenant(tenantId).user.create({
+    data: {
+      email: `svc-${slug}-${crypto.randomBytes(4).toString('hex')}@service.invalid`,
+      firstName: data.name,
+      roleId: data.roleId,
+      isServiceAccount: true,
+      isActive: true,
+    },
+  });
+}
+
+// Redeem an invitation: set the user's first password
+export async function acceptInvitation(
+  token: string,
+  password: string
+): Promise<{ tenantId: string; userId: string; email: string }> {
+  const invitation = await withSystemContext((tx) =>
+    tx.userInvitation.findUnique({
+      where: { tokenHash: hashInvitationToken(token) },
+      include: { user: { include: { tenant: true } } },
+    })
+  );
+
+  if (
+    !invitation ||
+    invitation.acceptedAt ||
+    invitation.expiresAt < new Date() ||
+    !invitation.user.isActive ||
+    !invitation.user.tenant.isActive
+  ) {
+    throw new Error('Invalid or expired invitation');
+  }
+
+  const accepted = await claimAndSetUserPassword(invitation.tenantId, invitation.userId, password, async (tx) => {
+    const { count } = await tx.userInvitation.updateMany({
+      where: { tenantId: invitation.tenantId, id: invitation.id, acceptedAt: null },
+      data: { acceptedAt: new Date() },
+    });
+    return count === 1;
+  });
+
+  if (!accepted) {
+    throw new Error('Invalid or expired invitation');
+  }
+
+  return { tenantId: invitation.tenantId, userId: invitation.userId, email: invitation.user.email };
+}
+
+// Deactivate a user: their owned records and open tasks move to `reassignToId`
+// in one transaction, then every session is revoked
+export async function deactivateUser(
+  tenantId: string,
+  userId: string,
+  reassignToId: string
+): Promise<{ reassigned: ReassignmentCounts; sessionsRevoked: number }> {
+  const reassigned = await withTenantContext(tenantId, async (tx) => {
+    const owned = { tenantId, ownerId: userId };
+    const reassign = { ownerId: reassignToId };
+
+    const accounts = await tx.account.updateMany({ where: owned, data: reassign });
+    const contacts = await tx.contact.updateMany({ where: owned, data: reassign });
+    const leads = await tx.lead.updateMany({ where: owned, data: reassign });
+    const opportunities = await tx.opportunity.updateMany({ where: owned, data: reassign });
+    const tasks = await tx.task.updateMany({
+      where: { tenantId, assignedTo: userId, status: { notIn: CLOSED_TASK_STATUSES } },
+      data: { assignedTo: reassignToId },
+    });
+
+    await tx.userInvitation.deleteMany({ where: { tenantId, userId, acceptedAt: null } });
+    await tx.apiKey.updateMany({ where: { tenantId, userId, revokedAt: null }, data: { revokedAt: new Date() } });
+    await tx.user.updateMany({ where: { tenantId, id: userId }, data: { isActive: false } });
+
+    return {
+      accounts: accounts.count,
+      contacts: contacts.count,
+      leads: leads.count,
+      opportunities: opportunities.count,
+      tasks: tasks.count,
+    };
+  });
+
+  const sessionsRevoked = await revokeAllUserSessions(tenantId, userId, 'deactivated');
+  return { reassigned, sessionsRevoked };
+}
@@ -0,0 +1,172 @@
+// Route authorization - handler wrappers that authenticate the caller, enforce
+// role permissions and map errors to consistent JSON responses
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { API_KEY_BLOCKED } from './api-keys';
+import { hasPermission, AuthUser } from './auth';
+import { clientIp } from './client-ip';
+import { createAuditLog } from './database';
+import { FieldPermissionError } from './field-security';
+import { IMPERSONATION_BLOCKED } from './impersonation';
+import { authenticateRequest } from './request-auth';
+import { TenantIsolationError } from './tenant-isolation';
+
+export const CORRELATION_ID_HEADER = 'x-correlation-id';
+
+// Incoming IDs are reused so a request can be traced across services
+const CORRELATION_ID_PATTERN = /^[A-Za-z0-9._:-]{1,64}$/;
+
+// Request metadata for audit logging; spread it into createAuditLog
+export interface RequestContext {
+  ipAddress: string;
+  userAgent: string;
+  correlationId: string;
+  // Real user behind an impersonation session
+  impersonatorId?: string;
+}
+
+export interface RoutePermission {
+  resource: string;
+  action: string;
+}
+
+type RouteParams = Record<string, string | string[]>;
+
+// Second argument Next.js passes to route handlers
+interface RouteSegment<P extends RouteParams> {
+  params: Promise<P>;
+}
+
+type RouteHandler<P extends RouteParams> = (
+  request: NextRequest,
+  segment: RouteSegment<P>
+) => Promise<Response>;
+
+export function getRequestContext(request: NextRequest): RequestContext {
+  const incoming = request.headers.get(CORRELATION_ID_HEADER) || request.headers.get('x-request-id');
+
+  return {
+    ipAddress: clientIp(request.headers) || 'unknown',
+    userAgent: request.headers.get('user-agent') || 'unknown',
+    correlationId: incoming && CORRELATION_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID(),
+  };
+}
+
+// Errors shared by every route; anything else is logged and reported as a 500
+function errorResponse(error: unknown): NextResponse {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Validation failed', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof FieldPermissionError) {
+    return NextResponse.json({ error: error.message, details: error.fields }, { status: 403 });
+  }
+
+  if (error instanceof TenantIsolationError) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  if (
+    error instanceof Error &&
+    ['Invalid CSRF token', 'Insufficient permissions', IMPERSONATION_BLOCKED, API_KEY_BLOCKED].includes(
+      error.message
+    )
+  ) {
+    return NextResponse.json({ error: error.message }, { status: 403 });
+  }
+
+  if (
+    error instanceof Error &&
+    ['Authentication required', 'Invalid token', 'Invalid or expired challenge'].includes(error.message)
+  ) {
+    return NextResponse.json({ error: error.message }, { status: 401 });
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+function withCorrelationId(response: Response, correlationId: string): Response {
+  try {
+    response.headers.set(CORRELATION_ID_HEADER, correlationId);
+  } catch {
+    // Responses from Response.redirect() have immutable headers
+  }
+  return response;
+}
+
+// Wrapper for routes that run before a session exists (login, password reset,
+// challenge steps): request context and error mapping, no authentication
+export function withRequestContext<P extends RouteParams = RouteParams>(
+  handler: (
+    request: NextRequest,
+    route: { context: RequestContext; params: P }
+  ) => Promise<Response>
+): RouteHandler<P> {
+  return async (request, segment) => {
+    const context = getRequestContext(request);
+
+    try {
+      const params = (await segment?.params) ?? ({} as P);
+      return withCorrelationId(await handler(request, { context, params }), context.correlationId);
+    } catch (error) {
+      const response = errorResponse(error);
+      if (response.status >= 500) {
+        console.error(`${request.method} ${request.nextUrl.pathname} error [${context.correlationId}]:`, error);
+      }
+      return withCorrelationId(response, context.correlationId);
+    }
+  };
+}
+
+// Wrapper for session-authenticated routes. The caller must hold the given
+// permission, if any; handlers receive the user and the request context.
+// Requests made while impersonating are audited under both users.
+//
+//   export const POST = withAuth({ resource: 'accounts', action: 'write' }, async (request, { user }) => ...)
+export function withAuth<P extends RouteParams = RouteParams>(
+  permission: RoutePermission | null,
+  handler: (
+    request: NextRequest,
+    route: { user: AuthUser; context: RequestContext; params: P }
+  ) => Promise<Response>
+): RouteHandler<P> {
+  return withRequestContext<P>(async (request, { context, params }) => {
+    const user = await authenticateRequest(request);
+
+    const run = async (routeContext: RequestContext): Promise<Response> => {
+      if (permission && !hasPermission(user.role?.permissions, permission.resource, permission.action)) {
+        return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+      }
+
+      return handler(request, { user, context: routeContext, params });
+    };
+
+    if (!user.impersonator) {
+      return run(context);
+    }
+
+    const impersonationContext = { ...context, impersonatorId: user.impersonator.id };
+    let status: number | 'error' = 'error';
+    try {
+      const response = await run(impersonationContext);
+      status = response.status;
+      return response;
+    } finally {
+      await createAuditLog({
+        tenantId: user.tenantId,
+        userId: user.id,
+        action: 'IMPERSONATED_REQUEST',
+        resourceType: 'request',
+        afterData: { method: request.method, path: request.nextUrl.pathname, status },
+        ...impersonationContext,
+      });
+    }
+  });
+}
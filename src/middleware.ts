@@ -0,0 +1,51 @@
+// Page protection - every dashboard, entity and settings page needs a valid
+// session before any of it renders; admin pages also need their permission
+import { NextRequest, NextResponse } from 'next/server';
+import { canAccessPage, FORBIDDEN_PATH, LOGIN_PATH, RETURN_URL_PARAM } from '@/lib/route-access';
+
+const ACCESS_TOKEN_COOKIE = 'auth_token';
+
+// The edge runtime cannot reach the database, so the session (including
+// revocation) is checked by the API the pages themselves use
+async function fetchSessionUser(request: NextRequest): Promise<{ permissions?: Record<string, string[]> } | null> {
+  try {
+    const response = await fetch(new URL('/api/auth/me', request.nextUrl.origin), {
+      headers: { cookie: request.headers.get('cookie') || '' },
+      cache: 'no-store',
+    });
+
+    return response.ok ? (await response.json()).user : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  const user = request.cookies.has(ACCESS_TOKEN_COOKIE) ? await fetchSessionUser(request) : null;
+  if (!user) {
+    const loginUrl = new URL(LOGIN_PATH, request.url);
+    loginUrl.searchParams.set(RETURN_URL_PARAM, `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (!canAccessPage(user.permissions, pathname)) {
+    return NextResponse.rewrite(new URL(FORBIDDEN_PATH, request.url), { status: 403 });
+  }
+
+  return NextResponse.next();
+}
+
+// Dashboard, entity, import and settings pages (Next requires a static literal here)
+export const config = {
+  matcher: [
+    '/dashboard/:path*',
+    '/accounts/:path*',
+    '/contacts/:path*',
+    '/leads/:path*',
+    '/opportunities/:path*',
+    '/imports/:path*',
+    '/settings/:path*',
+  ],
+};